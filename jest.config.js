@@ -9,6 +9,9 @@ module.exports = {
   transform: {
     '^.+\\.ts$': 'ts-jest',
   },
+  moduleNameMapper: {
+    '^@(core|agents|git|tasks|communication|analysis|integrations|api|cli|storage|utils)/(.*)$': '<rootDir>/src/$1/$2',
+  },
   collectCoverageFrom: [
     'src/**/*.ts',
     '!src/**/*.d.ts',
@@ -0,0 +1,306 @@
+/* MADO dashboard: polls the REST API and follows the live event stream. */
+(function () {
+  'use strict';
+
+  var TASK_COLUMNS = ['pending', 'blocked', 'assigned', 'in_progress', 'review', 'completed', 'failed', 'cancelled'];
+  var TERMINAL = ['completed', 'failed', 'cancelled'];
+  var RESTARTABLE = ['active', 'busy', 'error'];
+  var FEED_LIMIT = 200;
+  var KEY_STORAGE = 'mado.apiKey';
+
+  var settings = { refreshInterval: 5000, authentication: false, streamPath: null };
+  var apiKey = sessionStorage.getItem(KEY_STORAGE) || '';
+  var socket = null;
+  var refreshTimer = null;
+  var pendingRefresh = null;
+
+  function $(id) {
+    return document.getElementById(id);
+  }
+
+  // Builds elements from text only, so API data is never parsed as HTML
+  function el(tag, attributes, children) {
+    var node = document.createElement(tag);
+    Object.keys(attributes || {}).forEach(function (name) {
+      if (name === 'onclick') {
+        node.addEventListener('click', attributes[name]);
+      } else if (attributes[name] !== undefined && attributes[name] !== false) {
+        node.setAttribute(name, attributes[name] === true ? '' : attributes[name]);
+      }
+    });
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === 'string' || typeof child === 'number' ? document.createTextNode(String(child)) : child);
+    });
+    return node;
+  }
+
+  function replace(container, nodes) {
+    container.replaceChildren.apply(container, nodes);
+  }
+
+  function formatTime(value) {
+    return value ? new Date(value).toLocaleTimeString() : '–';
+  }
+
+  function percent(value) {
+    return typeof value === 'number' ? Math.round(value) + '%' : '–';
+  }
+
+  function AuthError() {}
+
+  function api(path, options) {
+    var init = options || {};
+    init.headers = Object.assign({ 'Content-Type': 'application/json' }, init.headers || {});
+    if (apiKey) {
+      init.headers['X-API-Key'] = apiKey;
+    }
+
+    return fetch(path, init).then(function (response) {
+      if (response.status === 401) {
+        throw new AuthError();
+      }
+      return response.json().then(function (body) {
+        if (!response.ok) {
+          throw new Error(body.error || response.statusText);
+        }
+        return body;
+      });
+    });
+  }
+
+  function showLogin(message) {
+    $('login').hidden = false;
+    $('content').hidden = true;
+    $('login-error').textContent = message || '';
+    $('system-status').textContent = 'API key required';
+  }
+
+  function renderStatus(status) {
+    var health = status.systemHealth;
+    var tasks = status.taskStatistics;
+    $('system-status').textContent =
+      health.healthyAgents + '/' + health.totalAgents + ' agents healthy · ' +
+      (tasks.in_progress || 0) + ' tasks running · ' +
+      (tasks.pending || 0) + ' pending';
+  }
+
+  function renderAgents(agents, health) {
+    replace($('agents'), agents.map(function (agent) {
+      var h = health[agent.id] || {};
+      var restart = el('button', {
+        disabled: RESTARTABLE.indexOf(agent.status) === -1,
+        onclick: function () {
+          act('/api/agents/' + encodeURIComponent(agent.id) + '/restart', 'Restart ' + agent.id + '?');
+        }
+      }, ['Restart']);
+
+      return el('tr', {}, [
+        el('td', { title: agent.id }, [agent.name]),
+        el('td', {}, [agent.role]),
+        el('td', { class: 'status-' + agent.status }, [agent.status]),
+        el('td', {}, [percent(h.cpu)]),
+        el('td', {}, [percent(h.memory)]),
+        el('td', {}, [typeof h.responseTime === 'number' ? h.responseTime + ' ms' : '–']),
+        el('td', {}, [percent(typeof h.errorRate === 'number' ? h.errorRate * 100 : undefined)]),
+        el('td', {}, [agent.metrics ? agent.metrics.tasksCompleted : 0]),
+        el('td', {}, [restart])
+      ]);
+    }));
+  }
+
+  function renderTasks(tasks) {
+    replace($('task-board'), TASK_COLUMNS.map(function (status) {
+      var cards = tasks.filter(function (task) { return task.status === status; }).map(function (task) {
+        var children = [
+          el('div', {}, [task.title]),
+          el('div', { class: 'meta' }, [task.type + ' · ' + task.priority + (task.assignedAgent ? ' · ' + task.assignedAgent : '')])
+        ];
+        if (TERMINAL.indexOf(task.status) === -1) {
+          children.push(el('button', {
+            onclick: function () {
+              act('/api/tasks/' + encodeURIComponent(task.id) + '/cancel', 'Cancel "' + task.title + '"?', { reason: 'Cancelled from the dashboard' });
+            }
+          }, ['Cancel']));
+        }
+        return el('div', { class: 'card', title: task.id }, children);
+      });
+
+      return el('div', { class: 'column' }, [el('h3', {}, [status.replace('_', ' ') + ' (' + cards.length + ')'])].concat(cards));
+    }));
+  }
+
+  function renderWorktrees(worktrees) {
+    replace($('worktrees'), worktrees.map(function (worktree) {
+      return el('tr', {}, [
+        el('td', {}, [worktree.agentId]),
+        el('td', {}, [worktree.branch]),
+        el('td', { class: 'status-' + worktree.status }, [worktree.status]),
+        el('td', {}, [formatTime(worktree.lastActivity)])
+      ]);
+    }));
+  }
+
+  function renderCommits(commits) {
+    replace($('commits'), commits.map(function (commit) {
+      var score = commit.quality ? commit.quality.score : null;
+      var quality = el('td', {
+        class: score === null ? '' : score >= 80 ? 'status-completed' : score >= 50 ? 'status-review' : 'status-failed',
+        title: commit.quality ? commit.quality.issues.join('\n') : ''
+      }, [score === null ? '–' : String(score)]);
+
+      return el('tr', {}, [
+        el('td', {}, [commit.hash.substring(0, 7)]),
+        el('td', {}, [commit.author]),
+        el('td', { class: 'wrap' }, [commit.message]),
+        quality
+      ]);
+    }));
+  }
+
+  function describeEvent(event) {
+    var data = event.data || (event.metadata && event.metadata.data) || {};
+    var subject = event.taskId || event.agentId || event.repository || '';
+    var detail = data.reason || data.error || data.message || '';
+    return formatTime(event.timestamp) + '  ' + event.type + (subject ? '  ' + subject : '') + (detail ? '  ' + detail : '');
+  }
+
+  function appendEvents(events, replaceFeed) {
+    var feed = $('events');
+    var items = events.map(function (event) {
+      return el('li', { class: event.type.indexOf('error') !== -1 || event.type.indexOf('failed') !== -1 ? 'error' : '' }, [describeEvent(event)]);
+    });
+
+    if (replaceFeed) {
+      replace(feed, []);
+    }
+    items.forEach(function (item) { feed.insertBefore(item, feed.firstChild); });
+    while (feed.children.length > FEED_LIMIT) {
+      feed.removeChild(feed.lastChild);
+    }
+  }
+
+  function act(path, question, body) {
+    if (!window.confirm(question)) {
+      return;
+    }
+    api(path, { method: 'POST', body: JSON.stringify(body || {}) })
+      .then(refresh)
+      .catch(function (error) {
+        if (error instanceof AuthError) {
+          showLogin('Your API key was rejected');
+        } else {
+          window.alert(error.message);
+        }
+      });
+  }
+
+  function refresh() {
+    return Promise.all([
+      api('/api/status'),
+      api('/api/agents'),
+      api('/api/tasks?limit=1000'),
+      api('/api/worktrees'),
+      api('/api/git/commits?limit=20').catch(function () { return { commits: [] }; }),
+      socket ? null : api('/api/events?limit=50')
+    ]).then(function (results) {
+      $('login').hidden = true;
+      $('content').hidden = false;
+      renderStatus(results[0]);
+      renderAgents(results[1].agents, results[0].systemHealth.agentHealth);
+      renderTasks(results[2].tasks);
+      renderWorktrees(results[3].worktrees);
+      renderCommits(results[4].commits);
+      if (results[5]) {
+        appendEvents(results[5].events, true);
+      }
+    }).catch(function (error) {
+      if (error instanceof AuthError) {
+        showLogin(apiKey ? 'Your API key was rejected' : '');
+      } else {
+        $('system-status').textContent = 'Refresh failed: ' + error.message;
+      }
+    });
+  }
+
+  // Events arrive in bursts; refresh once per burst rather than per event
+  function scheduleRefresh() {
+    if (!pendingRefresh) {
+      pendingRefresh = setTimeout(function () {
+        pendingRefresh = null;
+        refresh();
+      }, 500);
+    }
+  }
+
+  function connectStream() {
+    if (!settings.streamPath || !window.io || socket || (settings.authentication && !apiKey)) {
+      return;
+    }
+
+    socket = window.io({ path: settings.streamPath, auth: { apiKey: apiKey || undefined, history: 50 } });
+    socket.on('connect', function () {
+      $('stream-status').textContent = 'live';
+      $('stream-status').className = 'badge live';
+    });
+    socket.on('disconnect', function () {
+      $('stream-status').textContent = 'offline';
+      $('stream-status').className = 'badge';
+    });
+    socket.on('connect_error', function (error) {
+      $('stream-status').textContent = error.message;
+      $('stream-status').className = 'badge';
+    });
+    socket.on('history', function (events) {
+      appendEvents(events, true);
+    });
+    socket.on('events', function (batch, ack) {
+      appendEvents(batch.events, false);
+      if (batch.dropped > 0) {
+        appendEvents([{ type: 'stream:dropped', timestamp: new Date(), data: { message: batch.dropped + ' events skipped' } }], false);
+      }
+      if (typeof ack === 'function') {
+        ack();
+      }
+      scheduleRefresh();
+    });
+  }
+
+  function loadStreamClient() {
+    if (!settings.streamPath) {
+      return;
+    }
+    var script = el('script', { src: settings.streamPath + '/socket.io.js' });
+    script.addEventListener('load', connectStream);
+    document.body.appendChild(script);
+  }
+
+  function startPolling() {
+    clearInterval(refreshTimer);
+    refreshTimer = setInterval(refresh, settings.refreshInterval);
+    return refresh();
+  }
+
+  $('login').addEventListener('submit', function (event) {
+    event.preventDefault();
+    apiKey = $('api-key').value.trim();
+    sessionStorage.setItem(KEY_STORAGE, apiKey);
+    if (socket) {
+      socket.disconnect();
+      socket = null;
+    }
+    startPolling().then(connectStream);
+  });
+
+  fetch('settings.json')
+    .then(function (response) { return response.json(); })
+    .then(function (loaded) {
+      settings = loaded;
+      if (settings.authentication && !apiKey) {
+        showLogin();
+        return;
+      }
+      startPolling();
+    })
+    .catch(function () { startPolling(); })
+    .then(loadStreamClient);
+})();
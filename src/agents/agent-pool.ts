@@ -0,0 +1,92 @@
+import { AgentConfig, AgentRole } from '../types/agent.types';
+import { AgentPoolEntry } from '../types/config.types';
+
+export const ROLE_NAMES: Record<AgentRole, string> = {
+  [AgentRole.ORCHESTRATOR]: 'Orchestrator',
+  [AgentRole.FRONTEND]: 'Frontend Developer',
+  [AgentRole.BACKEND]: 'Backend Developer',
+  [AgentRole.DEVOPS]: 'DevOps Engineer',
+  [AgentRole.QA]: 'Quality Assurance',
+  [AgentRole.FULL_STACK]: 'Full Stack Developer'
+};
+
+export const DEFAULT_ID_TEMPLATE = '{role}-{n}';
+
+// Settings every agent shares, taken from the rest of the configuration
+export interface AgentPoolDefaults {
+  workingDirectory: string;
+  taskTimeout: number;
+  healthCheckInterval: number;
+  model?: string;
+}
+
+/**
+ * The pool equivalent of agents.defaultRoles: one agent per listed role,
+ * with default settings.
+ */
+export function poolFromRoles(roles: AgentRole[]): AgentPoolEntry[] {
+  return roles.map(role => ({
+    id: DEFAULT_ID_TEMPLATE,
+    role,
+    count: 1,
+    capabilities: [],
+    maxConcurrentTasks: 2
+  }));
+}
+
+/**
+ * Turns pool entries into one AgentConfig per agent. `{n}` counts agents
+ * sharing an id template and role, so two entries for the same role number
+ * their agents backend-001, backend-002, backend-003 rather than colliding.
+ */
+export function expandAgentPool(pool: AgentPoolEntry[], defaults: AgentPoolDefaults): AgentConfig[] {
+  const counters = new Map<string, number>();
+  const configs: AgentConfig[] = [];
+  const ids = new Set<string>();
+
+  for (const entry of pool) {
+    const idTemplate = entry.id || DEFAULT_ID_TEMPLATE;
+    const counterKey = `${entry.role}:${idTemplate}`;
+
+    for (let i = 0; i < entry.count; i++) {
+      const index = (counters.get(counterKey) || 0) + 1;
+      counters.set(counterKey, index);
+
+      const config = createAgentConfig(entry, index, defaults);
+      if (ids.has(config.id)) {
+        throw new Error(`agents.pool defines agent "${config.id}" more than once; add {n} to its id template`);
+      }
+      ids.add(config.id);
+
+      configs.push(config);
+    }
+  }
+
+  return configs;
+}
+
+// The index-th agent (1-based) described by a pool entry
+export function createAgentConfig(entry: AgentPoolEntry, index: number, defaults: AgentPoolDefaults): AgentConfig {
+  return {
+    id: fillTemplate(entry.id || DEFAULT_ID_TEMPLATE, entry.role, index),
+    name: entry.name
+      ? fillTemplate(entry.name, entry.role, index)
+      : index > 1 ? `${ROLE_NAMES[entry.role]} ${index}` : ROLE_NAMES[entry.role],
+    role: entry.role,
+    workingDirectory: defaults.workingDirectory,
+    // Each agent gets its own copy; agents add their default capabilities to it
+    capabilities: entry.capabilities.map(capability => ({ ...capability })),
+    maxConcurrentTasks: entry.maxConcurrentTasks,
+    taskTimeout: defaults.taskTimeout,
+    healthCheckInterval: defaults.healthCheckInterval,
+    model: entry.model || defaults.model,
+    baseBranch: entry.baseBranch,
+    settings: {}
+  };
+}
+
+function fillTemplate(template: string, role: AgentRole, index: number): string {
+  return template
+    .replace(/\{role\}/g, role)
+    .replace(/\{n\}/g, String(index).padStart(3, '0'));
+}
@@ -4,7 +4,8 @@ import {
   AgentRole, 
   AgentStatus, 
   AgentHealth, 
-  AgentConfig 
+  AgentConfig,
+  AgentCapability
 } from '../types/agent.types';
 import { Task, TaskAssignment } from '../types/task.types';
 import { logger } from '@core/logger';
@@ -23,6 +24,19 @@ export interface AgentMatchResult {
   reasoning: string[];
 }
 
+// Whether capabilities cover a task's technical requirements; dispatch only considers agents for which they do
+export function coversRequirements(capabilities: AgentCapability[], task: Task): boolean {
+  const requiredCapabilities = task.requirements
+    .filter(req => req.type === 'technical')
+    .map(req => req.description);
+
+  return requiredCapabilities.every(capability =>
+    capabilities.some(agentCap => 
+      agentCap.name.toLowerCase().includes(capability.toLowerCase())
+    )
+  );
+}
+
 export class AgentRegistry extends EventEmitter {
   private agents: Map<string, IAgent> = new Map();
   private agentConfigs: Map<string, AgentConfig> = new Map();
@@ -161,9 +175,14 @@ export class AgentRegistry extends EventEmitter {
     return this.getAgentsByStatus(AgentStatus.ACTIVE);
   }
 
-  public async findBestAgentForTask(task: Task): Promise<AgentMatchResult | null> {
+  public async findBestAgentForTask(
+    task: Task,
+    excludeAgentIds: string[] = []
+  ): Promise<AgentMatchResult | null> {
     const availableAgents = this.getAllAgents().filter(agent => 
-      agent.status === AgentStatus.ACTIVE && this.canAgentHandleTask(agent, task)
+      agent.status === AgentStatus.ACTIVE &&
+      !excludeAgentIds.includes(agent.id) &&
+      this.canAgentHandleTask(agent, task)
     );
 
     if (availableAgents.length === 0) {
@@ -217,6 +236,7 @@ export class AgentRegistry extends EventEmitter {
 
       // Store assignment history
       this.assignmentHistory.push(assignment);
+      this.emit('task:assigned', assignment);
 
       logger.info(`Assigned task ${task.id} to agent ${targetAgent.id}`, {
         taskTitle: task.title,
@@ -240,6 +260,14 @@ export class AgentRegistry extends EventEmitter {
     }
   }
 
+  // Takes back an assignment whose task never reached the agent
+  public unassignTask(assignment: TaskAssignment): void {
+    this.assignmentHistory = this.assignmentHistory.filter(entry => entry !== assignment);
+    this.emit('task:unassigned', assignment);
+
+    logger.info(`Unassigned task ${assignment.taskId} from agent ${assignment.agentId}`);
+  }
+
   public async startAllAgents(): Promise<void> {
     logger.info('Starting all registered agents');
     
@@ -405,16 +433,7 @@ export class AgentRegistry extends EventEmitter {
   }
 
   private canAgentHandleTask(agent: IAgent, task: Task): boolean {
-    // Basic capability checking - can be enhanced
-    const requiredCapabilities = task.requirements
-      .filter(req => req.type === 'technical')
-      .map(req => req.description);
-
-    return requiredCapabilities.every(capability =>
-      agent.capabilities.some(agentCap => 
-        agentCap.name.toLowerCase().includes(capability.toLowerCase())
-      )
-    );
+    return coversRequirements(agent.capabilities, task);
   }
 
   private async calculateAgentTaskMatch(agent: IAgent, task: Task): Promise<AgentMatchResult> {
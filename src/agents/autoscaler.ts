@@ -0,0 +1,285 @@
+import { AgentRegistry, coversRequirements } from './agent-registry';
+import { AgentPoolDefaults, createAgentConfig, poolFromRoles } from './agent-pool';
+import { TaskManager } from '@tasks/task-manager';
+import { AgentCapability, AgentConfig, AgentRole, AgentStatus, IAgent } from '../types/agent.types';
+import { AgentPoolEntry, AutoscalingConfig } from '../types/config.types';
+import { OrchestratorDecision } from '../types/orchestrator.types';
+import { Task, TaskType } from '../types/task.types';
+import { logger } from '@core/logger';
+import { eventBus, createSystemEvent, SystemEvent } from '@core/events';
+
+export type AgentFactory = (config: AgentConfig) => IAgent;
+
+export interface AutoscalerOptions {
+  config: AutoscalingConfig;
+  maxAgents: number;
+  pool: AgentPoolEntry[]; // added agents copy the first entry for their role
+  defaults: AgentPoolDefaults;
+  createAgent: AgentFactory;
+}
+
+// Task types that call for a particular role; the rest go to autoscaling.defaultRole
+const TASK_TYPE_ROLES: Partial<Record<TaskType, AgentRole>> = {
+  [TaskType.TEST]: AgentRole.QA,
+  [TaskType.CODE_REVIEW]: AgentRole.QA,
+  [TaskType.DEPLOYMENT]: AgentRole.DEVOPS
+};
+
+interface ScaledAgent {
+  maxConcurrentTasks: number;
+  idleSince: number | null;
+}
+
+/**
+ * Grows the agent pool while tasks for a role pile up and shrinks it again
+ * once they are done. Only agents the autoscaler added are retired, so the
+ * configured pool is the floor. Every decision is emitted as an
+ * ORCHESTRATOR_DECISION event.
+ */
+export class Autoscaler {
+  private agentRegistry: AgentRegistry;
+  private taskManager: TaskManager;
+  private options: AutoscalerOptions;
+  private scaledAgents: Map<string, ScaledAgent> = new Map();
+  // Roles already reported as waiting on the agent limit, so the decision is recorded once
+  private heldRoles: Set<AgentRole> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private evaluating: Promise<OrchestratorDecision[]> | null = null;
+
+  constructor(agentRegistry: AgentRegistry, taskManager: TaskManager, options: AutoscalerOptions) {
+    this.agentRegistry = agentRegistry;
+    this.taskManager = taskManager;
+    this.options = options;
+  }
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.evaluate();
+    }, this.options.config.interval);
+
+    logger.info('Autoscaler started', {
+      interval: this.options.config.interval,
+      maxAgents: this.options.maxAgents
+    });
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.evaluating;
+  }
+
+  public getScaledAgents(): string[] {
+    return Array.from(this.scaledAgents.keys());
+  }
+
+  public roleForTask(task: Task): AgentRole {
+    const role = task.metadata.role;
+    if (Object.values(AgentRole).includes(role)) {
+      return role;
+    }
+    return TASK_TYPE_ROLES[task.type] || this.options.config.defaultRole;
+  }
+
+  /**
+   * Matches the dispatchable tasks to free task slots the way a queue pass
+   * does, and adds at most one agent per role once autoscaling.queueThreshold
+   * of the tasks left over could run on it. Then retires added agents that
+   * have been idle for autoscaling.idleCooldown. Resolves with the decisions
+   * made.
+   */
+  public async evaluate(): Promise<OrchestratorDecision[]> {
+    if (!this.evaluating) {
+      this.evaluating = this.runEvaluation().finally(() => {
+        this.evaluating = null;
+      });
+    }
+    return this.evaluating;
+  }
+
+  private async runEvaluation(): Promise<OrchestratorDecision[]> {
+    const decisions: OrchestratorDecision[] = [];
+    const dispatchable = this.taskManager.getDispatchableTasks();
+    const claimedSlots = new Map<string, number>();
+    const waiting = new Map<AgentRole, number>();
+    for (const task of dispatchable) {
+      const fullAgents = this.agentRegistry
+        .getAllAgents()
+        .filter(agent => (claimedSlots.get(agent.id) || 0) >= agent.getAvailableTaskSlots())
+        .map(agent => agent.id);
+      const match = await this.agentRegistry.findBestAgentForTask(task, fullAgents);
+      if (match) {
+        claimedSlots.set(match.agent.id, (claimedSlots.get(match.agent.id) || 0) + 1);
+        continue;
+      }
+
+      const role = this.roleToAdd(task);
+      if (role) {
+        waiting.set(role, (waiting.get(role) || 0) + 1);
+      }
+    }
+
+    let added = false;
+    for (const [role, count] of waiting) {
+      if (count < this.options.config.queueThreshold) {
+        this.heldRoles.delete(role);
+        continue;
+      }
+
+      if (this.agentRegistry.getAllAgents().length >= this.options.maxAgents) {
+        if (!this.heldRoles.has(role)) {
+          this.heldRoles.add(role);
+          decisions.push(this.record({
+            type: 'scaling',
+            action: `Hold ${role} agents`,
+            reasoning: `${count} ${role} tasks are waiting but all ${this.options.maxAgents} agents allowed by agents.maxConcurrentAgents are running`,
+            confidence: 1,
+            expectedOutcome: `The tasks wait until running agents free up`,
+            alternatives: ['Raise agents.maxConcurrentAgents']
+          }, role));
+        }
+        continue;
+      }
+
+      this.heldRoles.delete(role);
+      const decision = await this.addAgent(role, count);
+      if (decision) {
+        decisions.push(decision);
+        added = true;
+      }
+    }
+
+    const now = Date.now();
+    for (const [agentId, scaled] of Array.from(this.scaledAgents)) {
+      const agent = this.agentRegistry.getAgent(agentId);
+      if (!agent) {
+        this.scaledAgents.delete(agentId);
+        continue;
+      }
+
+      const idle = agent.status === AgentStatus.ACTIVE && agent.getAvailableTaskSlots() >= scaled.maxConcurrentTasks;
+      if (!idle) {
+        scaled.idleSince = null;
+        continue;
+      }
+
+      if (scaled.idleSince === null) {
+        scaled.idleSince = now;
+      }
+      if (
+        now - scaled.idleSince < this.options.config.idleCooldown ||
+        dispatchable.some(task => coversRequirements(agent.capabilities, task))
+      ) {
+        continue;
+      }
+
+      const decision = await this.retireAgent(agent, now - scaled.idleSince);
+      if (decision) {
+        decisions.push(decision);
+      }
+    }
+
+    if (added) {
+      void this.taskManager.processQueue();
+    }
+
+    return decisions;
+  }
+
+  // The task's own role if an agent of it could run the task, else the first pool role that could
+  private roleToAdd(task: Task): AgentRole | null {
+    const roles = [this.roleForTask(task), ...this.options.pool.map(entry => entry.role)];
+    return roles.find(role => coversRequirements(this.capabilitiesOf(role), task)) || null;
+  }
+
+  // A running agent's capabilities include the ones agents add themselves, so they win over the pool entry's
+  private capabilitiesOf(role: AgentRole): AgentCapability[] {
+    const running = this.agentRegistry.getAgentsByRole(role)[0];
+    if (running) {
+      return running.capabilities;
+    }
+    return this.options.pool.find(entry => entry.role === role)?.capabilities || [];
+  }
+
+  private async addAgent(role: AgentRole, waiting: number): Promise<OrchestratorDecision | null> {
+    const entry = this.options.pool.find(poolEntry => poolEntry.role === role) || poolFromRoles([role])[0];
+    const config = this.nextAgentConfig(entry);
+    if (!config) {
+      logger.warn(`Autoscaler cannot add a ${role} agent: every id its template "${entry.id}" produces is taken; add {n} to it`);
+      return null;
+    }
+
+    const agent = this.options.createAgent(config);
+    try {
+      await this.agentRegistry.registerAgent(agent, config);
+      await agent.start();
+    } catch (error) {
+      logger.error(`Autoscaler failed to start agent ${config.id}`, error);
+      if (this.agentRegistry.getAgent(config.id)) {
+        await this.agentRegistry.unregisterAgent(config.id).catch(() => undefined);
+      }
+      return null;
+    }
+
+    this.scaledAgents.set(config.id, { maxConcurrentTasks: config.maxConcurrentTasks, idleSince: null });
+
+    const threshold = this.options.config.queueThreshold;
+    return this.record({
+      type: 'scaling',
+      action: `Added ${role} agent ${config.id}`,
+      reasoning: `${waiting} tasks a ${role} agent can run are waiting and no agent with a free task slot can take them; ` +
+        `that reached autoscaling.queueThreshold (${threshold})`,
+      confidence: Math.min(1, waiting / (threshold * 2)),
+      expectedOutcome: `${config.id} takes up to ${config.maxConcurrentTasks} of the waiting ${role} tasks`,
+      alternatives: [`Leave the tasks queued until existing ${role} agents free up`]
+    }, role, config.id);
+  }
+
+  private async retireAgent(agent: IAgent, idleFor: number): Promise<OrchestratorDecision | null> {
+    this.scaledAgents.delete(agent.id);
+    try {
+      await this.agentRegistry.unregisterAgent(agent.id);
+    } catch (error) {
+      logger.error(`Autoscaler failed to retire agent ${agent.id}`, error);
+      return null;
+    }
+
+    return this.record({
+      type: 'scaling',
+      action: `Retired ${agent.role} agent ${agent.id}`,
+      reasoning: `${agent.id} has been idle for ${Math.round(idleFor / 1000)}s ` +
+        `(autoscaling.idleCooldown is ${Math.round(this.options.config.idleCooldown / 1000)}s) and no task it can run is waiting`,
+      confidence: 0.9,
+      expectedOutcome: `The pool shrinks back towards its configured size and ${agent.id}'s worktree is removed`,
+      alternatives: [`Keep ${agent.id} for upcoming ${agent.role} tasks`]
+    }, agent.role, agent.id);
+  }
+
+  // The first id from the entry's template that no registered agent uses
+  private nextAgentConfig(entry: AgentPoolEntry): AgentConfig | null {
+    const limit = this.agentRegistry.getAllAgents().length + 1;
+    for (let index = 1; index <= limit; index++) {
+      const config = createAgentConfig(entry, index, this.options.defaults);
+      if (!this.agentRegistry.getAgent(config.id)) {
+        return config;
+      }
+    }
+    return null;
+  }
+
+  private record(decision: OrchestratorDecision, role: AgentRole, agentId?: string): OrchestratorDecision {
+    logger.info(`Scaling decision: ${decision.action}`, { reasoning: decision.reasoning });
+    eventBus.emit(createSystemEvent(
+      SystemEvent.ORCHESTRATOR_DECISION,
+      { decision, role, agentId },
+      'autoscaler'
+    ));
+    return decision;
+  }
+}
@@ -12,6 +12,24 @@ import { Task, TaskResult, TaskStatus } from '../types/task.types';
 import { Message, MessageType } from '../types/message.types';
 import { logger, AgentLogger } from '@core/logger';
 import { eventBus, createAgentEvent, SystemEvent } from '@core/events';
+import { messageBus, MessageBus, MessageOptions } from '@communication/message-bus';
+
+const DEFAULT_TASK_TIMEOUT = 1800000; // 30 minutes, matches agents.taskTimeout default
+const ABORT_GRACE_PERIOD = 30000; // how long aborted work gets to stop before its slot and workspace are reused
+
+export class TaskTimeoutError extends Error {
+  constructor(public readonly taskId: string, public readonly timeout: number) {
+    super(`Task ${taskId} timed out after ${timeout}ms`);
+    this.name = 'TaskTimeoutError';
+  }
+}
+
+export class TaskCancelledError extends Error {
+  constructor(public readonly taskId: string, reason: string) {
+    super(`Task ${taskId} cancelled: ${reason}`);
+    this.name = 'TaskCancelledError';
+  }
+}
 
 export abstract class BaseAgent extends EventEmitter implements IAgent {
   public readonly id: string;
@@ -25,10 +43,14 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
   public metadata: Record<string, any> = {};
 
   protected agentLogger: AgentLogger;
-  protected currentTask: Task | null = null;
+  protected currentTasks: Map<string, Task> = new Map();
+  protected taskControllers: Map<string, AbortController> = new Map();
+  private taskRuns: Map<string, Promise<TaskResult>> = new Map();
   protected healthCheckInterval: NodeJS.Timeout | null = null;
   protected maxConcurrentTasks: number = 1;
+  protected taskTimeout: number = DEFAULT_TASK_TIMEOUT;
   protected startTime: Date | null = null;
+  private unsubscribeInbox: (() => Promise<void>) | null = null;
 
   constructor(config: AgentConfig) {
     super();
@@ -39,6 +61,10 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
     this.capabilities = config.capabilities;
     this.workingDirectory = config.workingDirectory;
     this.maxConcurrentTasks = config.maxConcurrentTasks || 1;
+    this.taskTimeout = config.taskTimeout || DEFAULT_TASK_TIMEOUT;
+    if (config.model) {
+      this.metadata.model = config.model;
+    }
     
     this.agentLogger = new AgentLogger(this.id);
     
@@ -73,6 +99,10 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
       
       // Start health monitoring
       this.startHealthMonitoring();
+
+      // Start receiving messages
+      await this.unsubscribeInbox?.();
+      this.unsubscribeInbox = await messageBus.subscribe(this.id, message => this.receiveMessage(message));
       
       await this.updateStatus(AgentStatus.ACTIVE);
       
@@ -98,11 +128,13 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
       
       // Stop health monitoring
       this.stopHealthMonitoring();
+
+      // Stop receiving messages
+      await this.unsubscribeInbox?.();
+      this.unsubscribeInbox = null;
       
-      // Cancel current task if any
-      if (this.currentTask) {
-        await this.cancelCurrentTask();
-      }
+      // Cancel in-flight tasks
+      await this.cancelAllTasks('Agent shutdown');
       
       // Cleanup agent-specific resources
       await this.cleanup();
@@ -135,12 +167,7 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
         correlationId: message.correlationId
       });
 
-      // Emit message through event bus (message routing will handle delivery)
-      eventBus.emit(createAgentEvent(
-        SystemEvent.MESSAGE_SENT,
-        this.id,
-        { message }
-      ));
+      await messageBus.publish(message);
 
       this.updateLastActivity();
     } catch (error) {
@@ -149,17 +176,51 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
     }
   }
 
+  /**
+   * Sends a request to another agent and waits for its response.
+   */
+  public async request(
+    to: string,
+    content: any,
+    options: MessageOptions & { timeout?: number } = {}
+  ): Promise<Message> {
+    const message = MessageBus.createMessage(this.id, to, MessageType.REQUEST, content, options);
+
+    this.agentLogger.debug(`Sending request to ${to}`, { messageId: message.id });
+    this.updateLastActivity();
+
+    return messageBus.request(message, options.timeout);
+  }
+
   public async executeTask(task: Task): Promise<TaskResult> {
     const startTime = Date.now();
-    
+
+    if (this.currentTasks.has(task.id)) {
+      throw new Error(`Task ${task.id} is already running on agent ${this.id}`);
+    }
+
+    if (this.getAvailableTaskSlots() === 0) {
+      throw new Error(
+        `Agent ${this.id} is at capacity (${this.maxConcurrentTasks} concurrent tasks)`
+      );
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new TaskTimeoutError(task.id, this.taskTimeout)),
+      this.taskTimeout
+    );
+
     try {
-      await this.updateStatus(AgentStatus.BUSY);
-      this.currentTask = task;
+      this.currentTasks.set(task.id, task);
+      this.taskControllers.set(task.id, controller);
+      await this.refreshLoadStatus();
       
       this.agentLogger.info(`Executing task: ${task.title}`, {
         taskId: task.id,
         type: task.type,
-        priority: task.priority
+        priority: task.priority,
+        runningTasks: this.currentTasks.size
       });
 
       eventBus.emit(createAgentEvent(
@@ -173,8 +234,10 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
         throw new Error(`Agent ${this.id} cannot handle task of type ${task.type}`);
       }
 
-      // Execute the task
-      const result = await this.performTask(task);
+      // Execute the task, giving up on timeout or cancellation
+      const run = this.performTask(task, controller.signal);
+      this.taskRuns.set(task.id, run);
+      const result = await this.raceAbort(run, controller.signal);
       
       const duration = Date.now() - startTime;
       result.duration = duration;
@@ -183,9 +246,6 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
       // Update metrics
       this.updateMetrics(result);
       
-      this.currentTask = null;
-      await this.updateStatus(AgentStatus.ACTIVE);
-      
       this.agentLogger.info(`Task completed: ${task.title}`, {
         taskId: task.id,
         success: result.success,
@@ -200,31 +260,69 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
 
       return result;
     } catch (error) {
+      // Aborted work may still commit or roll back; the task is not over until it stops
+      if (controller.signal.aborted) {
+        await this.waitForRun(task.id);
+      }
+
       const duration = Date.now() - startTime;
+      const timedOut = error instanceof TaskTimeoutError;
+      const cancelled = error instanceof TaskCancelledError;
       const errorResult: TaskResult = {
         taskId: task.id,
         success: false,
         error: error instanceof Error ? error.message : String(error),
         duration,
-        metadata: {},
+        metadata: timedOut
+          ? { timedOut: true, timeout: this.taskTimeout }
+          : cancelled ? { cancelled: true } : {},
         changedFiles: [],
         completedAt: new Date()
       };
 
       this.updateMetrics(errorResult);
-      this.currentTask = null;
-      await this.updateStatus(AgentStatus.ACTIVE);
 
       this.agentLogger.error(`Task failed: ${task.title}`, error);
 
       eventBus.emit(createAgentEvent(
         SystemEvent.TASK_FAILED,
         this.id,
-        { taskId: task.id, error: errorResult.error }
+        {
+          taskId: task.id,
+          error: errorResult.error,
+          reason: timedOut ? 'timeout' : cancelled ? 'cancelled' : 'error'
+        }
       ));
 
       return errorResult;
+    } finally {
+      clearTimeout(timer);
+      this.currentTasks.delete(task.id);
+      this.taskControllers.delete(task.id);
+      this.taskRuns.delete(task.id);
+      await this.refreshLoadStatus();
+    }
+  }
+
+  public async cancelTask(taskId: string, reason: string = 'Cancelled'): Promise<void> {
+    const controller = this.taskControllers.get(taskId);
+    if (!controller) {
+      return;
     }
+
+    this.agentLogger.info(`Cancelling task ${taskId}: ${reason}`);
+    controller.abort(new TaskCancelledError(taskId, reason));
+  }
+
+  public getAvailableTaskSlots(): number {
+    if (this.status !== AgentStatus.ACTIVE && this.status !== AgentStatus.BUSY) {
+      return 0;
+    }
+    return Math.max(0, this.maxConcurrentTasks - this.currentTasks.size);
+  }
+
+  public getCurrentTasks(): Task[] {
+    return Array.from(this.currentTasks.values());
   }
 
   public async updateStatus(status: AgentStatus): Promise<void> {
@@ -274,10 +372,36 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
   // Abstract methods that must be implemented by concrete agents
   protected abstract initialize(): Promise<void>;
   protected abstract cleanup(): Promise<void>;
-  protected abstract performTask(task: Task): Promise<TaskResult>;
+  // The signal aborts when the task times out or is cancelled; long-running
+  // implementations should stop their work when it fires.
+  protected abstract performTask(task: Task, signal: AbortSignal): Promise<TaskResult>;
   protected abstract canHandleTask(task: Task): boolean;
 
   // Helper methods
+  /**
+   * Inbox handler. Override to react to messages; for REQUEST messages the
+   * returned value is sent back as the response. Throwing makes the bus retry
+   * the delivery.
+   */
+  protected async handleMessage(message: Message): Promise<any> {
+    if (message.type === MessageType.HEALTH_CHECK) {
+      return this.getHealth();
+    }
+
+    this.emit('message', message);
+    return undefined;
+  }
+
+  private async receiveMessage(message: Message): Promise<any> {
+    this.agentLogger.debug(`Received message from ${message.from}`, {
+      type: message.type,
+      messageId: message.id
+    });
+    this.updateLastActivity();
+
+    return this.handleMessage(message);
+  }
+
   protected updateLastActivity(): void {
     this.lastActivity = new Date();
     this.metrics.lastActivityTime = this.lastActivity;
@@ -319,18 +443,65 @@ export abstract class BaseAgent extends EventEmitter implements IAgent {
     }
   }
 
-  private async cancelCurrentTask(): Promise<void> {
-    if (this.currentTask) {
-      this.agentLogger.info(`Cancelling current task: ${this.currentTask.title}`);
-      
-      eventBus.emit(createAgentEvent(
-        SystemEvent.TASK_FAILED,
-        this.id,
-        { taskId: this.currentTask.id, reason: 'Agent shutdown' }
-      ));
-      
-      this.currentTask = null;
+  // Returns once the cancelled tasks have stopped, so cleanup never pulls their workspace out from under them
+  private async cancelAllTasks(reason: string): Promise<void> {
+    const running = Array.from(this.currentTasks.keys());
+    await Promise.all(running.map(taskId => this.cancelTask(taskId, reason)));
+    await Promise.all(running.map(taskId => this.waitForRun(taskId)));
+  }
+
+  // Waits up to ABORT_GRACE_PERIOD for an aborted task's work to settle
+  private async waitForRun(taskId: string): Promise<void> {
+    const run = this.taskRuns.get(taskId);
+    if (!run) {
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const stopped = await Promise.race([
+      run.then(() => true, () => true),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), ABORT_GRACE_PERIOD);
+      })
+    ]);
+    clearTimeout(timer);
+
+    if (!stopped) {
+      this.agentLogger.warn(`Task ${taskId} was still running ${ABORT_GRACE_PERIOD}ms after it was aborted`);
+    }
+  }
+
+  // BUSY while every task slot is taken, ACTIVE otherwise
+  private async refreshLoadStatus(): Promise<void> {
+    if (this.status !== AgentStatus.ACTIVE && this.status !== AgentStatus.BUSY) {
+      return;
     }
+
+    const atCapacity = this.currentTasks.size >= this.maxConcurrentTasks;
+    await this.updateStatus(atCapacity ? AgentStatus.BUSY : AgentStatus.ACTIVE);
+  }
+
+  private raceAbort<T>(work: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = (): void => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      work.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
   }
 
   private updateMetrics(result: TaskResult): void {
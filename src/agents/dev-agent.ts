@@ -1,4 +1,3 @@
-import * as path from 'path';
 import * as fs from 'fs';
 import { BaseAgent } from './base-agent';
 import { 
@@ -6,18 +5,47 @@ import {
   AgentRole, 
   AgentCapability 
 } from '../types/agent.types';
-import { Task, TaskResult, TaskType } from '../types/task.types';
+import { Task, TaskResult, TaskStatus, TaskType } from '../types/task.types';
+import { ContextBundle, ExecutionContext, TaskExecutor } from '../types/executor.types';
+import { ExecutorRegistry, ExecutionError, registerBuiltinExecutors } from './executors';
+import { ContextPacker } from '@analysis/context-packer';
 import { GitRepository } from '@git/repository';
-import { WorktreeManager } from '@git/worktree';
+import { WorktreeManager, slotWorktreeId } from '@git/worktree';
+import { eventBus, createTaskEvent, SystemEvent } from '@core/events';
+import { agentActionLimiter, agentActionKey } from '@utils/rate-limiter';
+
+// Longest progress note published for a line of executor output
+const MAX_NOTE_LENGTH = 1000;
+
+// Where an agent works: everything is resolved against the path, never the process's working directory
+interface Workspace {
+  path: string;
+  env: NodeJS.ProcessEnv;
+  git: GitRepository;
+}
 
 export class DevelopmentAgent extends BaseAgent {
   private gitRepository: GitRepository;
   private worktreeManager: WorktreeManager;
   private personalWorktree: string | null = null;
-
-  constructor(config: AgentConfig) {
+  // Worktrees of the task slots beyond the first, which uses the personal one
+  private slotWorktrees: string[] = [];
+  private baseBranch?: string;
+  private executors: ExecutorRegistry;
+  private workspaces: Map<string, Workspace> = new Map();
+  private busyWorkspaces: Set<string> = new Set();
+  private contextPacker: ContextPacker | null;
+
+  constructor(
+    config: AgentConfig,
+    executors: ExecutorRegistry = registerBuiltinExecutors(new ExecutorRegistry()),
+    contextPacker: ContextPacker | null = new ContextPacker()
+  ) {
     super(config);
     
+    this.baseBranch = config.baseBranch;
+    this.executors = executors;
+    this.contextPacker = contextPacker;
     this.gitRepository = new GitRepository(config.workingDirectory);
     this.worktreeManager = new WorktreeManager(this.gitRepository, config.workingDirectory);
 
@@ -147,9 +175,12 @@ export class DevelopmentAgent extends BaseAgent {
         break;
     }
 
-    defaultCapabilities.forEach(capability => {
-      this.addCapability(capability);
-    });
+    // Levels from the configuration win over the defaults
+    defaultCapabilities
+      .filter(capability => !this.capabilities.some(existing => existing.name === capability.name))
+      .forEach(capability => {
+        this.addCapability(capability);
+      });
   }
 
   protected async initialize(): Promise<void> {
@@ -159,15 +190,23 @@ export class DevelopmentAgent extends BaseAgent {
       await this.worktreeManager.initialize();
 
       // Create personal worktree for this agent
-      const worktreeInfo = await this.worktreeManager.createWorktreeForAgent(this.id);
+      const worktreeInfo = await this.worktreeManager.createWorktreeForAgent(this.id, undefined, this.baseBranch);
       this.personalWorktree = worktreeInfo.path;
 
+      // Every task commits or rolls back its whole worktree, so each further task slot gets one of its own
+      for (let slot = 2; slot <= this.maxConcurrentTasks; slot++) {
+        const slotInfo = await this.worktreeManager.createWorktreeForAgent(slotWorktreeId(this.id, slot), undefined, this.baseBranch);
+        this.slotWorktrees.push(slotInfo.path);
+      }
+
       // Ensure working directory exists and is accessible
       if (!fs.existsSync(this.workingDirectory)) {
         fs.mkdirSync(this.workingDirectory, { recursive: true });
       }
 
-      this.agentLogger.info(`Development agent initialized with worktree: ${this.personalWorktree}`);
+      this.agentLogger.info(`Development agent initialized with worktree: ${this.personalWorktree}`, {
+        slotWorktrees: this.slotWorktrees
+      });
     } catch (error) {
       this.agentLogger.error('Failed to initialize development agent', error);
       throw error;
@@ -181,6 +220,11 @@ export class DevelopmentAgent extends BaseAgent {
         await this.worktreeManager.removeWorktreeForAgent(this.id);
         this.personalWorktree = null;
       }
+      for (let slot = 2; slot < this.slotWorktrees.length + 2; slot++) {
+        await this.worktreeManager.removeWorktreeForAgent(slotWorktreeId(this.id, slot));
+      }
+      this.slotWorktrees = [];
+      this.workspaces.clear();
 
       this.agentLogger.info('Development agent cleanup completed');
     } catch (error) {
@@ -189,17 +233,67 @@ export class DevelopmentAgent extends BaseAgent {
     }
   }
 
+  // The agent's own worktree, or the shared working directory until it has one
+  protected getWorkspacePath(): string {
+    return this.personalWorktree || this.workingDirectory;
+  }
+
+  /**
+   * A worktree no running task is using, the personal one first, then those
+   * of the further slots. A task commits everything its worktree holds, so
+   * worktrees with changes some earlier task left behind are passed over.
+   */
+  private async claimWorkspace(): Promise<Workspace> {
+    for (const workspacePath of [this.getWorkspacePath(), ...this.slotWorktrees]) {
+      if (this.busyWorkspaces.has(workspacePath)) {
+        continue;
+      }
+      this.busyWorkspaces.add(workspacePath);
+      const workspace = this.getWorkspace(workspacePath);
+
+      const leftovers = (await workspace.git.getStatus()).files.map(file => file.path);
+      if (leftovers.length === 0) {
+        return workspace;
+      }
+
+      this.busyWorkspaces.delete(workspacePath);
+      this.agentLogger.warn(`Not using workspace ${workspacePath}; an earlier task left uncommitted changes`, {
+        files: leftovers
+      });
+    }
+
+    throw new Error(`Agent ${this.id} has no free workspace without uncommitted changes`);
+  }
+
+  private getWorkspace(workspacePath: string): Workspace {
+    let workspace = this.workspaces.get(workspacePath);
+    if (!workspace) {
+      workspace = {
+        path: workspacePath,
+        env: {
+          ...process.env,
+          PWD: workspacePath,
+          MADO_AGENT_ID: this.id,
+          MADO_AGENT_ROLE: this.role,
+          MADO_WORKSPACE: workspacePath
+        },
+        git: new GitRepository(workspacePath)
+      };
+      this.workspaces.set(workspacePath, workspace);
+    }
+    return workspace;
+  }
+
   protected canHandleTask(task: Task): boolean {
-    const supportedTaskTypes = [
-      TaskType.FEATURE,
-      TaskType.BUG_FIX,
-      TaskType.REFACTOR,
-      TaskType.CODE_REVIEW,
-      TaskType.DOCUMENTATION
-    ];
+    let executor: TaskExecutor;
+    try {
+      executor = this.executors.resolve(task, this.role).executor;
+    } catch {
+      return false;
+    }
 
-    // Check if task type is supported
-    if (!supportedTaskTypes.includes(task.type)) {
+    // Check if the executor takes this kind of task
+    if (executor.canExecute && !executor.canExecute(task)) {
       return false;
     }
 
@@ -215,50 +309,92 @@ export class DevelopmentAgent extends BaseAgent {
     );
   }
 
-  protected async performTask(task: Task): Promise<TaskResult> {
+  /**
+   * Has the executor chosen for the task prepare, execute and verify it,
+   * then commits whatever changed in the workspace. Any failure rolls the
+   * executor's work back. Each running task has a worktree to itself.
+   */
+  protected async performTask(task: Task, signal: AbortSignal): Promise<TaskResult> {
+    const workspace = await this.claimWorkspace();
+    try {
+      return await this.runTask(task, signal, workspace);
+    } finally {
+      this.busyWorkspaces.delete(workspace.path);
+    }
+  }
+
+  private async runTask(task: Task, signal: AbortSignal, workspace: Workspace): Promise<TaskResult> {
     const startTime = Date.now();
-    const changedFiles: string[] = [];
+    let changedFiles: string[] = [];
+    let executorName: string | undefined;
+    let metadata: Record<string, any> = {
+      taskType: task.type,
+      agent: this.id,
+      worktree: this.personalWorktree ? workspace.path : null
+    };
+
+    let repositoryContext: Promise<ContextBundle | undefined> | undefined;
+
+    const context: ExecutionContext = {
+      agentId: this.id,
+      agentName: this.name,
+      role: this.role,
+      workspace: workspace.path,
+      env: workspace.env,
+      git: workspace.git,
+      isolated: this.personalWorktree !== null,
+      model: this.metadata.model,
+      signal,
+      report: (note, details) => this.reportProgress(task, note, details),
+      getRepositoryContext: () => {
+        repositoryContext = repositoryContext || this.packContext(task, workspace.git).then(bundle => {
+          if (bundle) {
+            metadata.context = { commit: bundle.commit, items: bundle.items.length, size: bundle.size };
+          }
+          return bundle;
+        });
+        return repositoryContext;
+      }
+    };
+    let executor: TaskExecutor | undefined;
 
     try {
+      ({ name: executorName, executor } = this.executors.resolve(task, this.role));
+      metadata.executor = executorName;
+
       this.agentLogger.info(`Starting task execution: ${task.title}`, {
         type: task.type,
-        priority: task.priority
+        priority: task.priority,
+        executor: executorName
       });
 
-      // Switch to personal worktree
-      process.chdir(this.personalWorktree || this.workingDirectory);
-
-      // Execute task based on type
-      let output: string;
-      
-      switch (task.type) {
-        case TaskType.FEATURE:
-          output = await this.implementFeature(task);
-          break;
-        case TaskType.BUG_FIX:
-          output = await this.fixBug(task);
-          break;
-        case TaskType.REFACTOR:
-          output = await this.refactorCode(task);
-          break;
-        case TaskType.CODE_REVIEW:
-          output = await this.reviewCode(task);
-          break;
-        case TaskType.DOCUMENTATION:
-          output = await this.writeDocumentation(task);
-          break;
-        default:
-          throw new Error(`Unsupported task type: ${task.type}`);
+      await executor.prepare?.(task, context);
+      const outcome = await executor.execute(task, context);
+      metadata = { ...metadata, ...outcome.metadata };
+
+      if (executor.verify) {
+        const verification = await executor.verify(task, context, outcome);
+        if (!verification.passed) {
+          throw new ExecutionError(
+            `Verification failed${verification.details ? `: ${verification.details}` : ''}`,
+            outcome.output,
+            outcome.metadata
+          );
+        }
       }
 
-      // Track changed files (simplified implementation)
-      const gitStatus = await this.gitRepository.getStatus();
-      changedFiles.push(...gitStatus.modified, ...gitStatus.created);
+      const status = await workspace.git.getStatus();
+      changedFiles = status.files.map(file => file.path);
 
       // Commit changes if any
       if (changedFiles.length > 0) {
-        const commitMessage = this.generateCommitMessage(task, output);
-        await this.gitRepository.commit(commitMessage, changedFiles);
+        const commitMessage = this.generateCommitMessage(task, lastLines(outcome.output, 20));
+        // Over the commit rate the agent waits rather than dropping its work
+        await agentActionLimiter.acquire(agentActionKey(this.id, 'commit'), 1, signal);
+        const commit = await workspace.git.commit(commitMessage, changedFiles);
+        if (!commit.success) {
+          throw new Error(`Failed to commit the changes for task ${task.id}: ${commit.error}`);
+        }
       }
 
       const duration = Date.now() - startTime;
@@ -271,234 +407,69 @@ export class DevelopmentAgent extends BaseAgent {
       return {
         taskId: task.id,
         success: true,
-        output,
+        output: outcome.output,
         duration,
-        metadata: {
-          taskType: task.type,
-          agent: this.id,
-          worktree: this.personalWorktree
-        },
+        metadata,
         changedFiles,
         completedAt: new Date()
       };
     } catch (error) {
-      const duration = Date.now() - startTime;
+      const failure = error instanceof Error ? error : new Error(String(error));
       
-      this.agentLogger.error(`Task failed: ${task.title}`, error);
+      this.agentLogger.error(`Task failed: ${task.title}`, failure);
+
+      if (executor?.rollback) {
+        try {
+          await executor.rollback(task, context, failure);
+        } catch (rollbackError) {
+          this.agentLogger.error(`Rollback failed for task: ${task.title}`, rollbackError);
+        }
+      }
 
       return {
         taskId: task.id,
         success: false,
-        error: error instanceof Error ? error.message : String(error),
-        duration,
-        metadata: {
-          taskType: task.type,
-          agent: this.id,
-          worktree: this.personalWorktree
-        },
+        output: failure instanceof ExecutionError ? failure.output : undefined,
+        error: failure.message,
+        duration: Date.now() - startTime,
+        metadata: failure instanceof ExecutionError ? { ...metadata, ...failure.metadata } : metadata,
         changedFiles,
         completedAt: new Date()
       };
     }
   }
 
-  private async implementFeature(task: Task): Promise<string> {
-    this.agentLogger.info(`Implementing feature: ${task.description}`);
-    
-    // This is a simplified implementation
-    // In a real scenario, this would involve complex code generation,
-    // file creation, and integration with existing code
-    
-    const featureFiles = task.files || [];
-    const implementationSteps: string[] = [];
-
-    for (const file of featureFiles) {
-      const filePath = path.join(this.personalWorktree || this.workingDirectory, file);
-      
-      if (fs.existsSync(filePath)) {
-        // Modify existing file
-        implementationSteps.push(`Modified ${file}`);
-      } else {
-        // Create new file
-        const dir = path.dirname(filePath);
-        if (!fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true });
-        }
-        
-        const content = this.generateCodeTemplate(task, file);
-        fs.writeFileSync(filePath, content);
-        implementationSteps.push(`Created ${file}`);
-      }
-    }
-
-    return `Feature implementation completed:\n${implementationSteps.join('\n')}`;
-  }
-
-  private async fixBug(task: Task): Promise<string> {
-    this.agentLogger.info(`Fixing bug: ${task.description}`);
-    
-    const bugFiles = task.files || [];
-    const fixSteps: string[] = [];
-
-    for (const file of bugFiles) {
-      const filePath = path.join(this.personalWorktree || this.workingDirectory, file);
-      
-      if (fs.existsSync(filePath)) {
-        // Read and analyze the file
-        const content = fs.readFileSync(filePath, 'utf8');
-        
-        // Apply bug fix (simplified)
-        const fixedContent = this.applyBugFix(content, task);
-        fs.writeFileSync(filePath, fixedContent);
-        
-        fixSteps.push(`Fixed bug in ${file}`);
-      }
-    }
-
-    return `Bug fix completed:\n${fixSteps.join('\n')}`;
-  }
-
-  private async refactorCode(task: Task): Promise<string> {
-    this.agentLogger.info(`Refactoring code: ${task.description}`);
-    
-    const refactorFiles = task.files || [];
-    const refactorSteps: string[] = [];
-
-    for (const file of refactorFiles) {
-      const filePath = path.join(this.personalWorktree || this.workingDirectory, file);
-      
-      if (fs.existsSync(filePath)) {
-        const content = fs.readFileSync(filePath, 'utf8');
-        const refactoredContent = this.applyRefactoring(content, task);
-        fs.writeFileSync(filePath, refactoredContent);
-        
-        refactorSteps.push(`Refactored ${file}`);
-      }
-    }
-
-    return `Code refactoring completed:\n${refactorSteps.join('\n')}`;
-  }
-
-  private async reviewCode(task: Task): Promise<string> {
-    this.agentLogger.info(`Reviewing code: ${task.description}`);
-    
-    const reviewFiles = task.files || [];
-    const reviewComments: string[] = [];
-
-    for (const file of reviewFiles) {
-      const filePath = path.join(this.personalWorktree || this.workingDirectory, file);
-      
-      if (fs.existsSync(filePath)) {
-        const content = fs.readFileSync(filePath, 'utf8');
-        const comments = this.generateCodeReview(content, file);
-        reviewComments.push(`${file}:\n${comments}`);
-      }
-    }
-
-    return `Code review completed:\n${reviewComments.join('\n\n')}`;
-  }
-
-  private async writeDocumentation(task: Task): Promise<string> {
-    this.agentLogger.info(`Writing documentation: ${task.description}`);
-    
-    const docFiles = task.files || ['README.md'];
-    const docSteps: string[] = [];
-
-    for (const file of docFiles) {
-      const filePath = path.join(this.personalWorktree || this.workingDirectory, file);
-      const dir = path.dirname(filePath);
-      
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      
-      const content = this.generateDocumentation(task, file);
-      fs.writeFileSync(filePath, content);
-      
-      docSteps.push(`Created/updated ${file}`);
+  // Repository context for the task; executors go without it if it cannot be packed
+  private async packContext(task: Task, git: GitRepository): Promise<ContextBundle | undefined> {
+    if (!this.contextPacker) {
+      return undefined;
     }
 
-    return `Documentation completed:\n${docSteps.join('\n')}`;
-  }
-
-  private generateCodeTemplate(task: Task, fileName: string): string {
-    const ext = path.extname(fileName);
-    
-    switch (ext) {
-      case '.ts':
-      case '.js':
-        return `// ${task.title}\n// Generated by Agent: ${this.name}\n\nexport class ${task.title.replace(/\s+/g, '')} {\n  // Implementation goes here\n}\n`;
-      case '.tsx':
-      case '.jsx':
-        return `// ${task.title}\n// Generated by Agent: ${this.name}\n\nimport React from 'react';\n\nconst ${task.title.replace(/\s+/g, '')}: React.FC = () => {\n  return (\n    <div>\n      {/* Implementation goes here */}\n    </div>\n  );\n};\n\nexport default ${task.title.replace(/\s+/g, '')};\n`;
-      case '.css':
-        return `/* ${task.title} */\n/* Generated by Agent: ${this.name} */\n\n.container {\n  /* Styles go here */\n}\n`;
-      case '.md':
-        return `# ${task.title}\n\nGenerated by Agent: ${this.name}\n\n## Description\n\n${task.description}\n\n## Implementation\n\nTODO: Add implementation details\n`;
-      default:
-        return `${task.title}\nGenerated by Agent: ${this.name}\n\n${task.description}\n`;
+    try {
+      const bundle = await this.contextPacker.pack(task, git);
+      this.reportProgress(task, `Packed ${bundle.items.length} context items (${bundle.size} of ${bundle.budget} characters) at ${bundle.commit.slice(0, 8)}`);
+      return bundle;
+    } catch (error) {
+      this.agentLogger.warn(`Could not pack repository context for task: ${task.title}`, error);
+      return undefined;
     }
   }
 
-  private applyBugFix(content: string, task: Task): string {
-    // Simplified bug fix logic
-    // In practice, this would involve sophisticated code analysis and patching
-    return content + `\n// Bug fix applied by ${this.name} for: ${task.description}\n`;
-  }
-
-  private applyRefactoring(content: string, task: Task): string {
-    // Simplified refactoring logic
-    // In practice, this would involve AST manipulation and code transformation
-    return content + `\n// Refactored by ${this.name}: ${task.description}\n`;
-  }
-
-  private generateCodeReview(content: string, fileName: string): string {
-    // Simplified code review
-    const lines = content.split('\n').length;
-    const issues: string[] = [];
-    
-    if (lines > 500) {
-      issues.push('- File is quite large, consider breaking it into smaller modules');
-    }
-    
-    if (content.includes('console.log')) {
-      issues.push('- Remove console.log statements before production');
-    }
-    
-    if (content.includes('TODO') || content.includes('FIXME')) {
-      issues.push('- Address TODO/FIXME comments');
-    }
-
-    return issues.length > 0 ? issues.join('\n') : '- Code looks good, no issues found';
-  }
-
-  private generateDocumentation(task: Task, fileName: string): string {
-    return `# ${task.title}
-
-**Generated by:** ${this.name} (${this.role})
-**Date:** ${new Date().toISOString()}
-
-## Overview
-
-${task.description}
-
-## Requirements
-
-${task.requirements.map(req => `- ${req.description}`).join('\n')}
-
-## Implementation Notes
-
-This documentation was automatically generated as part of task ${task.id}.
-
-## Next Steps
-
-- Review the implementation
-- Add additional details as needed
-- Update with actual implementation specifics
-`;
+  private reportProgress(task: Task, note: string, details: Record<string, any> = {}): void {
+    eventBus.emit(createTaskEvent(
+      SystemEvent.TASK_PROGRESS_UPDATED,
+      task.id,
+      {
+        status: TaskStatus.IN_PROGRESS,
+        note: note.length > MAX_NOTE_LENGTH ? `${note.slice(0, MAX_NOTE_LENGTH)}…` : note,
+        ...details
+      },
+      this.id,
+      this.id
+    ));
   }
 
-  private generateCommitMessage(task: Task, output: string): string {
+  protected generateCommitMessage(task: Task, output: string): string {
     const prefix = this.getCommitPrefix(task.type);
     const scope = this.role.toLowerCase();
     
@@ -529,4 +500,8 @@ ${output}`;
         return 'chore';
     }
   }
+}
+
+function lastLines(text: string, count: number): string {
+  return text.trimEnd().split('\n').slice(-count).join('\n');
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { ClaudeCodeConfig } from '../../types/config.types';
+import { ExecutionContext, ExecutionOutcome, TaskExecutor } from '../../types/executor.types';
+import { Task } from '../../types/task.types';
+import { PromptLibrary, promptMetadata } from '@tasks/prompt-library';
+import { ExecutionError } from './errors';
+import { discardChanges, failureReason, runProcess } from './process';
+
+/**
+ * Has Claude Code do the work: runs the configured binary in the agent's
+ * workspace with the task's prompt on stdin.
+ */
+export class ClaudeCodeExecutor implements TaskExecutor {
+  constructor(private config: ClaudeCodeConfig, private prompts: PromptLibrary = new PromptLibrary()) {}
+
+  public async execute(task: Task, context: ExecutionContext): Promise<ExecutionOutcome> {
+    const model = context.model || this.config.defaultModel;
+    const prompt = await this.prompts.render(task, {
+      role: context.role,
+      agentId: context.agentId,
+      agentName: context.agentName,
+      context: await context.getRepositoryContext()
+    });
+
+    const run = await runProcess({
+      command: this.config.binary,
+      args: [...this.config.args, '--model', model],
+      cwd: context.workspace,
+      env: this.buildEnvironment(context),
+      input: prompt.text,
+      signal: context.signal,
+      label: `Claude Code binary "${this.config.binary}"`,
+      onLine: (line, stream) => context.report(line, { stream })
+    });
+
+    const metadata = { model, exitCode: run.exitCode, ...promptMetadata(prompt) };
+    if (run.exitCode !== 0) {
+      const reason = failureReason(run);
+      throw new ExecutionError(
+        `${this.config.binary} exited with code ${run.exitCode}${reason ? `: ${reason}` : ''}`,
+        run.output,
+        metadata
+      );
+    }
+
+    return { output: run.output, metadata };
+  }
+
+  public async rollback(_task: Task, context: ExecutionContext): Promise<void> {
+    await discardChanges(context);
+  }
+
+  private buildEnvironment(context: ExecutionContext): NodeJS.ProcessEnv {
+    const env = { ...context.env };
+    if (this.config.apiKey) {
+      env.ANTHROPIC_API_KEY = this.config.apiKey;
+    }
+    if (this.config.baseUrl) {
+      env.ANTHROPIC_BASE_URL = this.config.baseUrl;
+    }
+    return env;
+  }
+}
+
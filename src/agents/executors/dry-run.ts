@@ -0,0 +1,23 @@
+import { ExecutionContext, ExecutionOutcome, TaskExecutor } from '../../types/executor.types';
+import { Task } from '../../types/task.types';
+import { PromptLibrary, promptMetadata } from '@tasks/prompt-library';
+
+/**
+ * Changes nothing: the output is the prompt the task would be given, so
+ * routing and prompts can be checked before anything touches the code.
+ */
+export class DryRunExecutor implements TaskExecutor {
+  constructor(private prompts: PromptLibrary = new PromptLibrary()) {}
+
+  public async execute(task: Task, context: ExecutionContext): Promise<ExecutionOutcome> {
+    const prompt = await this.prompts.render(task, {
+      role: context.role,
+      agentId: context.agentId,
+      agentName: context.agentName,
+      context: await context.getRepositoryContext()
+    });
+
+    context.report(`Dry run of task ${task.id}; no changes made`);
+    return { output: prompt.text, metadata: { dryRun: true, ...promptMetadata(prompt) } };
+  }
+}
@@ -0,0 +1,11 @@
+// A failed execution that still produced output worth keeping in the task result
+export class ExecutionError extends Error {
+  constructor(
+    message: string,
+    public readonly output?: string,
+    public readonly metadata: Record<string, any> = {}
+  ) {
+    super(message);
+    this.name = 'ExecutionError';
+  }
+}
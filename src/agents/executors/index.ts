@@ -0,0 +1,75 @@
+import * as path from 'path';
+import { ClaudeCodeConfig, ExecutorsConfig } from '../../types/config.types';
+import { TaskExecutor } from '../../types/executor.types';
+import { PromptLibrary } from '@tasks/prompt-library';
+import { ExecutorRegistry } from './registry';
+import { TemplateExecutor } from './template';
+import { DryRunExecutor } from './dry-run';
+import { ShellExecutor } from './shell';
+import { ClaudeCodeExecutor } from './claude-code';
+
+export { ExecutorRegistry, ExecutorSelection, ResolvedExecutor } from './registry';
+export { ExecutionError } from './errors';
+export { TemplateExecutor } from './template';
+export { DryRunExecutor } from './dry-run';
+export { ShellExecutor } from './shell';
+export { ClaudeCodeExecutor } from './claude-code';
+
+export interface BuiltinExecutorOptions {
+  claudeCode?: ClaudeCodeConfig;
+  shell?: ExecutorsConfig['shell'];
+  prompts?: PromptLibrary; // renders the prompts of claude-code and dry-run
+}
+
+/**
+ * Registers template and dry-run, plus claude-code while the integration is
+ * enabled and shell when it has a command. claude-code becomes the default
+ * when registered.
+ */
+export function registerBuiltinExecutors(
+  registry: ExecutorRegistry,
+  options: BuiltinExecutorOptions = {}
+): ExecutorRegistry {
+  const prompts = options.prompts || new PromptLibrary();
+
+  registry.register('template', new TemplateExecutor());
+  registry.register('dry-run', new DryRunExecutor(prompts));
+
+  if (options.claudeCode?.enabled) {
+    registry.register('claude-code', new ClaudeCodeExecutor(options.claudeCode, prompts));
+  }
+  if (options.shell?.command) {
+    registry.register('shell', new ShellExecutor({ ...options.shell, command: options.shell.command }));
+  }
+
+  registry.configure({ default: registry.get('claude-code') ? 'claude-code' : 'template' });
+  return registry;
+}
+
+/**
+ * Registers the executors named in agents.executors.plugins. Each module
+ * exports an executor, or a function returning one, as its default export or
+ * as the module itself. Paths are relative to baseDirectory.
+ */
+export function loadExecutorPlugins(
+  registry: ExecutorRegistry,
+  plugins: Record<string, string>,
+  baseDirectory: string = process.cwd()
+): void {
+  for (const [name, modulePath] of Object.entries(plugins)) {
+    let loaded: any;
+    try {
+      loaded = require(path.resolve(baseDirectory, modulePath));
+    } catch (error) {
+      throw new Error(`Could not load executor "${name}" from ${modulePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const exported = loaded && loaded.default !== undefined ? loaded.default : loaded;
+    const executor: TaskExecutor = typeof exported === 'function' ? exported() : exported;
+    if (!executor || typeof executor.execute !== 'function') {
+      throw new Error(`Executor module ${modulePath} for "${name}" does not export an executor with an execute() method`);
+    }
+
+    registry.register(name, executor);
+  }
+}
@@ -0,0 +1,108 @@
+import { spawn } from 'child_process';
+import * as readline from 'readline';
+import { ExecutionContext } from '../../types/executor.types';
+
+// Time a stopped process gets to exit after SIGTERM before it is killed
+const KILL_GRACE_PERIOD = 5000;
+// Output kept for the task result; the full stream goes out as progress notes
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+export interface ProcessOptions {
+  command: string;
+  args: string[];
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  input?: string; // written to stdin
+  signal: AbortSignal;
+  label?: string; // how errors refer to the command
+  onLine?: (line: string, stream: 'stdout' | 'stderr') => void;
+}
+
+export interface ProcessRun {
+  exitCode: number | null;
+  output: string;
+  stderr: string;
+}
+
+/**
+ * Runs a command, reporting its output line by line. Aborting the signal
+ * stops the process and everything it started.
+ */
+export function runProcess(options: ProcessOptions): Promise<ProcessRun> {
+  return new Promise((resolve, reject) => {
+    // In its own process group, so stopping it also stops the commands it started
+    const child = spawn(options.command, options.args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: true
+    });
+
+    let output = '';
+    let stderr = '';
+    let killTimer: NodeJS.Timeout | null = null;
+
+    const signalGroup = (signal: NodeJS.Signals) => {
+      try {
+        process.kill(-child.pid!, signal);
+      } catch {
+        child.kill(signal);
+      }
+    };
+    const stop = () => {
+      signalGroup('SIGTERM');
+      killTimer = setTimeout(() => signalGroup('SIGKILL'), KILL_GRACE_PERIOD);
+    };
+    if (options.signal.aborted) {
+      stop();
+    } else {
+      options.signal.addEventListener('abort', stop, { once: true });
+    }
+
+    readline.createInterface({ input: child.stdout }).on('line', line => {
+      output = keepTail(output + line + '\n');
+      options.onLine?.(line, 'stdout');
+    });
+    readline.createInterface({ input: child.stderr }).on('line', line => {
+      stderr = keepTail(stderr + line + '\n');
+      options.onLine?.(line, 'stderr');
+    });
+
+    child.once('error', error => {
+      options.signal.removeEventListener('abort', stop);
+      reject(new Error(`Could not run ${options.label || `"${options.command}"`}: ${error.message}`));
+    });
+    child.once('close', code => {
+      options.signal.removeEventListener('abort', stop);
+      if (killTimer) {
+        clearTimeout(killTimer);
+      }
+      resolve({ exitCode: code, output, stderr });
+    });
+
+    // The command may exit without reading its input
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(options.input || '');
+  });
+}
+
+// The last line a failed process printed, preferring stderr
+export function failureReason(run: ProcessRun): string | undefined {
+  return run.stderr.trim().split('\n').pop() || run.output.trim().split('\n').pop() || undefined;
+}
+
+/**
+ * Throws away uncommitted changes in the workspace. Only the agent's own
+ * worktree is touched; a shared working directory is left alone.
+ */
+export async function discardChanges(context: ExecutionContext): Promise<void> {
+  if (!context.isolated) {
+    return;
+  }
+
+  await context.git.discardChanges();
+}
+
+function keepTail(text: string): string {
+  return text.length > MAX_OUTPUT_LENGTH ? text.slice(-MAX_OUTPUT_LENGTH) : text;
+}
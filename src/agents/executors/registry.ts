@@ -0,0 +1,66 @@
+import { AgentRole } from '../../types/agent.types';
+import { TaskExecutor } from '../../types/executor.types';
+import { Task, TaskType } from '../../types/task.types';
+
+export interface ExecutorSelection {
+  default: string;
+  byTaskType: Partial<Record<TaskType, string>>;
+  byRole: Partial<Record<AgentRole, string>>;
+}
+
+export interface ResolvedExecutor {
+  name: string;
+  executor: TaskExecutor;
+}
+
+/**
+ * Named task executors and the rules for picking one. A task's
+ * `metadata.executor` wins, then its type, then the agent's role, then the
+ * default.
+ */
+export class ExecutorRegistry {
+  private executors: Map<string, TaskExecutor> = new Map();
+  private selection: ExecutorSelection = { default: 'template', byTaskType: {}, byRole: {} };
+
+  public register(name: string, executor: TaskExecutor): void {
+    this.executors.set(name, executor);
+  }
+
+  public get(name: string): TaskExecutor | undefined {
+    return this.executors.get(name);
+  }
+
+  public getNames(): string[] {
+    return Array.from(this.executors.keys());
+  }
+
+  public configure(selection: Partial<ExecutorSelection>): void {
+    this.selection = { ...this.selection, ...selection };
+  }
+
+  // Checks that every executor the selection names is registered
+  public validate(source = 'agents.executors'): void {
+    const named: [string, string][] = [
+      [`${source}.default`, this.selection.default],
+      ...Object.entries(this.selection.byTaskType).map(([type, name]): [string, string] => [`${source}.byTaskType.${type}`, name!]),
+      ...Object.entries(this.selection.byRole).map(([role, name]): [string, string] => [`${source}.byRole.${role}`, name!])
+    ];
+
+    for (const [key, name] of named) {
+      if (!this.executors.has(name)) {
+        throw new Error(`${key} names executor "${name}", which is not registered (available: ${this.getNames().join(', ')})`);
+      }
+    }
+  }
+
+  public resolve(task: Task, role: AgentRole): ResolvedExecutor {
+    const requested: string | undefined = task.metadata.executor;
+    const name = requested || this.selection.byTaskType[task.type] || this.selection.byRole[role] || this.selection.default;
+
+    const executor = this.executors.get(name);
+    if (!executor) {
+      throw new Error(`Task ${task.id} needs executor "${name}", which is not registered`);
+    }
+    return { name, executor };
+  }
+}
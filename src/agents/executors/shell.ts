@@ -0,0 +1,67 @@
+import { ShellExecutorConfig } from '../../types/config.types';
+import { ExecutionContext, ExecutionOutcome, TaskExecutor, VerificationResult } from '../../types/executor.types';
+import { Task } from '../../types/task.types';
+import { ExecutionError } from './errors';
+import { discardChanges, failureReason, runProcess } from './process';
+
+/**
+ * Runs a shell command in the workspace, such as an in-house code generator.
+ * The task is described in MADO_* environment variables and, as JSON, on
+ * stdin.
+ */
+export class ShellExecutor implements TaskExecutor {
+  constructor(private config: ShellExecutorConfig & { command: string }) {}
+
+  public async execute(task: Task, context: ExecutionContext): Promise<ExecutionOutcome> {
+    const run = await this.run(this.config.command, task, context);
+
+    const metadata = { command: this.config.command, exitCode: run.exitCode };
+    if (run.exitCode !== 0) {
+      const reason = failureReason(run);
+      throw new ExecutionError(
+        `Command exited with code ${run.exitCode}${reason ? `: ${reason}` : ''}`,
+        run.output,
+        metadata
+      );
+    }
+
+    return { output: run.output, metadata };
+  }
+
+  public async verify(task: Task, context: ExecutionContext): Promise<VerificationResult> {
+    if (!this.config.verifyCommand) {
+      return { passed: true };
+    }
+
+    const run = await this.run(this.config.verifyCommand, task, context);
+    return {
+      passed: run.exitCode === 0,
+      details: run.exitCode === 0 ? undefined : `${this.config.verifyCommand} exited with code ${run.exitCode}: ${failureReason(run) || 'no output'}`
+    };
+  }
+
+  public async rollback(_task: Task, context: ExecutionContext): Promise<void> {
+    await discardChanges(context);
+  }
+
+  private run(command: string, task: Task, context: ExecutionContext) {
+    return runProcess({
+      command: 'sh',
+      args: ['-c', command],
+      cwd: context.workspace,
+      env: {
+        ...context.env,
+        MADO_TASK_ID: task.id,
+        MADO_TASK_TYPE: task.type,
+        MADO_TASK_PRIORITY: task.priority,
+        MADO_TASK_TITLE: task.title,
+        MADO_TASK_DESCRIPTION: task.description,
+        MADO_TASK_FILES: task.files.join('\n')
+      },
+      input: JSON.stringify(task),
+      signal: context.signal,
+      label: `"${command}"`,
+      onLine: (line, stream) => context.report(line, { stream })
+    });
+  }
+}
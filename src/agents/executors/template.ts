@@ -0,0 +1,245 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { ExecutionContext, ExecutionOutcome, TaskExecutor } from '../../types/executor.types';
+import { Task, TaskType } from '../../types/task.types';
+
+const SUPPORTED_TASK_TYPES = [
+  TaskType.FEATURE,
+  TaskType.BUG_FIX,
+  TaskType.REFACTOR,
+  TaskType.CODE_REVIEW,
+  TaskType.DOCUMENTATION
+];
+
+/**
+ * Writes placeholder code, fixes and documentation from built-in templates.
+ * Useful for exercising the orchestration without a code generator.
+ */
+export class TemplateExecutor implements TaskExecutor {
+  public canExecute(task: Task): boolean {
+    return SUPPORTED_TASK_TYPES.includes(task.type);
+  }
+
+  public async execute(task: Task, context: ExecutionContext): Promise<ExecutionOutcome> {
+    let output: string;
+
+    switch (task.type) {
+      case TaskType.FEATURE:
+        output = this.implementFeature(task, context);
+        break;
+      case TaskType.BUG_FIX:
+        output = this.fixBug(task, context);
+        break;
+      case TaskType.REFACTOR:
+        output = this.refactorCode(task, context);
+        break;
+      case TaskType.CODE_REVIEW:
+        output = this.reviewCode(task, context);
+        break;
+      case TaskType.DOCUMENTATION:
+        output = this.writeDocumentation(task, context);
+        break;
+      default:
+        throw new Error(`Unsupported task type: ${task.type}`);
+    }
+
+    return { output, metadata: {} };
+  }
+
+  private implementFeature(task: Task, context: ExecutionContext): string {
+    context.report(`Implementing feature: ${task.description}`);
+
+    // This is a simplified implementation
+    // In a real scenario, this would involve complex code generation,
+    // file creation, and integration with existing code
+
+    const featureFiles = task.files || [];
+    const implementationSteps: string[] = [];
+
+    for (const file of featureFiles) {
+      const filePath = path.join(context.workspace, file);
+
+      if (fs.existsSync(filePath)) {
+        // Modify existing file
+        implementationSteps.push(`Modified ${file}`);
+      } else {
+        // Create new file
+        const dir = path.dirname(filePath);
+        if (!fs.existsSync(dir)) {
+          fs.mkdirSync(dir, { recursive: true });
+        }
+
+        const content = this.generateCodeTemplate(task, file, context);
+        fs.writeFileSync(filePath, content);
+        implementationSteps.push(`Created ${file}`);
+      }
+    }
+
+    return `Feature implementation completed:\n${implementationSteps.join('\n')}`;
+  }
+
+  private fixBug(task: Task, context: ExecutionContext): string {
+    context.report(`Fixing bug: ${task.description}`);
+
+    const bugFiles = task.files || [];
+    const fixSteps: string[] = [];
+
+    for (const file of bugFiles) {
+      const filePath = path.join(context.workspace, file);
+
+      if (fs.existsSync(filePath)) {
+        // Read and analyze the file
+        const content = fs.readFileSync(filePath, 'utf8');
+
+        // Apply bug fix (simplified)
+        const fixedContent = this.applyBugFix(content, task, context);
+        fs.writeFileSync(filePath, fixedContent);
+
+        fixSteps.push(`Fixed bug in ${file}`);
+      }
+    }
+
+    return `Bug fix completed:\n${fixSteps.join('\n')}`;
+  }
+
+  private refactorCode(task: Task, context: ExecutionContext): string {
+    context.report(`Refactoring code: ${task.description}`);
+
+    const refactorFiles = task.files || [];
+    const refactorSteps: string[] = [];
+
+    for (const file of refactorFiles) {
+      const filePath = path.join(context.workspace, file);
+
+      if (fs.existsSync(filePath)) {
+        const content = fs.readFileSync(filePath, 'utf8');
+        const refactoredContent = this.applyRefactoring(content, task, context);
+        fs.writeFileSync(filePath, refactoredContent);
+
+        refactorSteps.push(`Refactored ${file}`);
+      }
+    }
+
+    return `Code refactoring completed:\n${refactorSteps.join('\n')}`;
+  }
+
+  private reviewCode(task: Task, context: ExecutionContext): string {
+    context.report(`Reviewing code: ${task.description}`);
+
+    const reviewFiles = task.files || [];
+    const reviewComments: string[] = [];
+
+    for (const file of reviewFiles) {
+      const filePath = path.join(context.workspace, file);
+
+      if (fs.existsSync(filePath)) {
+        const content = fs.readFileSync(filePath, 'utf8');
+        const comments = this.generateCodeReview(content);
+        reviewComments.push(`${file}:\n${comments}`);
+      }
+    }
+
+    return `Code review completed:\n${reviewComments.join('\n\n')}`;
+  }
+
+  private writeDocumentation(task: Task, context: ExecutionContext): string {
+    context.report(`Writing documentation: ${task.description}`);
+
+    const docFiles = task.files || ['README.md'];
+    const docSteps: string[] = [];
+
+    for (const file of docFiles) {
+      const filePath = path.join(context.workspace, file);
+      const dir = path.dirname(filePath);
+
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      const content = this.generateDocumentation(task, context);
+      fs.writeFileSync(filePath, content);
+
+      docSteps.push(`Created/updated ${file}`);
+    }
+
+    return `Documentation completed:\n${docSteps.join('\n')}`;
+  }
+
+  private generateCodeTemplate(task: Task, fileName: string, context: ExecutionContext): string {
+    const ext = path.extname(fileName);
+    const agentName = context.agentName;
+
+    switch (ext) {
+      case '.ts':
+      case '.js':
+        return `// ${task.title}\n// Generated by Agent: ${agentName}\n\nexport class ${task.title.replace(/\s+/g, '')} {\n  // Implementation goes here\n}\n`;
+      case '.tsx':
+      case '.jsx':
+        return `// ${task.title}\n// Generated by Agent: ${agentName}\n\nimport React from 'react';\n\nconst ${task.title.replace(/\s+/g, '')}: React.FC = () => {\n  return (\n    <div>\n      {/* Implementation goes here */}\n    </div>\n  );\n};\n\nexport default ${task.title.replace(/\s+/g, '')};\n`;
+      case '.css':
+        return `/* ${task.title} */\n/* Generated by Agent: ${agentName} */\n\n.container {\n  /* Styles go here */\n}\n`;
+      case '.md':
+        return `# ${task.title}\n\nGenerated by Agent: ${agentName}\n\n## Description\n\n${task.description}\n\n## Implementation\n\nTODO: Add implementation details\n`;
+      default:
+        return `${task.title}\nGenerated by Agent: ${agentName}\n\n${task.description}\n`;
+    }
+  }
+
+  private applyBugFix(content: string, task: Task, context: ExecutionContext): string {
+    // Simplified bug fix logic
+    // In practice, this would involve sophisticated code analysis and patching
+    return content + `\n// Bug fix applied by ${context.agentName} for: ${task.description}\n`;
+  }
+
+  private applyRefactoring(content: string, task: Task, context: ExecutionContext): string {
+    // Simplified refactoring logic
+    // In practice, this would involve AST manipulation and code transformation
+    return content + `\n// Refactored by ${context.agentName}: ${task.description}\n`;
+  }
+
+  private generateCodeReview(content: string): string {
+    // Simplified code review
+    const lines = content.split('\n').length;
+    const issues: string[] = [];
+
+    if (lines > 500) {
+      issues.push('- File is quite large, consider breaking it into smaller modules');
+    }
+
+    if (content.includes('console.log')) {
+      issues.push('- Remove console.log statements before production');
+    }
+
+    if (content.includes('TODO') || content.includes('FIXME')) {
+      issues.push('- Address TODO/FIXME comments');
+    }
+
+    return issues.length > 0 ? issues.join('\n') : '- Code looks good, no issues found';
+  }
+
+  private generateDocumentation(task: Task, context: ExecutionContext): string {
+    return `# ${task.title}
+
+**Generated by:** ${context.agentName} (${context.role})
+**Date:** ${new Date().toISOString()}
+
+## Overview
+
+${task.description}
+
+## Requirements
+
+${task.requirements.map(req => `- ${req.description}`).join('\n')}
+
+## Implementation Notes
+
+This documentation was automatically generated as part of task ${task.id}.
+
+## Next Steps
+
+- Review the implementation
+- Add additional details as needed
+- Update with actual implementation specifics
+`;
+  }
+}
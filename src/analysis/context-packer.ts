@@ -0,0 +1,247 @@
+import * as path from 'path';
+import { ImportGraph, isSourceFile, isTestFile, parsePathAliases } from './import-graph';
+import { GitRepository } from '@git/repository';
+import { ContextConfig } from '../types/config.types';
+import { ContextBundle, ContextItem } from '../types/executor.types';
+import { CommitInfo } from '../types/git.types';
+import { Task } from '../types/task.types';
+
+// Base scores: the task's own files first, then what tests and uses them
+const SCORES = {
+  file: 100,
+  test: 80,
+  commit: 60,
+  import: 50,
+  importer: 40
+};
+// Bundles kept per cached commit, one for each set of task files
+const BUNDLES_PER_COMMIT = 20;
+// A listed file that does not fit is cut down rather than left out, unless less than this remains
+const MIN_TRUNCATED_LENGTH = 1000;
+
+export const DEFAULT_CONTEXT_CONFIG: ContextConfig = {
+  enabled: true,
+  budget: 60000,
+  maxCommits: 5,
+  maxFileSize: 200000,
+  cacheSize: 10
+};
+
+// What is known about the repository at one commit
+interface RepositoryIndex {
+  files: Map<string, number>; // path to size in bytes
+  graph: ImportGraph;
+}
+
+interface Candidate {
+  kind: ContextItem['kind'];
+  label: string;
+  path?: string;
+  commit?: string;
+  reasons: string[];
+  score: number;
+  content?: string; // files are read once they are picked
+}
+
+/**
+ * Gathers what an agent should know about the repository for a task: the
+ * task's files, their tests, the files they import and that import them,
+ * and the recent commits touching them. Items are ranked and added until
+ * the budget is spent. Everything is read from and keyed by the commit
+ * checked out in the workspace, so tasks on the same tree reuse the work
+ * and uncommitted edits never end up in a cached bundle.
+ */
+export class ContextPacker {
+  private config: ContextConfig;
+  private indexes: Map<string, Promise<RepositoryIndex>> = new Map();
+  private bundles: Map<string, Promise<ContextBundle>> = new Map();
+
+  constructor(config: Partial<ContextConfig> = {}) {
+    this.config = { ...DEFAULT_CONTEXT_CONFIG, ...config };
+  }
+
+  public async pack(task: Task, git: GitRepository): Promise<ContextBundle> {
+    const commit = await git.getHead();
+    const files = Array.from(new Set(task.files.map(file => path.posix.normalize(file)))).sort();
+    const key = `${commit}\n${files.join('\n')}`;
+
+    return this.cached(this.bundles, key, this.config.cacheSize * BUNDLES_PER_COMMIT, async () => {
+      const index = await this.cached(this.indexes, commit, this.config.cacheSize, () => this.buildIndex(git, commit));
+      const candidates = await this.collect(files, index, git);
+      return this.fit(commit, candidates, index, git);
+    });
+  }
+
+  private async buildIndex(git: GitRepository, commit: string): Promise<RepositoryIndex> {
+    const files = await git.listFiles(commit);
+
+    const tsconfig = await this.readFile(git, commit, files, 'tsconfig.json');
+    const graph = new ImportGraph(Array.from(files.keys()), tsconfig ? parsePathAliases(tsconfig) : []);
+    for (const file of Array.from(files.keys()).filter(isSourceFile)) {
+      const source = await this.readFile(git, commit, files, file);
+      if (source !== null) {
+        graph.addFile(file, source);
+      }
+    }
+
+    return { files, graph };
+  }
+
+  private async collect(files: string[], index: RepositoryIndex, git: GitRepository): Promise<Candidate[]> {
+    const candidates: Map<string, Candidate> = new Map();
+    const add = (candidate: Omit<Candidate, 'reasons'> & { reason: string }) => {
+      const existing = candidates.get(candidate.label);
+      if (!existing) {
+        const { reason, ...rest } = candidate;
+        candidates.set(candidate.label, { ...rest, reasons: [reason] });
+        return;
+      }
+      if (!existing.reasons.includes(candidate.reason)) {
+        existing.reasons.push(candidate.reason);
+      }
+      if (candidate.score > existing.score) {
+        existing.kind = candidate.kind;
+        existing.score = candidate.score;
+      }
+    };
+    const addFile = (kind: ContextItem['kind'], file: string, reason: string, bonus = 0) =>
+      add({ kind, label: file, path: file, reason, score: SCORES[kind] + bonus });
+
+    const listed = files.filter(file => index.files.has(file));
+    for (const file of listed) {
+      addFile('file', file, 'listed in the task');
+    }
+
+    for (const file of listed) {
+      const importers = index.graph.getImporters(file);
+      for (const test of this.findTests(file, index).concat(importers.filter(isTestFile))) {
+        addFile('test', test, `tests ${file}`);
+      }
+      for (const imported of index.graph.getImports(file)) {
+        // Shared by several of the task's files counts for more
+        addFile('import', imported, `imported by ${file}`, listed.filter(other => index.graph.getImports(other).includes(imported)).length);
+      }
+      for (const importer of importers.filter(importer => !isTestFile(importer))) {
+        addFile('importer', importer, `imports ${file}`);
+      }
+    }
+
+    const commits = await this.recentCommits(listed, git);
+    commits.forEach((commit, rank) => {
+      const touched = commit.files.filter(file => listed.includes(file));
+      add({
+        kind: 'commit',
+        label: `commit ${commit.hash.slice(0, 8)}`,
+        commit: commit.hash,
+        reason: `changed ${touched.join(', ')}`,
+        score: SCORES.commit - rank,
+        content: [
+          `${commit.hash.slice(0, 8)} ${commit.date.toISOString().slice(0, 10)} ${commit.author}`,
+          commit.message,
+          `Files: ${commit.files.join(', ')}`
+        ].join('\n')
+      });
+    });
+
+    return Array.from(candidates.values())
+      .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+  }
+
+  // Test files named after the file, such as user.test.ts for user.ts
+  private findTests(file: string, index: RepositoryIndex): string[] {
+    const stem = path.posix.basename(file, path.posix.extname(file));
+    const pattern = new RegExp(`(^|/)${stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[._](test|spec)\\.[cm]?[jt]sx?$`);
+    return Array.from(index.files.keys()).filter(candidate => candidate !== file && pattern.test(candidate));
+  }
+
+  private async recentCommits(files: string[], git: GitRepository): Promise<CommitInfo[]> {
+    if (this.config.maxCommits === 0 || files.length === 0) {
+      return [];
+    }
+
+    const commits: Map<string, CommitInfo> = new Map();
+    for (const file of files) {
+      for (const commit of await git.getCommitHistory({ maxCount: this.config.maxCommits, file })) {
+        commits.set(commit.hash, commit);
+      }
+    }
+
+    // Commits touching more of the task's files first, then the newest
+    const touched = (commit: CommitInfo) => commit.files.filter(file => files.includes(file)).length;
+    return Array.from(commits.values())
+      .sort((a, b) => touched(b) - touched(a) || b.date.getTime() - a.date.getTime())
+      .slice(0, this.config.maxCommits);
+  }
+
+  private async fit(commit: string, candidates: Candidate[], index: RepositoryIndex, git: GitRepository): Promise<ContextBundle> {
+    const items: ContextItem[] = [];
+    const omitted: string[] = [];
+    let remaining = this.config.budget;
+
+    for (const candidate of candidates) {
+      const content = candidate.content !== undefined
+        ? candidate.content
+        : await this.readFile(git, commit, index.files, candidate.path!);
+      if (content === null) {
+        omitted.push(candidate.label);
+        continue;
+      }
+
+      let truncated = false;
+      let included = content;
+      if (content.length > remaining) {
+        if (candidate.kind !== 'file' || remaining < MIN_TRUNCATED_LENGTH) {
+          omitted.push(candidate.label);
+          continue;
+        }
+        included = content.slice(0, remaining);
+        truncated = true;
+      }
+
+      remaining -= included.length;
+      items.push({
+        kind: candidate.kind,
+        label: candidate.label,
+        path: candidate.path,
+        commit: candidate.commit,
+        reason: candidate.reasons.join('; '),
+        score: candidate.score,
+        content: included,
+        truncated
+      });
+    }
+
+    return { commit, budget: this.config.budget, size: this.config.budget - remaining, items, omitted };
+  }
+
+  // A text file's content at the commit, or null when it is missing, too large or binary
+  private async readFile(git: GitRepository, commit: string, files: Map<string, number>, file: string): Promise<string | null> {
+    const size = files.get(file);
+    if (size === undefined || size > this.config.maxFileSize) {
+      return null;
+    }
+    try {
+      const content = await git.readFile(commit, file);
+      return content.includes('\0') ? null : content;
+    } catch {
+      return null;
+    }
+  }
+
+  // Shares one computation per key and keeps the most recently used entries
+  private cached<T>(cache: Map<string, Promise<T>>, key: string, limit: number, compute: () => Promise<T>): Promise<T> {
+    let entry = cache.get(key);
+    if (entry) {
+      cache.delete(key);
+    } else {
+      entry = compute();
+      entry.catch(() => cache.delete(key));
+    }
+    cache.set(key, entry);
+
+    while (cache.size > limit) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    return entry;
+  }
+}
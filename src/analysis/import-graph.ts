@@ -0,0 +1,120 @@
+import * as path from 'path';
+
+// Files whose imports are followed
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const IMPORT_PATTERNS = [
+  /\bimport\s+(?:[\w*{}\s,]+?\s+from\s+)?['"]([^'"]+)['"]/g,
+  /\bexport\s+[\w*{}\s,]*?\s+from\s+['"]([^'"]+)['"]/g,
+  /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g
+];
+const TEST_FILE_PATTERN = /(^|\/)(__tests__|tests?)\/|[._](test|spec)\.[cm]?[jt]sx?$/;
+
+// A tsconfig `paths` entry: `@core/*` -> `src/core/*`
+export interface PathAlias {
+  prefix: string;
+  targets: string[];
+}
+
+export function isSourceFile(file: string): boolean {
+  return SOURCE_EXTENSIONS.includes(path.extname(file));
+}
+
+export function isTestFile(file: string): boolean {
+  return TEST_FILE_PATTERN.test(file);
+}
+
+// The module specifiers a source file imports, each once
+export function parseImports(source: string): string[] {
+  const found = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of source.matchAll(pattern)) {
+      found.add(match[1]);
+    }
+  }
+  return Array.from(found);
+}
+
+/**
+ * Reads the path aliases from a tsconfig.json, relative to the repository
+ * root. Only `prefix/*` patterns are understood.
+ */
+export function parsePathAliases(tsconfig: string): PathAlias[] {
+  let compilerOptions: any;
+  try {
+    compilerOptions = JSON.parse(tsconfig).compilerOptions || {};
+  } catch {
+    return [];
+  }
+
+  const baseUrl = compilerOptions.baseUrl || '.';
+  return Object.entries<string[]>(compilerOptions.paths || {})
+    .filter(([pattern]) => pattern.endsWith('/*'))
+    .map(([pattern, targets]) => ({
+      prefix: pattern.slice(0, -1),
+      targets: targets
+        .filter(target => target.endsWith('/*'))
+        .map(target => path.posix.normalize(path.posix.join(baseUrl, target.slice(0, -1))))
+    }));
+}
+
+/**
+ * Which files of a repository import which. Only imports that resolve to a
+ * file in the repository are kept; packages are ignored.
+ */
+export class ImportGraph {
+  private imports: Map<string, string[]> = new Map();
+  private importers: Map<string, string[]> = new Map();
+  private files: Set<string>;
+
+  constructor(files: string[], private aliases: PathAlias[] = []) {
+    this.files = new Set(files);
+  }
+
+  public addFile(file: string, source: string): void {
+    const resolved = parseImports(source)
+      .map(specifier => this.resolve(file, specifier))
+      .filter((target): target is string => target !== null && target !== file);
+    const targets = Array.from(new Set(resolved));
+
+    this.imports.set(file, targets);
+    for (const target of targets) {
+      this.importers.set(target, [...(this.importers.get(target) || []), file]);
+    }
+  }
+
+  public getImports(file: string): string[] {
+    return this.imports.get(file) || [];
+  }
+
+  public getImporters(file: string): string[] {
+    return this.importers.get(file) || [];
+  }
+
+  private resolve(from: string, specifier: string): string | null {
+    let bases: string[];
+    if (specifier.startsWith('.')) {
+      bases = [path.posix.join(path.posix.dirname(from), specifier)];
+    } else {
+      const alias = this.aliases.find(candidate => specifier.startsWith(candidate.prefix));
+      if (!alias) {
+        return null;
+      }
+      bases = alias.targets.map(target => path.posix.join(target, specifier.slice(alias.prefix.length)));
+    }
+
+    for (const base of bases) {
+      const candidates = [
+        base,
+        // ESM sources name the compiled file: `./util.js` is util.ts
+        ...(/\.[cm]?jsx?$/.test(base) ? ['.ts', '.tsx'].map(extension => base.replace(/\.[cm]?jsx?$/, extension)) : []),
+        ...SOURCE_EXTENSIONS.map(extension => base + extension),
+        ...SOURCE_EXTENSIONS.map(extension => path.posix.join(base, 'index' + extension))
+      ];
+      const match = candidates.find(candidate => this.files.has(candidate));
+      if (match) {
+        return match;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,183 @@
+import * as crypto from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Socket } from 'socket.io';
+import { ApiError } from './errors';
+import { ApiKeyConfig, ApiKeyScope, SecurityConfig } from '../types/config.types';
+import { logger, logHelpers } from '@core/logger';
+
+export type ApiPermission = 'read' | 'tasks:write' | 'agents:write' | 'admin';
+
+export const SCOPE_PERMISSIONS: Record<ApiKeyScope, ApiPermission[]> = {
+  'read-only': ['read'],
+  'task-submitter': ['read', 'tasks:write'],
+  'agent-operator': ['read', 'agents:write'],
+  admin: ['read', 'tasks:write', 'agents:write', 'admin']
+};
+
+export interface ApiPrincipal {
+  keyId: string;
+  scope: ApiKeyScope;
+  permissions: ApiPermission[];
+}
+
+// Used for every request while authentication is switched off
+const ANONYMOUS: ApiPrincipal = { keyId: 'anonymous', scope: 'admin', permissions: SCOPE_PERMISSIONS.admin };
+
+const KEY_PREFIX = 'mado_';
+
+export function generateApiKey(): string {
+  return KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Keys are long random strings, so a plain SHA-256 is enough to keep them out
+ * of the configuration.
+ */
+export function hashApiKey(key: string): string {
+  return 'sha256:' + crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Resolves API keys to principals according to `SecurityConfig`. With
+ * authorization off every valid key gets full access.
+ */
+export class ApiKeyAuthenticator {
+  private keys: Map<string, ApiKeyConfig>;
+  private security: SecurityConfig;
+
+  constructor(security: SecurityConfig) {
+    this.security = security;
+    this.keys = new Map(security.apiKeys.map(entry => [entry.hash, entry]));
+
+    if (security.authentication && this.keys.size === 0) {
+      logger.warn('API authentication is enabled but no API keys are configured; every request will be rejected');
+    }
+  }
+
+  public isEnabled(): boolean {
+    return this.security.authentication;
+  }
+
+  public authenticate(key: string | undefined): ApiPrincipal | null {
+    if (!this.isEnabled()) {
+      return ANONYMOUS;
+    }
+    if (!key) {
+      return null;
+    }
+
+    const hash = hashApiKey(key);
+    const entry = this.keys.get(hash);
+    // The map lookup already matched; compare again in constant time anyway
+    if (!entry || !crypto.timingSafeEqual(Buffer.from(entry.hash), Buffer.from(hash))) {
+      return null;
+    }
+
+    const scope = this.security.authorization ? entry.scope : 'admin';
+    return { keyId: entry.id, scope, permissions: SCOPE_PERMISSIONS[scope] };
+  }
+
+  public can(principal: ApiPrincipal, permission: ApiPermission): boolean {
+    return principal.permissions.includes(permission);
+  }
+}
+
+export function getPrincipal(res: Response): ApiPrincipal {
+  return res.locals.principal as ApiPrincipal;
+}
+
+/**
+ * Reads the key from `Authorization: Bearer <key>` or `X-API-Key` and stores
+ * the principal in `res.locals.principal`.
+ */
+export function authenticateRequest(authenticator: ApiKeyAuthenticator): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const principal = authenticator.authenticate(keyFromHeaders(req.headers));
+
+    if (!principal) {
+      logHelpers.audit('api.authentication_failed', undefined, {
+        method: req.method,
+        path: req.originalUrl,
+        ip: req.ip
+      });
+      res.setHeader('WWW-Authenticate', 'Bearer realm="mado"');
+      next(new ApiError(401, 'A valid API key is required'));
+      return;
+    }
+
+    res.locals.principal = principal;
+    next();
+  };
+}
+
+/**
+ * Rejects the request unless the principal holds the permission. Anything
+ * beyond reading is written to the audit log, granted or not.
+ */
+export function requirePermission(authenticator: ApiKeyAuthenticator, permission: ApiPermission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const principal = getPrincipal(res);
+    const granted = authenticator.can(principal, permission);
+
+    if (permission !== 'read' || !granted) {
+      logHelpers.audit(granted ? 'api.access_granted' : 'api.access_denied', principal.keyId, {
+        permission,
+        scope: principal.scope,
+        method: req.method,
+        path: req.originalUrl,
+        ip: req.ip
+      });
+    }
+
+    if (!granted) {
+      next(new ApiError(403, `API key '${principal.keyId}' lacks the '${permission}' permission`));
+      return;
+    }
+    next();
+  };
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * `requirePermission` for mutating requests only; reads are covered by the
+ * router-wide 'read' check.
+ */
+export function requireWritePermission(authenticator: ApiKeyAuthenticator, permission: ApiPermission): RequestHandler {
+  const check = requirePermission(authenticator, permission);
+  return (req, res, next) => (SAFE_METHODS.includes(req.method) ? next() : check(req, res, next));
+}
+
+/**
+ * Socket.IO middleware: clients pass the key as `auth.apiKey` in the
+ * handshake or in the same headers as HTTP requests.
+ */
+export function authenticateSocket(authenticator: ApiKeyAuthenticator, permission: ApiPermission = 'read') {
+  return (socket: Socket, next: (error?: Error) => void): void => {
+    const handshake = socket.handshake;
+    const principal = authenticator.authenticate(handshake.auth?.apiKey || keyFromHeaders(handshake.headers));
+
+    if (!principal || !authenticator.can(principal, permission)) {
+      logHelpers.audit(principal ? 'socket.access_denied' : 'socket.authentication_failed', principal?.keyId, {
+        permission,
+        ip: handshake.address
+      });
+      next(new Error(principal ? 'Forbidden' : 'Unauthorized'));
+      return;
+    }
+
+    logHelpers.audit('socket.connected', principal.keyId, { scope: principal.scope, ip: handshake.address });
+    socket.data.principal = principal;
+    next();
+  };
+}
+
+function keyFromHeaders(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const authorization = headers.authorization;
+  if (typeof authorization === 'string' && authorization.startsWith('Bearer ')) {
+    return authorization.substring('Bearer '.length).trim();
+  }
+
+  const apiKey = headers['x-api-key'];
+  return typeof apiKey === 'string' ? apiKey : undefined;
+}
@@ -0,0 +1,25 @@
+import { AgentRegistry } from '@agents/agent-registry';
+import { TaskManager } from '@tasks/task-manager';
+import { GitRepository } from '@git/repository';
+import { WorktreeManager } from '@git/worktree';
+import { PersistentStore } from '@storage/store';
+import { EventBus } from '@core/events';
+
+export type ApiRepository = Pick<GitRepository, 'analyzeRepository' | 'getCommitHistory' | 'getBranches'>;
+
+export type ApiWorktrees = Pick<
+  WorktreeManager,
+  'discoverWorktrees' | 'getWorktreeForAgent' | 'getUncommittedChanges' | 'getWorktreeStats'
+>;
+
+/**
+ * The orchestrator components the API works on.
+ */
+export interface ApiContext {
+  agentRegistry: AgentRegistry;
+  taskManager: TaskManager;
+  repository: ApiRepository;
+  worktreeManager: ApiWorktrees;
+  eventBus: EventBus;
+  store: PersistentStore | null; // null when storage is disabled
+}
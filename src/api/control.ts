@@ -0,0 +1,315 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { ApiContext } from './context';
+import { toAgentView } from './routes/agents';
+import { schemas } from './validation';
+import { Task, TaskStatus, TaskType } from '../types/task.types';
+import { TaskManager, TaskInput } from '@tasks/task-manager';
+import { MADOEvent, TaskEvent } from '@core/events';
+import { logger, logHelpers } from '@core/logger';
+
+// One newline-terminated JSON request per connection. The answer is one final
+// ControlResponse line, optionally preceded by ControlMessage lines.
+export interface ControlRequest {
+  command: string;
+  args?: Record<string, any>;
+}
+
+export interface ControlResponse {
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+export interface ControlMessage {
+  event: unknown;
+}
+
+export interface ControlSession {
+  // Streams a message to the client ahead of the final response
+  send(event: unknown): void;
+  // Resolves when the client goes away or the server stops
+  closed: Promise<void>;
+}
+
+export type ControlHandler = (args: Record<string, any>, session: ControlSession) => unknown | Promise<unknown>;
+
+const MAX_REQUEST_BYTES = 1024 * 1024;
+
+const FINISHED: TaskStatus[] = [TaskStatus.COMPLETED, TaskStatus.FAILED, TaskStatus.CANCELLED];
+
+/**
+ * Local control channel for the CLI: a Unix domain socket only the owner can
+ * connect to, dispatching each request to a named handler.
+ */
+export class ControlServer {
+  private server: net.Server | null = null;
+  private socketPath: string;
+  private handlers: Map<string, ControlHandler>;
+  private pending: Set<net.Socket> = new Set();
+
+  constructor(socketPath: string, handlers: Record<string, ControlHandler>) {
+    this.socketPath = path.resolve(socketPath);
+    this.handlers = new Map(Object.entries(handlers));
+  }
+
+  public getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  public async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(this.socketPath), { recursive: true });
+    await this.removeStaleSocket();
+
+    const server = net.createServer(connection => this.handleConnection(connection));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    await fs.promises.chmod(this.socketPath, 0o600);
+
+    this.server = server;
+    logger.info(`Control socket listening on ${this.socketPath}`);
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    // Long-running requests such as a watch would otherwise hold the server open
+    this.pending.forEach(connection => connection.destroy());
+    this.pending.clear();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await fs.promises.rm(this.socketPath, { force: true });
+  }
+
+  private async removeStaleSocket(): Promise<void> {
+    if (!fs.existsSync(this.socketPath)) {
+      return;
+    }
+
+    const live = await new Promise<boolean>(resolve => {
+      const probe = net.connect(this.socketPath);
+      probe.once('connect', () => {
+        probe.destroy();
+        resolve(true);
+      });
+      probe.once('error', () => resolve(false));
+    });
+
+    if (live) {
+      throw new Error(`Another orchestrator is already listening on ${this.socketPath}`);
+    }
+
+    // Left behind by a process that did not shut down cleanly
+    logger.warn(`Removing stale control socket ${this.socketPath}`);
+    await fs.promises.rm(this.socketPath, { force: true });
+  }
+
+  private handleConnection(connection: net.Socket): void {
+    let buffer = '';
+    const session: ControlSession = {
+      send: event => {
+        if (!connection.destroyed) {
+          const message: ControlMessage = { event };
+          connection.write(JSON.stringify(message) + '\n');
+        }
+      },
+      closed: new Promise(resolve => connection.once('close', () => resolve()))
+    };
+
+    this.pending.add(connection);
+    void session.closed.then(() => this.pending.delete(connection));
+
+    connection.setEncoding('utf8');
+    connection.on('error', error => logger.debug('Control connection error', error));
+    connection.on('data', (chunk: string) => {
+      buffer += chunk;
+      if (buffer.length > MAX_REQUEST_BYTES) {
+        connection.removeAllListeners('data');
+        this.reply(connection, { ok: false, error: 'Request too large' });
+        return;
+      }
+
+      const newline = buffer.indexOf('\n');
+      if (newline === -1) {
+        return;
+      }
+
+      connection.removeAllListeners('data');
+      void this.dispatch(buffer.substring(0, newline), session).then(response => this.reply(connection, response));
+    });
+  }
+
+  private async dispatch(line: string, session: ControlSession): Promise<ControlResponse> {
+    let request: ControlRequest;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      return { ok: false, error: 'Malformed request' };
+    }
+
+    const handler = this.handlers.get(request.command);
+    if (!handler) {
+      return { ok: false, error: `Unknown command '${request.command}'` };
+    }
+
+    try {
+      return { ok: true, result: await handler(request.args || {}, session) };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private reply(connection: net.Socket, response: ControlResponse): void {
+    this.pending.delete(connection);
+    if (!connection.destroyed) {
+      connection.end(JSON.stringify(response) + '\n');
+    }
+  }
+}
+
+/**
+ * The commands the orchestrator answers on its control socket.
+ */
+export function createControlCommands(
+  context: ApiContext,
+  orchestrator: { stop: () => Promise<void> }
+): Record<string, ControlHandler> {
+  const { agentRegistry, taskManager, eventBus } = context;
+  const startedAt = new Date();
+
+  const requireTask = (taskId?: string): Task => {
+    if (typeof taskId !== 'string') {
+      throw new Error('A task id is required');
+    }
+    const task = taskManager.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    return task;
+  };
+
+  const taskWithResult = (task: Task) => ({ task, result: taskManager.getTaskResult(task.id) || null });
+
+  return {
+    status: async () => ({
+      pid: process.pid,
+      startedAt,
+      systemHealth: await agentRegistry.getSystemHealth(),
+      agentStatistics: agentRegistry.getAgentStatistics(),
+      taskStatistics: taskManager.getTaskStatistics()
+    }),
+
+    agents: async () => {
+      const health = await agentRegistry.getSystemHealth();
+      return agentRegistry.getAllAgents().map(agent => ({
+        ...toAgentView(agent),
+        health: health.agentHealth[agent.id] || null
+      }));
+    },
+
+    tasks: (args: { status?: TaskStatus[]; type?: TaskType; agentId?: string }) =>
+      taskManager
+        .getAllTasks()
+        .filter(task =>
+          (!args.status || args.status.includes(task.status)) &&
+          (!args.type || task.type === args.type) &&
+          (!args.agentId || task.assignedAgent === args.agentId)
+        )
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+
+    'task.submit': (args: { tasks?: unknown[] }) => {
+      if (!Array.isArray(args.tasks) || args.tasks.length === 0) {
+        throw new Error('No tasks to submit');
+      }
+
+      // Same rules as POST /api/tasks; dates arrive as strings and are converted here
+      const inputs = args.tasks.map((input, index) => {
+        const { error, value } = schemas.createTask.validate(input, { abortEarly: false });
+        if (error) {
+          throw new Error(`Task ${index + 1}: ${error.details.map(detail => detail.message).join('; ')}`);
+        }
+        return value as TaskInput;
+      });
+
+      const tasks = taskManager.createTasks(inputs);
+      tasks.forEach(task => logHelpers.taskEvent(task.id, 'created via CLI'));
+      return tasks;
+    },
+
+    'task.get': (args: { taskId?: string }) => taskWithResult(requireTask(args.taskId)),
+
+    'task.cancel': (args: { taskId?: string; reason?: string }) => {
+      const task = requireTask(args.taskId);
+      if (!TaskManager.isValidTransition(task.status, TaskStatus.CANCELLED)) {
+        throw new Error(`Task ${task.id} is already ${task.status}`);
+      }
+
+      const cancelled = taskManager.cancelTask(task.id, args.reason || 'Cancelled from the CLI');
+      logHelpers.taskEvent(task.id, 'cancelled via CLI', { reason: args.reason });
+      return cancelled;
+    },
+
+    'task.retry': (args: { taskId?: string }) => {
+      const retry = taskManager.retryTask(requireTask(args.taskId).id);
+      logHelpers.taskEvent(retry.id, 'retry created via CLI', { retryOf: args.taskId });
+      return retry;
+    },
+
+    // Streams the task's events until it finishes or the client leaves
+    'task.watch': (args: { taskId?: string }, session: ControlSession) => {
+      const task = requireTask(args.taskId);
+      if (FINISHED.includes(task.status)) {
+        return taskWithResult(task);
+      }
+
+      return new Promise(resolve => {
+        let finished = false;
+
+        const finish = () => {
+          if (finished) {
+            return;
+          }
+          finished = true;
+          eventBus.off('*', onEvent);
+          resolve(taskWithResult(task));
+        };
+
+        const onEvent = (event: MADOEvent) => {
+          if ((event as TaskEvent).taskId !== task.id) {
+            return;
+          }
+          session.send(event);
+          if (FINISHED.includes(task.status)) {
+            // Let the completion events of the same transition through first
+            setImmediate(finish);
+          }
+        };
+
+        eventBus.on('*', onEvent);
+        void session.closed.then(finish);
+      });
+    },
+
+    stop: () => {
+      logHelpers.audit('control.stop', process.env.USER);
+      // Answer first; stopping closes this socket
+      setImmediate(() => {
+        orchestrator.stop().catch(error => logger.error('Failed to stop via control socket', error));
+      });
+      return { stopping: true, pid: process.pid };
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import express, { Express } from 'express';
+import helmet from 'helmet';
+import compression from 'compression';
+import { ApiContext } from './context';
+import { ApiServer, SharedApiState, listen, closeServer } from './server';
+import { EventStream } from './event-stream';
+import { ApiConfig, DashboardConfig, SecurityConfig } from '../types/config.types';
+import { logger } from '@core/logger';
+
+// The same relative path works from src/api and dist/api
+export const DASHBOARD_ROOT = path.resolve(__dirname, '../../public/dashboard');
+
+/**
+ * Serves the bundled web dashboard on `DashboardConfig.port`, together with
+ * its own mount of the API and event stream so the page only ever talks to
+ * its own origin. Given the API server's shared state, both ports count
+ * against the same request limits and feed from the same event stream.
+ */
+export class DashboardServer {
+  private app: Express;
+  private server: http.Server | null = null;
+  private api: ApiServer;
+  private stream: EventStream;
+  private config: DashboardConfig;
+  private apiConfig: ApiConfig;
+  private authentication: boolean;
+
+  constructor(
+    context: ApiContext,
+    config: DashboardConfig,
+    apiConfig: ApiConfig,
+    security: SecurityConfig,
+    shared?: SharedApiState
+  ) {
+    this.config = config;
+    this.apiConfig = apiConfig;
+    // `dashboard.authentication` asks for an API key even while the API itself is open
+    this.authentication = security.authentication || config.authentication;
+    this.api = new ApiServer(context, apiConfig, { ...security, authentication: this.authentication }, shared);
+    this.stream = this.api.getEventStream();
+    this.app = this.createApp();
+  }
+
+  public getApp(): Express {
+    return this.app;
+  }
+
+  public getAddress(): AddressInfo | null {
+    return (this.server?.address() as AddressInfo | null) || null;
+  }
+
+  public async start(): Promise<AddressInfo> {
+    if (this.server) {
+      return this.getAddress() as AddressInfo;
+    }
+
+    const server = await listen(this.app, this.config.port, this.apiConfig.host);
+    this.server = server;
+    if (this.apiConfig.stream.enabled) {
+      this.stream.attach(server, [], this.api.getAuthenticator());
+    }
+
+    const address = this.getAddress() as AddressInfo;
+    logger.info(`Dashboard available at http://${address.address}:${address.port}`);
+    return address;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await this.stream.detach(server);
+    await closeServer(server);
+    logger.info('Dashboard stopped');
+  }
+
+  private createApp(): Express {
+    const app = express();
+
+    app.disable('x-powered-by');
+    app.use(helmet());
+    app.use(compression());
+
+    app.get('/settings.json', (_req, res) => {
+      res.json({
+        refreshInterval: this.config.refreshInterval,
+        authentication: this.authentication,
+        streamPath: this.apiConfig.stream.enabled ? this.apiConfig.stream.path : null
+      });
+    });
+    app.use(express.static(DASHBOARD_ROOT));
+    app.use(this.api.getApp());
+
+    return app;
+  }
+}
@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { logger } from '@core/logger';
+
+export class ApiError extends Error {
+  constructor(public readonly status: number, message: string, public readonly details?: any) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(resource: string, id: string) {
+    super(404, `${resource} ${id} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Wraps an async route so rejections reach the error handler; Express 4 does
+ * not catch them on its own.
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+/**
+ * Runs a domain operation and reports its failure with the given status, for
+ * errors that mean the request was wrong rather than the server.
+ */
+export async function rejectAs<T>(status: number, operation: () => T | Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    throw new ApiError(status, error instanceof Error ? error.message : String(error));
+  }
+}
+
+export function notFoundHandler(req: Request, _res: Response, next: NextFunction): void {
+  next(new ApiError(404, `No route for ${req.method} ${req.path}`));
+}
+
+export function errorHandler(error: any, req: Request, res: Response, _next: NextFunction): void {
+  // Body parser errors carry their own status (malformed JSON, payload too large)
+  const status = error instanceof ApiError ? error.status : error.status || error.statusCode || 500;
+
+  if (status >= 500) {
+    logger.error(`API request failed: ${req.method} ${req.originalUrl}`, error);
+  }
+
+  res.status(status).json({
+    error: status >= 500 ? 'Internal server error' : error.message,
+    ...(error instanceof ApiError && error.details ? { details: error.details } : {})
+  });
+}
@@ -0,0 +1,208 @@
+import * as http from 'http';
+import { Server, Socket } from 'socket.io';
+import { ApiKeyAuthenticator, authenticateSocket } from './auth';
+import { limitSockets, socketByApiKey, socketByClientIp } from './rate-limit';
+import { schemas } from './validation';
+import { EventStreamConfig } from '../types/config.types';
+import { RateLimiter } from '@utils/rate-limiter';
+import { EventBus, MADOEvent, SystemEvent, getEventSubjects } from '@core/events';
+import { logger } from '@core/logger';
+
+export interface EventFilter {
+  types?: SystemEvent[];
+  agentIds?: string[];
+  taskIds?: string[];
+  repositories?: string[];
+}
+
+export interface EventBatch {
+  events: MADOEvent[];
+  dropped: number; // events discarded since the previous batch because the client fell behind
+}
+
+/**
+ * An event matches when it satisfies every criterion that is set; within one
+ * criterion any listed value matches.
+ */
+export function matchesFilter(event: MADOEvent, filter: EventFilter): boolean {
+  const subjects = getEventSubjects(event);
+  const matches = (values: string[] | undefined, value: string | undefined) =>
+    !values || values.length === 0 || (value !== undefined && values.includes(value));
+
+  return (
+    matches(filter.types, event.type) &&
+    matches(filter.agentIds, subjects.agentId) &&
+    matches(filter.taskIds, subjects.taskId) &&
+    matches(filter.repositories, subjects.repository)
+  );
+}
+
+/**
+ * One connected client. At most one batch is in flight; events arriving
+ * meanwhile are queued and sent together once the client acknowledges, so a
+ * slow client costs memory up to `maxQueuedEvents` and never blocks emitters.
+ */
+class StreamClient {
+  public filter: EventFilter;
+  private socket: Socket;
+  private config: EventStreamConfig;
+  private queue: MADOEvent[] = [];
+  private dropped = 0;
+  private inFlight = false;
+
+  constructor(socket: Socket, config: EventStreamConfig, filter: EventFilter) {
+    this.socket = socket;
+    this.config = config;
+    this.filter = filter;
+  }
+
+  public push(event: MADOEvent): void {
+    if (!matchesFilter(event, this.filter)) {
+      return;
+    }
+
+    this.queue.push(event);
+    if (this.queue.length > this.config.maxQueuedEvents) {
+      this.queue.shift();
+      this.dropped++;
+    }
+    this.flush();
+  }
+
+  private flush(): void {
+    if (this.inFlight || this.queue.length === 0 || this.socket.disconnected) {
+      return;
+    }
+
+    const batch: EventBatch = { events: this.queue, dropped: this.dropped };
+    this.queue = [];
+    this.dropped = 0;
+    this.inFlight = true;
+
+    this.socket.timeout(this.config.ackTimeout).emit('events', batch, (error: Error | null) => {
+      if (error) {
+        logger.debug(`Event stream client ${this.socket.id} did not acknowledge a batch in time`);
+      }
+      this.inFlight = false;
+      this.flush();
+    });
+  }
+}
+
+/**
+ * Streams `MADOEvent`s to Socket.IO clients on the API server. Clients pass
+ * their API key, a filter and how much history to replay in the handshake
+ * `auth`, receive the replay as `history`, then live `events` batches which
+ * they acknowledge. A `subscribe` message replaces the filter. One stream
+ * can serve several HTTP servers, such as the API's and the dashboard's.
+ */
+export class EventStream {
+  private attached: Map<http.Server, Server> = new Map();
+  private clients: Map<string, StreamClient> = new Map();
+  private eventBus: EventBus;
+  private config: EventStreamConfig;
+  private authenticator: ApiKeyAuthenticator;
+  private limiter: RateLimiter;
+  private listener = (event: MADOEvent) => {
+    this.clients.forEach(client => client.push(event));
+  };
+
+  constructor(eventBus: EventBus, config: EventStreamConfig, authenticator: ApiKeyAuthenticator, limiter: RateLimiter) {
+    this.eventBus = eventBus;
+    this.config = config;
+    this.authenticator = authenticator;
+    this.limiter = limiter;
+  }
+
+  public attach(server: http.Server, corsOrigins: string[], authenticator: ApiKeyAuthenticator = this.authenticator): void {
+    if (this.attached.has(server)) {
+      return;
+    }
+
+    const io = new Server(server, {
+      path: this.config.path,
+      cors: { origin: corsOrigins.length > 0 ? corsOrigins : false }
+    });
+
+    io.use(limitSockets(this.limiter, socketByClientIp));
+    io.use(authenticateSocket(authenticator, 'read'));
+    io.use(limitSockets(this.limiter, socketByApiKey));
+    io.use((socket, next) => {
+      const { error, value } = schemas.streamHandshake.validate(socket.handshake.auth, { stripUnknown: true });
+      if (error) {
+        next(Object.assign(new Error('Validation failed'), { data: { details: error.message } }));
+        return;
+      }
+      socket.data.subscription = value;
+      next();
+    });
+    io.on('connection', socket => this.onConnection(socket));
+
+    if (this.attached.size === 0) {
+      this.eventBus.on('*', this.listener, 'event-stream');
+    }
+    this.attached.set(server, io);
+    logger.info(`Event stream available at ${this.config.path}`);
+  }
+
+  public getClientCount(): number {
+    return this.clients.size;
+  }
+
+  // Disconnects the clients of one HTTP server; the others keep streaming
+  public async detach(server: http.Server): Promise<void> {
+    const io = this.attached.get(server);
+    if (!io) {
+      return;
+    }
+
+    this.attached.delete(server);
+    if (this.attached.size === 0) {
+      this.eventBus.off('*', this.listener, 'event-stream');
+    }
+    // The HTTP server belongs to its owner, which closes it afterwards
+    io.sockets.sockets.forEach((_socket, id) => this.clients.delete(id));
+    io.disconnectSockets(true);
+    io.engine.close();
+  }
+
+  public async close(): Promise<void> {
+    for (const server of Array.from(this.attached.keys())) {
+      await this.detach(server);
+    }
+  }
+
+  private onConnection(socket: Socket): void {
+    const { filter = {}, history: requested, since } = socket.data.subscription as {
+      filter?: EventFilter;
+      history?: number;
+      since?: Date;
+    };
+    const historyLimit = Math.min(requested ?? this.config.historyLimit, this.config.historyLimit);
+    const history = historyLimit > 0
+      ? this.eventBus.getEventHistory(undefined, since)
+          .filter(event => matchesFilter(event, filter))
+          .slice(-historyLimit)
+      : [];
+
+    // Replay first so live events always follow the history they continue
+    socket.emit('history', history);
+    const client = new StreamClient(socket, this.config, filter);
+    this.clients.set(socket.id, client);
+
+    socket.on('subscribe', (requested: unknown, ack?: unknown) => {
+      const reply = typeof ack === 'function' ? ack : () => undefined;
+      const { error: invalid, value: updated } = schemas.streamFilter.validate(requested ?? {});
+      if (invalid) {
+        reply({ error: 'Validation failed', details: invalid.message });
+        return;
+      }
+      client.filter = updated;
+      reply({ filter: updated });
+    });
+
+    socket.on('disconnect', () => {
+      this.clients.delete(socket.id);
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Socket } from 'socket.io';
+import { ApiError } from './errors';
+import { ApiPrincipal, getPrincipal } from './auth';
+import { RateLimiter, RateLimitResult } from '@utils/rate-limiter';
+import { RateLimitConfig } from '../types/config.types';
+import { logger } from '@core/logger';
+
+export function createRequestLimiter(config: RateLimitConfig): RateLimiter {
+  return new RateLimiter({
+    enabled: config.enabled,
+    ratePerMinute: config.requestsPerMinute,
+    burst: config.burstLimit
+  });
+}
+
+// Anonymous callers share one principal, so only their address tells them apart
+function principalKey(principal: ApiPrincipal | undefined): string | null {
+  return principal && principal.keyId !== 'anonymous' ? `key:${principal.keyId}` : null;
+}
+
+/**
+ * Throttles requests per key. Mounted once before authentication keyed by
+ * client IP, and once after it keyed by API key.
+ */
+export function limitRequests(
+  limiter: RateLimiter,
+  keyOf: (req: Request, res: Response) => string | null
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = keyOf(req, res);
+    if (!key || !limiter.isEnabled()) {
+      next();
+      return;
+    }
+
+    const result = limiter.consume(key);
+    res.setHeader('RateLimit-Limit', result.limit);
+    res.setHeader('RateLimit-Remaining', result.remaining);
+
+    if (!result.allowed) {
+      const retryAfter = retryAfterSeconds(result);
+      logger.warn(`Rate limit exceeded for ${key}`, { method: req.method, path: req.originalUrl });
+      res.setHeader('Retry-After', retryAfter);
+      next(new ApiError(429, 'Too many requests', { retryAfter }));
+      return;
+    }
+    next();
+  };
+}
+
+export const byClientIp = (req: Request): string => `ip:${req.ip}`;
+
+export const byApiKey = (_req: Request, res: Response): string | null => principalKey(getPrincipal(res));
+
+/**
+ * Socket.IO counterpart of `limitRequests`, applied to connection attempts.
+ */
+export function limitSockets(limiter: RateLimiter, keyOf: (socket: Socket) => string | null) {
+  return (socket: Socket, next: (error?: Error) => void): void => {
+    const key = keyOf(socket);
+    const result = key && limiter.isEnabled() ? limiter.consume(key) : null;
+
+    if (result && !result.allowed) {
+      logger.warn(`Rate limit exceeded for ${key} (event stream)`);
+      next(Object.assign(new Error('Too many requests'), { data: { retryAfter: retryAfterSeconds(result) } }));
+      return;
+    }
+    next();
+  };
+}
+
+export const socketByClientIp = (socket: Socket): string => `ip:${socket.handshake.address}`;
+
+export const socketByApiKey = (socket: Socket): string | null => principalKey(socket.data.principal);
+
+function retryAfterSeconds(result: RateLimitResult): number {
+  return Math.max(1, Math.ceil(result.retryAfter / 1000));
+}
@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { ApiContext } from '../context';
+import { asyncHandler, ApiError, NotFoundError } from '../errors';
+import { validate, schemas } from '../validation';
+import { IAgent, AgentStatus } from '../../types/agent.types';
+import { logHelpers } from '@core/logger';
+
+export function toAgentView(agent: IAgent) {
+  return {
+    id: agent.id,
+    name: agent.name,
+    role: agent.role,
+    status: agent.status,
+    capabilities: agent.capabilities,
+    workingDirectory: agent.workingDirectory,
+    lastActivity: agent.lastActivity,
+    availableTaskSlots: agent.getAvailableTaskSlots(),
+    metrics: agent.metrics,
+    metadata: agent.metadata
+  };
+}
+
+export function createAgentRoutes(context: ApiContext): Router {
+  const router = Router();
+
+  const requireAgent = (agentId: string): IAgent => {
+    const agent = context.agentRegistry.getAgent(agentId);
+    if (!agent) {
+      throw new NotFoundError('Agent', agentId);
+    }
+    return agent;
+  };
+
+  router.get('/', validate(schemas.agentQuery, 'query'), (req, res) => {
+    const { role, status } = req.query;
+    const agents = context.agentRegistry.getAllAgents().filter(agent =>
+      (!role || agent.role === role) && (!status || agent.status === status)
+    );
+    res.json({ agents: agents.map(toAgentView) });
+  });
+
+  router.get('/:agentId', (req, res) => {
+    res.json({ agent: toAgentView(requireAgent(req.params.agentId)) });
+  });
+
+  router.get('/:agentId/health', asyncHandler(async (req, res) => {
+    const agent = requireAgent(req.params.agentId);
+    res.json({ agentId: agent.id, health: await agent.getHealth() });
+  }));
+
+  // Lifecycle actions answer once the agent has finished the transition
+  const lifecycle = (action: 'start' | 'stop' | 'restart', allowedFrom: AgentStatus[]) =>
+    asyncHandler(async (req, res) => {
+      const agent = requireAgent(req.params.agentId);
+      if (!allowedFrom.includes(agent.status)) {
+        throw new ApiError(409, `Cannot ${action} agent ${agent.id} while it is ${agent.status}`);
+      }
+
+      await agent[action]();
+      logHelpers.agentAction(agent.id, `${action} requested via API`);
+      res.json({ agent: toAgentView(agent) });
+    });
+
+  const running = [AgentStatus.ACTIVE, AgentStatus.BUSY];
+  router.post('/:agentId/start', lifecycle('start', [AgentStatus.INACTIVE, AgentStatus.ERROR]));
+  router.post('/:agentId/stop', lifecycle('stop', [...running, AgentStatus.ERROR]));
+  router.post('/:agentId/restart', lifecycle('restart', [...running, AgentStatus.ERROR]));
+
+  return router;
+}
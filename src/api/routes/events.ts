@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { ApiContext } from '../context';
+import { asyncHandler } from '../errors';
+import { validate, validatedQuery, schemas } from '../validation';
+import { EventQuery } from '@storage/store';
+import { MADOEvent, getEventSubjects } from '@core/events';
+
+export function createEventRoutes(context: ApiContext): Router {
+  const router = Router();
+
+  router.get('/', validate(schemas.eventQuery, 'query'), asyncHandler(async (req, res) => {
+    const query = validatedQuery<EventQuery & { limit: number }>(req);
+
+    if (context.store) {
+      await context.store.flush();
+      res.json({ events: await context.store.queryEvents(query) });
+      return;
+    }
+
+    // Without storage only the in-memory history is available
+    res.json({ events: filterEvents(context.eventBus.getEventHistory(), query) });
+  }));
+
+  return router;
+}
+
+function filterEvents(events: MADOEvent[], query: EventQuery & { limit: number }): MADOEvent[] {
+  const types = query.type ? ([] as string[]).concat(query.type) : undefined;
+
+  const matching = events.filter(event => {
+    const subjects = getEventSubjects(event);
+    return (
+      (!types || types.includes(event.type)) &&
+      (!query.agentId || subjects.agentId === query.agentId) &&
+      (!query.taskId || subjects.taskId === query.taskId) &&
+      (!query.repository || subjects.repository === query.repository) &&
+      (!query.since || event.timestamp >= query.since) &&
+      (!query.until || event.timestamp <= query.until)
+    );
+  });
+
+  return matching.slice(-query.limit);
+}
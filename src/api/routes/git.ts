@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { ApiContext } from '../context';
+import { asyncHandler } from '../errors';
+import { validate, validatedQuery, schemas } from '../validation';
+import { CommitAnalyzer } from '@git/commit-analyzer';
+
+export function createGitRoutes(context: ApiContext): Router {
+  const router = Router();
+  const analyzer = new CommitAnalyzer();
+
+  router.get('/analysis', asyncHandler(async (_req, res) => {
+    const analysis = await context.repository.analyzeRepository();
+    res.json({ analysis, history: analyzer.analyzeCommitHistory(analysis.commits) });
+  }));
+
+  router.get('/commits', validate(schemas.commitQuery, 'query'), asyncHandler(async (req, res) => {
+    const { branch, author, since, limit } = validatedQuery<{
+      branch?: string;
+      author?: string;
+      since?: Date;
+      limit: number;
+    }>(req);
+
+    const commits = await context.repository.getCommitHistory({ branch, author, since, maxCount: limit });
+    res.json({
+      commits: commits.map(commit => ({ ...commit, ...analyzer.analyzeCommit(commit) }))
+    });
+  }));
+
+  router.get('/branches', asyncHandler(async (_req, res) => {
+    res.json({ branches: await context.repository.getBranches() });
+  }));
+
+  return router;
+}
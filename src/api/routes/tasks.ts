@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { ApiContext } from '../context';
+import { asyncHandler, rejectAs, NotFoundError, ApiError } from '../errors';
+import { validate, validatedQuery, schemas } from '../validation';
+import { Task, TaskStatus, TaskResult } from '../../types/task.types';
+import { TaskManager } from '@tasks/task-manager';
+import { logHelpers } from '@core/logger';
+
+export function createTaskRoutes(context: ApiContext): Router {
+  const router = Router();
+
+  const requireTask = (taskId: string): Task => {
+    const task = context.taskManager.getTask(taskId);
+    if (!task) {
+      throw new NotFoundError('Task', taskId);
+    }
+    return task;
+  };
+
+  router.post('/', validate(schemas.createTask), asyncHandler(async (req, res) => {
+    // Unknown dependencies and duplicate ids are the caller's mistake
+    const task = await rejectAs(400, () => context.taskManager.createTask(req.body));
+    logHelpers.taskEvent(task.id, 'created via API');
+    res.status(201).json({ task });
+  }));
+
+  router.get('/', validate(schemas.taskQuery, 'query'), (req, res) => {
+    const { status, type, agentId, limit } = validatedQuery<{
+      status?: TaskStatus[];
+      type?: string;
+      agentId?: string;
+      limit?: number;
+    }>(req);
+
+    let tasks = context.taskManager.getAllTasks().filter(task =>
+      (!status || status.includes(task.status)) &&
+      (!type || task.type === type) &&
+      (!agentId || task.assignedAgent === agentId)
+    );
+    tasks = tasks.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    res.json({ tasks: limit ? tasks.slice(0, limit) : tasks, total: tasks.length });
+  });
+
+  router.get('/:taskId', (req, res) => {
+    const task = requireTask(req.params.taskId);
+    res.json({ task, result: context.taskManager.getTaskResult(task.id) || null });
+  });
+
+  router.post('/:taskId/cancel', validate(schemas.cancelTask), asyncHandler(async (req, res) => {
+    const task = requireTask(req.params.taskId);
+    if (!TaskManager.isValidTransition(task.status, TaskStatus.CANCELLED)) {
+      throw new ApiError(409, `Task ${task.id} is already ${task.status}`);
+    }
+
+    const cancelled = context.taskManager.cancelTask(task.id, req.body.reason);
+    logHelpers.taskEvent(task.id, 'cancelled via API', { reason: req.body.reason });
+    res.json({ task: cancelled });
+  }));
+
+  router.get('/:taskId/results', asyncHandler(async (req, res) => {
+    const task = requireTask(req.params.taskId);
+
+    // The store keeps every attempt; without it only the latest result is known
+    let results: TaskResult[] = [];
+    if (context.store) {
+      await context.store.flush();
+      results = await context.store.queryTaskResults({ taskId: task.id });
+    } else {
+      const latest = context.taskManager.getTaskResult(task.id);
+      results = latest ? [latest] : [];
+    }
+
+    res.json({ taskId: task.id, results });
+  }));
+
+  return router;
+}
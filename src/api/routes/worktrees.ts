@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { ApiContext } from '../context';
+import { asyncHandler, NotFoundError } from '../errors';
+
+export function createWorktreeRoutes(context: ApiContext): Router {
+  const router = Router();
+
+  // Agents manage their own worktrees, so read the current state from git
+  router.get('/', asyncHandler(async (_req, res) => {
+    const worktrees = await context.worktreeManager.discoverWorktrees();
+    res.json({ worktrees, stats: await context.worktreeManager.getWorktreeStats() });
+  }));
+
+  router.get('/:agentId', asyncHandler(async (req, res) => {
+    await context.worktreeManager.discoverWorktrees();
+    const worktree = context.worktreeManager.getWorktreeForAgent(req.params.agentId);
+    if (!worktree) {
+      throw new NotFoundError('Worktree for agent', req.params.agentId);
+    }
+
+    const uncommittedChanges = await context.worktreeManager.getUncommittedChanges(worktree.id);
+    res.json({ worktree, uncommittedChanges });
+  }));
+
+  return router;
+}
@@ -0,0 +1,172 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import express, { Express, Router } from 'express';
+import helmet from 'helmet';
+import cors from 'cors';
+import compression from 'compression';
+import { ApiContext } from './context';
+import { ApiConfig, SecurityConfig } from '../types/config.types';
+import { asyncHandler, errorHandler, notFoundHandler } from './errors';
+import { ApiKeyAuthenticator, authenticateRequest, requirePermission, requireWritePermission } from './auth';
+import { createRequestLimiter, limitRequests, byClientIp, byApiKey } from './rate-limit';
+import { EventStream } from './event-stream';
+import { RateLimiter } from '@utils/rate-limiter';
+import { createAgentRoutes } from './routes/agents';
+import { createTaskRoutes } from './routes/tasks';
+import { createWorktreeRoutes } from './routes/worktrees';
+import { createGitRoutes } from './routes/git';
+import { createEventRoutes } from './routes/events';
+import { logger } from '@core/logger';
+
+export async function listen(app: Express, port: number, host: string): Promise<http.Server> {
+  const server = http.createServer(app);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  return server;
+}
+
+export async function closeServer(server: http.Server): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()));
+    // Keep-alive connections would otherwise hold close() open
+    server.closeIdleConnections();
+  });
+}
+
+// Request limits and the event stream, shared with other mounts of the API
+export interface SharedApiState {
+  limiter: RateLimiter;
+  stream: EventStream;
+}
+
+/**
+ * REST API for driving the orchestrator from other tools: agents, tasks,
+ * worktrees, git analysis and the event history under `/api`, plus the live
+ * event stream. Everything except `/api/health` requires an API key once
+ * authentication is enabled.
+ */
+export class ApiServer {
+  private app: Express;
+  private server: http.Server | null = null;
+  private context: ApiContext;
+  private config: ApiConfig;
+  private authenticator: ApiKeyAuthenticator;
+  private limiter: RateLimiter;
+  private stream: EventStream;
+
+  constructor(context: ApiContext, config: ApiConfig, security: SecurityConfig, shared?: SharedApiState) {
+    this.context = context;
+    this.config = config;
+    this.authenticator = new ApiKeyAuthenticator(security);
+    this.limiter = shared?.limiter || createRequestLimiter(security.rateLimiting);
+    this.stream = shared?.stream || new EventStream(context.eventBus, config.stream, this.authenticator, this.limiter);
+    this.app = this.createApp();
+  }
+
+  public getApp(): Express {
+    return this.app;
+  }
+
+  public getAuthenticator(): ApiKeyAuthenticator {
+    return this.authenticator;
+  }
+
+  public getRateLimiter(): RateLimiter {
+    return this.limiter;
+  }
+
+  public getEventStream(): EventStream {
+    return this.stream;
+  }
+
+  public getSharedState(): SharedApiState {
+    return { limiter: this.limiter, stream: this.stream };
+  }
+
+  public getAddress(): AddressInfo | null {
+    return (this.server?.address() as AddressInfo | null) || null;
+  }
+
+  public async start(): Promise<AddressInfo> {
+    if (this.server) {
+      return this.getAddress() as AddressInfo;
+    }
+
+    const server = await listen(this.app, this.config.port, this.config.host);
+    this.server = server;
+    if (this.config.stream.enabled) {
+      this.stream.attach(server, this.config.corsOrigins);
+    }
+
+    const address = this.getAddress() as AddressInfo;
+    logger.info(`API server listening on http://${address.address}:${address.port}`);
+    return address;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await this.stream.detach(server);
+    await closeServer(server);
+    logger.info('API server stopped');
+  }
+
+  private createApp(): Express {
+    const app = express();
+
+    app.disable('x-powered-by');
+    app.use(helmet());
+    app.use(cors({ origin: this.config.corsOrigins.length > 0 ? this.config.corsOrigins : false }));
+    app.use(compression());
+    app.use(express.json({ limit: this.config.bodyLimit }));
+
+    app.use('/api', this.createRouter());
+    app.use(notFoundHandler);
+    app.use(errorHandler);
+
+    return app;
+  }
+
+  private createRouter(): Router {
+    const router = Router();
+    const { agentRegistry, taskManager } = this.context;
+    const auth = this.authenticator;
+
+    router.get('/health', (_req, res) => {
+      res.json({ status: 'ok', timestamp: new Date() });
+    });
+
+    // Throttle by address before authenticating so key guessing is limited too
+    router.use(
+      limitRequests(this.limiter, byClientIp),
+      authenticateRequest(auth),
+      limitRequests(this.limiter, byApiKey),
+      requirePermission(auth, 'read')
+    );
+
+    router.get('/status', asyncHandler(async (_req, res) => {
+      res.json({
+        systemHealth: await agentRegistry.getSystemHealth(),
+        agentStatistics: agentRegistry.getAgentStatistics(),
+        taskStatistics: taskManager.getTaskStatistics()
+      });
+    }));
+
+    router.use('/agents', requireWritePermission(auth, 'agents:write'), createAgentRoutes(this.context));
+    router.use('/tasks', requireWritePermission(auth, 'tasks:write'), createTaskRoutes(this.context));
+    router.use('/worktrees', createWorktreeRoutes(this.context));
+    router.use('/git', createGitRoutes(this.context));
+    router.use('/events', createEventRoutes(this.context));
+
+    return router;
+  }
+}
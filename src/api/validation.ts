@@ -0,0 +1,119 @@
+import Joi from 'joi';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiError } from './errors';
+import { TaskType, TaskStatus, Priority } from '../types/task.types';
+import { AgentRole, AgentStatus } from '../types/agent.types';
+import { SystemEvent } from '@core/events';
+
+type RequestPart = 'body' | 'query' | 'params';
+
+/**
+ * Validates one part of the request and replaces it with the converted value
+ * (defaults applied, numbers and dates parsed).
+ */
+export function validate(schema: Joi.ObjectSchema, part: RequestPart = 'body'): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const { error, value } = schema.validate(req[part], { abortEarly: false, stripUnknown: part !== 'body' });
+
+    if (error) {
+      next(new ApiError(400, 'Validation failed', error.details.map(detail => ({
+        path: detail.path.join('.'),
+        message: detail.message
+      }))));
+      return;
+    }
+
+    req[part] = value;
+    next();
+  };
+}
+
+/**
+ * The query string as converted by `validate`, typed for the route.
+ */
+export function validatedQuery<T>(req: Request): T {
+  return req.query as unknown as T;
+}
+
+const oneOrMany = (schema: Joi.StringSchema) =>
+  Joi.alternatives().try(Joi.array().items(schema), schema.custom(value => [value]));
+
+const limit = Joi.number().integer().min(1).max(1000);
+
+// Metadata the scheduler, retry manager and recovery keep for themselves; clients cannot set it
+const INTERNAL_METADATA_KEYS = ['preferredAgent', 'excludedAgents', 'retryNotBefore', 'retryHistory', 'recovery'];
+
+const taskMetadata = Joi.object(
+  Object.fromEntries(INTERNAL_METADATA_KEYS.map(key => [key, Joi.any().strip()]))
+).unknown(true);
+
+const streamFilter = Joi.object({
+  types: Joi.array().items(Joi.string().valid(...Object.values(SystemEvent))),
+  agentIds: Joi.array().items(Joi.string()),
+  taskIds: Joi.array().items(Joi.string()),
+  repositories: Joi.array().items(Joi.string())
+});
+
+export const schemas = {
+  agentQuery: Joi.object({
+    role: Joi.string().valid(...Object.values(AgentRole)),
+    status: Joi.string().valid(...Object.values(AgentStatus))
+  }),
+
+  createTask: Joi.object({
+    id: Joi.string().max(200),
+    title: Joi.string().min(1).max(500).required(),
+    description: Joi.string().allow('').max(20000).required(),
+    type: Joi.string().valid(...Object.values(TaskType)).required(),
+    priority: Joi.string().valid(...Object.values(Priority)),
+    dependencies: Joi.array().items(Joi.string()),
+    estimatedDuration: Joi.number().min(0),
+    deadline: Joi.date().iso(),
+    requirements: Joi.array().items(Joi.object({
+      id: Joi.string().required(),
+      description: Joi.string().required(),
+      type: Joi.string().valid('functional', 'technical', 'quality').required(),
+      satisfied: Joi.boolean().default(false)
+    })),
+    metadata: taskMetadata,
+    tags: Joi.array().items(Joi.string()),
+    files: Joi.array().items(Joi.string())
+  }),
+
+  taskQuery: Joi.object({
+    status: oneOrMany(Joi.string().valid(...Object.values(TaskStatus))),
+    type: Joi.string().valid(...Object.values(TaskType)),
+    agentId: Joi.string(),
+    limit
+  }),
+
+  cancelTask: Joi.object({
+    reason: Joi.string().max(1000)
+  }),
+
+  commitQuery: Joi.object({
+    branch: Joi.string(),
+    author: Joi.string(),
+    since: Joi.date().iso(),
+    limit: limit.default(20)
+  }),
+
+  eventQuery: Joi.object({
+    type: oneOrMany(Joi.string().valid(...Object.values(SystemEvent))),
+    agentId: Joi.string(),
+    taskId: Joi.string(),
+    repository: Joi.string(),
+    since: Joi.date().iso(),
+    until: Joi.date().iso(),
+    limit: limit.default(100)
+  }),
+
+  streamFilter,
+
+  streamHandshake: Joi.object({
+    apiKey: Joi.string(),
+    filter: streamFilter,
+    history: Joi.number().integer().min(0),
+    since: Joi.date().iso()
+  })
+};
@@ -0,0 +1,106 @@
+import * as net from 'net';
+import * as path from 'path';
+import { ControlRequest, ControlResponse, ControlMessage } from '../api/control';
+import { ConfigManager, resolveProjectPath } from '@core/config';
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_SOCKET_PATH = 'data/control.sock'; // control.socketPath when not configured
+
+export interface ControlCallOptions {
+  timeout?: number; // ms of silence before giving up; 0 waits indefinitely
+  onEvent?: (event: any) => void; // messages the orchestrator streams before its answer
+}
+
+/**
+ * The control socket of the orchestrator for the configured project: an
+ * explicit path wins, then the configured one.
+ */
+export async function resolveSocketPath(socketOption?: string, configPath?: string): Promise<string> {
+  if (socketOption) {
+    return path.resolve(socketOption);
+  }
+
+  try {
+    const config = await new ConfigManager(configPath).load();
+    return resolveProjectPath(config, config.control.socketPath);
+  } catch {
+    // A missing or broken config should not stop us from reaching a running orchestrator
+    return path.resolve(process.cwd(), DEFAULT_SOCKET_PATH);
+  }
+}
+
+/**
+ * Sends one command to a running orchestrator and resolves with its result.
+ */
+export function sendControlCommand<T = unknown>(
+  socketPath: string,
+  command: string,
+  args: Record<string, any> = {},
+  options: ControlCallOptions = {}
+): Promise<T> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+  return new Promise<T>((resolve, reject) => {
+    const connection = net.connect(socketPath);
+    let buffer = '';
+    let settled = false;
+
+    const settle = (error: Error | null, result?: T) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      connection.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result as T);
+      }
+    };
+
+    const handleLine = (line: string) => {
+      let parsed: ControlResponse & Partial<ControlMessage>;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        settle(new Error('Malformed response from orchestrator'));
+        return;
+      }
+
+      if ('event' in parsed) {
+        options.onEvent?.(parsed.event);
+      } else if (parsed.ok) {
+        settle(null, parsed.result as T);
+      } else {
+        settle(new Error(parsed.error || `Command '${command}' failed`));
+      }
+    };
+
+    connection.setEncoding('utf8');
+    connection.setTimeout(timeout, () => settle(new Error(`Orchestrator did not answer '${command}' within ${timeout}ms`)));
+
+    connection.on('connect', () => {
+      const request: ControlRequest = { command, args };
+      connection.write(JSON.stringify(request) + '\n');
+    });
+
+    connection.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while (!settled && (newline = buffer.indexOf('\n')) !== -1) {
+        handleLine(buffer.substring(0, newline));
+        buffer = buffer.substring(newline + 1);
+      }
+    });
+
+    connection.on('close', () => settle(new Error('Orchestrator closed the connection before answering')));
+
+    connection.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+        settle(new Error(`No orchestrator is running (no control socket at ${socketPath})`));
+      } else {
+        settle(error);
+      }
+    });
+  });
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+
+// Set in the environment of the background process `mado start --detach` forks
+export const DAEMON_ENV = 'MADO_DAEMON';
+
+const POLL_INTERVAL = 100;
+
+export interface SpawnDaemonOptions {
+  command: string;
+  args: string[];
+  pidFile: string;
+  logFile: string;
+  readyTimeout: number; // ms to wait for the daemon to write its pidfile
+  env?: NodeJS.ProcessEnv;
+}
+
+export type StopOutcome = 'stopped' | 'killed' | 'not-running';
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export function readPidFile(pidFile: string): number | null {
+  let content: string;
+  try {
+    content = fs.readFileSync(pidFile, 'utf8');
+  } catch {
+    return null;
+  }
+
+  const pid = parseInt(content.trim(), 10);
+  return Number.isInteger(pid) && pid > 0 ? pid : null;
+}
+
+/**
+ * The pid of the orchestrator recorded in the pidfile, or null when none is
+ * running. A pidfile left behind by a process that died is removed.
+ */
+export function findRunningDaemon(pidFile: string): number | null {
+  if (!fs.existsSync(pidFile)) {
+    return null;
+  }
+
+  const pid = readPidFile(pidFile);
+  if (pid !== null && isProcessAlive(pid)) {
+    return pid;
+  }
+
+  fs.rmSync(pidFile, { force: true });
+  return null;
+}
+
+export function writePidFile(pidFile: string, pid: number = process.pid): void {
+  fs.mkdirSync(path.dirname(pidFile), { recursive: true });
+  fs.writeFileSync(pidFile, `${pid}\n`, { mode: 0o644 });
+}
+
+// Only the process named in the pidfile may remove it
+export function removePidFile(pidFile: string, pid: number = process.pid): void {
+  if (readPidFile(pidFile) === pid) {
+    fs.rmSync(pidFile, { force: true });
+  }
+}
+
+/**
+ * Starts `command` detached from this terminal with its output appended to
+ * the log file, and resolves with its pid once it has written the pidfile.
+ */
+export async function spawnDaemon(options: SpawnDaemonOptions): Promise<number> {
+  fs.mkdirSync(path.dirname(options.logFile), { recursive: true });
+  const log = fs.openSync(options.logFile, 'a');
+
+  const child = spawn(options.command, options.args, {
+    detached: true,
+    stdio: ['ignore', log, log],
+    env: { ...(options.env || process.env), [DAEMON_ENV]: '1' }
+  });
+  fs.closeSync(log);
+
+  let exitCode: number | null = null;
+  child.once('exit', (code, signal) => {
+    exitCode = code ?? (signal ? 128 : 1);
+  });
+  child.unref();
+
+  const pid = child.pid;
+  if (pid === undefined) {
+    throw new Error(`Could not start ${options.command}`);
+  }
+
+  const deadline = Date.now() + options.readyTimeout;
+  while (Date.now() < deadline) {
+    if (exitCode !== null) {
+      throw new Error(`Orchestrator exited during startup with code ${exitCode}; see ${options.logFile}`);
+    }
+    if (readPidFile(options.pidFile) === pid) {
+      return pid;
+    }
+    await sleep(POLL_INTERVAL);
+  }
+
+  throw new Error(`Orchestrator (pid ${pid}) did not finish starting within ${options.readyTimeout}ms; see ${options.logFile}`);
+}
+
+/**
+ * Asks the orchestrator in the pidfile to shut down and waits for it to exit.
+ * With `force` it is killed once `timeout` ms have passed.
+ */
+export async function stopDaemon(pidFile: string, timeout: number, force = false): Promise<StopOutcome> {
+  const pid = findRunningDaemon(pidFile);
+  if (pid === null) {
+    return 'not-running';
+  }
+
+  process.kill(pid, 'SIGTERM');
+  if (await waitForExit(pid, timeout)) {
+    fs.rmSync(pidFile, { force: true });
+    return 'stopped';
+  }
+
+  if (!force) {
+    throw new Error(`Orchestrator (pid ${pid}) is still shutting down after ${timeout}ms; use --force to kill it`);
+  }
+
+  process.kill(pid, 'SIGKILL');
+  await waitForExit(pid, timeout);
+  fs.rmSync(pidFile, { force: true });
+  return 'killed';
+}
+
+async function waitForExit(pid: number, timeout: number): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (isProcessAlive(pid)) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await sleep(POLL_INTERVAL);
+  }
+  return true;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,71 @@
+/**
+ * Plain-text rendering for CLI output. Everything here is pure so commands
+ * can print the same data as a table or, with --json, as is.
+ */
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => unknown;
+  align?: 'left' | 'right';
+}
+
+export function renderTable<T>(rows: T[], columns: Column<T>[]): string {
+  const cells = rows.map(row => columns.map(column => formatCell(column.value(row))));
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map(row => row[index].length))
+  );
+
+  const line = (values: string[]) =>
+    values
+      .map((value, index) => (columns[index].align === 'right' ? value.padStart(widths[index]) : value.padEnd(widths[index])))
+      .join('  ')
+      .trimEnd();
+
+  return [
+    line(columns.map(column => column.header)),
+    line(widths.map(width => '-'.repeat(width))),
+    ...cells.map(line)
+  ].join('\n');
+}
+
+// Key/value pairs, keys aligned
+export function renderPairs(pairs: Array<[string, unknown]>): string {
+  const width = Math.max(0, ...pairs.map(([key]) => key.length));
+  return pairs.map(([key, value]) => `${(key + ':').padEnd(width + 1)}  ${formatCell(value)}`).join('\n');
+}
+
+// Non-zero counts only, e.g. "active 2, busy 1"
+export function renderCounts(counts: Record<string, number>): string {
+  const entries = Object.entries(counts).filter(([, count]) => count > 0);
+  return entries.length > 0 ? entries.map(([key, count]) => `${key} ${count}`).join(', ') : 'none';
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export function formatPercent(value: number | undefined | null): string {
+  return typeof value === 'number' ? `${Math.round(value)}%` : '-';
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '-';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
@@ -1,11 +1,30 @@
 #!/usr/bin/env node
 
+import * as path from 'path';
 import { Command } from 'commander';
 import { MADOOrchestrator } from '../index';
+import { generateApiKey, hashApiKey, SCOPE_PERMISSIONS } from '../api/auth';
+import { ApiKeyScope, DaemonConfig } from '../types/config.types';
 import { DevelopmentAgent } from '@agents/dev-agent';
 import { AgentRole } from '../types/agent.types';
-import { configManager } from '@core/config';
-import { logger } from '@core/logger';
+import { configManager, ConfigManager, resolveProjectPath } from '@core/config';
+import { logger, setConsoleLogging } from '@core/logger';
+import { TaskStatus, TaskType, Priority } from '../types/task.types';
+import { TaskInput, taskFromInput } from '@tasks/task-manager';
+import { PromptLibrary } from '@tasks/prompt-library';
+import { ContextPacker } from '@analysis/context-packer';
+import { GitRepository } from '@git/repository';
+import { resolveSocketPath, sendControlCommand, ControlCallOptions } from './control-client';
+import { loadTaskFile, validateTaskInput } from './task-file';
+import {
+  DAEMON_ENV,
+  findRunningDaemon,
+  writePidFile,
+  removePidFile,
+  spawnDaemon,
+  stopDaemon
+} from './daemon';
+import { renderTable, renderPairs, renderCounts, formatDuration, formatPercent, Column } from './format';
 
 const program = new Command();
 
@@ -14,6 +33,45 @@ program
   .description('Multi-Agent Development Orchestrator CLI')
   .version('1.0.0');
 
+// Time to wait for an orchestrator to start in the background
+const DAEMON_READY_TIMEOUT = 60000;
+
+// The configuration named by --config, or the one found from the current directory
+function configManagerFor(configPath?: string): ConfigManager {
+  return configPath ? new ConfigManager(configPath) : configManager;
+}
+
+// Daemon paths from the configuration, resolved against the project directory
+async function loadDaemonConfig(configPath?: string): Promise<DaemonConfig> {
+  const config = await configManagerFor(configPath).load();
+  return {
+    ...config.daemon,
+    pidFile: resolveProjectPath(config, config.daemon.pidFile),
+    logFile: resolveProjectPath(config, config.daemon.logFile)
+  };
+}
+
+// The grace period for running tasks plus time to stop agents and storage
+function stopTimeout(daemon: DaemonConfig): number {
+  return daemon.shutdownGracePeriod + 15000;
+}
+
+// Runs `mado start` again as a detached process with output going to the log file
+function startInBackground(configPath: string | undefined, daemon: DaemonConfig): Promise<number> {
+  const args = [...process.execArgv, process.argv[1], 'start'];
+  if (configPath) {
+    args.push('--config', path.resolve(configPath));
+  }
+
+  return spawnDaemon({
+    command: process.execPath,
+    args,
+    pidFile: daemon.pidFile,
+    logFile: daemon.logFile,
+    readyTimeout: DAEMON_READY_TIMEOUT
+  });
+}
+
 // Start orchestrator command
 program
   .command('start')
@@ -22,27 +80,46 @@ program
   .option('-d, --detach', 'Run in background')
   .action(async (options) => {
     try {
-      logger.info('Starting MADO Orchestrator via CLI');
-      
-      if (options.config) {
-        // Load custom config
-        const customConfigManager = new (require('@core/config').ConfigManager)(options.config);
-        await customConfigManager.load();
+      const daemon = await loadDaemonConfig(options.config);
+      const runningPid = findRunningDaemon(daemon.pidFile);
+      if (runningPid !== null) {
+        console.log(`❌ An orchestrator is already running (pid ${runningPid})`);
+        process.exit(1);
+      }
+
+      if (options.detach) {
+        const pid = await startInBackground(options.config, daemon);
+        console.log(`MADO orchestrator started in the background (pid ${pid})`);
+        console.log(`Logs: ${daemon.logFile}`);
+        process.exit(0);
       }
 
-      const orchestrator = new MADOOrchestrator();
+      logger.info('Starting MADO Orchestrator via CLI');
+
+      const orchestrator = new MADOOrchestrator(configManagerFor(options.config));
       await orchestrator.initialize();
       await orchestrator.start();
+      writePidFile(daemon.pidFile);
 
-      if (!options.detach) {
-        // Keep running in foreground
-        logger.info('Orchestrator running. Press Ctrl+C to stop.');
-        
-        process.on('SIGINT', async () => {
-          logger.info('Shutting down...');
-          await orchestrator.stop();
-          process.exit(0);
+      const shutdown = (signal: string) => {
+        logger.info(`Received ${signal}, shutting down...`);
+        orchestrator.stop().catch(error => {
+          logger.error('Failed to stop orchestrator', error);
+          removePidFile(daemon.pidFile);
+          process.exit(1);
         });
+      };
+      process.on('SIGINT', () => shutdown('SIGINT'));
+      process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+      // Signals and `mado stop` all end here
+      void orchestrator.waitUntilStopped().then(() => {
+        removePidFile(daemon.pidFile);
+        process.exit(0);
+      });
+
+      if (!process.env[DAEMON_ENV]) {
+        logger.info('Orchestrator running. Press Ctrl+C to stop.');
       }
     } catch (error) {
       logger.error('Failed to start orchestrator', error);
@@ -50,6 +127,30 @@ program
     }
   });
 
+program
+  .command('restart')
+  .description('Stop the running orchestrator and start it again in the background')
+  .option('-c, --config <path>', 'Configuration file path')
+  .option('-f, --force', 'Kill the orchestrator if it has not stopped after the grace period')
+  .action(async (options) => {
+    try {
+      setConsoleLogging(false);
+      const daemon = await loadDaemonConfig(options.config);
+
+      const outcome = await stopDaemon(daemon.pidFile, stopTimeout(daemon), options.force);
+      if (outcome !== 'not-running') {
+        console.log(`Orchestrator ${outcome}`);
+      }
+
+      const pid = await startInBackground(options.config, daemon);
+      console.log(`MADO orchestrator started in the background (pid ${pid})`);
+      console.log(`Logs: ${daemon.logFile}`);
+      process.exit(0);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
 // Start single agent command
 program
   .command('agent')
@@ -75,6 +176,7 @@ program
         workingDirectory: options.workdir || config.project.workingDirectory,
         capabilities: [],
         maxConcurrentTasks: 2,
+        taskTimeout: config.agents.taskTimeout,
         healthCheckInterval: 30000,
         settings: {}
       };
@@ -99,20 +201,323 @@ program
     }
   });
 
-// Status command
-program
-  .command('status')
-  .description('Show orchestrator and agent status')
-  .action(async () => {
+// Commands answered by a running orchestrator over its control socket
+async function queryOrchestrator<T>(
+  options: { socket?: string; config?: string },
+  command: string,
+  args: Record<string, any> = {},
+  callOptions?: ControlCallOptions
+): Promise<T> {
+  setConsoleLogging(false);
+  const socketPath = await resolveSocketPath(options.socket, options.config);
+  return sendControlCommand<T>(socketPath, command, args, callOptions);
+}
+
+function controlCommand(name: string, description: string, parent: Command = program): Command {
+  return parent
+    .command(name)
+    .description(description)
+    .option('--json', 'Print the raw result as JSON')
+    .option('-s, --socket <path>', 'Control socket of the orchestrator')
+    .option('-c, --config <path>', 'Configuration file naming the control socket');
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function exitWithError(error: unknown): never {
+  console.log(`❌ ${(error as Error).message}`);
+  process.exit(1);
+}
+
+controlCommand('status', 'Show orchestrator and agent status')
+  .action(async (options) => {
     try {
-      // This would connect to a running orchestrator instance
-      // For now, we'll show a placeholder
+      const status = await queryOrchestrator<any>(options, 'status');
+      if (options.json) {
+        printJson(status);
+        return;
+      }
+
+      const { systemHealth, agentStatistics, taskStatistics } = status;
       console.log('MADO Orchestrator Status:');
-      console.log('Status: Not implemented yet');
-      console.log('Use the web dashboard at http://localhost:3000 for detailed status');
+      console.log(renderPairs([
+        ['PID', status.pid],
+        ['Uptime', formatDuration(Date.now() - new Date(status.startedAt).getTime())],
+        ['Agents', `${systemHealth.totalAgents} total, ${systemHealth.activeAgents} active, ${systemHealth.healthyAgents} healthy`],
+        ['By role', renderCounts(agentStatistics.byRole)],
+        ['By status', renderCounts(agentStatistics.byStatus)],
+        ['Assignments', agentStatistics.totalTaskAssignments],
+        ['Tasks', renderCounts(taskStatistics)]
+      ]));
     } catch (error) {
-      logger.error('Failed to get status', error);
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+controlCommand('agents', 'List agents with their health')
+  .action(async (options) => {
+    try {
+      const agents = await queryOrchestrator<any[]>(options, 'agents');
+      if (options.json) {
+        printJson(agents);
+        return;
+      }
+
+      console.log(renderTable(agents, [
+        { header: 'ID', value: agent => agent.id },
+        { header: 'ROLE', value: agent => agent.role },
+        { header: 'STATUS', value: agent => agent.status },
+        { header: 'CPU', value: agent => formatPercent(agent.health?.cpu), align: 'right' },
+        { header: 'MEMORY', value: agent => formatPercent(agent.health?.memory), align: 'right' },
+        { header: 'ERRORS', value: agent => formatPercent(agent.health ? agent.health.errorRate * 100 : null), align: 'right' },
+        { header: 'DONE', value: agent => agent.metrics?.tasksCompleted ?? 0, align: 'right' },
+        { header: 'FAILED', value: agent => agent.metrics?.tasksFailed ?? 0, align: 'right' }
+      ]));
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const TASK_COLUMNS: Column<any>[] = [
+  { header: 'ID', value: task => task.id },
+  { header: 'TYPE', value: task => task.type },
+  { header: 'PRIORITY', value: task => task.priority },
+  { header: 'STATUS', value: task => task.status },
+  { header: 'PROGRESS', value: task => formatPercent(task.progress), align: 'right' },
+  { header: 'AGENT', value: task => task.assignedAgent },
+  { header: 'TITLE', value: task => task.title }
+];
+
+function parseList(value?: string): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+}
+
+function printTasks(tasks: any[], json: boolean): void {
+  if (json) {
+    printJson(tasks);
+  } else {
+    console.log(renderTable(tasks, TASK_COLUMNS));
+  }
+}
+
+async function listTasks(options: any): Promise<void> {
+  const status = parseList(options.status);
+  const unknown = (status || []).filter(value => !Object.values(TaskStatus).includes(value as TaskStatus));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown status: ${unknown.join(', ')}`);
+  }
+  if (options.type && !Object.values(TaskType).includes(options.type)) {
+    throw new Error(`Unknown task type: ${options.type}`);
+  }
+
+  const tasks = await queryOrchestrator<any[]>(options, 'tasks', { status, type: options.type, agentId: options.agent });
+  printTasks(tasks, options.json);
+}
+
+function taskListCommand(name: string, parent: Command = program): Command {
+  return controlCommand(name, 'List tasks, newest first', parent)
+    .option('--status <statuses>', `Comma-separated statuses (${Object.values(TaskStatus).join(', ')})`)
+    .option('-a, --agent <id>', 'Only tasks assigned to this agent')
+    .option('-t, --type <type>', `Only tasks of this type (${Object.values(TaskType).join(', ')})`)
+    .action(async (options) => {
+      try {
+        await listTasks(options);
+      } catch (error) {
+        exitWithError(error);
+      }
+    });
+}
+
+taskListCommand('tasks');
+
+// Task commands
+const taskCmd = program
+  .command('task')
+  .description('Submit and follow tasks on the running orchestrator');
+
+controlCommand('submit [file]', 'Submit tasks from a YAML/JSON task file or from flags', taskCmd)
+  .option('--title <title>', 'Task title')
+  .option('--description <text>', 'What needs to be done', '')
+  .option('-t, --type <type>', `Task type (${Object.values(TaskType).join(', ')})`)
+  .option('-p, --priority <priority>', `Priority (${Object.values(Priority).join(', ')})`)
+  .option('--depends-on <ids>', 'Comma-separated ids of prerequisite tasks')
+  .option('--files <paths>', 'Comma-separated files the task touches')
+  .option('--tags <tags>', 'Comma-separated tags')
+  .option('--id <id>', 'Task id (generated if omitted)')
+  .action(async (file: string | undefined, options) => {
+    try {
+      let inputs: TaskInput[];
+      if (file) {
+        inputs = loadTaskFile(file);
+      } else {
+        if (!options.title || !options.type) {
+          throw new Error('Give a task file, or at least --title and --type');
+        }
+        inputs = [validateTaskInput({
+          id: options.id,
+          title: options.title,
+          description: options.description,
+          type: options.type,
+          priority: options.priority,
+          dependencies: parseList(options.dependsOn),
+          files: parseList(options.files),
+          tags: parseList(options.tags)
+        }, 'Task')];
+      }
+
+      const tasks = await queryOrchestrator<any[]>(options, 'task.submit', { tasks: inputs });
+      printTasks(tasks, options.json);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+taskListCommand('list', taskCmd);
+
+controlCommand('watch <id>', 'Follow a task until it finishes; exits non-zero unless it completes', taskCmd)
+  .action(async (taskId: string, options) => {
+    try {
+      const { task } = await queryOrchestrator<any>(options, 'task.get', { taskId });
+      if (!options.json) {
+        console.log(`${task.id}  ${task.title}  [${task.status}]`);
+      }
+
+      const final = await queryOrchestrator<any>(options, 'task.watch', { taskId }, {
+        timeout: 0,
+        onEvent: event => {
+          if (options.json) {
+            console.log(JSON.stringify(event));
+          } else {
+            console.log(describeTaskEvent(event));
+          }
+        }
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(final));
+      } else {
+        console.log(`Task ${final.task.status}${final.result?.error ? `: ${final.result.error}` : ''}`);
+      }
+      process.exit(final.task.status === TaskStatus.COMPLETED ? 0 : 1);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+controlCommand('cancel <id>', 'Cancel a task that has not finished', taskCmd)
+  .option('-r, --reason <text>', 'Why the task is cancelled')
+  .action(async (taskId: string, options) => {
+    try {
+      const task = await queryOrchestrator<any>(options, 'task.cancel', { taskId, reason: options.reason });
+      if (options.json) {
+        printJson(task);
+        return;
+      }
+      console.log(`Cancelled task ${task.id}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+controlCommand('retry <id>', 'Submit a failed or cancelled task again', taskCmd)
+  .action(async (taskId: string, options) => {
+    try {
+      const task = await queryOrchestrator<any>(options, 'task.retry', { taskId });
+      if (options.json) {
+        printJson(task);
+        return;
+      }
+      console.log(`Retrying task ${taskId} as ${task.id}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+function describeTaskEvent(event: any): string {
+  const data = event.data || {};
+  const details = [
+    data.status && data.previousStatus ? `${data.previousStatus} -> ${data.status}` : data.status,
+    typeof data.progress === 'number' ? formatPercent(data.progress) : undefined,
+    event.agentId,
+    data.note || data.reason || data.error
+  ].filter(Boolean);
+
+  return `${new Date(event.timestamp).toLocaleTimeString()}  ${event.type}  ${details.join('  ')}`.trimEnd();
+}
+
+controlCommand('stop', 'Stop the running orchestrator')
+  .option('-f, --force', 'Kill the orchestrator if it has not stopped after the grace period')
+  .action(async (options) => {
+    try {
+      setConsoleLogging(false);
+      const daemon = await loadDaemonConfig(options.config);
+      const pid = findRunningDaemon(daemon.pidFile);
+
+      // Orchestrators started without `mado start` have no pidfile but still answer on the control socket
+      const result = pid !== null
+        ? { pid, outcome: await stopDaemon(daemon.pidFile, stopTimeout(daemon), options.force) }
+        : { ...(await queryOrchestrator<{ pid: number }>(options, 'stop')), outcome: 'stopping' };
+
+      if (options.json) {
+        printJson(result);
+        return;
+      }
+      console.log(result.outcome === 'stopping'
+        ? `Stopping orchestrator (pid ${result.pid})`
+        : `Orchestrator ${result.outcome} (pid ${result.pid})`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// Prompt commands
+const promptCmd = program
+  .command('prompt')
+  .description('Preview the prompts agents are given');
+
+promptCmd
+  .command('render <taskfile>')
+  .description('Render the prompt for each task in a YAML/JSON task file')
+  .option('-r, --role <role>', `Agent role (${Object.values(AgentRole).join(', ')}); defaults to the task's metadata.role`)
+  .option('--context', 'Include repository context packed from the current directory')
+  .option('--json', 'Print the prompts with their templates and hashes as JSON')
+  .option('-c, --config <path>', 'Configuration file naming the prompt directory')
+  .action(async (file: string, options) => {
+    try {
+      setConsoleLogging(false);
+      if (options.role && !Object.values(AgentRole).includes(options.role)) {
+        throw new Error(`Unknown role '${options.role}'`);
+      }
+
+      const config = await configManagerFor(options.config).load();
+      const prompts = new PromptLibrary({
+        directory: resolveProjectPath(config, config.agents.prompts.directory),
+        project: config.project
+      });
+
+      const packer = options.context ? new ContextPacker(config.agents.context) : null;
+      const repository = packer ? new GitRepository(process.cwd()) : null;
+
+      const rendered = [];
+      for (const task of loadTaskFile(file).map(taskFromInput)) {
+        const role = options.role || task.metadata.role;
+        const context = packer && repository ? await packer.pack(task, repository) : undefined;
+        rendered.push({ taskId: task.id, title: task.title, role, ...(await prompts.render(task, { role, context })) });
+      }
+
+      if (options.json) {
+        printJson(rendered);
+        return;
+      }
+      for (const prompt of rendered) {
+        const version = prompt.version ? ` v${prompt.version}` : '';
+        console.log(`--- ${prompt.title} (${prompt.role || 'any role'}, ${prompt.template}${version}, ${prompt.hash})`);
+        console.log(prompt.text);
+      }
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
@@ -160,13 +565,8 @@ configCmd
   .option('-c, --config <path>', 'Configuration file path')
   .action(async (options) => {
     try {
-      if (options.config) {
-        const customConfigManager = new (require('@core/config').ConfigManager)(options.config);
-        await customConfigManager.load();
-      } else {
-        await configManager.load();
-      }
-      
+      await configManagerFor(options.config).load();
+
       console.log('✅ Configuration is valid');
     } catch (error) {
       console.log('❌ Configuration validation failed:', (error as Error).message);
@@ -174,6 +574,31 @@ configCmd
     }
   });
 
+// API key commands
+const apiKeyCmd = program
+  .command('apikey')
+  .description('API key management');
+
+apiKeyCmd
+  .command('create <id>')
+  .description('Generate an API key and print its configuration entry')
+  .option('-s, --scope <scope>', `Key scope (${Object.keys(SCOPE_PERMISSIONS).join(', ')})`, 'read-only')
+  .option('-d, --description <text>', 'What the key is used for')
+  .action((id: string, options) => {
+    const scope = options.scope as ApiKeyScope;
+    if (!(scope in SCOPE_PERMISSIONS)) {
+      console.log(`❌ Unknown scope '${options.scope}'`);
+      process.exit(1);
+    }
+
+    const key = generateApiKey();
+    const entry = { id, hash: hashApiKey(key), scope, description: options.description };
+
+    console.log(`API key: ${key}`);
+    console.log('Store it now; only its hash is kept. Add this entry to security.apiKeys:');
+    console.log(JSON.stringify(entry, null, 2));
+  });
+
 // Setup command
 program
   .command('setup')
@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Joi from 'joi';
+import { parse } from 'yaml';
+import { schemas } from '../api/validation';
+import { TaskInput } from '@tasks/task-manager';
+
+// Metadata is kept whole, so `mado prompt render` sees metadata.role
+const taskFileSchema = schemas.createTask.keys({ metadata: Joi.object().unknown(true) });
+
+/**
+ * Reads tasks to submit from a YAML or JSON file. The file holds one task, a
+ * list of tasks, or `{ tasks: [...] }`; every task is checked against the
+ * same schema as POST /api/tasks, so mistakes surface before anything is sent.
+ */
+export function loadTaskFile(filePath: string): TaskInput[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  let data: unknown;
+  try {
+    // YAML is a superset of JSON, but JSON files get JSON's error messages
+    data = extension === '.json' ? JSON.parse(content) : parse(content);
+  } catch (error) {
+    throw new Error(`${filePath} is not valid ${extension === '.json' ? 'JSON' : 'YAML'}: ${(error as Error).message}`);
+  }
+
+  const entries = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { tasks?: unknown }).tasks)
+      ? (data as { tasks: unknown[] }).tasks
+      : [data];
+
+  if (entries.length === 0) {
+    throw new Error(`${filePath} contains no tasks`);
+  }
+
+  return entries.map((entry, index) => validateTaskInput(entry, `${filePath} task ${index + 1}`));
+}
+
+export function validateTaskInput(input: unknown, source: string): TaskInput {
+  const { error, value } = taskFileSchema.validate(input, { abortEarly: false });
+  if (error) {
+    const problems = error.details.map(detail => `  ${detail.path.join('.') || '(task)'}: ${detail.message}`);
+    throw new Error(`${source} is invalid:\n${problems.join('\n')}`);
+  }
+  return value as TaskInput;
+}
@@ -0,0 +1,69 @@
+import { EventEmitter } from 'events';
+import { Message } from '../types/message.types';
+import { MessageBroker } from './message-broker';
+import { PriorityMessageQueue } from './message-queue';
+
+/**
+ * In-process broker. Queues live in memory, so every inbox must be in the
+ * same process; this is the default.
+ */
+export class MemoryBroker implements MessageBroker {
+  public readonly name = 'memory';
+
+  private queues: Map<string, PriorityMessageQueue> = new Map();
+  private recipients: Set<string> = new Set();
+  private emitter = new EventEmitter();
+
+  public async connect(): Promise<void> {}
+
+  public async disconnect(): Promise<void> {
+    this.queues.clear();
+    this.recipients.clear();
+    this.emitter.removeAllListeners();
+  }
+
+  public async enqueue(queue: string, message: Message): Promise<void> {
+    this.queueFor(queue).enqueue(message);
+    this.emitter.emit('enqueued', queue);
+  }
+
+  public async dequeue(queue: string): Promise<Message | undefined> {
+    return this.queues.get(queue)?.dequeue();
+  }
+
+  public async size(queue: string): Promise<number> {
+    return this.queues.get(queue)?.size || 0;
+  }
+
+  public async purge(queue: string): Promise<Message[]> {
+    const messages = this.queues.get(queue)?.toArray() || [];
+    this.queues.delete(queue);
+    return messages;
+  }
+
+  public async registerRecipient(recipientId: string): Promise<void> {
+    this.recipients.add(recipientId);
+  }
+
+  public async unregisterRecipient(recipientId: string): Promise<void> {
+    this.recipients.delete(recipientId);
+  }
+
+  public async getRecipients(): Promise<string[]> {
+    return Array.from(this.recipients);
+  }
+
+  public onEnqueued(listener: (queue: string) => void): () => void {
+    this.emitter.on('enqueued', listener);
+    return () => this.emitter.off('enqueued', listener);
+  }
+
+  private queueFor(queue: string): PriorityMessageQueue {
+    let messages = this.queues.get(queue);
+    if (!messages) {
+      messages = new PriorityMessageQueue();
+      this.queues.set(queue, messages);
+    }
+    return messages;
+  }
+}
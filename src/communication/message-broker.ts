@@ -0,0 +1,45 @@
+import { Message } from '../types/message.types';
+import { MessagingConfig } from '../types/config.types';
+import { MemoryBroker } from './memory-broker';
+import { RedisBroker } from './redis-broker';
+import { EnvelopeCodec } from '@utils/codec';
+
+/**
+ * Storage and signalling behind the message bus. A broker holds one
+ * priority-ordered queue per recipient and tells the bus when a queue gets
+ * new messages, so inboxes can live in different processes when the broker
+ * is shared.
+ */
+export interface MessageBroker {
+  readonly name: string;
+
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+
+  enqueue(queue: string, message: Message): Promise<void>;
+  // Highest priority first, oldest first within a priority
+  dequeue(queue: string): Promise<Message | undefined>;
+  size(queue: string): Promise<number>;
+  // Removes and returns everything queued
+  purge(queue: string): Promise<Message[]>;
+
+  // Recipients with an inbox anywhere on this broker
+  registerRecipient(recipientId: string): Promise<void>;
+  unregisterRecipient(recipientId: string): Promise<void>;
+  getRecipients(): Promise<string[]>;
+
+  // Called with the queue name whenever a message is enqueued, by any process.
+  // Returns a function that removes the listener.
+  onEnqueued(listener: (queue: string) => void): () => void;
+}
+
+export function createBroker(config: MessagingConfig): MessageBroker {
+  switch (config.broker) {
+    case 'memory':
+      return new MemoryBroker();
+    case 'redis':
+      return new RedisBroker(config.redis, EnvelopeCodec.fromConfig(config));
+    default:
+      throw new Error(`Message broker '${config.broker}' is not supported`);
+  }
+}
@@ -0,0 +1,660 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Message,
+  MessageType,
+  MessageRoute,
+  MessageQueueConfig,
+  MessageMetrics
+} from '../types/message.types';
+import { Priority } from '../types/task.types';
+import { MessageBroker } from './message-broker';
+import { MemoryBroker } from './memory-broker';
+import { logger } from '@core/logger';
+import { eventBus, createAgentEvent, SystemEvent } from '@core/events';
+
+export const BROADCAST_ADDRESS = '*';
+
+export const DEFAULT_QUEUE_CONFIG: MessageQueueConfig = {
+  maxSize: 1000,
+  retryAttempts: 3,
+  retryDelay: 1000,
+  deadLetterQueue: true
+};
+
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+const DEAD_LETTER_LIMIT = 1000;
+
+/**
+ * Inbox handler. For REQUEST messages a returned value (other than undefined)
+ * is sent back to the requester as the response content.
+ */
+export type MessageHandler = (message: Message) => any | Promise<any>;
+
+export type DeadLetterReason = 'no_route' | 'expired' | 'queue_full' | 'delivery_failed';
+
+export interface DeadLetter {
+  message: Message;
+  recipient?: string;
+  reason: DeadLetterReason;
+  error?: string;
+  deadLetteredAt: Date;
+}
+
+export interface MessageBusConfig {
+  // Queue settings per recipient id; `default` applies to everyone else
+  queues: Record<string, Partial<MessageQueueConfig>>;
+  requestTimeout: number;
+}
+
+export interface MessageOptions {
+  priority?: Priority;
+  correlationId?: string;
+  expiresAt?: Date;
+  ttl?: number; // ms, alternative to expiresAt
+  metadata?: Record<string, any>;
+}
+
+export class MessageTimeoutError extends Error {
+  constructor(public readonly messageId: string, public readonly timeout: number) {
+    super(`No response to message ${messageId} within ${timeout}ms`);
+    this.name = 'MessageTimeoutError';
+  }
+}
+
+export class MessageDeliveryError extends Error {
+  constructor(public readonly messageId: string, public readonly reason: DeadLetterReason, detail?: string) {
+    super(`Message ${messageId} could not be delivered (${reason})${detail ? `: ${detail}` : ''}`);
+    this.name = 'MessageDeliveryError';
+  }
+}
+
+interface Inbox {
+  handler: MessageHandler;
+  draining: Promise<void> | null;
+  dirty: boolean; // a message arrived while draining
+}
+
+interface PendingRequest {
+  resolve: (response: Message) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Delivers messages between agents and the orchestrator: one prioritized
+ * inbox per recipient, retries with a dead-letter queue, and request/response
+ * pairs matched by `correlationId`. Queues are kept by a MessageBroker; with a
+ * shared broker, inboxes in other processes are reachable too.
+ */
+export class MessageBus extends EventEmitter {
+  private broker: MessageBroker;
+  private detachBroker: () => void;
+  private inboxes: Map<string, Inbox> = new Map();
+  private routes: MessageRoute[] = [];
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private deadLetters: DeadLetter[] = [];
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+  private metrics: Map<string, MessageMetrics> = new Map();
+  private config: MessageBusConfig;
+
+  constructor(config: Partial<MessageBusConfig> = {}, broker: MessageBroker = new MemoryBroker()) {
+    super();
+    this.config = {
+      queues: {},
+      requestTimeout: DEFAULT_REQUEST_TIMEOUT,
+      ...config
+    };
+    this.broker = broker;
+    this.detachBroker = broker.onEnqueued(queue => this.onEnqueued(queue));
+  }
+
+  public configure(config: Partial<MessageBusConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  public getBroker(): MessageBroker {
+    return this.broker;
+  }
+
+  /**
+   * Connects the bus to another broker. Local inboxes move along; messages
+   * still queued in the previous broker are left there.
+   */
+  public async useBroker(broker: MessageBroker): Promise<void> {
+    if (broker === this.broker) {
+      return;
+    }
+
+    await broker.connect();
+
+    const previous = this.broker;
+    this.detachBroker();
+    this.broker = broker;
+    this.detachBroker = broker.onEnqueued(queue => this.onEnqueued(queue));
+    await previous.disconnect();
+
+    for (const [recipientId, inbox] of this.inboxes) {
+      await broker.registerRecipient(recipientId);
+      this.scheduleDrain(recipientId, inbox);
+    }
+
+    logger.info(`Message bus using ${broker.name} broker`);
+  }
+
+  public static createMessage(
+    from: string,
+    to: string | string[],
+    type: MessageType,
+    content: any,
+    options: MessageOptions = {}
+  ): Message {
+    const timestamp = new Date();
+    return {
+      id: uuidv4(),
+      from,
+      to,
+      type,
+      priority: options.priority || Priority.MEDIUM,
+      content,
+      timestamp,
+      correlationId: options.correlationId,
+      expiresAt: options.expiresAt || (options.ttl ? new Date(timestamp.getTime() + options.ttl) : undefined),
+      retryCount: 0,
+      metadata: options.metadata || {}
+    };
+  }
+
+  /**
+   * Registers the inbox of a recipient. Messages are handed to the handler one
+   * at a time in priority order. Returns a function that unsubscribes.
+   */
+  public async subscribe(recipientId: string, handler: MessageHandler): Promise<() => Promise<void>> {
+    if (this.inboxes.has(recipientId)) {
+      throw new Error(`Recipient ${recipientId} already has an inbox`);
+    }
+
+    const inbox: Inbox = { handler, draining: null, dirty: false };
+    this.inboxes.set(recipientId, inbox);
+    await this.broker.registerRecipient(recipientId);
+
+    // Pick up anything queued before the inbox existed
+    this.scheduleDrain(recipientId, inbox);
+
+    logger.debug(`Message inbox registered for ${recipientId}`);
+    return () => this.unsubscribe(recipientId);
+  }
+
+  /**
+   * Removes an inbox; messages still queued for it are dead-lettered.
+   */
+  public async unsubscribe(recipientId: string): Promise<void> {
+    if (!this.inboxes.delete(recipientId)) {
+      return;
+    }
+
+    await this.broker.unregisterRecipient(recipientId);
+    const queued = await this.broker.purge(recipientId);
+    queued.forEach(message => this.deadLetter(message, 'no_route', recipientId, 'Recipient unsubscribed'));
+  }
+
+  /**
+   * Whether the recipient has an inbox in this process.
+   */
+  public hasSubscriber(recipientId: string): boolean {
+    return this.inboxes.has(recipientId);
+  }
+
+  /**
+   * Adds a pattern route. Addresses without an inbox of their own are
+   * delivered to the handler of the highest-priority matching route;
+   * `*` in a pattern matches any characters.
+   */
+  public addRoute(route: MessageRoute): void {
+    this.routes = [...this.routes.filter(existing => existing.pattern !== route.pattern), route]
+      .sort((a, b) => b.priority - a.priority);
+  }
+
+  public removeRoute(pattern: string): void {
+    this.routes = this.routes.filter(route => route.pattern !== pattern);
+  }
+
+  public getRoutes(): MessageRoute[] {
+    return [...this.routes];
+  }
+
+  /**
+   * Queues a message for every recipient named in `to`. Delivery happens
+   * asynchronously; undeliverable copies end up in the dead-letter queue.
+   */
+  public async publish(message: Message): Promise<void> {
+    this.countFor(message.from).sent++;
+
+    eventBus.emit(createAgentEvent(
+      SystemEvent.MESSAGE_SENT,
+      message.from,
+      { message },
+      'message-bus'
+    ));
+
+    if (message.type === MessageType.RESPONSE && this.resolveRequest(message)) {
+      return;
+    }
+
+    if (this.isExpired(message)) {
+      this.deadLetter(message, 'expired');
+      return;
+    }
+
+    for (const recipient of await this.resolveRecipients(message)) {
+      await this.enqueue(recipient, message);
+    }
+  }
+
+  /**
+   * Sends a request and resolves with the matching response, or rejects with
+   * a MessageTimeoutError.
+   */
+  public request(message: Message, timeout: number = this.config.requestTimeout): Promise<Message> {
+    const correlationId = message.correlationId || message.id;
+    const request: Message = { ...message, type: MessageType.REQUEST, correlationId };
+
+    if (this.pendingRequests.has(correlationId)) {
+      return Promise.reject(new Error(`A request with correlation id ${correlationId} is already pending`));
+    }
+
+    const response = new Promise<Message>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(correlationId);
+        reject(new MessageTimeoutError(request.id, timeout));
+      }, timeout);
+
+      this.pendingRequests.set(correlationId, { resolve, reject, timer });
+    });
+
+    this.publish(request).catch(error => this.rejectRequest(correlationId, error));
+    return response;
+  }
+
+  /**
+   * Replies to a request; the response carries the request's correlation id.
+   */
+  public async respond(request: Message, from: string, content: any, metadata: Record<string, any> = {}): Promise<void> {
+    await this.publish(this.createResponse(request, from, content, metadata));
+  }
+
+  public getDeadLetters(recipientId?: string): DeadLetter[] {
+    return recipientId
+      ? this.deadLetters.filter(entry => entry.recipient === recipientId)
+      : [...this.deadLetters];
+  }
+
+  /**
+   * Takes a message out of the dead-letter queue and publishes it again with a
+   * fresh retry budget.
+   */
+  public async redeliver(messageId: string): Promise<boolean> {
+    const index = this.deadLetters.findIndex(entry => entry.message.id === messageId);
+    if (index === -1) {
+      return false;
+    }
+
+    const [entry] = this.deadLetters.splice(index, 1);
+    const message: Message = {
+      ...entry.message,
+      to: entry.recipient || entry.message.to,
+      retryCount: 0
+    };
+
+    await this.publish(message);
+    return true;
+  }
+
+  public clearDeadLetters(): void {
+    this.deadLetters = [];
+  }
+
+  public getQueueSize(recipientId: string): Promise<number> {
+    return this.broker.size(recipientId);
+  }
+
+  public getMetrics(recipientId?: string): MessageMetrics {
+    if (recipientId) {
+      return { ...this.countFor(recipientId) };
+    }
+
+    const totals = this.emptyMetrics();
+    let processingTime = 0;
+    this.metrics.forEach(entry => {
+      totals.sent += entry.sent;
+      totals.received += entry.received;
+      totals.failed += entry.failed;
+      totals.processed += entry.processed;
+      processingTime += entry.averageProcessingTime * entry.processed;
+    });
+    totals.averageProcessingTime = totals.processed > 0 ? processingTime / totals.processed : 0;
+
+    return totals;
+  }
+
+  /**
+   * Resolves once every inbox is empty and no handler is running. Retries
+   * waiting on their delay are not awaited.
+   */
+  public async idle(): Promise<void> {
+    for (;;) {
+      const draining = Array.from(this.inboxes.values())
+        .map(inbox => inbox.draining)
+        .filter((promise): promise is Promise<void> => promise !== null);
+
+      if (draining.length === 0) {
+        return;
+      }
+      await Promise.all(draining);
+    }
+  }
+
+  /**
+   * Closes every local inbox and disconnects the broker, leaving the bus on a
+   * fresh in-memory broker. Messages queued in a shared broker stay there.
+   */
+  public async shutdown(): Promise<void> {
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+
+    this.pendingRequests.forEach((pending, correlationId) => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`Message bus shut down before a response to ${correlationId}`));
+    });
+    this.pendingRequests.clear();
+
+    // Handlers already running finish on their own; nothing new is delivered
+    for (const recipientId of this.inboxes.keys()) {
+      await this.broker.unregisterRecipient(recipientId);
+    }
+    this.inboxes.clear();
+
+    this.detachBroker();
+    await this.broker.disconnect();
+    this.broker = new MemoryBroker();
+    this.detachBroker = this.broker.onEnqueued(queue => this.onEnqueued(queue));
+
+    this.routes = [];
+    this.deadLetters = [];
+    this.metrics.clear();
+    this.removeAllListeners();
+    logger.info('Message bus shut down');
+  }
+
+  private async resolveRecipients(message: Message): Promise<string[]> {
+    const addresses = Array.isArray(message.to) ? message.to : [message.to];
+    const known = new Set([...this.inboxes.keys(), ...(await this.broker.getRecipients())]);
+
+    if (message.type === MessageType.BROADCAST || addresses.includes(BROADCAST_ADDRESS)) {
+      return Array.from(known).filter(recipient => recipient !== message.from);
+    }
+
+    const recipients = new Set<string>();
+    for (const address of addresses) {
+      const recipient = known.has(address) ? address : this.matchRoute(address, known);
+      if (recipient) {
+        recipients.add(recipient);
+      } else {
+        // Only this copy is undeliverable; the others still go out
+        this.deadLetter({ ...message, to: address }, 'no_route', address, `No inbox for ${address}`);
+      }
+    }
+
+    return Array.from(recipients);
+  }
+
+  private matchRoute(address: string, known: Set<string>): string | undefined {
+    const route = this.routes.find(
+      candidate => this.patternToRegExp(candidate.pattern).test(address) && known.has(candidate.handler)
+    );
+    return route?.handler;
+  }
+
+  private patternToRegExp(pattern: string): RegExp {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escaped.join('.*')}$`);
+  }
+
+  private async enqueue(recipient: string, message: Message): Promise<void> {
+    const queueConfig = this.getQueueConfig(recipient);
+    if ((await this.broker.size(recipient)) >= queueConfig.maxSize) {
+      this.deadLetter(message, 'queue_full', recipient, `Inbox holds ${queueConfig.maxSize} messages`);
+      return;
+    }
+
+    // The broker announces the message, which starts the drain of the inbox
+    await this.broker.enqueue(recipient, message);
+    this.countFor(recipient).received++;
+  }
+
+  private onEnqueued(queue: string): void {
+    const inbox = this.inboxes.get(queue);
+    if (inbox) {
+      this.scheduleDrain(queue, inbox);
+    }
+  }
+
+  private scheduleDrain(recipient: string, inbox: Inbox): void {
+    if (inbox.draining) {
+      inbox.dirty = true;
+      return;
+    }
+
+    inbox.dirty = false;
+    inbox.draining = this.drain(recipient, inbox)
+      .catch(error => {
+        logger.error(`Failed to drain inbox of ${recipient}`, error);
+      })
+      .finally(() => {
+        inbox.draining = null;
+        // A message may have arrived after the loop saw an empty queue
+        if (inbox.dirty && this.inboxes.get(recipient) === inbox) {
+          this.scheduleDrain(recipient, inbox);
+        }
+      });
+  }
+
+  private async drain(recipient: string, inbox: Inbox): Promise<void> {
+    // Let the publisher finish before handlers run
+    await Promise.resolve();
+
+    while (this.inboxes.get(recipient) === inbox) {
+      const message = await this.broker.dequeue(recipient);
+      if (!message) {
+        return;
+      }
+      await this.deliver(recipient, inbox, message);
+    }
+  }
+
+  private async deliver(recipient: string, inbox: Inbox, message: Message): Promise<void> {
+    // Responses from other processes come back through the requester's inbox
+    if (message.type === MessageType.RESPONSE && this.resolveRequest(message)) {
+      return;
+    }
+
+    if (this.isExpired(message)) {
+      this.deadLetter(message, 'expired', recipient);
+      return;
+    }
+
+    const startTime = Date.now();
+    let reply: any;
+    try {
+      reply = await inbox.handler(message);
+    } catch (error) {
+      this.handleDeliveryFailure(recipient, message, error);
+      return;
+    }
+
+    this.recordProcessed(recipient, Date.now() - startTime);
+    eventBus.emit(createAgentEvent(
+      SystemEvent.MESSAGE_RECEIVED,
+      recipient,
+      { messageId: message.id, from: message.from, type: message.type },
+      'message-bus'
+    ));
+
+    // The handler has done its work; only the reply is retried if it cannot be sent
+    if (message.type === MessageType.REQUEST && reply !== undefined) {
+      await this.sendReply(this.createResponse(message, recipient, reply));
+    }
+  }
+
+  private async sendReply(response: Message): Promise<void> {
+    const requester = response.to as string;
+    try {
+      await this.publish(response);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const queueConfig = this.getQueueConfig(requester);
+      const retryCount = (response.retryCount || 0) + 1;
+
+      if (retryCount > queueConfig.retryAttempts) {
+        this.deadLetter({ ...response, retryCount }, 'delivery_failed', requester, errorMessage);
+        return;
+      }
+
+      logger.warn(`Reply ${response.id} to ${requester} could not be sent, retrying`, {
+        attempt: retryCount,
+        error: errorMessage
+      });
+
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        void this.sendReply({ ...response, retryCount });
+      }, queueConfig.retryDelay * retryCount);
+      this.retryTimers.add(timer);
+    }
+  }
+
+  private createResponse(request: Message, from: string, content: any, metadata: Record<string, any> = {}): Message {
+    return MessageBus.createMessage(from, request.from, MessageType.RESPONSE, content, {
+      priority: request.priority,
+      correlationId: request.correlationId || request.id,
+      metadata
+    });
+  }
+
+  private handleDeliveryFailure(recipient: string, message: Message, error: unknown): void {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const queueConfig = this.getQueueConfig(recipient);
+    const retryCount = (message.retryCount || 0) + 1;
+
+    if (retryCount > queueConfig.retryAttempts) {
+      this.deadLetter({ ...message, retryCount }, 'delivery_failed', recipient, errorMessage);
+      return;
+    }
+
+    logger.warn(`Delivery of message ${message.id} to ${recipient} failed, retrying`, {
+      attempt: retryCount,
+      error: errorMessage
+    });
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      this.enqueue(recipient, { ...message, to: recipient, retryCount }).catch(retryError => {
+        logger.error(`Failed to requeue message ${message.id} for ${recipient}`, retryError);
+      });
+    }, queueConfig.retryDelay * retryCount);
+    this.retryTimers.add(timer);
+  }
+
+  private resolveRequest(response: Message): boolean {
+    const pending = response.correlationId ? this.pendingRequests.get(response.correlationId) : undefined;
+    if (!pending) {
+      return false;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(response.correlationId as string);
+    pending.resolve(response);
+    return true;
+  }
+
+  private rejectRequest(correlationId: string, error: Error): void {
+    const pending = this.pendingRequests.get(correlationId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingRequests.delete(correlationId);
+      pending.reject(error);
+    }
+  }
+
+  private deadLetter(message: Message, reason: DeadLetterReason, recipient?: string, error?: string): void {
+    if (recipient) {
+      this.countFor(recipient).failed++;
+    }
+
+    // A request that can never be delivered should fail fast, not time out
+    if (message.type === MessageType.REQUEST && message.correlationId) {
+      this.rejectRequest(message.correlationId, new MessageDeliveryError(message.id, reason, error));
+    }
+
+    const queueConfig = recipient ? this.getQueueConfig(recipient) : this.getQueueConfig();
+    const entry: DeadLetter = { message, recipient, reason, error, deadLetteredAt: new Date() };
+
+    if (queueConfig.deadLetterQueue) {
+      this.deadLetters.push(entry);
+      if (this.deadLetters.length > DEAD_LETTER_LIMIT) {
+        this.deadLetters = this.deadLetters.slice(-DEAD_LETTER_LIMIT);
+      }
+    }
+
+    logger.warn(`Message ${message.id} dead-lettered (${reason})`, {
+      from: message.from,
+      to: recipient || message.to,
+      type: message.type,
+      error
+    });
+
+    eventBus.emit(createAgentEvent(
+      SystemEvent.MESSAGE_FAILED,
+      recipient || message.from,
+      { message, reason, error },
+      'message-bus'
+    ));
+
+    this.emit('message:dead_lettered', entry);
+  }
+
+  private isExpired(message: Message): boolean {
+    return !!message.expiresAt && new Date(message.expiresAt).getTime() <= Date.now();
+  }
+
+  private getQueueConfig(recipient?: string): MessageQueueConfig {
+    return {
+      ...DEFAULT_QUEUE_CONFIG,
+      ...(this.config.queues.default || {}),
+      ...((recipient && this.config.queues[recipient]) || {})
+    };
+  }
+
+  private recordProcessed(recipient: string, processingTime: number): void {
+    const metrics = this.countFor(recipient);
+    metrics.averageProcessingTime =
+      (metrics.averageProcessingTime * metrics.processed + processingTime) / (metrics.processed + 1);
+    metrics.processed++;
+  }
+
+  private countFor(id: string): MessageMetrics {
+    let metrics = this.metrics.get(id);
+    if (!metrics) {
+      metrics = this.emptyMetrics();
+      this.metrics.set(id, metrics);
+    }
+    return metrics;
+  }
+
+  private emptyMetrics(): MessageMetrics {
+    return { sent: 0, received: 0, processed: 0, failed: 0, averageProcessingTime: 0 };
+  }
+}
+
+// Global message bus instance
+export const messageBus = new MessageBus();
@@ -0,0 +1,48 @@
+import { Message } from '../types/message.types';
+import { Priority } from '../types/task.types';
+
+// Highest priority first
+const PRIORITY_ORDER: Priority[] = [Priority.CRITICAL, Priority.HIGH, Priority.MEDIUM, Priority.LOW];
+
+/**
+ * Inbox queue ordered by message priority, first-in first-out within the
+ * same priority.
+ */
+export class PriorityMessageQueue {
+  private buckets: Map<Priority, Message[]> = new Map(
+    PRIORITY_ORDER.map(priority => [priority, [] as Message[]])
+  );
+
+  public enqueue(message: Message): void {
+    this.bucketFor(message.priority).push(message);
+  }
+
+  public dequeue(): Message | undefined {
+    for (const priority of PRIORITY_ORDER) {
+      const bucket = this.bucketFor(priority);
+      if (bucket.length > 0) {
+        return bucket.shift();
+      }
+    }
+    return undefined;
+  }
+
+  public toArray(): Message[] {
+    return PRIORITY_ORDER.flatMap(priority => this.bucketFor(priority));
+  }
+
+  public get size(): number {
+    let size = 0;
+    this.buckets.forEach(bucket => { size += bucket.length; });
+    return size;
+  }
+
+  public clear(): void {
+    this.buckets.forEach((_bucket, priority) => this.buckets.set(priority, []));
+  }
+
+  private bucketFor(priority: Priority): Message[] {
+    // Unknown priorities are treated as medium rather than dropped
+    return this.buckets.get(priority) || (this.buckets.get(Priority.MEDIUM) as Message[]);
+  }
+}
@@ -0,0 +1,172 @@
+import Redis from 'ioredis';
+import { Message } from '../types/message.types';
+import { Priority } from '../types/task.types';
+import { RedisConfig } from '../types/config.types';
+import { MessageBroker } from './message-broker';
+import { logger } from '@core/logger';
+import { EnvelopeCodec } from '@utils/codec';
+
+// Highest priority first
+const PRIORITY_ORDER: Priority[] = [Priority.CRITICAL, Priority.HIGH, Priority.MEDIUM, Priority.LOW];
+
+/**
+ * Broker on a Redis server, so orchestrator and agents in separate processes
+ * share queues. Each queue is one list per priority; new messages are
+ * announced on a pub/sub channel. Payloads go through the envelope codec.
+ * Recipients are kept in a sorted set scored by when they expire; each
+ * process renews its own until it unregisters them or stops.
+ */
+export class RedisBroker implements MessageBroker {
+  public readonly name = 'redis';
+
+  private client: Redis;
+  private subscriber: Redis;
+  private keyPrefix: string;
+  private recipientTtl: number;
+  private codec: EnvelopeCodec;
+  private listeners: Set<(queue: string) => void> = new Set();
+  private recipients: Set<string> = new Set(); // registered by this process
+  private heartbeat?: NodeJS.Timeout;
+
+  constructor(config: RedisConfig, codec: EnvelopeCodec = new EnvelopeCodec()) {
+    this.keyPrefix = config.keyPrefix;
+    this.recipientTtl = config.recipientTtl;
+    this.codec = codec;
+
+    const options = { lazyConnect: true, enableReadyCheck: false, maxRetriesPerRequest: 3 };
+    this.client = new Redis(config.url, options);
+    this.subscriber = new Redis(config.url, options);
+
+    this.client.on('error', error => logger.error('Redis broker connection error', error));
+    this.subscriber.on('error', error => logger.error('Redis broker subscriber error', error));
+    this.subscriber.on('message', (channel: string, queue: string) => {
+      if (channel === this.channel()) {
+        this.listeners.forEach(listener => listener(queue));
+      }
+    });
+  }
+
+  public async connect(): Promise<void> {
+    await this.client.connect();
+    await this.subscriber.connect();
+    await this.subscriber.subscribe(this.channel());
+
+    this.heartbeat = setInterval(() => {
+      this.renewRecipients().catch(error => logger.error('Failed to renew Redis broker recipients', error));
+    }, Math.max(1, Math.floor(this.recipientTtl / 3)));
+    this.heartbeat.unref();
+    logger.info('Connected to Redis message broker');
+  }
+
+  public async disconnect(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+    this.listeners.clear();
+    await Promise.all([this.subscriber.quit(), this.client.quit()]);
+  }
+
+  public async enqueue(queue: string, message: Message): Promise<void> {
+    await this.client.lpush(this.listKey(queue, message.priority), this.codec.encode(message));
+    await this.client.publish(this.channel(), queue);
+  }
+
+  public async dequeue(queue: string): Promise<Message | undefined> {
+    for (const priority of PRIORITY_ORDER) {
+      const payload = await this.client.rpopBuffer(this.listKey(queue, priority));
+      if (payload) {
+        return this.codec.decode<Message>(payload);
+      }
+    }
+    return undefined;
+  }
+
+  public async size(queue: string): Promise<number> {
+    let size = 0;
+    for (const priority of PRIORITY_ORDER) {
+      size += await this.client.llen(this.listKey(queue, priority));
+    }
+    return size;
+  }
+
+  public async purge(queue: string): Promise<Message[]> {
+    // Read and delete in one transaction, so a message pushed meanwhile is neither lost nor left behind
+    const transaction = this.client.multi();
+    for (const priority of PRIORITY_ORDER) {
+      const key = this.listKey(queue, priority);
+      transaction.lrangeBuffer(key, 0, -1).del(key);
+    }
+    const replies = (await transaction.exec()) || [];
+
+    const messages: Message[] = [];
+    for (let index = 0; index < replies.length; index += 2) {
+      const [error, payloads] = replies[index];
+      if (error) {
+        throw error;
+      }
+      // Lists are pushed on the left, so the oldest message is last
+      messages.push(...(payloads as Buffer[]).reverse().map(payload => this.codec.decode<Message>(payload)));
+    }
+    return messages;
+  }
+
+  public async registerRecipient(recipientId: string): Promise<void> {
+    this.recipients.add(recipientId);
+    await this.client.zadd(this.recipientsKey(), Date.now() + this.recipientTtl, recipientId);
+  }
+
+  public async unregisterRecipient(recipientId: string): Promise<void> {
+    this.recipients.delete(recipientId);
+    await this.client.zrem(this.recipientsKey(), recipientId);
+  }
+
+  public async getRecipients(): Promise<string[]> {
+    // Drop recipients whose process stopped renewing them, then read the rest
+    const replies = (await this.client
+      .multi()
+      .zremrangebyscore(this.recipientsKey(), '-inf', Date.now())
+      .zrange(this.recipientsKey(), 0, -1)
+      .exec()) || [];
+
+    const [error, recipients] = replies[1] || [null, []];
+    if (error) {
+      throw error;
+    }
+    return recipients as string[];
+  }
+
+  public onEnqueued(listener: (queue: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async renewRecipients(): Promise<void> {
+    if (this.recipients.size === 0) {
+      return;
+    }
+
+    const expiresAt = Date.now() + this.recipientTtl;
+    const entries = Array.from(this.recipients).flatMap(recipientId => [expiresAt, recipientId]);
+    await this.client.zadd(this.recipientsKey(), ...entries);
+  }
+
+  private recipientsKey(): string {
+    // Recipient ids scored by when their registration expires
+    return this.key('inboxes');
+  }
+
+  private listKey(queue: string, priority: Priority): string {
+    // Unknown priorities share the medium list, as in the in-memory queue
+    const bucket = PRIORITY_ORDER.includes(priority) ? priority : Priority.MEDIUM;
+    return this.key(`queue:${queue}:${bucket}`);
+  }
+
+  private channel(): string {
+    return this.key('enqueued');
+  }
+
+  private key(name: string): string {
+    return `${this.keyPrefix}:${name}`;
+  }
+}
@@ -1,9 +1,18 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import Joi from 'joi';
-import { MADOConfig, AgentRole } from '../types/index';
+import { MADOConfig, AgentRole, TaskType, Priority } from '../types/index';
 import { logger } from './logger';
 
+const retryPolicyFields = {
+  maxAttempts: Joi.number().integer().min(1).max(20),
+  initialDelay: Joi.number().min(0),
+  maxDelay: Joi.number().min(0),
+  backoffMultiplier: Joi.number().min(1),
+  jitter: Joi.number().min(0).max(1),
+  reassignAfter: Joi.number().integer().min(1)
+};
+
 const configSchema = Joi.object({
   project: Joi.object({
     name: Joi.string().required(),
@@ -37,6 +46,48 @@ const configSchema = Joi.object({
     defaultRoles: Joi.array().items(
       Joi.string().valid(...Object.values(AgentRole))
     ).default([AgentRole.FRONTEND, AgentRole.BACKEND, AgentRole.QA]),
+    pool: Joi.array().items(Joi.object({
+      // Ids end up in worktree paths and branch names
+      id: Joi.string().pattern(/^[A-Za-z0-9._{}-]+$/).default('{role}-{n}'),
+      name: Joi.string().optional(),
+      role: Joi.string().valid(...Object.values(AgentRole)).required(),
+      count: Joi.number().integer().min(1).default(1),
+      capabilities: Joi.array().items(Joi.object({
+        name: Joi.string().required(),
+        level: Joi.number().integer().min(1).max(10).required(),
+        description: Joi.string().allow('').default('')
+      })).unique('name').default([]),
+      maxConcurrentTasks: Joi.number().integer().min(1).default(2),
+      model: Joi.string().optional(),
+      baseBranch: Joi.string().optional()
+    })).default([]),
+    autoscaling: Joi.object({
+      enabled: Joi.boolean().default(false),
+      interval: Joi.number().min(1000).default(15000),
+      queueThreshold: Joi.number().integer().min(1).default(3),
+      idleCooldown: Joi.number().min(0).default(300000), // 5 minutes
+      defaultRole: Joi.string().valid(...Object.values(AgentRole)).default(AgentRole.FULL_STACK)
+    }).default(),
+    executors: Joi.object({
+      default: Joi.string().optional(),
+      byTaskType: Joi.object().pattern(Joi.string().valid(...Object.values(TaskType)), Joi.string()).default({}),
+      byRole: Joi.object().pattern(Joi.string().valid(...Object.values(AgentRole)), Joi.string()).default({}),
+      shell: Joi.object({
+        command: Joi.string().optional(),
+        verifyCommand: Joi.string().optional()
+      }).default({}),
+      plugins: Joi.object().pattern(Joi.string(), Joi.string()).default({})
+    }).default(),
+    prompts: Joi.object({
+      directory: Joi.string().default('prompts')
+    }).default(),
+    context: Joi.object({
+      enabled: Joi.boolean().default(true),
+      budget: Joi.number().integer().min(1000).default(60000),
+      maxCommits: Joi.number().integer().min(0).default(5),
+      maxFileSize: Joi.number().integer().min(1).default(200000),
+      cacheSize: Joi.number().integer().min(1).default(10)
+    }).default(),
     healthCheckInterval: Joi.number().min(1000).default(30000),
     taskTimeout: Joi.number().min(60000).default(1800000), // 30 minutes
     autoRestart: Joi.boolean().default(true),
@@ -45,15 +96,46 @@ const configSchema = Joi.object({
       maxCpu: Joi.number().min(1).max(100).default(80), // percentage
       maxDisk: Joi.number().min(100).default(5120), // MB
       maxNetworkBandwidth: Joi.number().min(1).default(100) // MB/s
-    }).default({})
+    }).default({}),
+    retry: Joi.object({
+      default: Joi.object({
+        maxAttempts: retryPolicyFields.maxAttempts.default(3),
+        initialDelay: retryPolicyFields.initialDelay.default(5000),
+        maxDelay: retryPolicyFields.maxDelay.default(300000),
+        backoffMultiplier: retryPolicyFields.backoffMultiplier.default(2),
+        jitter: retryPolicyFields.jitter.default(0.2),
+        reassignAfter: retryPolicyFields.reassignAfter.default(2)
+      }).default(),
+      byTaskType: Joi.object().pattern(
+        Joi.string().valid(...Object.values(TaskType)),
+        Joi.object(retryPolicyFields)
+      ).default({}),
+      byPriority: Joi.object().pattern(
+        Joi.string().valid(...Object.values(Priority)),
+        Joi.object(retryPolicyFields)
+      ).default({})
+    }).default()
   }).required(),
 
   messaging: Joi.object({
-    broker: Joi.string().valid('memory', 'redis', 'rabbitmq').default('memory'),
-    queues: Joi.object().default({}),
-    serialization: Joi.string().valid('json', 'msgpack', 'protobuf').default('json'),
+    broker: Joi.string().valid('memory', 'redis').default('memory'),
+    queues: Joi.object().pattern(Joi.string(), Joi.object({
+      maxSize: Joi.number().min(1),
+      retryAttempts: Joi.number().min(0),
+      retryDelay: Joi.number().min(0),
+      deadLetterQueue: Joi.boolean()
+    })).default({}),
+    requestTimeout: Joi.number().min(1).default(30000),
+    redis: Joi.object({
+      url: Joi.string().default('redis://localhost:6379'),
+      keyPrefix: Joi.string().default('mado'),
+      recipientTtl: Joi.number().integer().min(1000).default(30000)
+    }).default(),
+    serialization: Joi.string().valid('json', 'msgpack').default('json'),
     compression: Joi.boolean().default(false),
-    encryption: Joi.boolean().default(false)
+    compressionAlgorithm: Joi.string().valid('zlib', 'brotli').default('zlib'),
+    encryption: Joi.boolean().default(false),
+    encryptionKey: Joi.string().when('encryption', { is: true, then: Joi.required() })
   }).required(),
 
   monitoring: Joi.object({
@@ -85,6 +167,7 @@ const configSchema = Joi.object({
       enabled: Joi.boolean().default(true),
       version: Joi.string().default('latest'),
       binary: Joi.string().default('claude'),
+      args: Joi.array().items(Joi.string()).default(['--print', '--permission-mode', 'acceptEdits']),
       defaultModel: Joi.string().default('claude-3-sonnet-20240229'),
       apiKey: Joi.string().optional(),
       baseUrl: Joi.string().optional()
@@ -107,11 +190,20 @@ const configSchema = Joi.object({
   security: Joi.object({
     authentication: Joi.boolean().default(false),
     authorization: Joi.boolean().default(false),
-    apiKeys: Joi.array().items(Joi.string()).default([]),
+    apiKeys: Joi.array().items(Joi.object({
+      id: Joi.string().required(),
+      hash: Joi.string().pattern(/^sha256:[0-9a-f]{64}$/).required(),
+      scope: Joi.string().valid('read-only', 'task-submitter', 'agent-operator', 'admin').required(),
+      description: Joi.string()
+    })).unique('id').unique('hash').default([]),
     rateLimiting: Joi.object({
       enabled: Joi.boolean().default(true),
       requestsPerMinute: Joi.number().min(1).default(100),
-      burstLimit: Joi.number().min(1).default(200)
+      burstLimit: Joi.number().min(1).default(200),
+      agentActions: Joi.object({
+        actionsPerMinute: Joi.number().min(1).default(30),
+        burstLimit: Joi.number().min(1).default(10)
+      }).default({})
     }).default({}),
     sandbox: Joi.object({
       enabled: Joi.boolean().default(true),
@@ -123,15 +215,53 @@ const configSchema = Joi.object({
       ]),
       networkAccess: Joi.boolean().default(true)
     }).default({})
-  }).required()
+  }).required(),
+
+  storage: Joi.object({
+    enabled: Joi.boolean().default(true),
+    path: Joi.string().default('data/mado.db'),
+    eventRetentionDays: Joi.number().min(0).default(30)
+  }).default(),
+
+  api: Joi.object({
+    enabled: Joi.boolean().default(true),
+    host: Joi.string().default('127.0.0.1'),
+    port: Joi.number().port().default(3001),
+    corsOrigins: Joi.array().items(Joi.string()).default([]),
+    bodyLimit: Joi.string().default('1mb'),
+    stream: Joi.object({
+      enabled: Joi.boolean().default(true),
+      path: Joi.string().pattern(/^\//).default('/api/stream'),
+      historyLimit: Joi.number().integer().min(0).max(1000).default(100),
+      maxQueuedEvents: Joi.number().integer().min(1).default(1000),
+      ackTimeout: Joi.number().min(100).default(10000)
+    }).default()
+  }).default(),
+  control: Joi.object({
+    enabled: Joi.boolean().default(true),
+    socketPath: Joi.string().default('data/control.sock')
+  }).default(),
+  daemon: Joi.object({
+    pidFile: Joi.string().default('data/mado.pid'),
+    logFile: Joi.string().default('logs/daemon.log'),
+    shutdownGracePeriod: Joi.number().integer().min(0).default(30000)
+  }).default()
 });
 
 export class ConfigManager {
   private config: MADOConfig | null = null;
-  private configPath: string;
+  private configPath: string | null;
 
   constructor(configPath?: string) {
-    this.configPath = configPath || this.findConfigFile();
+    // Searched for on first use, so constructing a manager never fails
+    this.configPath = configPath ? path.resolve(configPath) : null;
+  }
+
+  public getConfigPath(): string {
+    if (!this.configPath) {
+      this.configPath = this.findConfigFile();
+    }
+    return this.configPath;
   }
 
   private findConfigFile(): string {
@@ -159,7 +289,12 @@ export class ConfigManager {
 
   public async load(): Promise<MADOConfig> {
     try {
-      const configData = JSON.parse(fs.readFileSync(this.configPath, 'utf8'));
+      const configData = JSON.parse(fs.readFileSync(this.getConfigPath(), 'utf8'));
+
+      // The project directory in the file is relative to the file, not to where MADO is started
+      if (typeof configData.project?.workingDirectory === 'string') {
+        configData.project.workingDirectory = path.resolve(path.dirname(this.getConfigPath()), configData.project.workingDirectory);
+      }
       
       // Merge with environment variables
       const mergedConfig = this.mergeWithEnvironment(configData);
@@ -194,6 +329,9 @@ export class ConfigManager {
         token: process.env.MADO_GIT_TOKEN || config.git?.token,
         remote: process.env.MADO_GIT_REMOTE || config.git?.remote,
       },
+      messaging: {
+        encryptionKey: process.env.MADO_ENCRYPTION_KEY || config.messaging?.encryptionKey,
+      },
       integrations: {
         claudeCode: {
           apiKey: process.env.ANTHROPIC_API_KEY || config.integrations?.claudeCode?.apiKey,
@@ -240,7 +378,7 @@ export class ConfigManager {
         throw new Error(`Configuration validation failed: ${error.message}`);
       }
 
-      fs.writeFileSync(this.configPath, JSON.stringify(config, null, 2));
+      fs.writeFileSync(this.getConfigPath(), JSON.stringify(config, null, 2));
       this.config = config;
       logger.info('Configuration saved successfully');
     } catch (error) {
@@ -275,6 +413,30 @@ export class ConfigManager {
       agents: {
         maxConcurrentAgents: 5,
         defaultRoles: [AgentRole.FRONTEND, AgentRole.BACKEND, AgentRole.QA],
+        pool: [],
+        autoscaling: {
+          enabled: false,
+          interval: 15000,
+          queueThreshold: 3,
+          idleCooldown: 300000,
+          defaultRole: AgentRole.FULL_STACK
+        },
+        executors: {
+          byTaskType: {},
+          byRole: {},
+          shell: {},
+          plugins: {}
+        },
+        prompts: {
+          directory: 'prompts'
+        },
+        context: {
+          enabled: true,
+          budget: 60000,
+          maxCommits: 5,
+          maxFileSize: 200000,
+          cacheSize: 10
+        },
         healthCheckInterval: 30000,
         taskTimeout: 1800000,
         autoRestart: true,
@@ -283,13 +445,32 @@ export class ConfigManager {
           maxCpu: 80,
           maxDisk: 5120,
           maxNetworkBandwidth: 100
+        },
+        retry: {
+          default: {
+            maxAttempts: 3,
+            initialDelay: 5000,
+            maxDelay: 300000,
+            backoffMultiplier: 2,
+            jitter: 0.2,
+            reassignAfter: 2
+          },
+          byTaskType: {},
+          byPriority: {}
         }
       },
       messaging: {
         broker: 'memory' as const,
         queues: {},
+        requestTimeout: 30000,
+        redis: {
+          url: 'redis://localhost:6379',
+          keyPrefix: 'mado',
+          recipientTtl: 30000
+        },
         serialization: 'json' as const,
         compression: false,
+        compressionAlgorithm: 'zlib' as const,
         encryption: false
       },
       monitoring: {
@@ -320,6 +501,7 @@ export class ConfigManager {
           enabled: true,
           version: 'latest',
           binary: 'claude',
+          args: ['--print', '--permission-mode', 'acceptEdits'],
           defaultModel: 'claude-3-sonnet-20240229'
         },
         github: {
@@ -340,7 +522,11 @@ export class ConfigManager {
         rateLimiting: {
           enabled: true,
           requestsPerMinute: 100,
-          burstLimit: 200
+          burstLimit: 200,
+          agentActions: {
+            actionsPerMinute: 30,
+            burstLimit: 10
+          }
         },
         sandbox: {
           enabled: true,
@@ -348,6 +534,34 @@ export class ConfigManager {
           restrictedPaths: ['/etc', '/usr', '/sys', '/proc'],
           networkAccess: true
         }
+      },
+      storage: {
+        enabled: true,
+        path: 'data/mado.db',
+        eventRetentionDays: 30
+      },
+      api: {
+        enabled: true,
+        host: '127.0.0.1',
+        port: 3001,
+        corsOrigins: [],
+        bodyLimit: '1mb',
+        stream: {
+          enabled: true,
+          path: '/api/stream',
+          historyLimit: 100,
+          maxQueuedEvents: 1000,
+          ackTimeout: 10000
+        }
+      },
+      control: {
+        enabled: true,
+        socketPath: 'data/control.sock'
+      },
+      daemon: {
+        pidFile: 'data/mado.pid',
+        logFile: 'logs/daemon.log',
+        shutdownGracePeriod: 30000
       }
     };
 
@@ -355,4 +569,13 @@ export class ConfigManager {
   }
 }
 
-export const configManager = new ConfigManager();
\ No newline at end of file
+export const configManager = new ConfigManager();
+
+/**
+ * Resolves a path setting such as storage.path against
+ * project.workingDirectory, so the orchestrator and the CLI agree on it
+ * whichever directory they are started from.
+ */
+export function resolveProjectPath(config: MADOConfig, setting: string): string {
+  return path.resolve(config.project.workingDirectory, setting);
+}
\ No newline at end of file
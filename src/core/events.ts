@@ -17,6 +17,7 @@ export enum SystemEvent {
   TASK_FAILED = 'task:failed',
   TASK_BLOCKED = 'task:blocked',
   TASK_PROGRESS_UPDATED = 'task:progress_updated',
+  TASK_RETRY_SCHEDULED = 'task:retry_scheduled',
 
   // Git events
   GIT_COMMIT = 'git:commit',
@@ -32,6 +33,7 @@ export enum SystemEvent {
   SYSTEM_ERROR = 'system:error',
   SYSTEM_HEALTH_CHECK = 'system:health_check',
   SYSTEM_RESOURCE_WARNING = 'system:resource_warning',
+  SYSTEM_RECOVERED = 'system:recovered',
 
   // Message events
   MESSAGE_SENT = 'message:sent',
@@ -176,6 +178,7 @@ export class EventBus {
 
     const warningEvents = [
       SystemEvent.TASK_BLOCKED,
+      SystemEvent.TASK_RETRY_SCHEDULED,
       SystemEvent.GIT_CONFLICT,
       SystemEvent.SYSTEM_RESOURCE_WARNING,
     ];
@@ -186,6 +189,7 @@ export class EventBus {
       SystemEvent.TASK_COMPLETED,
       SystemEvent.GIT_COMMIT,
       SystemEvent.SYSTEM_STARTED,
+      SystemEvent.SYSTEM_RECOVERED,
     ];
 
     if (errorEvents.includes(eventType)) return 'error';
@@ -309,5 +313,24 @@ export const createSystemEvent = (
   metadata: { data }
 });
 
+export interface EventSubjects {
+  agentId?: string;
+  taskId?: string;
+  repository?: string;
+}
+
+/**
+ * The agent, task and repository an event is about, whether they sit on the
+ * event itself or in the data of a system event.
+ */
+export const getEventSubjects = (event: MADOEvent): EventSubjects => {
+  const data = (event.metadata && event.metadata.data) || {};
+  return {
+    agentId: ('agentId' in event && event.agentId) || data.agentId || undefined,
+    taskId: ('taskId' in event && event.taskId) || data.taskId || undefined,
+    repository: ('repository' in event && event.repository) || undefined
+  };
+};
+
 // Global event bus instance
 export const eventBus = new EventBus();
\ No newline at end of file
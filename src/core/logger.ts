@@ -17,8 +17,11 @@ const customFormat = winston.format.combine(
   winston.format.prettyPrint()
 );
 
+// Colours only on a terminal; the daemon writes its console output to a log file
+const colorize = process.stdout.isTTY ? [winston.format.colorize()] : [];
+
 const consoleFormat = winston.format.combine(
-  winston.format.colorize(),
+  ...colorize,
   winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
   winston.format.align(),
   winston.format.printf(info => {
@@ -55,6 +58,15 @@ export const logger = winston.createLogger({
   ],
 });
 
+// CLI client commands print their results on stdout, so log lines stay off the console there
+export function setConsoleLogging(enabled: boolean): void {
+  logger.transports.forEach(transport => {
+    if (transport instanceof winston.transports.Console) {
+      transport.silent = !enabled;
+    }
+  });
+}
+
 // Agent-specific logger
 export class AgentLogger {
   private agentLogger: winston.Logger;
@@ -77,7 +89,7 @@ export class AgentLogger {
         }),
         new winston.transports.Console({
           format: winston.format.combine(
-            winston.format.colorize(),
+            ...colorize,
             winston.format.timestamp({ format: 'HH:mm:ss' }),
             winston.format.printf(info => {
               return `${info.timestamp} [${agentId}] ${info.level}: ${info.message}`;
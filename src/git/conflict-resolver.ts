@@ -24,7 +24,7 @@ export class AutomaticConflictResolver {
       new WhitespaceConflictStrategy(),
       new ImportOrderConflictStrategy(),
       new SimpleAdditionConflictStrategy(),
-      new PackageJsonConflictStrategy()
+      new PackageJsonConflictStrategy(this.repositoryPath)
     );
   }
 
@@ -338,6 +338,8 @@ class SimpleAdditionConflictStrategy implements ConflictResolutionStrategy {
 class PackageJsonConflictStrategy implements ConflictResolutionStrategy {
   name = 'Package.json Conflict Resolver';
 
+  constructor(private repositoryPath: string) {}
+
   canResolve(conflict: ConflictInfo): boolean {
     return conflict.file.endsWith('package.json');
   }
@@ -346,7 +348,7 @@ class PackageJsonConflictStrategy implements ConflictResolutionStrategy {
     try {
       // Parse both versions as JSON and merge intelligently
       const fullContent = await fs.promises.readFile(
-        path.join(process.cwd(), conflict.file), 
+        path.join(this.repositoryPath, conflict.file), 
         'utf8'
       );
       
@@ -13,6 +13,9 @@ import {
 import { logger } from '@core/logger';
 import { eventBus, createGitEvent, SystemEvent } from '@core/events';
 
+// The tree of a repository without files, which every root commit diffs against
+const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
 export class GitRepository {
   private git: SimpleGit;
   private repositoryPath: string;
@@ -69,11 +72,14 @@ echo "Commit event triggered by MADO" >> .git/mado-events.log
     }
   }
 
-  public async createBranch(branchName: string, baseBranch?: string): Promise<GitOperationResult> {
+  // With checkout false the branch is only created, e.g. for a worktree to check out
+  public async createBranch(branchName: string, baseBranch?: string, checkout = true): Promise<GitOperationResult> {
     const startTime = Date.now();
     
     try {
-      if (baseBranch) {
+      if (!checkout) {
+        await this.git.branch(baseBranch ? [branchName, baseBranch] : [branchName]);
+      } else if (baseBranch) {
         await this.git.checkoutBranch(branchName, baseBranch);
       } else {
         await this.git.checkoutLocalBranch(branchName);
@@ -173,6 +179,12 @@ echo "Commit event triggered by MADO" >> .git/mado-events.log
     }
   }
 
+  // Throws away uncommitted changes, untracked files included
+  public async discardChanges(): Promise<void> {
+    await this.git.reset(['--hard']);
+    await this.git.clean('f', ['-d']);
+  }
+
   public async mergeBranch(branchName: string, strategy?: string): Promise<GitOperationResult> {
     const startTime = Date.now();
     
@@ -218,6 +230,29 @@ echo "Commit event triggered by MADO" >> .git/mado-events.log
     }
   }
 
+  public async getHead(): Promise<string> {
+    return (await this.git.revparse(['HEAD'])).trim();
+  }
+
+  // Files tracked at a commit with their size in bytes, submodules left out
+  public async listFiles(commit: string): Promise<Map<string, number>> {
+    const listing = await this.git.raw(['ls-tree', '-r', '-l', '-z', commit]);
+    const files: Map<string, number> = new Map();
+    for (const entry of listing.split('\0').filter(Boolean)) {
+      const tab = entry.indexOf('\t');
+      const [, type, , size] = entry.slice(0, tab).split(/\s+/);
+      if (type === 'blob') {
+        files.set(entry.slice(tab + 1), Number(size));
+      }
+    }
+    return files;
+  }
+
+  // A file's content as committed, whatever the working tree holds
+  public async readFile(commit: string, file: string): Promise<string> {
+    return this.git.show([`${commit}:${file}`]);
+  }
+
   public async getStatus(): Promise<StatusResult> {
     try {
       return await this.git.status();
@@ -268,6 +303,7 @@ echo "Commit event triggered by MADO" >> .git/mado-events.log
     maxCount?: number;
     since?: Date;
     author?: string;
+    file?: string; // only commits touching this path
   }): Promise<CommitInfo[]> {
     try {
       const logOptions: any = {};
@@ -276,12 +312,16 @@ echo "Commit event triggered by MADO" >> .git/mado-events.log
       if (options?.maxCount) logOptions.maxCount = options.maxCount;
       if (options?.since) logOptions.since = options.since.toISOString();
       if (options?.author) logOptions.author = options.author;
+      if (options?.file) logOptions.file = options.file;
 
       const log = await this.git.log(logOptions);
       
       const commits: CommitInfo[] = [];
       for (const commit of log.all) {
-        const diffStat = await this.git.diffSummary([`${commit.hash}~1`, commit.hash]);
+        // A root commit has no parent; compare it with the empty tree instead
+        const parents = await this.git.raw(['rev-list', '--parents', '-n', '1', commit.hash]);
+        const base = parents.trim().split(' ').length > 1 ? `${commit.hash}~1` : EMPTY_TREE_HASH;
+        const diffStat = await this.git.diffSummary([base, commit.hash]);
         
         commits.push({
           hash: commit.hash,
@@ -5,6 +5,24 @@ import { GitRepository } from './repository';
 import { logger } from '@core/logger';
 import { eventBus, createGitEvent, SystemEvent } from '@core/events';
 
+// Worktrees of an agent's task slots beyond the first are named after the agent
+const SLOT_SUFFIX = /-slot-\d+$/;
+
+/**
+ * The id of the worktree for one of an agent's further task slots (2 and up).
+ */
+export function slotWorktreeId(agentId: string, slot: number): string {
+  return `${agentId}-slot-${slot}`;
+}
+
+/**
+ * The agent a worktree belongs to, whether it is the agent's own or one of
+ * its task slots.
+ */
+export function worktreeOwner(worktreeId: string): string {
+  return worktreeId.replace(SLOT_SUFFIX, '');
+}
+
 export class WorktreeManager {
   private mainRepository: GitRepository;
   private worktrees: Map<string, WorktreeInfo> = new Map();
@@ -28,9 +46,29 @@ export class WorktreeManager {
 
   public async createWorktreeForAgent(
     agentId: string, 
-    branchName?: string
+    branchName?: string,
+    baseBranch?: string
   ): Promise<WorktreeInfo> {
     try {
+      // Reattach a worktree left behind by a previous run instead of wiping it
+      const existing = this.worktrees.get(agentId);
+      if (
+        existing &&
+        existing.status !== 'corrupted' &&
+        (!branchName || branchName === existing.branch) &&
+        fs.existsSync(existing.path)
+      ) {
+        existing.status = 'active';
+        existing.lastActivity = new Date();
+
+        logger.info(`Reattached existing worktree for agent ${agentId}`, {
+          path: existing.path,
+          branch: existing.branch
+        });
+
+        return existing;
+      }
+
       // Generate branch name if not provided
       const finalBranchName = branchName || `agent-${agentId}-${Date.now()}`;
       
@@ -43,7 +81,7 @@ export class WorktreeManager {
       }
 
       // Create the branch first if it doesn't exist
-      await this.ensureBranchExists(finalBranchName);
+      await this.ensureBranchExists(finalBranchName, baseBranch);
 
       // Create the worktree
       const result = await this.createWorktreeDirectory(worktreePath, finalBranchName);
@@ -56,7 +94,7 @@ export class WorktreeManager {
         id: agentId,
         path: worktreePath,
         branch: finalBranchName,
-        agentId,
+        agentId: worktreeOwner(agentId),
         status: 'active',
         lastActivity: new Date()
       };
@@ -207,6 +245,17 @@ export class WorktreeManager {
       const timeSinceLastActivity = now.getTime() - worktree.lastActivity.getTime();
       
       if (timeSinceLastActivity > staleThreshold) {
+        // Never throw away work that was not committed yet
+        const uncommitted = await this.getUncommittedChanges(agentId);
+        if (uncommitted.length > 0) {
+          logger.warn(`Keeping stale worktree for agent ${agentId} with uncommitted changes`, {
+            path: worktree.path,
+            files: uncommitted.length
+          });
+          worktree.status = 'inactive';
+          continue;
+        }
+
         logger.warn(`Cleaning up stale worktree for agent ${agentId}`, {
           path: worktree.path,
           lastActivity: worktree.lastActivity
@@ -224,6 +273,82 @@ export class WorktreeManager {
     }
   }
 
+  /**
+   * Lists files with uncommitted changes (including untracked ones) in an
+   * agent's worktree.
+   */
+  public async getUncommittedChanges(agentId: string): Promise<string[]> {
+    const worktree = this.worktrees.get(agentId);
+    if (!worktree || !fs.existsSync(worktree.path)) {
+      return [];
+    }
+
+    try {
+      const simpleGit = (await import('simple-git')).default;
+      const status = await simpleGit(worktree.path).status();
+      return status.files.map(file => file.path);
+    } catch (error) {
+      logger.error(`Failed to read status of worktree for agent ${agentId}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Commits everything in an agent's worktree, untracked files included, so
+   * it survives the worktree being reset or removed.
+   */
+  public async checkpointWorktree(agentId: string, message: string): Promise<GitOperationResult> {
+    const startTime = Date.now();
+
+    try {
+      const worktree = this.worktrees.get(agentId);
+
+      if (!worktree) {
+        return {
+          success: false,
+          error: `No worktree found for agent ${agentId}`,
+          duration: Date.now() - startTime
+        };
+      }
+
+      const simpleGit = (await import('simple-git')).default;
+      const git = simpleGit(worktree.path);
+
+      await git.add(['-A']);
+      const result = await git.commit(message, undefined, { '--no-verify': null });
+
+      worktree.lastActivity = new Date();
+
+      eventBus.emit(createGitEvent(
+        SystemEvent.GIT_COMMIT,
+        worktree.path,
+        { agentId, checkpoint: true, message },
+        worktree.branch,
+        result.commit
+      ));
+
+      return {
+        success: true,
+        output: result.commit,
+        duration: Date.now() - startTime
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * Finds `agent-*` worktrees left by a previous run without touching them.
+   */
+  public async discoverWorktrees(): Promise<WorktreeInfo[]> {
+    await this.discoverExistingWorktrees();
+    return this.getAllWorktrees();
+  }
+
   public async syncWorktreeWithMain(agentId: string): Promise<GitOperationResult> {
     const startTime = Date.now();
     
@@ -284,13 +409,17 @@ export class WorktreeManager {
     return path.join(worktreeDir, `agent-${agentId}`);
   }
 
-  private async ensureBranchExists(branchName: string): Promise<void> {
+  private async ensureBranchExists(branchName: string, baseBranch?: string): Promise<void> {
     try {
       const branches = await this.mainRepository.getBranches();
       const branchExists = branches.some(b => b.name === branchName);
       
       if (!branchExists) {
-        await this.mainRepository.createBranch(branchName);
+        // Checking it out here would keep the worktree from checking it out
+        const result = await this.mainRepository.createBranch(branchName, baseBranch, false);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
       }
     } catch (error) {
       logger.error(`Failed to ensure branch exists: ${branchName}`, error);
@@ -370,11 +499,11 @@ export class WorktreeManager {
           const dirName = pathParts[pathParts.length - 1];
           
           if (dirName.startsWith('agent-')) {
-            const agentId = dirName.substring(6);
+            const worktreeId = dirName.substring(6);
             currentWorktree = {
-              id: agentId,
+              id: worktreeId,
               path: worktreePath,
-              agentId,
+              agentId: worktreeOwner(worktreeId),
               status: 'active',
               lastActivity: new Date()
             };
@@ -1,41 +1,112 @@
-import { configManager } from '@core/config';
+import { configManager as defaultConfigManager, ConfigManager, resolveProjectPath } from '@core/config';
 import { logger } from '@core/logger';
 import { eventBus } from '@core/events';
 import { AgentRegistry } from '@agents/agent-registry';
 import { DevelopmentAgent } from '@agents/dev-agent';
-import { AgentRole } from './types/agent.types';
+import { ExecutorRegistry, registerBuiltinExecutors, loadExecutorPlugins } from '@agents/executors';
+import { expandAgentPool, poolFromRoles } from '@agents/agent-pool';
+import { Autoscaler } from '@agents/autoscaler';
+import { ContextPacker } from '@analysis/context-packer';
+import { TaskManager } from '@tasks/task-manager';
+import { TaskRecovery, RecoveryReport } from '@tasks/task-recovery';
+import { PromptLibrary } from '@tasks/prompt-library';
+import { GitRepository } from '@git/repository';
+import { WorktreeManager } from '@git/worktree';
+import { PersistentStore } from '@storage/store';
+import { messageBus } from '@communication/message-bus';
+import { createBroker } from '@communication/message-broker';
+import { EnvelopeCodec } from '@utils/codec';
+import { agentActionLimiter } from '@utils/rate-limiter';
+import { ApiServer } from '@api/server';
+import { ApiContext } from '@api/context';
+import { DashboardServer } from '@api/dashboard';
+import { ControlServer, createControlCommands } from '@api/control';
+import { AgentConfig } from './types/agent.types';
+import { TaskExecutor } from './types/executor.types';
+import { Task, TaskResult, TaskAssignment } from './types/task.types';
+import { StorageConfig } from './types/config.types';
 
 export class MADOOrchestrator {
-  private agentRegistry: AgentRegistry;
+  private configManager: ConfigManager;
+  // Built from the configuration in initialize()
+  private agentRegistry!: AgentRegistry;
+  private taskManager!: TaskManager;
+  private store: PersistentStore | null = null;
+  private detachStore: (() => void) | null = null;
+  private recoveryReport: RecoveryReport | null = null;
+  private repository: GitRepository | null = null;
+  private worktreeManager: WorktreeManager | null = null;
+  private apiServer: ApiServer | null = null;
+  private dashboardServer: DashboardServer | null = null;
+  private controlServer: ControlServer | null = null;
+  private autoscaler: Autoscaler | null = null;
+  private executors: ExecutorRegistry = new ExecutorRegistry();
   private isRunning = false;
-
-  constructor() {
-    this.agentRegistry = new AgentRegistry({
-      maxAgents: 10,
-      healthCheckInterval: 30000,
-      autoRestart: true,
-      loadBalancing: 'capability-based'
+  private stopping: Promise<void> | null = null;
+  private stopped: Promise<void>;
+  private resolveStopped!: () => void;
+
+  constructor(configManager: ConfigManager = defaultConfigManager) {
+    this.configManager = configManager;
+    this.stopped = new Promise(resolve => {
+      this.resolveStopped = resolve;
     });
   }
 
+  /**
+   * Makes an executor available to agents under the given name. Call before
+   * initialize(); agents.executors chooses which tasks it runs.
+   */
+  public registerExecutor(name: string, executor: TaskExecutor): void {
+    this.executors.register(name, executor);
+  }
+
   public async initialize(): Promise<void> {
     try {
       logger.info('Initializing MADO Orchestrator...');
 
       // Load configuration
-      await configManager.load();
-      const config = configManager.get();
+      const config = await this.configManager.load();
 
       logger.info('Configuration loaded successfully', {
+        path: this.configManager.getConfigPath(),
         project: config.project.name,
         maxAgents: config.agents.maxConcurrentAgents
       });
 
+      this.agentRegistry = new AgentRegistry({
+        maxAgents: config.agents.maxConcurrentAgents,
+        healthCheckInterval: config.agents.healthCheckInterval,
+        autoRestart: config.agents.autoRestart,
+        loadBalancing: 'capability-based'
+      });
+      this.taskManager = new TaskManager(this.agentRegistry, { retry: config.agents.retry });
+      agentActionLimiter.configure({
+        enabled: config.security.rateLimiting.enabled,
+        ratePerMinute: config.security.rateLimiting.agentActions.actionsPerMinute,
+        burst: config.security.rateLimiting.agentActions.burstLimit
+      });
+      messageBus.configure({
+        queues: config.messaging.queues,
+        requestTimeout: config.messaging.requestTimeout
+      });
+      await messageBus.useBroker(createBroker(config.messaging));
+
+      const workingDirectory = config.project.workingDirectory;
+      this.repository = new GitRepository(workingDirectory);
+      this.worktreeManager = new WorktreeManager(this.repository, workingDirectory);
+
+      if (config.storage.enabled) {
+        await this.initializeStorage(config.storage, EnvelopeCodec.fromConfig(config.messaging));
+        await this.recoverFromPreviousRun(this.worktreeManager);
+      }
+
+      await this.configureExecutors();
+
       // Initialize agent registry
       await this.agentRegistry.initialize();
 
-      // Create sample agents for demonstration
-      await this.createSampleAgents();
+      await this.createAgents();
 
       this.isRunning = true;
       logger.info('MADO Orchestrator initialized successfully');
@@ -46,54 +117,147 @@ export class MADOOrchestrator {
     }
   }
 
-  private async createSampleAgents(): Promise<void> {
-    const config = configManager.get();
-    const workingDir = config.project.workingDirectory;
-
-    // Create a frontend agent
-    const frontendAgent = new DevelopmentAgent({
-      id: 'frontend-001',
-      name: 'Frontend Developer',
-      role: AgentRole.FRONTEND,
-      workingDirectory: workingDir,
-      capabilities: [],
-      maxConcurrentTasks: 2,
-      healthCheckInterval: 30000,
-      settings: {}
+  private async initializeStorage(storageConfig: StorageConfig, codec: EnvelopeCodec): Promise<void> {
+    const store = new PersistentStore(resolveProjectPath(this.configManager.get(), storageConfig.path), codec);
+    await store.initialize();
+
+    if (storageConfig.eventRetentionDays > 0) {
+      const cutoff = new Date(Date.now() - storageConfig.eventRetentionDays * 24 * 60 * 60 * 1000);
+      const pruned = await store.pruneEvents(cutoff);
+      if (pruned > 0) {
+        logger.info(`Pruned ${pruned} stored events older than ${storageConfig.eventRetentionDays} days`);
+      }
+    }
+
+    const saveTask = (task: Task) => store.track(store.saveTask(task));
+    const onStatusChanged = ({ task }: { task: Task }) => saveTask(task);
+    const onResult = ({ result, agentId }: { result: TaskResult; agentId: string }) => {
+      store.track(store.saveTaskResult(result, agentId));
+      const agent = this.agentRegistry.getAgent(agentId);
+      if (agent) {
+        store.track(store.saveAgentMetrics(agentId, { ...agent.metrics }));
+      }
+    };
+    const onAssigned = (assignment: TaskAssignment) => store.track(store.saveAssignment(assignment));
+    const onUnassigned = (assignment: TaskAssignment) => store.track(store.deleteAssignment(assignment));
+
+    this.taskManager.on('task:created', saveTask);
+    this.taskManager.on('task:status_changed', onStatusChanged);
+    this.taskManager.on('task:result', onResult);
+    this.agentRegistry.on('task:assigned', onAssigned);
+    this.agentRegistry.on('task:unassigned', onUnassigned);
+    const detachEvents = store.attachEventBus(eventBus);
+
+    this.store = store;
+    this.detachStore = () => {
+      detachEvents();
+      this.taskManager.off('task:created', saveTask);
+      this.taskManager.off('task:status_changed', onStatusChanged);
+      this.taskManager.off('task:result', onResult);
+      this.agentRegistry.off('task:assigned', onAssigned);
+      this.agentRegistry.off('task:unassigned', onUnassigned);
+    };
+  }
+
+  /**
+   * Reloads unfinished tasks and reconnects in-flight ones to the worktrees
+   * their agents left behind. Runs before agents start, so their worktrees
+   * are reattached rather than recreated.
+   */
+  private async recoverFromPreviousRun(worktreeManager: WorktreeManager): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const recovery = new TaskRecovery(this.taskManager, this.store, worktreeManager);
+
+    try {
+      this.recoveryReport = await recovery.recover();
+    } catch (error) {
+      logger.error('Failed to recover tasks from previous run', error);
+    }
+  }
+
+  // Built-in and plugin executors; ones registered by the embedding code take precedence
+  private async configureExecutors(): Promise<void> {
+    const config = this.configManager.get();
+    const { executors } = config.agents;
+
+    const prompts = new PromptLibrary({
+      directory: resolveProjectPath(config, config.agents.prompts.directory),
+      project: config.project
     });
+    const templates = await prompts.check();
 
-    // Create a backend agent
-    const backendAgent = new DevelopmentAgent({
-      id: 'backend-001',
-      name: 'Backend Developer',
-      role: AgentRole.BACKEND,
-      workingDirectory: workingDir,
-      capabilities: [],
-      maxConcurrentTasks: 2,
-      healthCheckInterval: 30000,
-      settings: {}
+    const embedded = this.executors;
+    this.executors = registerBuiltinExecutors(new ExecutorRegistry(), {
+      claudeCode: config.integrations.claudeCode,
+      shell: executors.shell,
+      prompts
     });
+    loadExecutorPlugins(this.executors, executors.plugins, config.project.workingDirectory);
+    for (const name of embedded.getNames()) {
+      this.executors.register(name, embedded.get(name)!);
+    }
 
-    // Create a QA agent
-    const qaAgent = new DevelopmentAgent({
-      id: 'qa-001',
-      name: 'Quality Assurance',
-      role: AgentRole.QA,
-      workingDirectory: workingDir,
-      capabilities: [],
-      maxConcurrentTasks: 1,
-      healthCheckInterval: 30000,
-      settings: {}
+    this.executors.configure({
+      ...(executors.default ? { default: executors.default } : {}),
+      byTaskType: executors.byTaskType,
+      byRole: executors.byRole
     });
+    this.executors.validate();
 
-    // Register agents
-    await this.agentRegistry.registerAgent(frontendAgent, frontendAgent as any);
-    await this.agentRegistry.registerAgent(backendAgent, backendAgent as any);
-    await this.agentRegistry.registerAgent(qaAgent, qaAgent as any);
+    logger.info('Task executors configured', { executors: this.executors.getNames(), promptTemplates: templates });
+  }
 
-    logger.info('Sample agents created and registered', {
-      agents: ['frontend-001', 'backend-001', 'qa-001']
-    });
+  /**
+   * Creates the agents described by agents.pool or, when no pool is
+   * configured, one agent per entry in agents.defaultRoles.
+   */
+  private async createAgents(): Promise<void> {
+    const config = this.configManager.get();
+    const { pool, defaultRoles, maxConcurrentAgents, healthCheckInterval, taskTimeout } = config.agents;
+    const source = pool.length > 0 ? 'agents.pool' : 'agents.defaultRoles';
+
+    let entries = pool;
+    if (pool.length === 0) {
+      if (defaultRoles.length > maxConcurrentAgents) {
+        logger.warn(`agents.defaultRoles lists ${defaultRoles.length} agents but only ${maxConcurrentAgents} may run; creating the first ${maxConcurrentAgents}`);
+      }
+      entries = poolFromRoles(defaultRoles.slice(0, maxConcurrentAgents));
+    }
+
+    const defaults = {
+      workingDirectory: config.project.workingDirectory,
+      taskTimeout,
+      healthCheckInterval,
+      model: config.integrations.claudeCode.defaultModel
+    };
+    const agentConfigs = expandAgentPool(entries, defaults);
+
+    if (agentConfigs.length > maxConcurrentAgents) {
+      throw new Error(`agents.pool defines ${agentConfigs.length} agents but agents.maxConcurrentAgents is ${maxConcurrentAgents}`);
+    }
+
+    // Every agent picks its executors from the same registry and shares one context cache
+    const contextPacker = config.agents.context.enabled ? new ContextPacker(config.agents.context) : null;
+    const createAgent = (agentConfig: AgentConfig) => new DevelopmentAgent(agentConfig, this.executors, contextPacker);
+
+    for (const agentConfig of agentConfigs) {
+      await this.agentRegistry.registerAgent(createAgent(agentConfig), agentConfig);
+    }
+
+    logger.info(`Agents created from ${source}`, { agents: agentConfigs.map(agentConfig => agentConfig.id) });
+
+    if (config.agents.autoscaling.enabled) {
+      this.autoscaler = new Autoscaler(this.agentRegistry, this.taskManager, {
+        config: config.agents.autoscaling,
+        maxAgents: maxConcurrentAgents,
+        pool: entries,
+        defaults,
+        createAgent
+      });
+    }
   }
 
   public async start(): Promise<void> {
@@ -104,9 +268,40 @@ export class MADOOrchestrator {
     try {
       logger.info('Starting MADO Orchestrator...');
 
+      const config = this.configManager.get();
+      const apiContext = this.getApiContext();
+
+      // Claim the control socket first, so a second orchestrator fails before starting agents
+      if (apiContext && config.control.enabled) {
+        this.controlServer = new ControlServer(
+          resolveProjectPath(config, config.control.socketPath),
+          createControlCommands(apiContext, this)
+        );
+        await this.controlServer.start();
+      }
+
       // Start all registered agents
       await this.agentRegistry.startAllAgents();
 
+      // Dispatch tasks recovered from a previous run
+      void this.taskManager.processQueue();
+      this.autoscaler?.start();
+
+      if (apiContext && config.api.enabled) {
+        this.apiServer = new ApiServer(apiContext, config.api, config.security);
+        await this.apiServer.start();
+      }
+      if (apiContext && config.monitoring.dashboard.enabled) {
+        this.dashboardServer = new DashboardServer(
+          apiContext,
+          config.monitoring.dashboard,
+          config.api,
+          config.security,
+          this.apiServer?.getSharedState()
+        );
+        await this.dashboardServer.start();
+      }
+
       logger.info('MADO Orchestrator started successfully');
 
       // Log system status
@@ -118,17 +313,67 @@ export class MADOOrchestrator {
     }
   }
 
-  public async stop(): Promise<void> {
+  /**
+   * Stops taking requests, lets running tasks finish within the configured
+   * grace period, then stops the agents; the tasks that cuts short are queued
+   * again for the next run. Concurrent calls share one shutdown.
+   */
+  public stop(): Promise<void> {
+    if (!this.stopping) {
+      this.stopping = this.shutdown();
+    }
+    return this.stopping;
+  }
+
+  private async shutdown(): Promise<void> {
     try {
       logger.info('Stopping MADO Orchestrator...');
 
+      // Stop taking requests before the agents go away
+      if (this.apiServer) {
+        await this.apiServer.stop();
+        this.apiServer = null;
+      }
+      if (this.dashboardServer) {
+        await this.dashboardServer.stop();
+        this.dashboardServer = null;
+      }
+      if (this.controlServer) {
+        await this.controlServer.stop();
+        this.controlServer = null;
+      }
+
+      // No agents are added or retired while shutting down
+      if (this.autoscaler) {
+        await this.autoscaler.stop();
+        this.autoscaler = null;
+      }
+
+      // Let agents finish what they are working on
+      const unfinished = await this.taskManager.drain(this.configManager.get().daemon.shutdownGracePeriod);
+      if (unfinished.length > 0) {
+        logger.warn(`Stopping with ${unfinished.length} tasks still running`, {
+          tasks: unfinished.map(task => task.id)
+        });
+      }
+
       // Stop all agents
       await this.agentRegistry.stopAllAgents();
 
       // Cleanup
+      await messageBus.shutdown();
+      await this.taskManager.cleanup();
       await this.agentRegistry.cleanup();
 
+      if (this.store) {
+        this.detachStore?.();
+        await this.store.close();
+        this.store = null;
+        this.detachStore = null;
+      }
+
       this.isRunning = false;
+      this.resolveStopped();
 
       logger.info('MADO Orchestrator stopped successfully');
 
@@ -138,10 +383,61 @@ export class MADOOrchestrator {
     }
   }
 
+  private getApiContext(): ApiContext | null {
+    if (!this.repository || !this.worktreeManager) {
+      return null;
+    }
+
+    return {
+      agentRegistry: this.agentRegistry,
+      taskManager: this.taskManager,
+      repository: this.repository,
+      worktreeManager: this.worktreeManager,
+      eventBus,
+      store: this.store
+    };
+  }
+
   public getAgentRegistry(): AgentRegistry {
     return this.agentRegistry;
   }
 
+  public getTaskManager(): TaskManager {
+    return this.taskManager;
+  }
+
+  public getExecutorRegistry(): ExecutorRegistry {
+    return this.executors;
+  }
+
+  public getStore(): PersistentStore | null {
+    return this.store;
+  }
+
+  public getRecoveryReport(): RecoveryReport | null {
+    return this.recoveryReport;
+  }
+
+  public getApiServer(): ApiServer | null {
+    return this.apiServer;
+  }
+
+  public getDashboardServer(): DashboardServer | null {
+    return this.dashboardServer;
+  }
+
+  public getControlServer(): ControlServer | null {
+    return this.controlServer;
+  }
+
+  /**
+   * Resolves once the orchestrator has stopped, whether by signal or through
+   * the control socket.
+   */
+  public waitUntilStopped(): Promise<void> {
+    return this.stopped;
+  }
+
   private async logSystemStatus(): Promise<void> {
     const health = await this.agentRegistry.getSystemHealth();
     const stats = this.agentRegistry.getAgentStatistics();
@@ -159,14 +455,17 @@ export class MADOOrchestrator {
     isRunning: boolean;
     systemHealth: any;
     agentStatistics: any;
+    taskStatistics: any;
   }> {
     const systemHealth = await this.agentRegistry.getSystemHealth();
     const agentStatistics = this.agentRegistry.getAgentStatistics();
+    const taskStatistics = this.taskManager.getTaskStatistics();
 
     return {
       isRunning: this.isRunning,
       systemHealth,
-      agentStatistics
+      agentStatistics,
+      taskStatistics
     };
   }
 }
@@ -192,8 +491,9 @@ export async function main(): Promise<void> {
       process.exit(0);
     });
 
-    // Keep the process running
+    // Keep the process running until stopped from the CLI
     logger.info('MADO Orchestrator is running. Press Ctrl+C to stop.');
+    void orchestrator.waitUntilStopped().then(() => process.exit(0));
 
   } catch (error) {
     logger.error('Fatal error in MADO Orchestrator', error);
@@ -205,8 +505,16 @@ export async function main(): Promise<void> {
 export { configManager } from '@core/config';
 export { logger } from '@core/logger';
 export { eventBus } from '@core/events';
+export { messageBus, MessageBus } from '@communication/message-bus';
 export { AgentRegistry } from '@agents/agent-registry';
 export { DevelopmentAgent } from '@agents/dev-agent';
+export { ExecutorRegistry, ExecutionError } from '@agents/executors';
+export { GitRepository } from '@git/repository';
+export { TaskManager } from '@tasks/task-manager';
+export { PersistentStore } from '@storage/store';
+export { ApiServer } from '@api/server';
+export { DashboardServer } from '@api/dashboard';
+export { ControlServer } from '@api/control';
 export * from './types/index';
 
 // Run main if this file is executed directly
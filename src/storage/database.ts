@@ -0,0 +1,117 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import sqlite3 from 'sqlite3';
+import { logger } from '@core/logger';
+
+export interface RunResult {
+  lastID: number;
+  changes: number;
+}
+
+/**
+ * Promise wrapper around a sqlite3 connection. Statements on one connection
+ * run in order, so callers never need to serialize writes themselves.
+ */
+export class SqliteDatabase {
+  private db: sqlite3.Database | null = null;
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async open(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    if (this.filePath !== ':memory:') {
+      const dir = path.dirname(this.filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this.db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const db = new sqlite3.Database(this.filePath, error => {
+        if (error) reject(error);
+        else resolve(db);
+      });
+    });
+
+    await this.exec('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+    logger.debug(`Opened SQLite database: ${this.filePath}`);
+  }
+
+  public async close(): Promise<void> {
+    const db = this.db;
+    if (!db) {
+      return;
+    }
+
+    this.db = null;
+    await new Promise<void>((resolve, reject) => {
+      db.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  public isOpen(): boolean {
+    return this.db !== null;
+  }
+
+  public run(sql: string, params: any[] = []): Promise<RunResult> {
+    const db = this.connection();
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, function (this: sqlite3.RunResult, error: Error | null) {
+        if (error) reject(error);
+        else resolve({ lastID: this.lastID, changes: this.changes });
+      });
+    });
+  }
+
+  public get<T = any>(sql: string, params: any[] = []): Promise<T | undefined> {
+    const db = this.connection();
+    return new Promise((resolve, reject) => {
+      db.get(sql, params, (error: Error | null, row: T) => {
+        if (error) reject(error);
+        else resolve(row);
+      });
+    });
+  }
+
+  public all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    const db = this.connection();
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (error: Error | null, rows: T[]) => {
+        if (error) reject(error);
+        else resolve(rows);
+      });
+    });
+  }
+
+  public exec(sql: string): Promise<void> {
+    const db = this.connection();
+    return new Promise((resolve, reject) => {
+      db.exec(sql, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  public async transaction<T>(work: () => Promise<T>): Promise<T> {
+    await this.exec('BEGIN');
+    try {
+      const result = await work();
+      await this.exec('COMMIT');
+      return result;
+    } catch (error) {
+      await this.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private connection(): sqlite3.Database {
+    if (!this.db) {
+      throw new Error(`Database ${this.filePath} is not open`);
+    }
+    return this.db;
+  }
+}
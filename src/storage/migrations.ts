@@ -0,0 +1,114 @@
+import { SqliteDatabase } from './database';
+import { logger } from '@core/logger';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+// Append new migrations at the end; never edit one that has shipped.
+// Timestamps are stored as epoch milliseconds so range queries stay numeric.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    up: `
+      CREATE TABLE tasks (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        priority TEXT NOT NULL,
+        status TEXT NOT NULL,
+        assigned_agent TEXT,
+        title TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_tasks_status ON tasks (status);
+      CREATE INDEX idx_tasks_agent ON tasks (assigned_agent);
+      CREATE INDEX idx_tasks_updated ON tasks (updated_at);
+
+      CREATE TABLE task_results (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_id TEXT NOT NULL,
+        agent_id TEXT,
+        success INTEGER NOT NULL,
+        completed_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_task_results_task ON task_results (task_id);
+      CREATE INDEX idx_task_results_agent ON task_results (agent_id, completed_at);
+
+      CREATE TABLE assignments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_id TEXT NOT NULL,
+        agent_id TEXT NOT NULL,
+        assigned_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_assignments_task ON assignments (task_id);
+      CREATE INDEX idx_assignments_agent ON assignments (agent_id, assigned_at);
+
+      CREATE TABLE agent_metrics (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        agent_id TEXT NOT NULL,
+        recorded_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_agent_metrics_agent ON agent_metrics (agent_id, recorded_at);
+
+      CREATE TABLE events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        source TEXT NOT NULL,
+        agent_id TEXT,
+        task_id TEXT,
+        repository TEXT,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_events_type ON events (type, timestamp);
+      CREATE INDEX idx_events_agent ON events (agent_id, timestamp);
+      CREATE INDEX idx_events_task ON events (task_id, timestamp);
+      CREATE INDEX idx_events_timestamp ON events (timestamp);
+    `
+  }
+];
+
+export async function runMigrations(
+  db: SqliteDatabase,
+  available: Migration[] = migrations
+): Promise<number> {
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const row = await db.get<{ version: number | null }>(
+    'SELECT MAX(version) AS version FROM schema_migrations'
+  );
+  const currentVersion = row?.version || 0;
+
+  const pending = available
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    await db.transaction(async () => {
+      await db.exec(migration.up);
+      await db.run('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)', [
+        migration.version,
+        migration.name,
+        Date.now()
+      ]);
+    });
+
+    logger.info(`Applied storage migration ${migration.version}: ${migration.name}`);
+  }
+
+  return pending.length > 0 ? pending[pending.length - 1].version : currentVersion;
+}
@@ -0,0 +1,372 @@
+import { SqliteDatabase } from './database';
+import { runMigrations } from './migrations';
+import { Task, TaskResult, TaskStatus, TaskAssignment } from '../types/task.types';
+import { AgentMetrics } from '../types/agent.types';
+import { EventBus, MADOEvent, SystemEvent, getEventSubjects } from '@core/events';
+import { logger } from '@core/logger';
+import { EnvelopeCodec } from '@utils/codec';
+
+export interface TimeRange {
+  since?: Date;
+  until?: Date;
+}
+
+export interface TaskQuery extends TimeRange {
+  status?: TaskStatus | TaskStatus[];
+  agentId?: string;
+  limit?: number;
+}
+
+export interface TaskResultQuery extends TimeRange {
+  taskId?: string;
+  agentId?: string;
+  limit?: number;
+}
+
+export interface AssignmentQuery extends TimeRange {
+  taskId?: string;
+  agentId?: string;
+  limit?: number;
+}
+
+export interface AgentMetricsQuery extends TimeRange {
+  agentId?: string;
+  limit?: number;
+}
+
+export interface EventQuery extends TimeRange {
+  type?: SystemEvent | SystemEvent[];
+  agentId?: string;
+  taskId?: string;
+  repository?: string;
+  limit?: number;
+}
+
+export interface StoredTaskResult extends TaskResult {
+  agentId?: string;
+}
+
+export interface AgentMetricsRecord {
+  agentId: string;
+  recordedAt: Date;
+  metrics: AgentMetrics;
+}
+
+/**
+ * SQLite-backed history for tasks, results, assignments, agent metrics and
+ * the event stream, so nothing is lost when the orchestrator restarts.
+ */
+export class PersistentStore {
+  private db: SqliteDatabase;
+  private codec: EnvelopeCodec;
+  private pendingWrites: Set<Promise<void>> = new Set();
+
+  constructor(filePath: string, codec: EnvelopeCodec = new EnvelopeCodec()) {
+    this.db = new SqliteDatabase(filePath);
+    this.codec = codec;
+  }
+
+  public async initialize(): Promise<void> {
+    try {
+      await this.db.open();
+      const version = await runMigrations(this.db);
+      logger.info('Persistent store initialized', { schemaVersion: version });
+    } catch (error) {
+      logger.error('Failed to initialize persistent store', error);
+      throw error;
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.flush();
+    await this.db.close();
+  }
+
+  // Tasks
+
+  public async saveTask(task: Task): Promise<void> {
+    await this.db.run(
+      `INSERT INTO tasks (id, type, priority, status, assigned_agent, title, created_at, updated_at, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         type = excluded.type,
+         priority = excluded.priority,
+         status = excluded.status,
+         assigned_agent = excluded.assigned_agent,
+         title = excluded.title,
+         updated_at = excluded.updated_at,
+         data = excluded.data`,
+      [
+        task.id,
+        task.type,
+        task.priority,
+        task.status,
+        task.assignedAgent || null,
+        task.title,
+        task.createdAt.getTime(),
+        task.updatedAt.getTime(),
+        this.encode(task)
+      ]
+    );
+  }
+
+  public async getTask(taskId: string): Promise<Task | undefined> {
+    const row = await this.db.get<{ data: Buffer }>('SELECT data FROM tasks WHERE id = ?', [taskId]);
+    return row ? this.decode<Task>(row.data) : undefined;
+  }
+
+  public async queryTasks(query: TaskQuery = {}): Promise<Task[]> {
+    const where = new WhereClause();
+    where.in('status', query.status);
+    where.equals('assigned_agent', query.agentId);
+    where.range('updated_at', query);
+
+    const rows = await this.db.all<{ data: Buffer }>(
+      `SELECT data FROM tasks ${where.sql()} ORDER BY created_at ASC ${limitSql(query.limit)}`,
+      where.params
+    );
+    return rows.map(row => this.decode<Task>(row.data));
+  }
+
+  // Task results
+
+  public async saveTaskResult(result: TaskResult, agentId?: string): Promise<void> {
+    await this.db.run(
+      `INSERT INTO task_results (task_id, agent_id, success, completed_at, data)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        result.taskId,
+        agentId || null,
+        result.success ? 1 : 0,
+        result.completedAt.getTime(),
+        this.encode(result)
+      ]
+    );
+  }
+
+  public async queryTaskResults(query: TaskResultQuery = {}): Promise<StoredTaskResult[]> {
+    const where = new WhereClause();
+    where.equals('task_id', query.taskId);
+    where.equals('agent_id', query.agentId);
+    where.range('completed_at', query);
+
+    const rows = await this.db.all<{ data: Buffer; agent_id: string | null }>(
+      `SELECT data, agent_id FROM task_results ${where.sql()}
+       ORDER BY completed_at ASC, id ASC ${limitSql(query.limit)}`,
+      where.params
+    );
+    return rows.map(row => ({
+      ...this.decode<TaskResult>(row.data),
+      agentId: row.agent_id || undefined
+    }));
+  }
+
+  // Assignments
+
+  public async saveAssignment(assignment: TaskAssignment): Promise<void> {
+    await this.db.run(
+      'INSERT INTO assignments (task_id, agent_id, assigned_at, data) VALUES (?, ?, ?, ?)',
+      [
+        assignment.taskId,
+        assignment.agentId,
+        assignment.assignedAt.getTime(),
+        this.encode(assignment)
+      ]
+    );
+  }
+
+  public async deleteAssignment(assignment: TaskAssignment): Promise<void> {
+    await this.db.run(
+      'DELETE FROM assignments WHERE task_id = ? AND agent_id = ? AND assigned_at = ?',
+      [assignment.taskId, assignment.agentId, assignment.assignedAt.getTime()]
+    );
+  }
+
+  public async queryAssignments(query: AssignmentQuery = {}): Promise<TaskAssignment[]> {
+    const where = new WhereClause();
+    where.equals('task_id', query.taskId);
+    where.equals('agent_id', query.agentId);
+    where.range('assigned_at', query);
+
+    const rows = await this.db.all<{ data: Buffer }>(
+      `SELECT data FROM assignments ${where.sql()}
+       ORDER BY assigned_at ASC, id ASC ${limitSql(query.limit)}`,
+      where.params
+    );
+    return rows.map(row => this.decode<TaskAssignment>(row.data));
+  }
+
+  // Agent metrics
+
+  public async saveAgentMetrics(
+    agentId: string,
+    metrics: AgentMetrics,
+    recordedAt: Date = new Date()
+  ): Promise<void> {
+    await this.db.run(
+      'INSERT INTO agent_metrics (agent_id, recorded_at, data) VALUES (?, ?, ?)',
+      [agentId, recordedAt.getTime(), this.encode(metrics)]
+    );
+  }
+
+  public async queryAgentMetrics(query: AgentMetricsQuery = {}): Promise<AgentMetricsRecord[]> {
+    const where = new WhereClause();
+    where.equals('agent_id', query.agentId);
+    where.range('recorded_at', query);
+
+    const rows = await this.db.all<{ agent_id: string; recorded_at: number; data: Buffer }>(
+      `SELECT agent_id, recorded_at, data FROM agent_metrics ${where.sql()}
+       ORDER BY recorded_at ASC, id ASC ${limitSql(query.limit)}`,
+      where.params
+    );
+    return rows.map(row => ({
+      agentId: row.agent_id,
+      recordedAt: new Date(row.recorded_at),
+      metrics: this.decode<AgentMetrics>(row.data)
+    }));
+  }
+
+  public async getLatestAgentMetrics(agentId: string): Promise<AgentMetricsRecord | undefined> {
+    const row = await this.db.get<{ agent_id: string; recorded_at: number; data: Buffer }>(
+      `SELECT agent_id, recorded_at, data FROM agent_metrics
+       WHERE agent_id = ? ORDER BY recorded_at DESC, id DESC LIMIT 1`,
+      [agentId]
+    );
+    return row
+      ? {
+          agentId: row.agent_id,
+          recordedAt: new Date(row.recorded_at),
+          metrics: this.decode<AgentMetrics>(row.data)
+        }
+      : undefined;
+  }
+
+  // Events
+
+  public async saveEvent(event: MADOEvent): Promise<void> {
+    const { agentId, taskId, repository } = getEventSubjects(event);
+
+    await this.db.run(
+      `INSERT OR IGNORE INTO events (id, type, source, agent_id, task_id, repository, timestamp, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        event.id,
+        event.type,
+        event.source,
+        agentId || null,
+        taskId || null,
+        repository || null,
+        event.timestamp.getTime(),
+        this.encode(event)
+      ]
+    );
+  }
+
+  public async queryEvents(query: EventQuery = {}): Promise<MADOEvent[]> {
+    const where = new WhereClause();
+    where.in('type', query.type);
+    where.equals('agent_id', query.agentId);
+    where.equals('task_id', query.taskId);
+    where.equals('repository', query.repository);
+    where.range('timestamp', query);
+
+    // With a limit we want the most recent events, still returned oldest first
+    const rows = await this.db.all<{ data: Buffer }>(
+      `SELECT data FROM (
+         SELECT data, timestamp, rowid FROM events ${where.sql()}
+         ORDER BY timestamp DESC, rowid DESC ${limitSql(query.limit)}
+       ) ORDER BY timestamp ASC, rowid ASC`,
+      where.params
+    );
+    return rows.map(row => this.decode<MADOEvent>(row.data));
+  }
+
+  public async pruneEvents(olderThan: Date): Promise<number> {
+    const result = await this.db.run('DELETE FROM events WHERE timestamp < ?', [
+      olderThan.getTime()
+    ]);
+    return result.changes;
+  }
+
+  /**
+   * Persists every event emitted on the bus. Returns a function that detaches
+   * the listener again.
+   */
+  public attachEventBus(bus: EventBus): () => void {
+    const listener = (event: MADOEvent): void => {
+      this.track(this.saveEvent(event));
+    };
+
+    bus.on('*', listener, 'persistent-store');
+    return () => bus.off('*', listener, 'persistent-store');
+  }
+
+  /**
+   * Queues a write without awaiting it; failures are logged, never thrown.
+   * `flush()` waits for everything queued so far.
+   */
+  public track(write: Promise<void>): void {
+    const pending = write.catch(error => {
+      logger.error('Persistent store write failed', error);
+    });
+    this.pendingWrites.add(pending);
+    void pending.finally(() => this.pendingWrites.delete(pending));
+  }
+
+  public async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites));
+  }
+
+  private encode(value: unknown): Buffer {
+    return this.codec.encode(value);
+  }
+
+  private decode<T>(data: Buffer): T {
+    return this.codec.decode<T>(data);
+  }
+}
+
+class WhereClause {
+  public params: any[] = [];
+  private conditions: string[] = [];
+
+  public equals(column: string, value: string | undefined): void {
+    if (value !== undefined) {
+      this.conditions.push(`${column} = ?`);
+      this.params.push(value);
+    }
+  }
+
+  public in(column: string, value: string | string[] | undefined): void {
+    if (value === undefined) {
+      return;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    // An empty IN () is not standard SQL; an empty list matches nothing
+    if (values.length === 0) {
+      this.conditions.push('0');
+      return;
+    }
+    this.conditions.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+    this.params.push(...values);
+  }
+
+  public range(column: string, range: TimeRange): void {
+    if (range.since) {
+      this.conditions.push(`${column} >= ?`);
+      this.params.push(range.since.getTime());
+    }
+    if (range.until) {
+      this.conditions.push(`${column} <= ?`);
+      this.params.push(range.until.getTime());
+    }
+  }
+
+  public sql(): string {
+    return this.conditions.length > 0 ? `WHERE ${this.conditions.join(' AND ')}` : '';
+  }
+}
+
+function limitSql(limit?: number): string {
+  return limit && limit > 0 ? `LIMIT ${Math.floor(limit)}` : '';
+}
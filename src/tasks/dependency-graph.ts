@@ -0,0 +1,194 @@
+import { TaskDependency } from '../types/task.types';
+
+export type DependencyType = TaskDependency['type'];
+
+/**
+ * Directed graph of task prerequisites. An edge taskId -> dependsOn means
+ * taskId cannot (fully) proceed until dependsOn has finished.
+ */
+export class DependencyGraph {
+  private nodes: Set<string> = new Set();
+  private prerequisites: Map<string, Map<string, TaskDependency>> = new Map();
+  private dependents: Map<string, Map<string, TaskDependency>> = new Map();
+
+  public addTask(taskId: string): void {
+    this.nodes.add(taskId);
+  }
+
+  public hasTask(taskId: string): boolean {
+    return this.nodes.has(taskId);
+  }
+
+  public removeTask(taskId: string): void {
+    for (const dependsOn of this.getPrerequisites(taskId).map(dep => dep.dependsOn)) {
+      this.dependents.get(dependsOn)?.delete(taskId);
+    }
+    for (const dependent of this.getDependents(taskId).map(dep => dep.taskId)) {
+      this.prerequisites.get(dependent)?.delete(taskId);
+    }
+
+    this.prerequisites.delete(taskId);
+    this.dependents.delete(taskId);
+    this.nodes.delete(taskId);
+  }
+
+  /**
+   * Adds an edge, throwing if it would close a cycle. The error names every
+   * task on the cycle in dependency order.
+   */
+  public addDependency(dependency: TaskDependency): void {
+    const { taskId, dependsOn } = dependency;
+
+    if (taskId === dependsOn) {
+      throw new Error(`Dependency cycle detected: ${taskId} -> ${taskId}`);
+    }
+
+    const path = this.findPath(dependsOn, taskId);
+    if (path) {
+      throw new Error(`Dependency cycle detected: ${[taskId, ...path].join(' -> ')}`);
+    }
+
+    this.addTask(taskId);
+    this.addTask(dependsOn);
+
+    this.edgeMap(this.prerequisites, taskId).set(dependsOn, dependency);
+    this.edgeMap(this.dependents, dependsOn).set(taskId, dependency);
+  }
+
+  public getPrerequisites(taskId: string): TaskDependency[] {
+    return Array.from(this.prerequisites.get(taskId)?.values() || []);
+  }
+
+  public getDependents(taskId: string): TaskDependency[] {
+    return Array.from(this.dependents.get(taskId)?.values() || []);
+  }
+
+  /**
+   * Length of the longest prerequisite chain below a task (roots have depth 0).
+   */
+  public getDepth(taskId: string, memo: Map<string, number> = new Map()): number {
+    const cached = memo.get(taskId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let depth = 0;
+    for (const dep of this.getPrerequisites(taskId)) {
+      depth = Math.max(depth, this.getDepth(dep.dependsOn, memo) + 1);
+    }
+
+    memo.set(taskId, depth);
+    return depth;
+  }
+
+  /**
+   * Groups tasks into waves that can run in parallel; every task appears
+   * after all of its prerequisites.
+   */
+  public getExecutionLevels(): string[][] {
+    const inDegree = new Map<string, number>();
+    this.nodes.forEach(id => inDegree.set(id, this.getPrerequisites(id).length));
+
+    const levels: string[][] = [];
+    let current = Array.from(this.nodes).filter(id => inDegree.get(id) === 0);
+    let visited = 0;
+
+    while (current.length > 0) {
+      levels.push(current);
+      visited += current.length;
+
+      const next: string[] = [];
+      for (const id of current) {
+        for (const dep of this.getDependents(id)) {
+          const remaining = (inDegree.get(dep.taskId) || 0) - 1;
+          inDegree.set(dep.taskId, remaining);
+          if (remaining === 0) {
+            next.push(dep.taskId);
+          }
+        }
+      }
+      current = next;
+    }
+
+    if (visited !== this.nodes.size) {
+      const cycle = this.findCycle();
+      throw new Error(`Dependency cycle detected: ${(cycle || []).join(' -> ')}`);
+    }
+
+    return levels;
+  }
+
+  public getTopologicalOrder(): string[] {
+    return this.getExecutionLevels().flat();
+  }
+
+  public findCycle(): string[] | null {
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+      visiting.add(id);
+      stack.push(id);
+
+      for (const dep of this.getPrerequisites(id)) {
+        if (visiting.has(dep.dependsOn)) {
+          return [...stack.slice(stack.indexOf(dep.dependsOn)), dep.dependsOn];
+        }
+        if (!visited.has(dep.dependsOn)) {
+          const cycle = visit(dep.dependsOn);
+          if (cycle) return cycle;
+        }
+      }
+
+      stack.pop();
+      visiting.delete(id);
+      visited.add(id);
+      return null;
+    };
+
+    for (const id of this.nodes) {
+      if (!visited.has(id)) {
+        const cycle = visit(id);
+        if (cycle) return cycle;
+      }
+    }
+
+    return null;
+  }
+
+  private findPath(from: string, to: string): string[] | null {
+    const queue: string[][] = [[from]];
+    const seen = new Set<string>([from]);
+
+    while (queue.length > 0) {
+      const path = queue.shift() as string[];
+      const last = path[path.length - 1];
+
+      if (last === to) {
+        return path;
+      }
+
+      for (const dep of this.getPrerequisites(last)) {
+        if (!seen.has(dep.dependsOn)) {
+          seen.add(dep.dependsOn);
+          queue.push([...path, dep.dependsOn]);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private edgeMap(
+    index: Map<string, Map<string, TaskDependency>>,
+    key: string
+  ): Map<string, TaskDependency> {
+    let edges = index.get(key);
+    if (!edges) {
+      edges = new Map();
+      index.set(key, edges);
+    }
+    return edges;
+  }
+}
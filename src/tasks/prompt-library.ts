@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { parse } from 'yaml';
+import { PromptTemplate } from './prompt-template';
+import { AgentRole } from '../types/agent.types';
+import { ProjectConfig } from '../types/config.types';
+import { ContextBundle } from '../types/executor.types';
+import { Task, TaskType } from '../types/task.types';
+
+// Used when the prompt directory has no template for a task
+export const BUILTIN_TEMPLATE = `# {{task.title}}
+
+{{task.description}}
+
+Task type: {{task.type}}
+Priority: {{task.priority}}
+{{#if task.requirements}}
+
+## Requirements
+{{#each task.requirements}}
+- ({{type}}) {{description}}
+{{/each}}
+{{/if}}
+{{#if task.files}}
+
+## Files
+{{#each task.files}}
+- {{this}}
+{{/each}}
+{{/if}}
+{{#if context.items}}
+
+## Repository context
+{{#each context.items}}
+
+### {{label}} ({{reason}}{{#if truncated}}, truncated{{/if}})
+\`\`\`
+{{content}}
+\`\`\`
+{{/each}}
+{{/if}}
+{{#if conventions}}
+
+## Repository conventions
+{{conventions}}
+{{/if}}
+
+Make the changes directly in this working tree. Do not commit them; they are committed for you once you are done.
+`;
+export const BUILTIN_TEMPLATE_VERSION = '2';
+
+const CONVENTIONS_FILE = 'conventions.md';
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+export interface PromptLibraryOptions {
+  directory?: string; // absolute; without it only the built-in template is used
+  project?: Pick<ProjectConfig, 'name' | 'description' | 'repository'>;
+}
+
+// Who the prompt is for
+export interface PromptAudience {
+  role?: AgentRole;
+  agentId?: string;
+  agentName?: string;
+  context?: ContextBundle; // repository context, available to templates as `context`
+}
+
+export interface RenderedPrompt {
+  text: string;
+  hash: string; // sha256 of the text, recorded with the task result
+  template: string; // path within the prompt directory, or "built-in"
+  version?: string; // from the template's front matter
+}
+
+interface LoadedTemplate {
+  name: string;
+  version?: string;
+  template: PromptTemplate;
+}
+
+/**
+ * Turns tasks into instructions for an LLM. Templates are files in the
+ * prompt directory; the most specific one for the task wins:
+ *
+ *   roles/<role>/<task type>.md
+ *   types/<task type>.md
+ *   roles/<role>.md
+ *   default.md
+ *
+ * A template may start with YAML front matter giving its `version`.
+ * conventions.md, when present, is available to every template as
+ * `conventions`. Files are read on every render, so edits apply to the next
+ * task.
+ */
+export class PromptLibrary {
+  constructor(private options: PromptLibraryOptions = {}) {}
+
+  public async render(task: Task, audience: PromptAudience = {}): Promise<RenderedPrompt> {
+    const loaded = await this.load(task.type, audience.role);
+    const text = loaded.template.render({
+      task,
+      role: audience.role,
+      agent: { id: audience.agentId, name: audience.agentName, role: audience.role },
+      project: this.options.project || {},
+      conventions: await this.readConventions(),
+      context: audience.context
+    });
+
+    return { text, hash: hashPrompt(text), template: loaded.name, version: loaded.version };
+  }
+
+  /**
+   * Compiles every template in the prompt directory, so a broken one is
+   * reported up front rather than when a task needs it. Returns their names.
+   */
+  public async check(): Promise<string[]> {
+    if (!this.options.directory) {
+      return [];
+    }
+    const names = this.candidates().filter(name => fs.existsSync(this.resolvePath(name)));
+    for (const name of names) {
+      await this.compile(name);
+    }
+    return names;
+  }
+
+  private async load(type: TaskType, role?: AgentRole): Promise<LoadedTemplate> {
+    const names = [
+      ...(role ? [`roles/${role}/${type}.md`] : []),
+      `types/${type}.md`,
+      ...(role ? [`roles/${role}.md`] : []),
+      'default.md'
+    ];
+
+    if (this.options.directory) {
+      for (const name of names) {
+        if (fs.existsSync(this.resolvePath(name))) {
+          return this.compile(name);
+        }
+      }
+    }
+
+    return {
+      name: 'built-in',
+      version: BUILTIN_TEMPLATE_VERSION,
+      template: new PromptTemplate(BUILTIN_TEMPLATE, 'built-in prompt template')
+    };
+  }
+
+  private async compile(name: string): Promise<LoadedTemplate> {
+    const filePath = this.resolvePath(name);
+    const content = await fs.promises.readFile(filePath, 'utf8');
+
+    let version: string | undefined;
+    let source = content;
+    const frontMatter = content.match(FRONT_MATTER_PATTERN);
+    if (frontMatter) {
+      let data: any;
+      try {
+        data = parse(frontMatter[1]);
+      } catch (error) {
+        throw new Error(`${filePath} has invalid front matter: ${(error as Error).message}`);
+      }
+      if (data && data.version !== undefined) {
+        version = String(data.version);
+      }
+      source = content.slice(frontMatter[0].length);
+    }
+
+    return { name, version, template: new PromptTemplate(source, filePath) };
+  }
+
+  // Every template name the library would look for, for all types and roles
+  private candidates(): string[] {
+    const types = Object.values(TaskType);
+    const roles = Object.values(AgentRole);
+    return [
+      ...roles.flatMap(role => types.map(type => `roles/${role}/${type}.md`)),
+      ...types.map(type => `types/${type}.md`),
+      ...roles.map(role => `roles/${role}.md`),
+      'default.md'
+    ];
+  }
+
+  private async readConventions(): Promise<string> {
+    if (!this.options.directory) {
+      return '';
+    }
+    try {
+      return (await fs.promises.readFile(this.resolvePath(CONVENTIONS_FILE), 'utf8')).trim();
+    } catch {
+      return '';
+    }
+  }
+
+  private resolvePath(name: string): string {
+    return path.join(this.options.directory!, name);
+  }
+}
+
+export function hashPrompt(text: string): string {
+  return 'sha256:' + crypto.createHash('sha256').update(text).digest('hex');
+}
+
+// How a task result records the prompt it was given, so the run can be reproduced
+export function promptMetadata(prompt: RenderedPrompt): Record<string, any> {
+  return { promptTemplate: prompt.template, promptVersion: prompt.version, promptHash: prompt.hash };
+}
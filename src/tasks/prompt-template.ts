@@ -0,0 +1,229 @@
+/**
+ * A small Handlebars-like template language for prompts:
+ *
+ *   {{task.title}}                        value, looked up by dotted path
+ *   {{#if task.files}}…{{else}}…{{/if}}   empty lists count as false
+ *   {{#unless conventions}}…{{/unless}}
+ *   {{#each task.requirements}}…{{/each}} with {{this}}, {{@index}}, {{@first}}, {{@last}}
+ *   {{! comment }} or {{!-- comment --}}
+ *
+ * Names inside a block are looked up on the current item first, then on the
+ * enclosing scopes. A line holding nothing but a block tag or comment is
+ * dropped from the output, so blocks can sit on lines of their own.
+ */
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string }
+  | { kind: 'if'; path: string; negate: boolean; body: Node[]; otherwise: Node[] }
+  | { kind: 'each'; path: string; body: Node[]; otherwise: Node[] };
+
+type BlockNode = Extract<Node, { kind: 'if' | 'each' }>;
+
+interface OpenBlock {
+  node: BlockNode;
+  helper: string;
+  line: number;
+  inElse: boolean;
+}
+
+interface Scope {
+  value: any;
+  data: Record<string, any>;
+}
+
+const TAG_PATTERN = /\{\{!--[\s\S]*?--\}\}|\{\{[\s\S]*?\}\}/g;
+const PATH_PATTERN = /^(@?[A-Za-z_][\w-]*|this|\.)(\.[A-Za-z_][\w-]*)*$/;
+
+export class PromptTemplate {
+  private nodes: Node[];
+
+  constructor(source: string, private name = 'template') {
+    this.nodes = this.parse(source);
+  }
+
+  public render(variables: Record<string, any>): string {
+    return this.renderNodes(this.nodes, [{ value: variables, data: {} }]);
+  }
+
+  private parse(source: string): Node[] {
+    const root: Node[] = [];
+    const stack: OpenBlock[] = [];
+    const target = () => {
+      const open = stack[stack.length - 1];
+      if (!open) {
+        return root;
+      }
+      return open.inElse ? open.node.otherwise : open.node.body;
+    };
+
+    let position = 0;
+    for (const match of source.matchAll(TAG_PATTERN)) {
+      const index = match.index!;
+      const end = index + match[0].length;
+      const line = source.slice(0, index).split('\n').length;
+      const tag = match[0].slice(2, -2).trim();
+
+      // A block tag or comment alone on its line takes the whole line with it
+      let textEnd = index;
+      let next = end;
+      if (/^[#/!]|^else$/.test(tag)) {
+        const lineStart = source.lastIndexOf('\n', index - 1) + 1;
+        const after = source.slice(end).match(/^[ \t]*(\r?\n|$)/);
+        if (after && lineStart >= position && /^[ \t]*$/.test(source.slice(lineStart, index))) {
+          textEnd = lineStart;
+          next = end + after[0].length;
+        }
+      }
+
+      if (textEnd > position) {
+        target().push({ kind: 'text', text: source.slice(position, textEnd) });
+      }
+      position = next;
+
+      if (tag.startsWith('!')) {
+        continue;
+      }
+
+      if (tag.startsWith('#')) {
+        const [helper, ...args] = tag.slice(1).trim().split(/\s+/);
+        if (helper !== 'if' && helper !== 'unless' && helper !== 'each') {
+          throw this.error(line, `unknown block {{#${helper}}}`);
+        }
+        if (args.length !== 1) {
+          throw this.error(line, `{{#${helper}}} takes exactly one value`);
+        }
+        const path = this.checkPath(args[0], line);
+        const node: BlockNode = helper === 'each'
+          ? { kind: 'each', path, body: [], otherwise: [] }
+          : { kind: 'if', path, negate: helper === 'unless', body: [], otherwise: [] };
+        target().push(node);
+        stack.push({ node, helper, line, inElse: false });
+        continue;
+      }
+
+      if (tag === 'else') {
+        const open = stack[stack.length - 1];
+        if (!open || open.inElse) {
+          throw this.error(line, '{{else}} outside of a block');
+        }
+        open.inElse = true;
+        continue;
+      }
+
+      if (tag.startsWith('/')) {
+        const helper = tag.slice(1).trim();
+        const open = stack.pop();
+        if (!open) {
+          throw this.error(line, `{{/${helper}}} closes no block`);
+        }
+        if (open.helper !== helper) {
+          throw this.error(line, `{{/${helper}}} closes {{#${open.helper}}} from line ${open.line}`);
+        }
+        continue;
+      }
+
+      target().push({ kind: 'value', path: this.checkPath(tag, line) });
+    }
+
+    if (position < source.length) {
+      target().push({ kind: 'text', text: source.slice(position) });
+    }
+
+    const unclosed = stack.pop();
+    if (unclosed) {
+      throw this.error(unclosed.line, `{{#${unclosed.helper}}} is never closed`);
+    }
+
+    return root;
+  }
+
+  private renderNodes(nodes: Node[], scopes: Scope[]): string {
+    return nodes.map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.text;
+        case 'value':
+          return formatValue(lookup(node.path, scopes));
+        case 'if': {
+          const truthy = isTruthy(lookup(node.path, scopes)) !== node.negate;
+          return this.renderNodes(truthy ? node.body : node.otherwise, scopes);
+        }
+        case 'each': {
+          const items = toList(lookup(node.path, scopes));
+          if (items.length === 0) {
+            return this.renderNodes(node.otherwise, scopes);
+          }
+          return items.map((item, index) => this.renderNodes(node.body, [
+            ...scopes,
+            { value: item, data: { index, first: index === 0, last: index === items.length - 1 } }
+          ])).join('');
+        }
+      }
+    }).join('');
+  }
+
+  private checkPath(path: string, line: number): string {
+    if (!PATH_PATTERN.test(path)) {
+      throw this.error(line, `"${path}" is not a valid name`);
+    }
+    return path;
+  }
+
+  private error(line: number, message: string): Error {
+    return new Error(`${this.name} line ${line}: ${message}`);
+  }
+}
+
+function lookup(path: string, scopes: Scope[]): any {
+  const current = scopes[scopes.length - 1];
+
+  if (path === 'this' || path === '.') {
+    return current.value;
+  }
+  if (path.startsWith('@')) {
+    return current.data[path.slice(1)];
+  }
+
+  const [first, ...rest] = (path.startsWith('this.') ? path.slice('this.'.length) : path).split('.');
+  // `this.x` only looks at the current item; a bare name falls back to the enclosing scopes
+  const candidates = path.startsWith('this.') ? [current] : [...scopes].reverse();
+  const scope = candidates.find(candidate =>
+    candidate.value !== null && typeof candidate.value === 'object' && first in candidate.value
+  );
+  if (!scope) {
+    return undefined;
+  }
+
+  return rest.reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), scope.value[first]);
+}
+
+function isTruthy(value: any): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function toList(value: any): any[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.values(value);
+  }
+  return [];
+}
+
+function formatValue(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,148 @@
+import {
+  Task,
+  TaskResult,
+  RetryPolicy,
+  RetryAttempt,
+  FailureClass
+} from '../types/task.types';
+import { RetryConfig } from '../types/config.types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 5000,
+  maxDelay: 300000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+  reassignAfter: 2
+};
+
+export interface RetryDecision {
+  retry: boolean;
+  failureClass: FailureClass;
+  attempt: number; // the attempt that just failed, starting at 1
+  delay: number; // ms to wait before the next attempt
+  excludeAgents: string[]; // agents the next attempt must not run on
+  reason: string;
+}
+
+// Failures worth retrying even on the same agent: git lock contention,
+// busy resources and flaky network calls
+const TRANSIENT_PATTERNS: RegExp[] = [
+  /index\.lock/i,
+  /\.lock'?: File exists/i,
+  /unable to create .*\.lock/i,
+  /another git process/i,
+  /at capacity/i,
+  /\b(EBUSY|EAGAIN|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE)\b/,
+  /rate limit/i
+];
+
+// Failures that will repeat on the same agent but may succeed on another one
+const CAPABILITY_PATTERNS: RegExp[] = [
+  /cannot handle task/i,
+  /unsupported task type/i,
+  /missing capabilit/i
+];
+
+export class RetryManager {
+  private config: RetryConfig;
+
+  constructor(config?: Partial<RetryConfig>) {
+    this.config = {
+      default: { ...DEFAULT_RETRY_POLICY, ...(config?.default || {}) },
+      byTaskType: config?.byTaskType || {},
+      byPriority: config?.byPriority || {}
+    };
+  }
+
+  public static classifyFailure(result: TaskResult): FailureClass {
+    if (result.metadata?.cancelled) return 'cancelled';
+    if (result.metadata?.timedOut) return 'timeout';
+
+    const error = result.error || '';
+    if (CAPABILITY_PATTERNS.some(pattern => pattern.test(error))) return 'capability';
+    if (TRANSIENT_PATTERNS.some(pattern => pattern.test(error))) return 'transient';
+
+    return 'unknown';
+  }
+
+  public static getHistory(task: Task): RetryAttempt[] {
+    return task.metadata.retryHistory || [];
+  }
+
+  /**
+   * Resolves the policy for a task: defaults, then the priority override,
+   * then the task type override.
+   */
+  public getPolicy(task: Task): RetryPolicy {
+    return {
+      ...this.config.default,
+      ...(this.config.byPriority[task.priority] || {}),
+      ...(this.config.byTaskType[task.type] || {})
+    };
+  }
+
+  public computeDelay(policy: RetryPolicy, attempt: number): number {
+    const exponential = policy.initialDelay * Math.pow(policy.backoffMultiplier, attempt - 1);
+    const capped = Math.min(policy.maxDelay, exponential);
+    const jitter = capped * policy.jitter * (Math.random() * 2 - 1);
+
+    return Math.max(0, Math.round(capped + jitter));
+  }
+
+  /**
+   * Decides what happens after a failed attempt and records it in
+   * `task.metadata.retryHistory`.
+   */
+  public recordFailure(task: Task, result: TaskResult, agentId?: string): RetryDecision {
+    const policy = this.getPolicy(task);
+    const history = RetryManager.getHistory(task);
+    const attempt = history.length + 1;
+    const failureClass = RetryManager.classifyFailure(result);
+
+    const excludeAgents = new Set<string>(task.metadata.excludedAgents || []);
+    if (agentId) {
+      const failuresOnAgent = history.filter(entry => entry.agentId === agentId).length + 1;
+      if (failureClass === 'capability' || failuresOnAgent >= policy.reassignAfter) {
+        excludeAgents.add(agentId);
+      }
+    }
+
+    let retry = true;
+    let reason: string;
+
+    if (failureClass === 'cancelled') {
+      retry = false;
+      reason = 'Task was cancelled';
+    } else if (attempt >= policy.maxAttempts) {
+      retry = false;
+      reason = `Giving up after ${attempt} attempts`;
+    } else {
+      reason = `Retrying ${failureClass} failure (attempt ${attempt + 1}/${policy.maxAttempts})`;
+    }
+
+    // Capability failures go straight to another agent, no need to wait
+    const delay = retry && failureClass !== 'capability' ? this.computeDelay(policy, attempt) : 0;
+
+    const entry: RetryAttempt = {
+      attempt,
+      agentId,
+      failureClass,
+      error: result.error,
+      failedAt: new Date(),
+      retryDelay: retry ? delay : undefined
+    };
+
+    task.metadata.retryHistory = [...history, entry];
+    task.metadata.excludedAgents = Array.from(excludeAgents);
+
+    return {
+      retry,
+      failureClass,
+      attempt,
+      delay,
+      excludeAgents: Array.from(excludeAgents),
+      reason
+    };
+  }
+}
@@ -0,0 +1,819 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Task,
+  TaskResult,
+  TaskStatus,
+  TaskType,
+  Priority,
+  TaskRequirement,
+  TaskDependency
+} from '../types/task.types';
+import { TaskScheduler } from './task-scheduler';
+import { RetryManager, RetryDecision } from './retry-policy';
+import { RetryConfig } from '../types/config.types';
+import { AgentRegistry } from '@agents/agent-registry';
+import { IAgent } from '../types/agent.types';
+import { logger, logHelpers } from '@core/logger';
+import { eventBus, createTaskEvent, SystemEvent } from '@core/events';
+import { agentActionLimiter, agentActionKey } from '@utils/rate-limiter';
+
+export interface TaskManagerConfig {
+  autoDispatch: boolean;
+  autoApprove: boolean; // move REVIEW -> COMPLETED without manual approval
+  retry?: Partial<RetryConfig>;
+}
+
+export interface TaskInput {
+  id?: string;
+  title: string;
+  description: string;
+  type: TaskType;
+  priority?: Priority;
+  dependencies?: string[];
+  estimatedDuration?: number;
+  deadline?: Date;
+  requirements?: TaskRequirement[];
+  metadata?: Record<string, any>;
+  tags?: string[];
+  files?: string[];
+}
+
+// Allowed lifecycle transitions; anything not listed here is rejected
+const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  [TaskStatus.PENDING]: [TaskStatus.ASSIGNED, TaskStatus.BLOCKED, TaskStatus.CANCELLED],
+  [TaskStatus.BLOCKED]: [TaskStatus.PENDING, TaskStatus.CANCELLED],
+  [TaskStatus.ASSIGNED]: [
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.PENDING,
+    TaskStatus.FAILED,
+    TaskStatus.CANCELLED
+  ],
+  [TaskStatus.IN_PROGRESS]: [
+    TaskStatus.REVIEW,
+    TaskStatus.PENDING, // re-queued for a retry
+    TaskStatus.BLOCKED,
+    TaskStatus.FAILED,
+    TaskStatus.CANCELLED
+  ],
+  [TaskStatus.REVIEW]: [
+    TaskStatus.COMPLETED,
+    TaskStatus.IN_PROGRESS,
+    TaskStatus.FAILED,
+    TaskStatus.CANCELLED
+  ],
+  [TaskStatus.COMPLETED]: [],
+  [TaskStatus.FAILED]: [],
+  [TaskStatus.CANCELLED]: []
+};
+
+export class TaskManager extends EventEmitter {
+  private tasks: Map<string, Task> = new Map();
+  private results: Map<string, TaskResult> = new Map();
+  private scheduler: TaskScheduler = new TaskScheduler();
+  private retryManager: RetryManager;
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+  private throttleTimer: NodeJS.Timeout | null = null;
+  private agentRegistry: AgentRegistry;
+  private config: TaskManagerConfig;
+  private dispatching = false;
+  private queueDirty = false;
+  // Pending tasks whose dispatch is waiting for an agent to accept them
+  private claimedTasks: Set<string> = new Set();
+  private draining = false;
+
+  constructor(agentRegistry: AgentRegistry, config: Partial<TaskManagerConfig> = {}) {
+    super();
+    this.agentRegistry = agentRegistry;
+    this.config = {
+      autoDispatch: true,
+      autoApprove: true,
+      ...config
+    };
+    this.retryManager = new RetryManager(this.config.retry);
+  }
+
+  public setRetryConfig(retry: Partial<RetryConfig>): void {
+    this.config.retry = retry;
+    this.retryManager = new RetryManager(retry);
+  }
+
+  public static isValidTransition(from: TaskStatus, to: TaskStatus): boolean {
+    return TASK_TRANSITIONS[from].includes(to);
+  }
+
+  public createTask(input: TaskInput): Task {
+    return this.addTask(this.buildTask(input));
+  }
+
+  /**
+   * Creates several tasks at once. Tasks may reference each other by id in any
+   * order; they are validated as a DAG and created in topological order.
+   */
+  public createTasks(inputs: TaskInput[]): Task[] {
+    const tasks = inputs.map(input => ({ ...input, id: input.id || uuidv4() })).map(input =>
+      this.buildTask(input)
+    );
+    const batchIds = new Set<string>();
+    for (const task of tasks) {
+      if (batchIds.has(task.id)) {
+        throw new Error(`Task ${task.id} appears more than once in the batch`);
+      }
+      batchIds.add(task.id);
+    }
+
+    for (const task of tasks) {
+      for (const dependsOn of task.dependencies) {
+        if (!batchIds.has(dependsOn) && !this.tasks.has(dependsOn)) {
+          throw new Error(`Task ${task.id} depends on unknown task ${dependsOn}`);
+        }
+      }
+    }
+
+    const order = TaskScheduler.orderBatch(tasks);
+    const byId = new Map(tasks.map(task => [task.id, task]));
+
+    return order.map(taskId => this.addTask(byId.get(taskId) as Task));
+  }
+
+  private buildTask(input: TaskInput): Task {
+    if (input.id && this.tasks.has(input.id)) {
+      throw new Error(`Task ${input.id} already exists`);
+    }
+
+    return taskFromInput(input);
+  }
+
+  private addTask(task: Task): Task {
+    // A prerequisite that does not exist would never finish and release the task
+    for (const dependsOn of task.dependencies) {
+      if (!this.tasks.has(dependsOn)) {
+        throw new Error(`Task ${task.id} depends on unknown task ${dependsOn}`);
+      }
+    }
+
+    // Throws before anything is stored if the dependencies would form a cycle
+    this.scheduler.register(task);
+    this.tasks.set(task.id, task);
+
+    logHelpers.taskEvent(task.id, 'created', { title: task.title, type: task.type });
+
+    eventBus.emit(createTaskEvent(
+      SystemEvent.TASK_CREATED,
+      task.id,
+      { title: task.title, type: task.type, priority: task.priority },
+      undefined,
+      'task-manager'
+    ));
+
+    this.emit('task:created', task);
+
+    this.holdForPrerequisites(task);
+
+    if (this.config.autoDispatch) {
+      void this.processQueue();
+    }
+
+    return task;
+  }
+
+  /**
+   * Loads tasks persisted by a previous run as they were, without emitting
+   * creation events or dispatching them. Prerequisites must be included.
+   */
+  public restoreTasks(tasks: Task[]): Task[] {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const restored: Task[] = [];
+
+    for (const taskId of TaskScheduler.orderBatch(tasks)) {
+      const task = byId.get(taskId) as Task;
+      if (this.tasks.has(task.id)) {
+        continue;
+      }
+
+      this.scheduler.register(task);
+      this.tasks.set(task.id, task);
+      restored.push(task);
+    }
+
+    // Blocked tasks still waiting on prerequisites are released as usual
+    for (const task of restored) {
+      if (
+        task.status === TaskStatus.BLOCKED &&
+        this.scheduler.getUnmetPrerequisites(task.id, id => this.tasks.get(id)).length > 0
+      ) {
+        this.scheduler.markWaiting(task.id);
+      }
+    }
+
+    logger.info(`Restored ${restored.length} tasks`);
+    return restored;
+  }
+
+  /**
+   * Puts an assigned or running task back in the queue, e.g. after the agent
+   * running it went away. With `preferredAgent` the next dispatch goes back to
+   * that agent while it is available.
+   */
+  public requeueTask(taskId: string, reason: string, preferredAgent?: string): Task {
+    const task = this.requireTask(taskId);
+
+    task.assignedAgent = undefined;
+    task.metadata.preferredAgent = preferredAgent;
+    this.updateTaskStatus(taskId, TaskStatus.PENDING, reason);
+
+    if (this.config.autoDispatch) {
+      void this.processQueue();
+    }
+
+    return task;
+  }
+
+  public getTask(taskId: string): Task | undefined {
+    return this.tasks.get(taskId);
+  }
+
+  public getAllTasks(): Task[] {
+    return Array.from(this.tasks.values());
+  }
+
+  public getTasksByStatus(status: TaskStatus): Task[] {
+    return this.getAllTasks().filter(task => task.status === status);
+  }
+
+  public getTasksByAgent(agentId: string): Task[] {
+    return this.getAllTasks().filter(task => task.assignedAgent === agentId);
+  }
+
+  public getTaskResult(taskId: string): TaskResult | undefined {
+    return this.results.get(taskId);
+  }
+
+  public getPendingTasks(): Task[] {
+    return this.scheduler.orderForDispatch(this.getTasksByStatus(TaskStatus.PENDING));
+  }
+
+  /**
+   * Adds a prerequisite to an existing task, rejecting it if it would create a
+   * dependency cycle. A pending task is blocked until the prerequisite is met.
+   */
+  public addDependency(dependency: TaskDependency): void {
+    const task = this.requireTask(dependency.taskId);
+    this.requireTask(dependency.dependsOn);
+
+    this.scheduler.addDependency(dependency);
+
+    if (!task.dependencies.includes(dependency.dependsOn)) {
+      task.dependencies.push(dependency.dependsOn);
+    }
+    task.metadata.dependencyTypes = {
+      ...(task.metadata.dependencyTypes || {}),
+      [dependency.dependsOn]: dependency.type
+    };
+    task.updatedAt = new Date();
+
+    this.holdForPrerequisites(task);
+  }
+
+  /**
+   * Waves of task ids that can run in parallel, in dependency order.
+   */
+  public getExecutionPlan(): string[][] {
+    return this.scheduler.getExecutionPlan();
+  }
+
+  public updateTaskStatus(taskId: string, status: TaskStatus, reason?: string): Task {
+    const task = this.requireTask(taskId);
+    const previousStatus = task.status;
+
+    if (!TaskManager.isValidTransition(previousStatus, status)) {
+      throw new Error(`Invalid task status transition for ${taskId}: ${previousStatus} -> ${status}`);
+    }
+
+    task.status = status;
+    task.updatedAt = new Date();
+
+    if (status === TaskStatus.IN_PROGRESS && !task.startedAt) {
+      task.startedAt = task.updatedAt;
+    }
+
+    if (this.isTerminal(status)) {
+      task.completedAt = task.updatedAt;
+      if (task.startedAt) {
+        task.actualDuration = Math.round(
+          (task.completedAt.getTime() - task.startedAt.getTime()) / 60000
+        );
+      }
+    }
+
+    logHelpers.taskEvent(taskId, 'status_changed', { previousStatus, status, reason });
+
+    if (status === TaskStatus.BLOCKED) {
+      eventBus.emit(createTaskEvent(
+        SystemEvent.TASK_BLOCKED,
+        taskId,
+        { previousStatus, reason },
+        task.assignedAgent,
+        'task-manager'
+      ));
+    } else {
+      eventBus.emit(createTaskEvent(
+        SystemEvent.TASK_PROGRESS_UPDATED,
+        taskId,
+        { previousStatus, status, progress: task.progress, reason },
+        task.assignedAgent,
+        'task-manager'
+      ));
+    }
+
+    this.emit('task:status_changed', { task, previousStatus, reason });
+
+    if (this.isTerminal(status)) {
+      this.applySchedulingDecision(task);
+    }
+
+    return task;
+  }
+
+  public updateTaskProgress(taskId: string, progress: number, note?: string): Task {
+    const task = this.requireTask(taskId);
+
+    task.progress = Math.max(0, Math.min(100, progress));
+    task.updatedAt = new Date();
+
+    eventBus.emit(createTaskEvent(
+      SystemEvent.TASK_PROGRESS_UPDATED,
+      taskId,
+      { status: task.status, progress: task.progress, note },
+      task.assignedAgent,
+      'task-manager'
+    ));
+
+    return task;
+  }
+
+  public blockTask(taskId: string, reason: string): Task {
+    return this.updateTaskStatus(taskId, TaskStatus.BLOCKED, reason);
+  }
+
+  public unblockTask(taskId: string): Task {
+    this.requireTask(taskId);
+    // A task held for its prerequisites is released by the scheduler, not by hand
+    const unmet = this.scheduler.getUnmetPrerequisites(taskId, id => this.tasks.get(id));
+    if (unmet.length > 0) {
+      throw new Error(`Task ${taskId} is still waiting on prerequisites: ${unmet.map(dep => dep.dependsOn).join(', ')}`);
+    }
+
+    const task = this.updateTaskStatus(taskId, TaskStatus.PENDING, 'Unblocked');
+    this.scheduler.clearWaiting(taskId);
+
+    if (this.config.autoDispatch) {
+      void this.processQueue();
+    }
+
+    return task;
+  }
+
+  public cancelTask(taskId: string, reason: string = 'Cancelled by user'): Task {
+    const task = this.updateTaskStatus(taskId, TaskStatus.CANCELLED, reason);
+
+    // Stop the agent's in-flight work; its late result is ignored
+    const agent = task.assignedAgent ? this.agentRegistry.getAgent(task.assignedAgent) : undefined;
+    if (agent) {
+      agent.cancelTask(taskId, reason).catch(error => {
+        logger.error(`Failed to cancel task ${taskId} on agent ${agent.id}`, error);
+      });
+    }
+
+    return task;
+  }
+
+  /**
+   * Runs a failed or cancelled task again. Finished tasks keep their status,
+   * so this creates a fresh copy that records the task it retries.
+   */
+  public retryTask(taskId: string): Task {
+    const task = this.requireTask(taskId);
+    if (task.status !== TaskStatus.FAILED && task.status !== TaskStatus.CANCELLED) {
+      throw new Error(`Task ${taskId} is ${task.status}; only failed or cancelled tasks can be retried`);
+    }
+
+    // Drop the bookkeeping of earlier attempts; the copy starts from scratch
+    const { retryHistory, retryNotBefore, excludedAgents, preferredAgent, recovery, ...metadata } = task.metadata;
+
+    return this.createTask({
+      title: task.title,
+      description: task.description,
+      type: task.type,
+      priority: task.priority,
+      dependencies: task.dependencies,
+      estimatedDuration: task.estimatedDuration,
+      deadline: task.deadline,
+      requirements: task.requirements.map(requirement => ({ ...requirement, satisfied: false })),
+      metadata: { ...metadata, retryOf: task.id },
+      tags: task.tags,
+      files: task.files
+    });
+  }
+
+  public approveTask(taskId: string): Task {
+    const task = this.updateTaskStatus(taskId, TaskStatus.COMPLETED, 'Review approved');
+    task.progress = 100;
+    this.emit('task:completed', task);
+    return task;
+  }
+
+  public rejectTask(taskId: string, reason: string): Task {
+    const task = this.updateTaskStatus(taskId, TaskStatus.FAILED, reason);
+    this.emit('task:failed', task);
+    return task;
+  }
+
+  /**
+   * Assigns a pending task to an agent (best match unless one is given),
+   * runs it and moves it through IN_PROGRESS and REVIEW to its final state.
+   */
+  public async dispatchTask(taskId: string, agentId?: string): Promise<TaskResult> {
+    const task = this.requireTask(taskId);
+
+    if (task.status !== TaskStatus.PENDING) {
+      throw new Error(`Task ${taskId} is not pending (status: ${task.status})`);
+    }
+    if (this.claimedTasks.has(taskId)) {
+      throw new Error(`Task ${taskId} is already being dispatched`);
+    }
+
+    // Claimed before the first await, so a queue pass meanwhile leaves it alone
+    this.claimedTasks.add(taskId);
+    let agent: IAgent | undefined;
+    try {
+      const assignment = await this.agentRegistry.assignTaskToAgent(task, agentId);
+
+      // Cancelled while the agent was being picked, so it never starts
+      if (task.status !== TaskStatus.PENDING) {
+        this.agentRegistry.unassignTask(assignment);
+        return {
+          taskId,
+          success: false,
+          error: `Task ${taskId} is ${task.status}; it was not started`,
+          duration: 0,
+          metadata: {},
+          changedFiles: [],
+          completedAt: new Date()
+        };
+      }
+
+      agent = this.agentRegistry.getAgent(assignment.agentId);
+
+      if (!agent) {
+        throw new Error(`Agent ${assignment.agentId} not found`);
+      }
+
+      task.assignedAgent = agent.id;
+      delete task.metadata.preferredAgent;
+      this.updateTaskStatus(taskId, TaskStatus.ASSIGNED, `Assigned to ${agent.id}`);
+      this.updateTaskStatus(taskId, TaskStatus.IN_PROGRESS);
+    } finally {
+      this.claimedTasks.delete(taskId);
+    }
+
+    let result: TaskResult;
+    try {
+      result = await agent.executeTask(task);
+    } catch (error) {
+      result = {
+        taskId,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        duration: 0,
+        metadata: {},
+        changedFiles: [],
+        completedAt: new Date()
+      };
+    }
+
+    this.results.set(taskId, result);
+    this.emit('task:result', { task, result, agentId: agent.id });
+    this.handleTaskResult(task, result);
+
+    if (this.config.autoDispatch) {
+      void this.processQueue();
+    }
+
+    return result;
+  }
+
+  // Pending tasks a queue pass would try to dispatch now, in dispatch order
+  public getDispatchableTasks(): Task[] {
+    return this.getPendingTasks().filter(task => this.isDueForDispatch(task) && !this.claimedTasks.has(task.id));
+  }
+
+  /**
+   * Dispatches pending tasks in priority order while active agents are available.
+   */
+  public async processQueue(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+
+    if (this.dispatching) {
+      this.queueDirty = true;
+      return;
+    }
+
+    this.dispatching = true;
+    this.queueDirty = false;
+    const running: Promise<void>[] = [];
+    const claimedSlots = new Map<string, number>();
+    let throttledFor = 0;
+
+    try {
+      for (const task of this.getDispatchableTasks()) {
+        // Slots claimed earlier in this pass are not taken until the agent starts the task
+        const fullAgents = this.agentRegistry
+          .getAllAgents()
+          .filter(agent => (claimedSlots.get(agent.id) || 0) >= agent.getAvailableTaskSlots())
+          .map(agent => agent.id);
+        // Agents over their claim rate sit this pass out
+        for (const agent of this.agentRegistry.getAllAgents()) {
+          const claim = agentActionLimiter.check(agentActionKey(agent.id, 'claim'));
+          if (!claim.allowed && !fullAgents.includes(agent.id)) {
+            fullAgents.push(agent.id);
+            throttledFor = throttledFor ? Math.min(throttledFor, claim.retryAfter) : claim.retryAfter;
+          }
+        }
+        // Prefer agents this task has not already failed on, but never starve it
+        const excludedAgents: string[] = task.metadata.excludedAgents || [];
+        const match =
+          this.getPreferredAgent(task, fullAgents) ||
+          (await this.agentRegistry.findBestAgentForTask(task, [...fullAgents, ...excludedAgents])) ||
+          (excludedAgents.length > 0
+            ? await this.agentRegistry.findBestAgentForTask(task, fullAgents)
+            : null);
+        if (!match) {
+          continue;
+        }
+
+        claimedSlots.set(match.agent.id, (claimedSlots.get(match.agent.id) || 0) + 1);
+        agentActionLimiter.consume(agentActionKey(match.agent.id, 'claim'));
+        running.push(
+          this.dispatchTask(task.id, match.agent.id).then(
+            () => undefined,
+            error => {
+              logger.error(`Failed to dispatch task ${task.id}`, error);
+            }
+          )
+        );
+      }
+    } finally {
+      this.dispatching = false;
+    }
+
+    if (throttledFor > 0) {
+      this.scheduleThrottledDispatch(throttledFor);
+    }
+
+    if (this.queueDirty) {
+      running.push(this.processQueue());
+    }
+
+    await Promise.all(running);
+  }
+
+  /**
+   * Stops dispatching queued tasks and waits up to `timeout` ms for the ones
+   * agents are working on. Resolves with the tasks still running by then.
+   */
+  public async drain(timeout: number): Promise<Task[]> {
+    this.draining = true;
+
+    const inFlight = () => this.getAllTasks().filter(task =>
+      task.status === TaskStatus.ASSIGNED || task.status === TaskStatus.IN_PROGRESS
+    );
+
+    if (inFlight().length > 0) {
+      logger.info(`Waiting up to ${timeout}ms for ${inFlight().length} running tasks to finish`);
+
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer);
+          this.off('task:status_changed', onStatusChanged);
+          resolve();
+        };
+        const onStatusChanged = () => {
+          if (inFlight().length === 0) {
+            done();
+          }
+        };
+        const timer = setTimeout(done, timeout);
+        this.on('task:status_changed', onStatusChanged);
+      });
+    }
+
+    return inFlight();
+  }
+
+  public getTaskStatistics(): Record<TaskStatus, number> {
+    const stats = {} as Record<TaskStatus, number>;
+    Object.values(TaskStatus).forEach(status => { stats[status] = 0; });
+
+    this.tasks.forEach(task => {
+      stats[task.status]++;
+    });
+
+    return stats;
+  }
+
+  private handleTaskResult(task: Task, result: TaskResult): void {
+    // The task may have been cancelled while the agent was still working on it
+    if (task.status !== TaskStatus.IN_PROGRESS) {
+      logger.warn(`Ignoring result for task ${task.id} in status ${task.status}`);
+      return;
+    }
+
+    // Cut short by shutdown rather than failed; queued again so the next run picks it up
+    if (!result.success && this.draining && result.metadata?.cancelled) {
+      task.assignedAgent = undefined;
+      this.updateTaskStatus(task.id, TaskStatus.PENDING, 'Interrupted by shutdown');
+      return;
+    }
+
+    if (!result.success) {
+      const decision = this.retryManager.recordFailure(task, result, task.assignedAgent);
+
+      if (decision.retry) {
+        this.scheduleRetry(task, result, decision);
+        return;
+      }
+
+      this.updateTaskStatus(task.id, TaskStatus.FAILED, `${result.error} (${decision.reason})`);
+      this.emit('task:failed', task);
+      return;
+    }
+
+    this.updateTaskProgress(task.id, 100);
+    this.updateTaskStatus(task.id, TaskStatus.REVIEW);
+
+    if (this.config.autoApprove) {
+      this.approveTask(task.id);
+    }
+  }
+
+  private scheduleRetry(task: Task, result: TaskResult, decision: RetryDecision): void {
+    const retryAt = new Date(Date.now() + decision.delay);
+    task.metadata.retryNotBefore = retryAt;
+
+    eventBus.emit(createTaskEvent(
+      SystemEvent.TASK_RETRY_SCHEDULED,
+      task.id,
+      {
+        attempt: decision.attempt,
+        failureClass: decision.failureClass,
+        error: result.error,
+        delay: decision.delay,
+        retryAt,
+        excludeAgents: decision.excludeAgents,
+        retryHistory: task.metadata.retryHistory
+      },
+      task.assignedAgent,
+      'task-manager'
+    ));
+
+    task.assignedAgent = undefined;
+    this.updateTaskStatus(task.id, TaskStatus.PENDING, decision.reason);
+
+    if (this.config.autoDispatch) {
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        void this.processQueue();
+      }, decision.delay);
+      this.retryTimers.add(timer);
+    }
+  }
+
+  private getPreferredAgent(task: Task, fullAgents: string[]): { agent: IAgent } | null {
+    const agentId: string | undefined = task.metadata.preferredAgent;
+    const excludedAgents: string[] = task.metadata.excludedAgents || [];
+    if (!agentId || fullAgents.includes(agentId) || excludedAgents.includes(agentId)) {
+      return null;
+    }
+
+    const agent = this.agentRegistry.getAgent(agentId);
+    return agent && agent.getAvailableTaskSlots() > 0 ? { agent } : null;
+  }
+
+  private scheduleThrottledDispatch(delay: number): void {
+    if (this.throttleTimer || this.getPendingTasks().length === 0) {
+      return;
+    }
+
+    logger.debug(`Agents are over their task claim rate; dispatching again in ${delay}ms`);
+    this.throttleTimer = setTimeout(() => {
+      this.throttleTimer = null;
+      void this.processQueue();
+    }, delay);
+  }
+
+  private isDueForDispatch(task: Task): boolean {
+    const retryAt: Date | undefined = task.metadata.retryNotBefore;
+    return !retryAt || new Date(retryAt).getTime() <= Date.now();
+  }
+
+  private holdForPrerequisites(task: Task): void {
+    if (task.status !== TaskStatus.PENDING) {
+      return;
+    }
+
+    // The cascade applySchedulingDecision runs has already passed for a prerequisite that finished badly
+    const failed = this.scheduler.getFailedPrerequisites(task.id, id => this.tasks.get(id));
+    if (failed.length > 0) {
+      const prerequisite = this.requireTask(failed[0].dependsOn);
+      this.cancelTask(task.id, `Prerequisite ${prerequisite.id} ${prerequisite.status}`);
+      return;
+    }
+
+    const unmet = this.scheduler.getUnmetPrerequisites(task.id, id => this.tasks.get(id));
+    if (unmet.length === 0) {
+      return;
+    }
+
+    this.scheduler.markWaiting(task.id);
+    this.blockTask(
+      task.id,
+      `Waiting on prerequisites: ${unmet.map(dep => `${dep.dependsOn} (${dep.type})`).join(', ')}`
+    );
+  }
+
+  private applySchedulingDecision(task: Task): void {
+    const decision = this.scheduler.onTaskFinished(task, id => this.tasks.get(id));
+
+    for (const dependentId of decision.cancel) {
+      const dependent = this.tasks.get(dependentId);
+      // An earlier cascade in this loop may already have cancelled it
+      if (dependent && !this.isTerminal(dependent.status)) {
+        this.cancelTask(dependentId, `Prerequisite ${task.id} ${task.status}`);
+      }
+    }
+
+    for (const dependentId of decision.release) {
+      this.updateTaskStatus(dependentId, TaskStatus.PENDING, `Prerequisites of ${dependentId} met`);
+    }
+
+    if (decision.release.length > 0 && this.config.autoDispatch) {
+      void this.processQueue();
+    }
+  }
+
+  private requireTask(taskId: string): Task {
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    return task;
+  }
+
+  private isTerminal(status: TaskStatus): boolean {
+    return (
+      status === TaskStatus.COMPLETED ||
+      status === TaskStatus.FAILED ||
+      status === TaskStatus.CANCELLED
+    );
+  }
+
+  public async cleanup(): Promise<void> {
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    if (this.throttleTimer) {
+      clearTimeout(this.throttleTimer);
+      this.throttleTimer = null;
+    }
+    this.removeAllListeners();
+    this.tasks.clear();
+    this.results.clear();
+    this.scheduler.clear();
+    logger.info('Task manager cleanup completed');
+  }
+}
+
+// A new pending task with the defaults filled in
+export function taskFromInput(input: TaskInput): Task {
+  const now = new Date();
+  return {
+    id: input.id || uuidv4(),
+    type: input.type,
+    priority: input.priority || Priority.MEDIUM,
+    dependencies: input.dependencies || [],
+    estimatedDuration: input.estimatedDuration || 60,
+    deadline: input.deadline,
+    title: input.title,
+    description: input.description,
+    requirements: input.requirements || [],
+    status: TaskStatus.PENDING,
+    progress: 0,
+    createdAt: now,
+    updatedAt: now,
+    metadata: input.metadata || {},
+    tags: input.tags || [],
+    files: input.files || []
+  };
+}
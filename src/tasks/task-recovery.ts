@@ -0,0 +1,244 @@
+import { Task, TaskStatus } from '../types/task.types';
+import { TaskManager } from './task-manager';
+import { PersistentStore } from '@storage/store';
+import { WorktreeManager } from '@git/worktree';
+import { logger } from '@core/logger';
+import { eventBus, createSystemEvent, SystemEvent } from '@core/events';
+
+export type RecoveryAction = 'resumed' | 'checkpointed' | 'requeued';
+
+export interface RecoveredTask {
+  taskId: string;
+  title: string;
+  previousStatus: TaskStatus;
+  action: RecoveryAction;
+  agentId?: string;
+  worktree?: string;
+  branch?: string;
+  changedFiles: string[];
+  checkpointCommit?: string;
+  reason: string;
+}
+
+export interface RecoveredWorktree {
+  id: string; // the agent id, or `<agent>-slot-<n>` for a further task slot
+  agentId: string;
+  path: string;
+  branch: string;
+  uncommittedChanges: string[];
+  checkpointCommit?: string; // set when recovery committed changes no in-flight task claimed
+}
+
+export interface RecoveryReport {
+  startedAt: Date;
+  completedAt: Date;
+  restoredTasks: number; // every unfinished task loaded back, in-flight or not
+  tasks: RecoveredTask[]; // what happened to each task that was in flight
+  worktrees: RecoveredWorktree[];
+}
+
+type RecoveryWorktrees = Pick<
+  WorktreeManager,
+  'discoverWorktrees' | 'getWorktreeForAgent' | 'getUncommittedChanges' | 'checkpointWorktree'
+>;
+
+const UNFINISHED_STATUSES = [
+  TaskStatus.PENDING,
+  TaskStatus.BLOCKED,
+  TaskStatus.ASSIGNED,
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.REVIEW
+];
+
+const IN_FLIGHT_STATUSES = [TaskStatus.ASSIGNED, TaskStatus.IN_PROGRESS];
+
+/**
+ * Picks up where a crashed orchestrator left off: reloads unfinished tasks
+ * from the store and decides, per in-flight task, what to do with the work
+ * sitting in its agent's worktree.
+ *
+ * - clean worktree: resumed, queued again for the same agent
+ * - uncommitted changes: checkpointed in a WIP commit, then resumed
+ * - no worktree left: requeued for any agent
+ *
+ * Uncommitted changes in any other worktree, such as that of a further task
+ * slot, are checkpointed as well.
+ */
+export class TaskRecovery {
+  private taskManager: TaskManager;
+  private store: PersistentStore;
+  private worktrees: RecoveryWorktrees;
+
+  constructor(taskManager: TaskManager, store: PersistentStore, worktrees: RecoveryWorktrees) {
+    this.taskManager = taskManager;
+    this.store = store;
+    this.worktrees = worktrees;
+  }
+
+  public async recover(): Promise<RecoveryReport> {
+    const startedAt = new Date();
+
+    const unfinished = await this.store.queryTasks({ status: UNFINISHED_STATUSES });
+    const restored = this.taskManager.restoreTasks(await this.withPrerequisites(unfinished));
+
+    const discovered = await this.worktrees.discoverWorktrees();
+    const worktrees: RecoveredWorktree[] = [];
+    for (const worktree of discovered) {
+      worktrees.push({
+        id: worktree.id,
+        agentId: worktree.agentId,
+        path: worktree.path,
+        branch: worktree.branch,
+        uncommittedChanges: await this.worktrees.getUncommittedChanges(worktree.id)
+      });
+    }
+
+    const tasks: RecoveredTask[] = [];
+    for (const task of unfinished.filter(task => IN_FLIGHT_STATUSES.includes(task.status))) {
+      try {
+        tasks.push(await this.recoverTask(task, worktrees));
+      } catch (error) {
+        logger.error(`Failed to recover task ${task.id}`, error);
+      }
+    }
+
+    const handled = new Set(tasks.map(task => task.worktree));
+    for (const worktree of worktrees.filter(entry => entry.uncommittedChanges.length > 0 && !handled.has(entry.path))) {
+      await this.checkpointLeftovers(worktree);
+    }
+
+    const report: RecoveryReport = {
+      startedAt,
+      completedAt: new Date(),
+      restoredTasks: restored.filter(task => UNFINISHED_STATUSES.includes(task.status)).length,
+      tasks,
+      worktrees
+    };
+
+    logger.info('Recovery completed', {
+      restoredTasks: report.restoredTasks,
+      resumed: tasks.filter(task => task.action === 'resumed').length,
+      checkpointed: tasks.filter(task => task.action === 'checkpointed').length,
+      requeued: tasks.filter(task => task.action === 'requeued').length,
+      worktrees: worktrees.length
+    });
+
+    eventBus.emit(createSystemEvent(SystemEvent.SYSTEM_RECOVERED, report, 'task-recovery'));
+
+    return report;
+  }
+
+  private async recoverTask(task: Task, worktrees: RecoveredWorktree[]): Promise<RecoveredTask> {
+    const previousStatus = task.status;
+    const agentId = task.assignedAgent;
+    // Which task slot the task ran in is not recorded, so it is matched to the agent's own worktree
+    const worktree = agentId ? worktrees.find(entry => entry.id === agentId) : undefined;
+
+    const recovered: RecoveredTask = {
+      taskId: task.id,
+      title: task.title,
+      previousStatus,
+      action: 'requeued',
+      agentId,
+      worktree: worktree?.path,
+      branch: worktree?.branch,
+      changedFiles: worktree?.uncommittedChanges || [],
+      reason: ''
+    };
+
+    if (!agentId || !worktree) {
+      recovered.reason = agentId
+        ? `No worktree left for agent ${agentId}`
+        : 'Task had no assigned agent';
+    } else if (worktree.uncommittedChanges.length === 0) {
+      recovered.action = 'resumed';
+      recovered.reason = `Worktree of agent ${agentId} is clean`;
+    } else {
+      const checkpoint = await this.worktrees.checkpointWorktree(
+        agentId,
+        `WIP: ${task.title}\n\nCheckpoint of task ${task.id} after orchestrator restart`
+      );
+
+      if (checkpoint.success) {
+        recovered.action = 'checkpointed';
+        recovered.checkpointCommit = checkpoint.output;
+        recovered.reason = `Committed ${worktree.uncommittedChanges.length} uncommitted files`;
+      } else {
+        // The changes stay in the worktree, which the agent does not use until they are committed or discarded
+        recovered.action = 'resumed';
+        recovered.reason = `Checkpoint failed, uncommitted changes left in place: ${checkpoint.error}`;
+      }
+    }
+
+    task.metadata.recovery = {
+      recoveredAt: new Date(),
+      action: recovered.action,
+      previousStatus,
+      agentId,
+      worktree: recovered.worktree,
+      branch: recovered.branch,
+      checkpointCommit: recovered.checkpointCommit
+    };
+
+    this.taskManager.requeueTask(
+      task.id,
+      `Recovered after restart: ${recovered.reason}`,
+      recovered.action === 'requeued' ? undefined : agentId
+    );
+
+    logger.info(`Recovered task ${task.id} (${recovered.action})`, {
+      agentId,
+      reason: recovered.reason
+    });
+
+    return recovered;
+  }
+
+  /**
+   * Commits what a crash left in a worktree no in-flight task was matched to,
+   * such as a further task slot, so the next task there does not commit it
+   * under its own message.
+   */
+  private async checkpointLeftovers(worktree: RecoveredWorktree): Promise<void> {
+    const checkpoint = await this.worktrees.checkpointWorktree(
+      worktree.id,
+      `WIP: changes left in ${worktree.id}\n\nCheckpoint of agent ${worktree.agentId}'s worktree after orchestrator restart`
+    );
+
+    if (checkpoint.success) {
+      worktree.checkpointCommit = checkpoint.output;
+      logger.info(`Checkpointed uncommitted changes in worktree ${worktree.id}`, {
+        agentId: worktree.agentId,
+        files: worktree.uncommittedChanges.length
+      });
+    } else {
+      logger.warn(`Could not checkpoint worktree ${worktree.id}; its changes keep the agent from using it`, {
+        error: checkpoint.error
+      });
+    }
+  }
+
+  /**
+   * Adds the finished prerequisites of unfinished tasks, so dependency checks
+   * see their final status.
+   */
+  private async withPrerequisites(tasks: Task[]): Promise<Task[]> {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const queue = tasks.flatMap(task => task.dependencies);
+
+    while (queue.length > 0) {
+      const taskId = queue.shift() as string;
+      if (byId.has(taskId)) {
+        continue;
+      }
+
+      const prerequisite = await this.store.getTask(taskId);
+      if (prerequisite) {
+        byId.set(taskId, prerequisite);
+        queue.push(...prerequisite.dependencies);
+      }
+    }
+
+    return Array.from(byId.values());
+  }
+}
@@ -0,0 +1,198 @@
+import { Task, TaskDependency, TaskStatus, Priority } from '../types/task.types';
+import { DependencyGraph, DependencyType } from './dependency-graph';
+
+export type TaskLookup = (taskId: string) => Task | undefined;
+
+export interface SchedulingDecision {
+  release: string[]; // blocked dependents whose prerequisites are now satisfied
+  cancel: string[]; // dependents that can no longer run
+}
+
+const PRIORITY_ORDER: Record<Priority, number> = {
+  [Priority.CRITICAL]: 0,
+  [Priority.HIGH]: 1,
+  [Priority.MEDIUM]: 2,
+  [Priority.LOW]: 3
+};
+
+const TERMINAL_STATUSES = [TaskStatus.COMPLETED, TaskStatus.FAILED, TaskStatus.CANCELLED];
+
+/**
+ * Dependency-aware scheduling policy used by the TaskManager.
+ *
+ * - `blocks`: the dependent waits until the prerequisite completes; if the
+ *   prerequisite fails or is cancelled, the dependent is cancelled too.
+ * - `waits_for`: the dependent waits until the prerequisite finishes,
+ *   whatever the outcome.
+ * - `enhances`: like `waits_for`, the prerequisite only improves the
+ *   dependent, so its failure never cancels anything.
+ *
+ * Task.dependencies holds the prerequisite ids; the relationship type for each
+ * id is read from `task.metadata.dependencyTypes` and defaults to `blocks`.
+ */
+export class TaskScheduler {
+  private graph: DependencyGraph = new DependencyGraph();
+  private waiting: Set<string> = new Set();
+
+  public static getDependencyType(task: Task, dependsOn: string): DependencyType {
+    const types: Record<string, DependencyType> = task.metadata?.dependencyTypes || {};
+    return types[dependsOn] || 'blocks';
+  }
+
+  public static toDependencies(task: Task): TaskDependency[] {
+    return task.dependencies.map(dependsOn => ({
+      taskId: task.id,
+      dependsOn,
+      type: TaskScheduler.getDependencyType(task, dependsOn)
+    }));
+  }
+
+  /**
+   * Checks that a set of tasks forms a DAG and returns their ids in
+   * topological order. Prerequisites outside the set are ignored.
+   */
+  public static orderBatch(tasks: Task[]): string[] {
+    const graph = new DependencyGraph();
+    const ids = new Set(tasks.map(task => task.id));
+
+    tasks.forEach(task => graph.addTask(task.id));
+    tasks.forEach(task => {
+      TaskScheduler.toDependencies(task)
+        .filter(dep => ids.has(dep.dependsOn))
+        .forEach(dep => graph.addDependency(dep));
+    });
+
+    return graph.getTopologicalOrder();
+  }
+
+  public register(task: Task): void {
+    this.graph.addTask(task.id);
+
+    try {
+      for (const dependency of TaskScheduler.toDependencies(task)) {
+        this.graph.addDependency(dependency);
+      }
+    } catch (error) {
+      this.graph.removeTask(task.id);
+      throw error;
+    }
+  }
+
+  public unregister(taskId: string): void {
+    this.graph.removeTask(taskId);
+    this.waiting.delete(taskId);
+  }
+
+  public addDependency(dependency: TaskDependency): void {
+    this.graph.addDependency(dependency);
+  }
+
+  public getPrerequisites(taskId: string): TaskDependency[] {
+    return this.graph.getPrerequisites(taskId);
+  }
+
+  public getDependents(taskId: string): TaskDependency[] {
+    return this.graph.getDependents(taskId);
+  }
+
+  public getUnmetPrerequisites(taskId: string, lookup: TaskLookup): TaskDependency[] {
+    return this.graph
+      .getPrerequisites(taskId)
+      .filter(dep => !this.isSatisfied(dep, lookup(dep.dependsOn)));
+  }
+
+  // `blocks` prerequisites that failed or were cancelled; the task can never run
+  public getFailedPrerequisites(taskId: string, lookup: TaskLookup): TaskDependency[] {
+    return this.graph.getPrerequisites(taskId).filter(dep => {
+      const prerequisite = lookup(dep.dependsOn);
+      return dep.type === 'blocks' && !!prerequisite &&
+        TERMINAL_STATUSES.includes(prerequisite.status) && prerequisite.status !== TaskStatus.COMPLETED;
+    });
+  }
+
+  public markWaiting(taskId: string): void {
+    this.waiting.add(taskId);
+  }
+
+  public isWaiting(taskId: string): boolean {
+    return this.waiting.has(taskId);
+  }
+
+  public clearWaiting(taskId: string): void {
+    this.waiting.delete(taskId);
+  }
+
+  /**
+   * Works out what happens to the dependents of a task that just reached a
+   * terminal state.
+   */
+  public onTaskFinished(task: Task, lookup: TaskLookup): SchedulingDecision {
+    const decision: SchedulingDecision = { release: [], cancel: [] };
+    const failed = task.status !== TaskStatus.COMPLETED;
+
+    for (const dependency of this.graph.getDependents(task.id)) {
+      const dependent = lookup(dependency.taskId);
+      if (!dependent || TERMINAL_STATUSES.includes(dependent.status)) {
+        continue;
+      }
+
+      if (failed && dependency.type === 'blocks') {
+        this.waiting.delete(dependent.id);
+        decision.cancel.push(dependent.id);
+        continue;
+      }
+
+      if (
+        this.waiting.has(dependent.id) &&
+        dependent.status === TaskStatus.BLOCKED &&
+        this.getUnmetPrerequisites(dependent.id, lookup).length === 0
+      ) {
+        this.waiting.delete(dependent.id);
+        decision.release.push(dependent.id);
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * Orders runnable tasks so that shallower tasks in the graph go first, then
+   * by priority and age.
+   */
+  public orderForDispatch(tasks: Task[]): Task[] {
+    const depthMemo = new Map<string, number>();
+    const depth = (task: Task): number =>
+      this.graph.hasTask(task.id) ? this.graph.getDepth(task.id, depthMemo) : 0;
+
+    return [...tasks].sort((a, b) => {
+      const depthDiff = depth(a) - depth(b);
+      if (depthDiff !== 0) return depthDiff;
+
+      const priorityDiff = PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+      if (priorityDiff !== 0) return priorityDiff;
+
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    });
+  }
+
+  public getExecutionPlan(): string[][] {
+    return this.graph.getExecutionLevels();
+  }
+
+  public clear(): void {
+    this.graph = new DependencyGraph();
+    this.waiting.clear();
+  }
+
+  private isSatisfied(dependency: TaskDependency, prerequisite: Task | undefined): boolean {
+    if (!prerequisite) {
+      return false;
+    }
+
+    if (dependency.type === 'blocks') {
+      return prerequisite.status === TaskStatus.COMPLETED;
+    }
+
+    return TERMINAL_STATUSES.includes(prerequisite.status);
+  }
+}
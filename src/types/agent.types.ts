@@ -47,6 +47,8 @@ export interface IAgent {
   restart(): Promise<void>;
   sendMessage(message: Message): Promise<void>;
   executeTask(task: Task): Promise<TaskResult>;
+  cancelTask(taskId: string, reason?: string): Promise<void>;
+  getAvailableTaskSlots(): number;
   updateStatus(status: AgentStatus): Promise<void>;
   getHealth(): Promise<AgentHealth>;
 }
@@ -68,7 +70,10 @@ export interface AgentConfig {
   workingDirectory: string;
   capabilities: AgentCapability[];
   maxConcurrentTasks: number;
+  taskTimeout?: number; // ms, defaults to agents.taskTimeout
   healthCheckInterval: number;
+  model?: string;
+  baseBranch?: string; // branch the agent's worktree starts from
   settings: Record<string, any>;
 }
 
@@ -1,5 +1,6 @@
-import { AgentRole } from './agent.types';
+import { AgentCapability, AgentRole } from './agent.types';
 import { MessageQueueConfig } from './message.types';
+import { Priority, RetryPolicy, TaskType } from './task.types';
 
 export interface MADOConfig {
   project: ProjectConfig;
@@ -9,14 +10,18 @@ export interface MADOConfig {
   monitoring: MonitoringConfig;
   integrations: IntegrationsConfig;
   security: SecurityConfig;
+  storage: StorageConfig;
+  api: ApiConfig;
+  control: ControlConfig;
+  daemon: DaemonConfig;
 }
 
 export interface ProjectConfig {
   name: string;
   description: string;
   version: string;
-  repository: string;
-  workingDirectory: string;
+  repository: string; // shown to agents in prompts; git work happens in workingDirectory
+  workingDirectory: string; // relative to the configuration file unless absolute; relative paths in other settings resolve against it
   maxAgents: number;
   defaultBranch: string;
   templates: ProjectTemplate[];
@@ -43,10 +48,68 @@ export interface GitConfig {
 export interface AgentSystemConfig {
   maxConcurrentAgents: number;
   defaultRoles: AgentRole[];
+  pool: AgentPoolEntry[]; // replaces defaultRoles when not empty
+  autoscaling: AutoscalingConfig;
+  executors: ExecutorsConfig;
+  prompts: PromptsConfig;
+  context: ContextConfig;
   healthCheckInterval: number;
   taskTimeout: number;
   autoRestart: boolean;
   resourceLimits: ResourceLimits;
+  retry: RetryConfig;
+}
+
+// One or more identical agents; `{role}` and `{n}` (001, 002, ...) are filled into id and name
+export interface AgentPoolEntry {
+  id: string;
+  name?: string; // defaults to the role's display name
+  role: AgentRole;
+  count: number;
+  capabilities: AgentCapability[];
+  maxConcurrentTasks: number;
+  model?: string; // defaults to integrations.claudeCode.defaultModel
+  baseBranch?: string; // branch the agents' worktrees start from
+}
+
+// Executor names: template, dry-run, claude-code, shell, or a plugin's name
+export interface ExecutorsConfig {
+  default?: string; // claude-code while the integration is enabled, template otherwise
+  byTaskType: Partial<Record<TaskType, string>>;
+  byRole: Partial<Record<AgentRole, string>>;
+  shell: ShellExecutorConfig;
+  plugins: Record<string, string>; // executor name -> module path
+}
+
+export interface ShellExecutorConfig {
+  command?: string; // run with sh -c in the workspace; the shell executor is only available when set
+  verifyCommand?: string; // must exit 0 for the task to succeed
+}
+
+export interface PromptsConfig {
+  directory: string; // prompt templates; the built-in template fills any gaps
+}
+
+export interface ContextConfig {
+  enabled: boolean;
+  budget: number; // characters of repository context per task
+  maxCommits: number; // recent commits touching the task's files
+  maxFileSize: number; // bytes; larger files are left out
+  cacheSize: number; // commits whose context is kept
+}
+
+export interface AutoscalingConfig {
+  enabled: boolean;
+  interval: number; // ms between evaluations
+  queueThreshold: number; // waiting tasks no free agent can take that add an agent of their role
+  idleCooldown: number; // ms an added agent may sit idle before it is retired
+  defaultRole: AgentRole; // role for tasks that neither name one nor imply one by type
+}
+
+export interface RetryConfig {
+  default: RetryPolicy;
+  byTaskType: Partial<Record<TaskType, Partial<RetryPolicy>>>;
+  byPriority: Partial<Record<Priority, Partial<RetryPolicy>>>;
 }
 
 export interface ResourceLimits {
@@ -57,11 +120,21 @@ export interface ResourceLimits {
 }
 
 export interface MessagingConfig {
-  broker: 'memory' | 'redis' | 'rabbitmq';
-  queues: Record<string, MessageQueueConfig>;
-  serialization: 'json' | 'msgpack' | 'protobuf';
+  broker: 'memory' | 'redis';
+  queues: Record<string, Partial<MessageQueueConfig>>; // per recipient id, or `default`
+  requestTimeout: number; // ms to wait for a response to a request
+  redis: RedisConfig;
+  serialization: 'json' | 'msgpack';
   compression: boolean;
+  compressionAlgorithm: 'zlib' | 'brotli';
   encryption: boolean;
+  encryptionKey?: string; // 32 bytes as hex or base64, AES-256-GCM
+}
+
+export interface RedisConfig {
+  url: string;
+  keyPrefix: string;
+  recipientTtl: number; // ms an inbox stays routable without a heartbeat from its process
 }
 
 export interface MonitoringConfig {
@@ -104,6 +177,7 @@ export interface ClaudeCodeConfig {
   enabled: boolean;
   version: string;
   binary: string;
+  args: string[]; // passed before `--model`; the prompt is written to stdin
   defaultModel: string;
   apiKey?: string;
   baseUrl?: string;
@@ -127,14 +201,29 @@ export interface CICDConfig {
 export interface SecurityConfig {
   authentication: boolean;
   authorization: boolean;
-  apiKeys: string[];
+  apiKeys: ApiKeyConfig[];
   rateLimiting: RateLimitConfig;
   sandbox: SandboxConfig;
 }
 
+export type ApiKeyScope = 'read-only' | 'task-submitter' | 'agent-operator' | 'admin';
+
+export interface ApiKeyConfig {
+  id: string; // shown in audit records
+  hash: string; // 'sha256:<hex>' of the key; the key itself is never stored
+  scope: ApiKeyScope;
+  description?: string;
+}
+
 export interface RateLimitConfig {
   enabled: boolean;
-  requestsPerMinute: number;
+  requestsPerMinute: number; // per API key and per client IP
+  burstLimit: number;
+  agentActions: AgentActionLimitConfig;
+}
+
+export interface AgentActionLimitConfig {
+  actionsPerMinute: number; // per agent, separately for commits and task claims
   burstLimit: number;
 }
 
@@ -143,4 +232,38 @@ export interface SandboxConfig {
   allowedCommands: string[];
   restrictedPaths: string[];
   networkAccess: boolean;
-}
\ No newline at end of file
+}
+
+export interface StorageConfig {
+  enabled: boolean;
+  path: string; // SQLite file
+  eventRetentionDays: number; // 0 keeps events forever
+}
+
+export interface ApiConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  corsOrigins: string[]; // empty disables cross-origin requests
+  bodyLimit: string; // e.g. '1mb'
+  stream: EventStreamConfig;
+}
+
+export interface EventStreamConfig {
+  enabled: boolean;
+  path: string; // Socket.IO path on the API server
+  historyLimit: number; // most events replayed on connect
+  maxQueuedEvents: number; // per client; the oldest are dropped beyond this
+  ackTimeout: number; // ms to wait for a client to acknowledge a batch
+}
+
+export interface ControlConfig {
+  enabled: boolean;
+  socketPath: string; // Unix domain socket the CLI connects to
+}
+
+export interface DaemonConfig {
+  pidFile: string; // written while the orchestrator runs
+  logFile: string; // stdout and stderr of `mado start --detach`
+  shutdownGracePeriod: number; // ms to let in-flight tasks finish when stopping
+}
@@ -0,0 +1,62 @@
+import { AgentRole } from './agent.types';
+import { Task } from './task.types';
+import { GitRepository } from '../git/repository';
+
+// What an executor knows about the agent it works for
+export interface ExecutionContext {
+  agentId: string;
+  agentName: string;
+  role: AgentRole;
+  workspace: string; // directory the work happens in
+  env: NodeJS.ProcessEnv; // environment for processes started in the workspace
+  git: GitRepository; // bound to the workspace
+  isolated: boolean; // workspace is the agent's own worktree, so it may be reset
+  model?: string;
+  signal: AbortSignal; // aborted on timeout or cancellation
+  report(note: string, details?: Record<string, any>): void; // publishes task progress
+  getRepositoryContext(): Promise<ContextBundle | undefined>; // packed on first call; undefined when disabled or unavailable
+}
+
+// A piece of the repository an executor may want to show its model
+export interface ContextItem {
+  kind: 'file' | 'test' | 'import' | 'importer' | 'commit';
+  label: string; // the path, or "commit <short hash>"
+  path?: string;
+  commit?: string;
+  reason: string; // why it was picked, e.g. "imported by src/api/server.ts"
+  score: number;
+  content: string;
+  truncated: boolean;
+}
+
+// What the context packer gathered for a task, ranked and cut to the budget
+export interface ContextBundle {
+  commit: string; // the tree the context was read from
+  budget: number; // characters
+  size: number;
+  items: ContextItem[];
+  omitted: string[]; // labels of relevant items that did not fit
+}
+
+export interface ExecutionOutcome {
+  output: string;
+  metadata: Record<string, any>;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  details?: string;
+}
+
+/**
+ * How an agent performs a task. The agent calls prepare, execute and verify
+ * in turn, rolls back if any of them fails, and commits whatever the
+ * executor changed in the workspace.
+ */
+export interface TaskExecutor {
+  canExecute?(task: Task): boolean;
+  prepare?(task: Task, context: ExecutionContext): Promise<void>;
+  execute(task: Task, context: ExecutionContext): Promise<ExecutionOutcome>;
+  verify?(task: Task, context: ExecutionContext, outcome: ExecutionOutcome): Promise<VerificationResult>;
+  rollback?(task: Task, context: ExecutionContext, error: Error): Promise<void>;
+}
@@ -3,4 +3,5 @@ export * from './task.types';
 export * from './message.types';
 export * from './git.types';
 export * from './config.types';
-export * from './orchestrator.types';
\ No newline at end of file
+export * from './orchestrator.types';
+export * from './executor.types';
\ No newline at end of file
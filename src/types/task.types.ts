@@ -82,4 +82,24 @@ export interface TaskAssignment {
   assignedAt: Date;
   estimatedCompletion: Date;
   confidence: number; // 0-1, how confident the assignment is
-}
\ No newline at end of file
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // total attempts including the first run
+  initialDelay: number; // ms before the first retry
+  maxDelay: number; // ms cap for exponential backoff
+  backoffMultiplier: number;
+  jitter: number; // 0-1, fraction of the delay randomised either way
+  reassignAfter: number; // failures on the same agent before trying another one
+}
+
+export type FailureClass = 'transient' | 'timeout' | 'capability' | 'cancelled' | 'unknown';
+
+export interface RetryAttempt {
+  attempt: number;
+  agentId?: string;
+  failureClass: FailureClass;
+  error?: string;
+  failedAt: Date;
+  retryDelay?: number; // ms, absent when no retry was scheduled
+}
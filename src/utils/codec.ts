@@ -0,0 +1,191 @@
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { encode as encodeMsgpack, decode as decodeMsgpack } from '@msgpack/msgpack';
+import { MessagingConfig } from '../types/config.types';
+import { stringifyJson, parseJson } from './json';
+
+export type SerializationFormat = MessagingConfig['serialization'];
+export type CompressionAlgorithm = MessagingConfig['compressionAlgorithm'];
+
+export interface CodecOptions {
+  serialization: SerializationFormat;
+  compression: CompressionAlgorithm | false;
+  encryptionKey?: Buffer; // 32 bytes, AES-256-GCM
+}
+
+export class CodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodecError';
+  }
+}
+
+// Envelope layout: magic, version, flags, then the payload. When encrypted the
+// payload is IV, auth tag and ciphertext, and the header is authenticated too.
+const MAGIC = 0x4d;
+const VERSION = 1;
+const HEADER_LENGTH = 3;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+const SERIALIZATION_IDS: Record<'json' | 'msgpack', number> = { json: 0, msgpack: 1 };
+const COMPRESSION_IDS: Record<CompressionAlgorithm | 'none', number> = { none: 0, zlib: 1, brotli: 2 };
+const ENCRYPTED_FLAG = 0x10;
+
+/**
+ * Serialize, compress and encrypt values for anything that leaves the
+ * process. Each envelope records how it was built, so a reader holding the key
+ * decodes it whatever its own settings are.
+ */
+export class EnvelopeCodec {
+  private options: CodecOptions;
+
+  constructor(options: Partial<CodecOptions> = {}) {
+    this.options = { serialization: 'json', compression: false, ...options };
+
+    if (!(this.options.serialization in SERIALIZATION_IDS)) {
+      throw new CodecError(`Serialization '${this.options.serialization}' is not supported`);
+    }
+    if (this.options.encryptionKey && this.options.encryptionKey.length !== KEY_LENGTH) {
+      throw new CodecError(`Encryption key must be ${KEY_LENGTH} bytes`);
+    }
+  }
+
+  public static fromConfig(config: MessagingConfig): EnvelopeCodec {
+    if (config.encryption && !config.encryptionKey) {
+      throw new CodecError('Messaging encryption is enabled but no encryption key is configured');
+    }
+
+    return new EnvelopeCodec({
+      serialization: config.serialization,
+      compression: config.compression ? config.compressionAlgorithm : false,
+      encryptionKey: config.encryption ? parseEncryptionKey(config.encryptionKey as string) : undefined
+    });
+  }
+
+  public encode(value: unknown): Buffer {
+    const serialization = this.options.serialization as keyof typeof SERIALIZATION_IDS;
+    const compression = this.options.compression || 'none';
+    const encrypted = this.options.encryptionKey !== undefined;
+
+    const header = Buffer.from([
+      MAGIC,
+      VERSION,
+      SERIALIZATION_IDS[serialization] | (COMPRESSION_IDS[compression] << 2) | (encrypted ? ENCRYPTED_FLAG : 0)
+    ]);
+
+    let payload = serialize(value, serialization);
+    payload = compress(payload, compression);
+    if (encrypted) {
+      payload = encrypt(payload, this.options.encryptionKey as Buffer, header);
+    }
+
+    return Buffer.concat([header, payload]);
+  }
+
+  public decode<T = any>(data: Buffer): T {
+    if (data.length < HEADER_LENGTH || data[0] !== MAGIC) {
+      throw new CodecError('Not an encoded envelope');
+    }
+    if (data[1] !== VERSION) {
+      throw new CodecError(`Unsupported envelope version ${data[1]}`);
+    }
+
+    const flags = data[2];
+    const serialization = lookup(SERIALIZATION_IDS, flags & 0x03, 'serialization');
+    const compression = lookup(COMPRESSION_IDS, (flags >> 2) & 0x03, 'compression');
+    const header = data.subarray(0, HEADER_LENGTH);
+
+    let payload = data.subarray(HEADER_LENGTH);
+    if (flags & ENCRYPTED_FLAG) {
+      if (!this.options.encryptionKey) {
+        throw new CodecError('Envelope is encrypted but no encryption key is configured');
+      }
+      payload = decrypt(payload, this.options.encryptionKey, header);
+    }
+    payload = decompress(payload, compression);
+
+    return deserialize<T>(payload, serialization);
+  }
+}
+
+/**
+ * Accepts a 32-byte key as 64 hex characters or as base64.
+ */
+export function parseEncryptionKey(text: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(text) ? Buffer.from(text, 'hex') : Buffer.from(text, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new CodecError(`Encryption key must be ${KEY_LENGTH} bytes as hex or base64`);
+  }
+  return key;
+}
+
+function serialize(value: unknown, format: keyof typeof SERIALIZATION_IDS): Buffer {
+  if (format === 'msgpack') {
+    // Dates use the msgpack timestamp extension; undefined fields are dropped like JSON does
+    const encoded = encodeMsgpack(value, { ignoreUndefined: true });
+    return Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+  }
+  return Buffer.from(stringifyJson(value), 'utf8');
+}
+
+function deserialize<T>(payload: Buffer, format: keyof typeof SERIALIZATION_IDS): T {
+  if (format === 'msgpack') {
+    return decodeMsgpack(payload) as T;
+  }
+  return parseJson<T>(payload.toString('utf8'));
+}
+
+function compress(payload: Buffer, algorithm: CompressionAlgorithm | 'none'): Buffer {
+  switch (algorithm) {
+    case 'zlib':
+      return zlib.deflateSync(payload);
+    case 'brotli':
+      return zlib.brotliCompressSync(payload);
+    default:
+      return payload;
+  }
+}
+
+function decompress(payload: Buffer, algorithm: CompressionAlgorithm | 'none'): Buffer {
+  switch (algorithm) {
+    case 'zlib':
+      return zlib.inflateSync(payload);
+    case 'brotli':
+      return zlib.brotliDecompressSync(payload);
+    default:
+      return payload;
+  }
+}
+
+function encrypt(payload: Buffer, key: Buffer, header: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(header);
+  const ciphertext = Buffer.concat([cipher.update(payload), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function decrypt(payload: Buffer, key: Buffer, header: Buffer): Buffer {
+  if (payload.length < IV_LENGTH + TAG_LENGTH) {
+    throw new CodecError('Encrypted envelope is truncated');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, payload.subarray(0, IV_LENGTH));
+  decipher.setAAD(header);
+  decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  try {
+    return Buffer.concat([decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  } catch {
+    throw new CodecError('Envelope could not be decrypted; wrong key or tampered data');
+  }
+}
+
+function lookup<K extends string>(ids: Record<K, number>, id: number, kind: string): K {
+  const name = (Object.keys(ids) as K[]).find(candidate => ids[candidate] === id);
+  if (name === undefined) {
+    throw new CodecError(`Unknown ${kind} id ${id} in envelope`);
+  }
+  return name;
+}
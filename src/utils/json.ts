@@ -0,0 +1,29 @@
+const DATE_TAG = '$date';
+
+/**
+ * JSON.stringify that tags Date values so `parseJson` can turn them back into
+ * Date objects instead of leaving ISO strings behind.
+ */
+export function stringifyJson(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, replaced: unknown) {
+    const original = this[key];
+    if (original instanceof Date) {
+      return { [DATE_TAG]: original.toISOString() };
+    }
+    return replaced;
+  });
+}
+
+export function parseJson<T = any>(text: string): T {
+  return JSON.parse(text, (_key, value) => {
+    if (
+      value &&
+      typeof value === 'object' &&
+      typeof value[DATE_TAG] === 'string' &&
+      Object.keys(value).length === 1
+    ) {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  });
+}
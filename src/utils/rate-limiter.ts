@@ -0,0 +1,153 @@
+export interface RateLimiterOptions {
+  enabled: boolean;
+  ratePerMinute: number; // tokens refilled per minute
+  burst: number; // bucket capacity
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number; // ms until the next token, 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Full buckets carry no state worth keeping, so they are dropped past this size
+const PRUNE_THRESHOLD = 10000;
+
+/**
+ * Token buckets keyed by caller (API key, client IP, agent action). Each
+ * bucket starts full at `burst` tokens and refills at `ratePerMinute`.
+ */
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private buckets: Map<string, Bucket> = new Map();
+  private clock: () => number;
+
+  constructor(options: RateLimiterOptions, clock: () => number = Date.now) {
+    this.options = options;
+    this.clock = clock;
+  }
+
+  public configure(options: RateLimiterOptions): void {
+    this.options = options;
+    this.buckets.clear();
+  }
+
+  public isEnabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * Takes `cost` tokens from the key's bucket if it holds enough.
+   */
+  public consume(key: string, cost = 1): RateLimitResult {
+    return this.take(key, cost, true);
+  }
+
+  /**
+   * Reports whether `consume` would succeed without taking anything.
+   */
+  public check(key: string, cost = 1): RateLimitResult {
+    return this.take(key, cost, false);
+  }
+
+  /**
+   * Waits until `cost` tokens are available and takes them. Rejects with the
+   * signal's reason when it aborts, and right away when `cost` is more than
+   * the bucket can ever hold.
+   */
+  public async acquire(key: string, cost = 1, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+
+      const { enabled, burst } = this.options;
+      if (enabled && cost > burst) {
+        throw new Error(`Cannot acquire ${cost} tokens for ${key}; the burst is ${burst}`);
+      }
+
+      const result = this.consume(key, cost);
+      if (result.allowed) {
+        return;
+      }
+      await delay(result.retryAfter, signal);
+    }
+  }
+
+  public reset(key?: string): void {
+    if (key) {
+      this.buckets.delete(key);
+    } else {
+      this.buckets.clear();
+    }
+  }
+
+  private take(key: string, cost: number, commit: boolean): RateLimitResult {
+    const { enabled, ratePerMinute, burst } = this.options;
+    if (!enabled) {
+      return { allowed: true, limit: burst, remaining: burst, retryAfter: 0 };
+    }
+
+    const now = this.clock();
+    const bucket = this.refill(this.buckets.get(key), now);
+    const allowed = bucket.tokens >= cost;
+
+    if (allowed && commit) {
+      bucket.tokens -= cost;
+      if (this.buckets.size >= PRUNE_THRESHOLD) {
+        this.prune(now);
+      }
+      this.buckets.set(key, bucket);
+    }
+
+    const left = allowed && !commit ? bucket.tokens - cost : bucket.tokens;
+    const retryAfter = allowed ? 0 : Math.ceil(((cost - bucket.tokens) * 60000) / ratePerMinute);
+    return { allowed, limit: burst, remaining: Math.floor(left), retryAfter };
+  }
+
+  private refill(bucket: Bucket | undefined, now: number): Bucket {
+    const { ratePerMinute, burst } = this.options;
+    if (!bucket) {
+      return { tokens: burst, updatedAt: now };
+    }
+
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(burst, bucket.tokens + (elapsed * ratePerMinute) / 60000);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (this.refill(bucket, now).tokens >= this.options.burst) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function agentActionKey(agentId: string, action: 'commit' | 'claim'): string {
+  return `${agentId}:${action}`;
+}
+
+// Limits outbound agent actions such as commits and task claims. Disabled
+// until the orchestrator configures it from `security.rateLimiting`.
+export const agentActionLimiter = new RateLimiter({ enabled: false, ratePerMinute: 30, burst: 10 });
@@ -0,0 +1,254 @@
+import * as net from 'net';
+
+type Reply = string | Buffer | number | null | Reply[] | { status: string } | { error: string };
+
+/**
+ * Minimal in-process Redis stand-in speaking RESP over TCP. Supports the
+ * list, set, sorted set, pub/sub and transaction commands the Redis broker
+ * uses.
+ */
+export class FakeRedisServer {
+  private server: net.Server;
+  private sockets: Set<net.Socket> = new Set();
+  private lists: Map<string, Buffer[]> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
+  private sortedSets: Map<string, Map<string, number>> = new Map();
+  private subscriptions: Map<string, Set<net.Socket>> = new Map();
+  // Commands queued by sockets inside MULTI; they run together on EXEC
+  private transactions: Map<net.Socket, Buffer[][]> = new Map();
+
+  constructor() {
+    this.server = net.createServer(socket => this.accept(socket));
+  }
+
+  public async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    const address = this.server.address() as net.AddressInfo;
+    return `redis://127.0.0.1:${address.port}`;
+  }
+
+  public async stop(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  public keys(): string[] {
+    return [...this.lists.keys(), ...this.sets.keys(), ...this.sortedSets.keys()];
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        const parsed = this.parseCommand(buffer);
+        if (!parsed) break;
+        buffer = buffer.subarray(parsed.consumed);
+        const [name, ...args] = parsed.args;
+        socket.write(this.encode(this.execute(socket, name.toString(), args)));
+      }
+    });
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      this.transactions.delete(socket);
+      this.subscriptions.forEach(subscribers => subscribers.delete(socket));
+    });
+    socket.on('error', () => undefined);
+  }
+
+  private execute(socket: net.Socket, name: string, values: Buffer[]): Reply {
+    // Keys, members and channels are text; list values stay binary
+    const args = values.map(value => value.toString());
+    const queued = this.transactions.get(socket);
+    if (queued && !['EXEC', 'DISCARD'].includes(name.toUpperCase())) {
+      queued.push([Buffer.from(name), ...values]);
+      return { status: 'QUEUED' };
+    }
+
+    switch (name.toUpperCase()) {
+      case 'MULTI':
+        this.transactions.set(socket, []);
+        return { status: 'OK' };
+      case 'EXEC': {
+        if (!queued) {
+          return { error: 'ERR EXEC without MULTI' };
+        }
+        this.transactions.delete(socket);
+        return queued.map(([command, ...commandArgs]) => this.execute(socket, command.toString(), commandArgs));
+      }
+      case 'DISCARD':
+        this.transactions.delete(socket);
+        return { status: 'OK' };
+      case 'PING':
+        return { status: 'PONG' };
+      case 'SELECT':
+      case 'CLIENT':
+        return { status: 'OK' };
+      case 'INFO':
+        return 'redis_version:7.0.0\r\nloading:0\r\n';
+      case 'QUIT':
+        setImmediate(() => socket.end());
+        return { status: 'OK' };
+      case 'LPUSH': {
+        const list = this.listFor(args[0]);
+        list.unshift(...values.slice(1).reverse());
+        return list.length;
+      }
+      case 'RPOP': {
+        const value = this.lists.get(args[0])?.pop();
+        return value === undefined ? null : value;
+      }
+      case 'LLEN':
+        return this.lists.get(args[0])?.length || 0;
+      case 'LRANGE': {
+        const list = this.lists.get(args[0]) || [];
+        const stop = Number(args[2]);
+        return list.slice(Number(args[1]), stop === -1 ? undefined : stop + 1);
+      }
+      case 'DEL': {
+        let removed = 0;
+        args.forEach(key => {
+          if (this.lists.delete(key)) removed++;
+          if (this.sets.delete(key)) removed++;
+          if (this.sortedSets.delete(key)) removed++;
+        });
+        return removed;
+      }
+      case 'SADD': {
+        const set = this.setFor(args[0]);
+        const before = set.size;
+        args.slice(1).forEach(member => set.add(member));
+        return set.size - before;
+      }
+      case 'SREM': {
+        const set = this.setFor(args[0]);
+        return args.slice(1).filter(member => set.delete(member)).length;
+      }
+      case 'SMEMBERS':
+        return Array.from(this.sets.get(args[0]) || []);
+      case 'ZADD': {
+        const sortedSet = this.sortedSets.get(args[0]) || new Map<string, number>();
+        let added = 0;
+        for (let index = 1; index + 1 < args.length; index += 2) {
+          if (!sortedSet.has(args[index + 1])) added++;
+          sortedSet.set(args[index + 1], Number(args[index]));
+        }
+        this.sortedSets.set(args[0], sortedSet);
+        return added;
+      }
+      case 'ZREM': {
+        const sortedSet = this.sortedSets.get(args[0]);
+        const removed = args.slice(1).filter(member => sortedSet?.delete(member)).length;
+        if (sortedSet?.size === 0) this.sortedSets.delete(args[0]);
+        return removed;
+      }
+      case 'ZRANGE':
+        // Only the whole set, which is all the broker asks for
+        return this.sortedMembers(args[0]).map(([member]) => member);
+      case 'ZREMRANGEBYSCORE': {
+        const min = this.parseScore(args[1]);
+        const max = this.parseScore(args[2]);
+        const sortedSet = this.sortedSets.get(args[0]);
+        const removed = this.sortedMembers(args[0]).filter(([member, score]) =>
+          score >= min && score <= max && sortedSet?.delete(member)
+        ).length;
+        if (sortedSet?.size === 0) this.sortedSets.delete(args[0]);
+        return removed;
+      }
+      case 'PUBLISH': {
+        const subscribers = this.subscriptions.get(args[0]) || new Set();
+        subscribers.forEach(subscriber => subscriber.write(this.encode(['message', args[0], values[1]])));
+        return subscribers.size;
+      }
+      case 'SUBSCRIBE': {
+        // One confirmation per channel; only the last goes through the normal reply path
+        args.forEach((channel, index) => {
+          const subscribers = this.subscriptions.get(channel) || new Set();
+          subscribers.add(socket);
+          this.subscriptions.set(channel, subscribers);
+          if (index < args.length - 1) {
+            socket.write(this.encode(['subscribe', channel, index + 1]));
+          }
+        });
+        return ['subscribe', args[args.length - 1], args.length];
+      }
+      default:
+        return { error: `ERR unknown command '${name}'` };
+    }
+  }
+
+  private listFor(key: string): Buffer[] {
+    let list = this.lists.get(key);
+    if (!list) {
+      list = [];
+      this.lists.set(key, list);
+    }
+    return list;
+  }
+
+  private sortedMembers(key: string): [string, number][] {
+    return Array.from(this.sortedSets.get(key) || []).sort(([a, x], [b, y]) => x - y || a.localeCompare(b));
+  }
+
+  private parseScore(value: string): number {
+    if (value === '-inf') return -Infinity;
+    if (value === '+inf' || value === 'inf') return Infinity;
+    return Number(value);
+  }
+
+  private setFor(key: string): Set<string> {
+    let set = this.sets.get(key);
+    if (!set) {
+      set = new Set();
+      this.sets.set(key, set);
+    }
+    return set;
+  }
+
+  private parseCommand(buffer: Buffer): { args: Buffer[]; consumed: number } | null {
+    if (buffer.length === 0 || buffer[0] !== 0x2a /* '*' */) {
+      return null;
+    }
+
+    let offset = 0;
+    const readLine = (): string | null => {
+      const end = buffer.indexOf('\r\n', offset);
+      if (end === -1) return null;
+      const line = buffer.toString('utf8', offset, end);
+      offset = end + 2;
+      return line;
+    };
+
+    const header = readLine();
+    if (header === null) return null;
+    const count = Number(header.substring(1));
+    const args: Buffer[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const lengthLine = readLine();
+      if (lengthLine === null) return null;
+      const length = Number(lengthLine.substring(1));
+      if (buffer.length < offset + length + 2) return null;
+      args.push(Buffer.from(buffer.subarray(offset, offset + length)));
+      offset += length + 2;
+    }
+
+    return { args, consumed: offset };
+  }
+
+  private encode(reply: Reply): Buffer {
+    if (reply === null) return Buffer.from('$-1\r\n');
+    if (typeof reply === 'number') return Buffer.from(`:${reply}\r\n`);
+    if (typeof reply === 'string' || Buffer.isBuffer(reply)) {
+      const bytes = Buffer.from(reply);
+      return Buffer.concat([Buffer.from(`$${bytes.length}\r\n`), bytes, Buffer.from('\r\n')]);
+    }
+    if (Array.isArray(reply)) {
+      return Buffer.concat([Buffer.from(`*${reply.length}\r\n`), ...reply.map(item => this.encode(item))]);
+    }
+    if ('error' in reply) return Buffer.from(`-${reply.error}\r\n`);
+    return Buffer.from(`+${reply.status}\r\n`);
+  }
+}
@@ -0,0 +1,24 @@
+import { Task, TaskStatus, TaskType, Priority } from '../../src/types/task.types';
+
+/**
+ * An in-progress feature task writing feature.txt; tests override only the
+ * fields they care about.
+ */
+export const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  type: TaskType.FEATURE,
+  priority: Priority.HIGH,
+  dependencies: [],
+  estimatedDuration: 10,
+  title: 'Add greeting',
+  description: 'Write a greeting to feature.txt',
+  requirements: [{ id: 'r1', description: 'Say hello', type: 'functional', satisfied: false }],
+  status: TaskStatus.IN_PROGRESS,
+  progress: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  metadata: {},
+  tags: [],
+  files: ['feature.txt'],
+  ...overrides
+});
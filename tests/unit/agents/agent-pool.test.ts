@@ -0,0 +1,79 @@
+import { expandAgentPool, poolFromRoles } from '../../../src/agents/agent-pool';
+import { AgentRole } from '../../../src/types/agent.types';
+import { AgentPoolEntry } from '../../../src/types/config.types';
+
+describe('agent pool', () => {
+  const defaults = {
+    workingDirectory: '/repo',
+    taskTimeout: 600000,
+    healthCheckInterval: 10000,
+    model: 'default-model'
+  };
+
+  const entry = (overrides: Partial<AgentPoolEntry>): AgentPoolEntry => ({
+    id: '{role}-{n}',
+    role: AgentRole.BACKEND,
+    count: 1,
+    capabilities: [],
+    maxConcurrentTasks: 2,
+    ...overrides
+  });
+
+  it('should expand each entry into count agents with their settings', () => {
+    const configs = expandAgentPool([
+      entry({
+        id: 'api-{n}',
+        name: 'API worker {n}',
+        count: 2,
+        capabilities: [{ name: 'postgres', level: 9, description: 'SQL' }],
+        maxConcurrentTasks: 3,
+        model: 'large-model',
+        baseBranch: 'develop'
+      })
+    ], defaults);
+
+    expect(configs).toEqual([1, 2].map(n => ({
+      id: `api-00${n}`,
+      name: `API worker 00${n}`,
+      role: AgentRole.BACKEND,
+      workingDirectory: '/repo',
+      capabilities: [{ name: 'postgres', level: 9, description: 'SQL' }],
+      maxConcurrentTasks: 3,
+      taskTimeout: 600000,
+      healthCheckInterval: 10000,
+      model: 'large-model',
+      baseBranch: 'develop',
+      settings: {}
+    })));
+    expect(configs[0].capabilities).not.toBe(configs[1].capabilities);
+  });
+
+  it('should keep numbering agents across entries for the same role', () => {
+    const configs = expandAgentPool([
+      entry({ count: 2 }),
+      entry({ role: AgentRole.QA }),
+      entry({ model: 'large-model' })
+    ], defaults);
+
+    expect(configs.map(config => [config.id, config.name, config.model])).toEqual([
+      ['backend-001', 'Backend Developer', 'default-model'],
+      ['backend-002', 'Backend Developer 2', 'default-model'],
+      ['qa-001', 'Quality Assurance', 'default-model'],
+      ['backend-003', 'Backend Developer 3', 'large-model']
+    ]);
+  });
+
+  it('should reject id templates that produce the same id twice', () => {
+    expect(() => expandAgentPool([entry({ id: 'worker', count: 2 })], defaults))
+      .toThrow('agents.pool defines agent "worker" more than once');
+    expect(() => expandAgentPool([entry({ id: 'worker' }), entry({ id: 'worker', role: AgentRole.QA })], defaults))
+      .toThrow('more than once');
+  });
+
+  it('should describe agents.defaultRoles as a pool', () => {
+    const configs = expandAgentPool(poolFromRoles([AgentRole.FRONTEND, AgentRole.FRONTEND]), defaults);
+
+    expect(configs.map(config => config.id)).toEqual(['frontend-001', 'frontend-002']);
+    expect(configs.every(config => config.maxConcurrentTasks === 2)).toBe(true);
+  });
+});
@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import { Autoscaler, AutoscalerOptions } from '../../../src/agents/autoscaler';
+import { AgentRegistry } from '../../../src/agents/agent-registry';
+import { TaskManager } from '../../../src/tasks/task-manager';
+import { eventBus, SystemEvent } from '../../../src/core/events';
+import { AgentRole, AgentStatus, AgentConfig, AgentCapability, IAgent } from '../../../src/types/agent.types';
+import { Task, TaskResult, TaskType } from '../../../src/types/task.types';
+
+class FakeAgent extends EventEmitter implements IAgent {
+  public id: string;
+  public name: string;
+  public role: AgentRole;
+  public capabilities: AgentCapability[];
+  public status = AgentStatus.INACTIVE;
+  public workingDirectory = '/tmp';
+  public lastActivity = new Date();
+  public metadata = {};
+  public metrics = {
+    tasksCompleted: 0,
+    averageTaskDuration: 0,
+    successRate: 1,
+    codeQualityScore: 85,
+    collaborationScore: 0,
+    lastActivityTime: new Date()
+  };
+  public busy = false;
+
+  constructor(private config: AgentConfig) {
+    super();
+    this.id = config.id;
+    this.name = config.name;
+    this.role = config.role;
+    this.capabilities = config.capabilities;
+  }
+
+  async start(): Promise<void> {
+    this.status = AgentStatus.ACTIVE;
+  }
+  async stop(): Promise<void> {
+    this.status = AgentStatus.INACTIVE;
+  }
+  async restart(): Promise<void> {}
+  async sendMessage(): Promise<void> {}
+  async cancelTask(): Promise<void> {}
+  getAvailableTaskSlots(): number {
+    return this.status === AgentStatus.ACTIVE && !this.busy ? this.config.maxConcurrentTasks : 0;
+  }
+  async updateStatus(status: AgentStatus): Promise<void> {
+    this.status = status;
+  }
+  async getHealth(): Promise<any> {
+    return { status: this.status };
+  }
+  async executeTask(task: Task): Promise<TaskResult> {
+    return { taskId: task.id, success: true, duration: 1, metadata: {}, changedFiles: [], completedAt: new Date() };
+  }
+}
+
+describe('Autoscaler', () => {
+  let registry: AgentRegistry;
+  let taskManager: TaskManager;
+  let created: FakeAgent[];
+
+  const agentConfig = (id: string, role: AgentRole): AgentConfig => ({
+    id,
+    name: id,
+    role,
+    workingDirectory: '/tmp',
+    capabilities: [],
+    maxConcurrentTasks: 2,
+    healthCheckInterval: 30000,
+    settings: {}
+  });
+
+  const createAutoscaler = (overrides: Partial<AutoscalerOptions> = {}) =>
+    new Autoscaler(registry, taskManager, {
+      config: {
+        enabled: true,
+        interval: 1000,
+        queueThreshold: 3,
+        idleCooldown: 60000,
+        defaultRole: AgentRole.FULL_STACK
+      },
+      maxAgents: 5,
+      pool: [],
+      defaults: { workingDirectory: '/tmp', taskTimeout: 60000, healthCheckInterval: 30000 },
+      createAgent: config => {
+        const agent = new FakeAgent(config);
+        created.push(agent);
+        return agent;
+      },
+      ...overrides
+    });
+
+  const addBusyAgent = async (id: string, role: AgentRole) => {
+    const agent = new FakeAgent(agentConfig(id, role));
+    await agent.start();
+    agent.busy = true;
+    await registry.registerAgent(agent, agentConfig(id, role));
+    return agent;
+  };
+
+  const submit = (count: number, role?: AgentRole, type = TaskType.FEATURE) =>
+    taskManager.createTasks(Array.from({ length: count }, (_, i) => ({
+      title: `Task ${i}`,
+      description: 'work',
+      type,
+      metadata: role ? { role } : {}
+    })));
+
+  const scalingEvents = () =>
+    eventBus.getEventHistory(SystemEvent.ORCHESTRATOR_DECISION).map(event => event.metadata.data);
+
+  beforeEach(() => {
+    registry = new AgentRegistry({
+      maxAgents: 5,
+      healthCheckInterval: 30000,
+      autoRestart: false,
+      loadBalancing: 'capability-based'
+    });
+    taskManager = new TaskManager(registry, { autoDispatch: false });
+    jest.spyOn(taskManager, 'processQueue').mockResolvedValue();
+    created = [];
+    eventBus.clearHistory();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await taskManager.cleanup();
+    await registry.cleanup();
+  });
+
+  it('should add an agent for a role whose backlog reaches the threshold', async () => {
+    await addBusyAgent('backend-001', AgentRole.BACKEND);
+    submit(3, AgentRole.BACKEND);
+    const autoscaler = createAutoscaler({
+      pool: [{ id: '{role}-{n}', role: AgentRole.BACKEND, count: 1, capabilities: [], maxConcurrentTasks: 4, model: 'large' }]
+    });
+
+    const decisions = await autoscaler.evaluate();
+
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({ type: 'scaling', action: 'Added backend agent backend-002' });
+    expect(decisions[0].reasoning).toContain('3 tasks a backend agent can run are waiting and no agent with a free task slot can take them');
+    expect(scalingEvents()).toEqual([{ decision: decisions[0], role: AgentRole.BACKEND, agentId: 'backend-002' }]);
+
+    const agent = registry.getAgent('backend-002');
+    expect(agent).toBe(created[0]);
+    expect(agent?.status).toBe(AgentStatus.ACTIVE);
+    expect(agent?.getAvailableTaskSlots()).toBe(4);
+    expect(autoscaler.getScaledAgents()).toEqual(['backend-002']);
+    expect(taskManager.processQueue).toHaveBeenCalled();
+
+    // The new agent's free slots cover the backlog
+    expect(await autoscaler.evaluate()).toEqual([]);
+  });
+
+  it('should stay below the threshold and tell roles apart', async () => {
+    await addBusyAgent('backend-001', AgentRole.BACKEND);
+    submit(2, AgentRole.BACKEND);
+    submit(2, undefined, TaskType.TEST);
+    const autoscaler = createAutoscaler();
+
+    expect(await autoscaler.evaluate()).toEqual([]);
+
+    const [test] = submit(1, undefined, TaskType.TEST);
+    const [feature] = submit(1);
+    expect(autoscaler.roleForTask(test)).toBe(AgentRole.QA);
+    expect(autoscaler.roleForTask(feature)).toBe(AgentRole.FULL_STACK);
+
+    const decisions = await autoscaler.evaluate();
+    expect(decisions.map(decision => decision.action)).toEqual(['Added qa agent qa-001']);
+  });
+
+  it('should count only tasks that no free agent can take and that are due', async () => {
+    const frontend = new FakeAgent(agentConfig('frontend-001', AgentRole.FRONTEND));
+    await frontend.start();
+    await registry.registerAgent(frontend, agentConfig('frontend-001', AgentRole.FRONTEND));
+    submit(3, AgentRole.BACKEND);
+    const autoscaler = createAutoscaler();
+
+    // The frontend agent's two free slots take two of the backend tasks
+    expect(await autoscaler.evaluate()).toEqual([]);
+
+    frontend.busy = true;
+    const delayed = submit(1, AgentRole.BACKEND)[0];
+    delayed.metadata.retryNotBefore = new Date(Date.now() + 60000);
+    expect(await autoscaler.evaluate()).toHaveLength(1);
+  });
+
+  it('should add an agent of a role whose capabilities the tasks require', async () => {
+    await addBusyAgent('backend-001', AgentRole.BACKEND);
+    taskManager.createTasks(Array.from({ length: 3 }, (_, i) => ({
+      title: `Task ${i}`,
+      description: 'work',
+      type: TaskType.FEATURE,
+      metadata: { role: AgentRole.BACKEND },
+      requirements: [{ id: `r${i}`, description: 'terraform', type: 'technical' as const, satisfied: false }]
+    })));
+    const autoscaler = createAutoscaler({
+      pool: [
+        { id: '{role}-{n}', role: AgentRole.BACKEND, count: 1, capabilities: [], maxConcurrentTasks: 2 },
+        { id: '{role}-{n}', role: AgentRole.DEVOPS, count: 1, capabilities: [{ name: 'terraform', level: 8, description: '' }], maxConcurrentTasks: 2 }
+      ]
+    });
+
+    const decisions = await autoscaler.evaluate();
+
+    expect(decisions.map(decision => decision.action)).toEqual(['Added devops agent devops-001']);
+  });
+
+  it('should record once that the agent limit holds a role back', async () => {
+    await addBusyAgent('backend-001', AgentRole.BACKEND);
+    submit(4, AgentRole.BACKEND);
+    const autoscaler = createAutoscaler({ maxAgents: 1 });
+
+    const decisions = await autoscaler.evaluate();
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({ type: 'scaling', action: 'Hold backend agents' });
+    expect(decisions[0].reasoning).toContain('all 1 agents allowed by agents.maxConcurrentAgents are running');
+
+    expect(await autoscaler.evaluate()).toEqual([]);
+    expect(created).toHaveLength(0);
+  });
+
+  it('should retire an added agent once it has been idle for the cooldown', async () => {
+    await addBusyAgent('backend-001', AgentRole.BACKEND);
+    const tasks = submit(3, AgentRole.BACKEND);
+    const autoscaler = createAutoscaler();
+    await autoscaler.evaluate();
+    const [added] = created;
+
+    tasks.forEach(task => taskManager.cancelTask(task.id));
+    added.busy = true;
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    expect(await autoscaler.evaluate()).toEqual([]);
+
+    // Idle from here on, but not yet for the whole cooldown
+    added.busy = false;
+    expect(await autoscaler.evaluate()).toEqual([]);
+    jest.spyOn(Date, 'now').mockReturnValue(now + 59000);
+    expect(await autoscaler.evaluate()).toEqual([]);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61000);
+    const decisions = await autoscaler.evaluate();
+
+    expect(decisions.map(decision => decision.action)).toEqual(['Retired backend agent backend-002']);
+    expect(decisions[0].reasoning).toContain('idle for 61s');
+    expect(registry.getAgent('backend-002')).toBeUndefined();
+    expect(added.status).toBe(AgentStatus.INACTIVE);
+    // Configured agents are never retired
+    expect(registry.getAgent('backend-001')).toBeDefined();
+    expect(autoscaler.getScaledAgents()).toEqual([]);
+  });
+});
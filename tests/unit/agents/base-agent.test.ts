@@ -0,0 +1,185 @@
+import { BaseAgent } from '../../../src/agents/base-agent';
+import { eventBus, SystemEvent } from '../../../src/core/events';
+import { messageBus, MessageBus } from '../../../src/communication/message-bus';
+import { Message, MessageType } from '../../../src/types/message.types';
+import { AgentRole, AgentStatus, AgentConfig } from '../../../src/types/agent.types';
+import { Task, TaskResult } from '../../../src/types/task.types';
+import { createTask } from '../../helpers/tasks';
+
+class SlowAgent extends BaseAgent {
+  public aborted: string[] = [];
+
+  constructor(config: Partial<AgentConfig> = {}) {
+    super({
+      id: 'slow-001',
+      name: 'Slow Agent',
+      role: AgentRole.BACKEND,
+      workingDirectory: '/tmp',
+      capabilities: [],
+      maxConcurrentTasks: 1,
+      healthCheckInterval: 30000,
+      settings: {},
+      ...config
+    });
+  }
+
+  protected async initialize(): Promise<void> {}
+  protected async cleanup(): Promise<void> {}
+
+  protected canHandleTask(): boolean {
+    return true;
+  }
+
+  protected performTask(task: Task, signal: AbortSignal): Promise<TaskResult> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () =>
+          resolve({
+            taskId: task.id,
+            success: true,
+            duration: 0,
+            metadata: {},
+            changedFiles: [],
+            completedAt: new Date()
+          }),
+        task.estimatedDuration
+      );
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        this.aborted.push(task.id);
+        reject(signal.reason);
+      });
+    });
+  }
+}
+
+// Takes a while to stop once aborted, as work that rolls back its changes does
+class LingeringAgent extends SlowAgent {
+  public events: string[] = [];
+
+  protected async cleanup(): Promise<void> {
+    this.events.push('cleanup');
+  }
+
+  protected performTask(task: Task, signal: AbortSignal): Promise<TaskResult> {
+    return new Promise((_, reject) => {
+      signal.addEventListener('abort', () => setTimeout(() => {
+        this.events.push(`stopped ${task.id}`);
+        reject(signal.reason);
+      }, 50));
+    });
+  }
+}
+
+class EchoAgent extends SlowAgent {
+  public inbox: Message[] = [];
+
+  protected async handleMessage(message: Message): Promise<any> {
+    this.inbox.push(message);
+    return { echo: message.content };
+  }
+}
+
+describe('BaseAgent task execution', () => {
+  afterEach(() => {
+    eventBus.clearHistory();
+  });
+
+  it('should fail a task that exceeds the task timeout', async () => {
+    const agent = new SlowAgent({ taskTimeout: 20 });
+    await agent.updateStatus(AgentStatus.ACTIVE);
+
+    const result = await agent.executeTask(createTask({ id: 't1', estimatedDuration: 1000 }));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Task t1 timed out after 20ms');
+    expect(result.metadata).toEqual({ timedOut: true, timeout: 20 });
+    expect(agent.aborted).toEqual(['t1']);
+
+    const failed = eventBus.getEventHistory(SystemEvent.TASK_FAILED) as any[];
+    expect(failed[failed.length - 1].data).toMatchObject({ taskId: 't1', reason: 'timeout' });
+  });
+
+  it('should run up to maxConcurrentTasks tasks at once', async () => {
+    const agent = new SlowAgent({ maxConcurrentTasks: 2 });
+    await agent.updateStatus(AgentStatus.ACTIVE);
+
+    const first = agent.executeTask(createTask({ id: 't1', estimatedDuration: 30 }));
+    expect(agent.getAvailableTaskSlots()).toBe(1);
+    expect(agent.status).toBe(AgentStatus.ACTIVE);
+
+    const second = agent.executeTask(createTask({ id: 't2', estimatedDuration: 30 }));
+    expect(agent.getAvailableTaskSlots()).toBe(0);
+    await expect(agent.executeTask(createTask({ id: 't3', estimatedDuration: 30 }))).rejects.toThrow(/at capacity/);
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(agent.status).toBe(AgentStatus.BUSY);
+    expect(agent.getCurrentTasks().map(t => t.id)).toEqual(['t1', 't2']);
+
+    const results = await Promise.all([first, second]);
+    expect(results.every(r => r.success)).toBe(true);
+    expect(agent.status).toBe(AgentStatus.ACTIVE);
+    expect(agent.getAvailableTaskSlots()).toBe(2);
+  });
+
+  it('should abort a running task when it is cancelled', async () => {
+    const agent = new SlowAgent();
+    await agent.updateStatus(AgentStatus.ACTIVE);
+
+    const running = agent.executeTask(createTask({ id: 't1', estimatedDuration: 1000 }));
+    await agent.cancelTask('t1', 'No longer needed');
+    const result = await running;
+
+    expect(result.success).toBe(false);
+    expect(result.metadata.cancelled).toBe(true);
+    expect(result.error).toBe('Task t1 cancelled: No longer needed');
+  });
+
+  it('should keep the slot of an aborted task until its work stops', async () => {
+    const agent = new LingeringAgent({ taskTimeout: 20 });
+    await agent.updateStatus(AgentStatus.ACTIVE);
+
+    const result = await agent.executeTask(createTask({ id: 't1', estimatedDuration: 1000 }));
+
+    expect(result.metadata.timedOut).toBe(true);
+    expect(agent.events).toEqual(['stopped t1']);
+    expect(agent.getAvailableTaskSlots()).toBe(1);
+  });
+
+  it('should let cancelled tasks stop before cleaning up on shutdown', async () => {
+    const agent = new LingeringAgent();
+    await agent.start();
+
+    const running = agent.executeTask(createTask({ id: 't1', estimatedDuration: 1000 }));
+    await agent.stop();
+
+    expect(agent.events).toEqual(['stopped t1', 'cleanup']);
+    expect((await running).metadata.cancelled).toBe(true);
+  });
+});
+
+describe('BaseAgent messaging', () => {
+  it('should receive messages while running and answer requests', async () => {
+    const sender = new SlowAgent({ id: 'sender-001' });
+    const echo = new EchoAgent({ id: 'echo-001' });
+    await sender.start();
+    await echo.start();
+
+    try {
+      await sender.sendMessage(
+        MessageBus.createMessage(sender.id, echo.id, MessageType.NOTIFICATION, 'hi')
+      );
+      const response = await sender.request(echo.id, 'ping');
+      await messageBus.idle();
+
+      expect(response.content).toEqual({ echo: 'ping' });
+      expect(echo.inbox.map(message => message.content)).toEqual(['hi', 'ping']);
+    } finally {
+      await sender.stop();
+      await echo.stop();
+      eventBus.clearHistory();
+    }
+
+    expect(messageBus.hasSubscriber(echo.id)).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { DevelopmentAgent } from '../../../src/agents/dev-agent';
+import { ExecutorRegistry, registerBuiltinExecutors } from '../../../src/agents/executors';
+import { PromptLibrary } from '../../../src/tasks/prompt-library';
+import { eventBus, SystemEvent, TaskEvent } from '../../../src/core/events';
+import { AgentRole } from '../../../src/types/agent.types';
+import { ClaudeCodeConfig } from '../../../src/types/config.types';
+import { createTask } from '../../helpers/tasks';
+
+// Stands in for the claude binary; STUB_MODE picks what it does
+const STUB = `#!/bin/sh
+prompt=$(cat)
+echo "cwd $(pwd)"
+echo "args $*"
+echo "$prompt" | head -n 1
+case "$STUB_MODE" in
+  fail)
+    echo "API key missing" >&2
+    exit 2
+    ;;
+  hang)
+    echo $$ > "$STUB_PID_FILE"
+    sleep 30
+    ;;
+  *)
+    echo "hello" > feature.txt
+    echo "done"
+    ;;
+esac
+`;
+
+const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf8' }).trim();
+
+describe('ClaudeCodeExecutor', () => {
+  let dir: string;
+  let repo: string;
+  let agent: DevelopmentAgent;
+  const originalPath = process.env.PATH;
+
+  const claudeCode: ClaudeCodeConfig = {
+    enabled: true,
+    version: 'latest',
+    binary: 'claude',
+    args: ['--print'],
+    defaultModel: 'default-model'
+  };
+
+  const createAgent = (taskTimeout = 20000, config: ClaudeCodeConfig = claudeCode) => new DevelopmentAgent({
+    id: 'backend-001',
+    name: 'Backend Developer',
+    role: AgentRole.BACKEND,
+    workingDirectory: repo,
+    capabilities: [],
+    maxConcurrentTasks: 1,
+    taskTimeout,
+    healthCheckInterval: 30000,
+    model: 'test-model',
+    settings: {}
+  }, registerBuiltinExecutors(new ExecutorRegistry(), { claudeCode: config }));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-claude-'));
+    const bin = path.join(dir, 'bin');
+    fs.mkdirSync(bin);
+    fs.writeFileSync(path.join(bin, 'claude'), STUB, { mode: 0o755 });
+    process.env.PATH = `${bin}${path.delimiter}${originalPath}`;
+
+    repo = path.join(dir, 'repo');
+    fs.mkdirSync(repo);
+    git(repo, 'init', '-q', '-b', 'main');
+    git(repo, 'config', 'user.email', 'mado@example.com');
+    git(repo, 'config', 'user.name', 'MADO');
+    fs.writeFileSync(path.join(repo, 'README.md'), '# Repo\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'Initial commit');
+
+    eventBus.clearHistory();
+  });
+
+  afterEach(async () => {
+    await agent?.stop();
+    process.env.PATH = originalPath;
+    delete process.env.STUB_MODE;
+    delete process.env.STUB_PID_FILE;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run the binary in its worktree, stream its output and commit the changes', async () => {
+    agent = createAgent();
+    await agent.start();
+    const worktree = git(repo, 'worktree', 'list', '--porcelain').split('\n')
+      .filter(line => line.startsWith('worktree '))
+      .map(line => line.slice('worktree '.length))
+      .find(worktreePath => worktreePath !== repo)!;
+
+    const result = await agent.executeTask(createTask());
+
+    expect(result.success).toBe(true);
+    expect(result.changedFiles).toEqual(['feature.txt']);
+    expect(result.metadata).toMatchObject({ executor: 'claude-code', model: 'test-model', exitCode: 0, worktree });
+    expect(result.output).toBe(`cwd ${fs.realpathSync(worktree)}\nargs --print --model test-model\n# Add greeting\ndone\n`);
+    // The prompt given to the binary can be reproduced from the result
+    const prompt = await new PromptLibrary().render(createTask(), { role: AgentRole.BACKEND });
+    expect(result.metadata).toMatchObject({ promptTemplate: 'built-in', promptVersion: '2', promptHash: prompt.hash });
+    const head = git(worktree, 'rev-parse', 'HEAD~1');
+    expect(result.metadata.context).toEqual({ commit: head, items: 0, size: 0 });
+
+    // Committed on the agent's branch, not in the main checkout
+    expect(git(worktree, 'log', '-1', '--format=%s')).toBe('feat(backend): Add greeting');
+    expect(git(worktree, 'status', '--porcelain')).toBe('');
+    expect(git(repo, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+    expect(fs.existsSync(path.join(repo, 'feature.txt'))).toBe(false);
+
+    const notes = eventBus.getEventHistory(SystemEvent.TASK_PROGRESS_UPDATED)
+      .map(event => event as TaskEvent)
+      .filter(event => event.taskId === 'task-1')
+      .map(event => [event.agentId, event.data.note]);
+    expect(notes).toEqual([
+      ['backend-001', `Packed 0 context items (0 of 60000 characters) at ${head.slice(0, 8)}`],
+      ['backend-001', `cwd ${fs.realpathSync(worktree)}`],
+      ['backend-001', 'args --print --model test-model'],
+      ['backend-001', '# Add greeting'],
+      ['backend-001', 'done']
+    ]);
+  });
+
+  it('should fail the task with the error the binary reported', async () => {
+    process.env.STUB_MODE = 'fail';
+    agent = createAgent();
+    await agent.start();
+
+    const result = await agent.executeTask(createTask());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('claude exited with code 2: API key missing');
+    expect(result.output).toContain('# Add greeting');
+    expect(result.metadata).toMatchObject({ executor: 'claude-code', exitCode: 2 });
+    expect(result.changedFiles).toEqual([]);
+  });
+
+  it('should stop the binary when the task times out', async () => {
+    process.env.STUB_MODE = 'hang';
+    process.env.STUB_PID_FILE = path.join(dir, 'stub.pid');
+    agent = createAgent(1000);
+    await agent.start();
+
+    const result = await agent.executeTask(createTask());
+
+    expect(result.success).toBe(false);
+    expect(result.metadata).toEqual({ timedOut: true, timeout: 1000 });
+
+    const pid = parseInt(fs.readFileSync(process.env.STUB_PID_FILE, 'utf8'), 10);
+    const deadline = Date.now() + 5000;
+    let alive = true;
+    while (alive && Date.now() < deadline) {
+      try {
+        process.kill(pid, 0);
+        await new Promise(resolve => setTimeout(resolve, 50));
+      } catch {
+        alive = false;
+      }
+    }
+    expect(alive).toBe(false);
+  });
+
+  it('should report a binary that cannot be found', async () => {
+    agent = createAgent(20000, { ...claudeCode, binary: 'no-such-claude' });
+    await agent.start();
+
+    const result = await agent.executeTask(createTask());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Could not run Claude Code binary "no-such-claude": spawn no-such-claude ENOENT/);
+  });
+});
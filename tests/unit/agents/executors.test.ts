@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { DevelopmentAgent } from '../../../src/agents/dev-agent';
+import {
+  ExecutorRegistry,
+  registerBuiltinExecutors,
+  loadExecutorPlugins,
+  TemplateExecutor,
+  DryRunExecutor
+} from '../../../src/agents/executors';
+import { GitRepository } from '../../../src/git/repository';
+import { AgentRole } from '../../../src/types/agent.types';
+import { ExecutionContext, TaskExecutor } from '../../../src/types/executor.types';
+import { TaskType } from '../../../src/types/task.types';
+import { createTask } from '../../helpers/tasks';
+
+const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf8' }).trim();
+
+const noop: TaskExecutor = { execute: async () => ({ output: '', metadata: {} }) };
+
+describe('ExecutorRegistry', () => {
+  let registry: ExecutorRegistry;
+
+  beforeEach(() => {
+    registry = new ExecutorRegistry();
+    ['template', 'dry-run', 'generator', 'docs'].forEach(name => registry.register(name, noop));
+    registry.configure({
+      default: 'template',
+      byTaskType: { [TaskType.DOCUMENTATION]: 'docs' },
+      byRole: { [AgentRole.BACKEND]: 'generator' }
+    });
+  });
+
+  it('should prefer the task, then its type, then the role, then the default', () => {
+    expect(registry.resolve(createTask({ type: TaskType.DOCUMENTATION, metadata: { executor: 'dry-run' } }), AgentRole.BACKEND).name).toBe('dry-run');
+    expect(registry.resolve(createTask({ type: TaskType.DOCUMENTATION }), AgentRole.BACKEND).name).toBe('docs');
+    expect(registry.resolve(createTask(), AgentRole.BACKEND).name).toBe('generator');
+    expect(registry.resolve(createTask(), AgentRole.FRONTEND).name).toBe('template');
+  });
+
+  it('should reject selections that name unregistered executors', () => {
+    registry.configure({ byRole: { [AgentRole.QA]: 'missing' } });
+
+    expect(() => registry.validate()).toThrow(
+      'agents.executors.byRole.qa names executor "missing", which is not registered (available: template, dry-run, generator, docs)'
+    );
+    expect(() => registry.resolve(createTask({ metadata: { executor: 'missing' } }), AgentRole.FRONTEND)).toThrow(
+      'Task task-1 needs executor "missing", which is not registered'
+    );
+  });
+
+  it('should register executors exported by plugin modules', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-plugin-'));
+    try {
+      const pluginPath = path.join(dir, 'generator.js');
+      fs.writeFileSync(pluginPath, 'module.exports = () => ({ execute: async () => ({ output: "plugin", metadata: {} }) });\n');
+
+      const plugins = new ExecutorRegistry();
+      loadExecutorPlugins(plugins, { 'in-house': pluginPath });
+      expect(plugins.getNames()).toEqual(['in-house']);
+
+      loadExecutorPlugins(plugins, { relative: './generator.js' }, dir);
+      expect(plugins.getNames()).toEqual(['in-house', 'relative']);
+
+      expect(() => loadExecutorPlugins(plugins, { broken: path.join(dir, 'missing.js') })).toThrow(
+        /^Could not load executor "broken" from /
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('built-in executors', () => {
+  let dir: string;
+  let context: ExecutionContext;
+  let notes: string[];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-executor-'));
+    notes = [];
+    context = {
+      agentId: 'frontend-001',
+      agentName: 'Frontend Developer',
+      role: AgentRole.FRONTEND,
+      workspace: dir,
+      env: process.env,
+      git: new GitRepository(dir),
+      isolated: false,
+      signal: new AbortController().signal,
+      report: note => notes.push(note),
+      getRepositoryContext: async () => undefined
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write placeholder files from the templates', async () => {
+    const executor = new TemplateExecutor();
+
+    const outcome = await executor.execute(createTask(), context);
+
+    expect(outcome.output).toBe('Feature implementation completed:\nCreated feature.txt');
+    expect(fs.readFileSync(path.join(dir, 'feature.txt'), 'utf8')).toContain('Generated by Agent: Frontend Developer');
+    expect(notes).toEqual(['Implementing feature: Write a greeting to feature.txt']);
+    expect(executor.canExecute(createTask({ type: TaskType.DEPLOYMENT }))).toBe(false);
+  });
+
+  it('should describe the task without changing anything on a dry run', async () => {
+    const outcome = await new DryRunExecutor().execute(createTask(), context);
+
+    expect(outcome.output.startsWith('# Add greeting\n')).toBe(true);
+    expect(outcome.metadata).toMatchObject({ dryRun: true, promptTemplate: 'built-in', promptHash: expect.stringMatching(/^sha256:/) });
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
+
+describe('DevelopmentAgent with the shell executor', () => {
+  let dir: string;
+  let repo: string;
+  let agent: DevelopmentAgent;
+
+  const createAgent = (command: string, verifyCommand?: string, id = 'backend-001', maxConcurrentTasks = 1) => new DevelopmentAgent({
+    id,
+    name: 'Backend Developer',
+    role: AgentRole.BACKEND,
+    workingDirectory: repo,
+    capabilities: [],
+    maxConcurrentTasks,
+    taskTimeout: 20000,
+    healthCheckInterval: 30000,
+    settings: {}
+  }, (() => {
+    const registry = registerBuiltinExecutors(new ExecutorRegistry(), { shell: { command, verifyCommand } });
+    registry.configure({ default: 'shell' });
+    return registry;
+  })());
+
+  const agentWorktree = (id = 'backend-001') => git(repo, 'worktree', 'list', '--porcelain').split('\n')
+    .filter(line => line.startsWith('worktree '))
+    .map(line => line.slice('worktree '.length))
+    .find(worktreePath => worktreePath.endsWith(`agent-${id}`))!;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-shell-'));
+    repo = path.join(dir, 'repo');
+    fs.mkdirSync(repo);
+    git(repo, 'init', '-q', '-b', 'main');
+    git(repo, 'config', 'user.email', 'mado@example.com');
+    git(repo, 'config', 'user.name', 'MADO');
+    fs.writeFileSync(path.join(repo, 'README.md'), '# Repo\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'Initial commit');
+  });
+
+  afterEach(async () => {
+    await agent?.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run the command with the task in its environment and commit the result', async () => {
+    agent = createAgent('echo "$MADO_TASK_TITLE for $MADO_AGENT_ROLE" > "$MADO_TASK_FILES" && echo generated', 'test -s feature.txt');
+    await agent.start();
+
+    const result = await agent.executeTask(createTask({ type: TaskType.DEPLOYMENT }));
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('generated\n');
+    expect(result.changedFiles).toEqual(['feature.txt']);
+    expect(result.metadata).toMatchObject({ executor: 'shell', exitCode: 0 });
+    expect(fs.readFileSync(path.join(agentWorktree(), 'feature.txt'), 'utf8')).toBe('Add greeting for backend\n');
+    expect(git(agentWorktree(), 'status', '--porcelain')).toBe('');
+  });
+
+  it('should roll back the changes when verification fails', async () => {
+    agent = createAgent('echo broken > feature.txt && echo "# edited" >> README.md', 'echo "tests failed" >&2; exit 1');
+    await agent.start();
+
+    const result = await agent.executeTask(createTask());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Verification failed: echo "tests failed" >&2; exit 1 exited with code 1: tests failed');
+    expect(git(agentWorktree(), 'status', '--porcelain')).toBe('');
+    expect(fs.readFileSync(path.join(agentWorktree(), 'README.md'), 'utf8')).toBe('# Repo\n');
+  });
+
+  it('should run two tasks at once, each in a worktree of its own', async () => {
+    agent = createAgent('echo "$MADO_TASK_TITLE" > "$MADO_TASK_FILES"; [ "$MADO_TASK_FILES" = b.txt ] || sleep 1', undefined, 'backend-001', 2);
+    await agent.start();
+
+    const first = agent.executeTask(createTask({ files: ['a.txt'] }));
+    const second = agent.executeTask(createTask({ id: 'task-2', files: ['b.txt'] }));
+    expect(agent.getAvailableTaskSlots()).toBe(0);
+    const results = await Promise.all([first, second]);
+
+    expect(results.map(result => result.changedFiles)).toEqual([['a.txt'], ['b.txt']]);
+    expect(results[0].metadata.worktree).toBe(agentWorktree());
+    expect(results[1].metadata.worktree).toBe(agentWorktree('backend-001-slot-2'));
+    for (const [id, file] of [['backend-001', 'a.txt'], ['backend-001-slot-2', 'b.txt']]) {
+      expect(git(agentWorktree(id), 'show', '--name-only', '--format=', 'HEAD')).toBe(file);
+      expect(git(agentWorktree(id), 'status', '--porcelain')).toBe('');
+    }
+  });
+
+  it('should pass over a worktree holding changes an earlier task left behind', async () => {
+    agent = createAgent('echo "$MADO_TASK_TITLE" > "$MADO_TASK_FILES"', undefined, 'backend-001', 2);
+    await agent.start();
+    fs.writeFileSync(path.join(agentWorktree(), 'half-done.txt'), 'interrupted\n');
+
+    const result = await agent.executeTask(createTask({ files: ['a.txt'] }));
+
+    expect(result.success).toBe(true);
+    expect(result.metadata.worktree).toBe(agentWorktree('backend-001-slot-2'));
+    expect(git(agentWorktree('backend-001-slot-2'), 'show', '--name-only', '--format=', 'HEAD')).toBe('a.txt');
+    expect(git(agentWorktree(), 'status', '--porcelain')).toBe('?? half-done.txt');
+  });
+
+  it('should run agents side by side, each in its own worktree', async () => {
+    const cwd = process.cwd();
+    agent = createAgent('sleep 1; pwd > "$MADO_TASK_FILES"; echo "$MADO_AGENT_ID" >> "$MADO_TASK_FILES"');
+    const other = createAgent('pwd > "$MADO_TASK_FILES"; echo "$MADO_AGENT_ID" >> "$MADO_TASK_FILES"', undefined, 'backend-002');
+    await agent.start();
+    await other.start();
+
+    try {
+      const results = await Promise.all([
+        agent.executeTask(createTask({ files: ['where.txt'] })),
+        other.executeTask(createTask({ id: 'task-2', files: ['where.txt'] }))
+      ]);
+
+      expect(results.map(result => result.success)).toEqual([true, true]);
+      for (const id of ['backend-001', 'backend-002']) {
+        expect(fs.readFileSync(path.join(agentWorktree(id), 'where.txt'), 'utf8')).toBe(`${fs.realpathSync(agentWorktree(id))}\n${id}\n`);
+        expect(git(agentWorktree(id), 'status', '--porcelain')).toBe('');
+      }
+      expect(process.cwd()).toBe(cwd);
+    } finally {
+      await other.stop();
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { ContextPacker } from '../../../src/analysis/context-packer';
+import { GitRepository } from '../../../src/git/repository';
+import { createTask } from '../../helpers/tasks';
+
+const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf8' }).trim();
+
+describe('ContextPacker', () => {
+  let repo: string;
+  let repository: GitRepository;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    fs.writeFileSync(path.join(repo, file), content);
+  };
+  const commit = (message: string) => {
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', message);
+    return git(repo, 'rev-parse', 'HEAD');
+  };
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-context-'));
+    git(repo, 'init', '-q', '-b', 'main');
+    git(repo, 'config', 'user.email', 'mado@example.com');
+    git(repo, 'config', 'user.name', 'MADO');
+    repository = new GitRepository(repo);
+
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { baseUrl: './src', paths: { '@util/*': ['util/*'] } } }));
+    write('src/session.ts', "import { now } from '@util/clock';\nexport const expired = (at: number) => at < now();\n");
+    write('src/util/clock.ts', 'export const now = () => Date.now();\n');
+    write('src/server.ts', "import { expired } from './session';\n");
+    write('tests/session.test.ts', "import { expired } from '../src/session';\n");
+    write('README.md', '# Sessions\n');
+    commit('Add sessions');
+
+    write('src/session.ts', "import { now } from '@util/clock';\nexport const expired = (at: number) => at <= now();\n");
+    commit('Expire sessions on the boundary');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should rank the task files, their tests, commits, imports and importers', async () => {
+    const head = git(repo, 'rev-parse', 'HEAD');
+
+    const bundle = await new ContextPacker().pack(createTask({ files: ['src/session.ts', 'src/new-file.ts'] }), repository);
+
+    expect(bundle.commit).toBe(head);
+    expect(bundle.items.map(item => [item.kind, item.label, item.reason])).toEqual([
+      ['file', 'src/session.ts', 'listed in the task'],
+      ['test', 'tests/session.test.ts', 'tests src/session.ts'],
+      ['commit', `commit ${head.slice(0, 8)}`, 'changed src/session.ts'],
+      ['commit', `commit ${git(repo, 'rev-parse', 'HEAD~1').slice(0, 8)}`, 'changed src/session.ts'],
+      ['import', 'src/util/clock.ts', 'imported by src/session.ts'],
+      ['importer', 'src/server.ts', 'imports src/session.ts']
+    ]);
+    expect(bundle.items[0].content).toContain('at <= now()');
+    expect(bundle.items[2].content).toContain('Expire sessions on the boundary\nFiles: src/session.ts');
+    expect(bundle.size).toBe(bundle.items.reduce((size, item) => size + item.content.length, 0));
+    expect(bundle.omitted).toEqual([]);
+  });
+
+  it('should cut the task files down and leave out what does not fit the budget', async () => {
+    write('src/session.ts', `export const big = '${'x'.repeat(3000)}';\n`);
+    commit('Grow the session module');
+
+    const bundle = await new ContextPacker({ budget: 1500, maxCommits: 0 }).pack(createTask({ files: ['src/session.ts'] }), repository);
+
+    expect(bundle.items).toHaveLength(1);
+    expect(bundle.items[0]).toMatchObject({ label: 'src/session.ts', truncated: true });
+    expect(bundle.items[0].content).toHaveLength(1500);
+    expect(bundle.size).toBe(1500);
+    expect(bundle.omitted).toEqual(['tests/session.test.ts', 'src/server.ts']);
+  });
+
+  it('should reuse the context for the same commit and rebuild it after a new one', async () => {
+    const packer = new ContextPacker();
+    const task = createTask({ files: ['src/session.ts'] });
+
+    const first = await packer.pack(task, repository);
+    expect(await packer.pack(createTask({ files: ['src/session.ts'] }), repository)).toBe(first);
+
+    write('src/session.ts', 'export const expired = () => true;\n');
+    const head = commit('Always expire');
+    const second = await packer.pack(task, repository);
+
+    expect(second).not.toBe(first);
+    expect(second.commit).toBe(head);
+    expect(second.items.map(item => item.label)).not.toContain('src/util/clock.ts');
+  });
+
+  it('should read the committed files rather than uncommitted edits', async () => {
+    const packer = new ContextPacker();
+    write('src/session.ts', 'export const expired = () => false;\n');
+    write('src/draft.ts', "import { expired } from './session';\n");
+
+    const bundle = await packer.pack(createTask({ files: ['src/session.ts', 'src/draft.ts'] }), repository);
+
+    expect(bundle.items[0].content).toContain('at <= now()');
+    expect(bundle.items.map(item => item.label)).not.toContain('src/draft.ts');
+  });
+});
@@ -0,0 +1,44 @@
+import { ImportGraph, isTestFile, parseImports, parsePathAliases } from '../../../src/analysis/import-graph';
+
+describe('import graph', () => {
+  it('should find static, re-exported, required and dynamic imports', () => {
+    const source = [
+      "import { a } from './a';",
+      "import type {\n  B\n} from '../b';",
+      "import './side-effect';",
+      "export * from './c';",
+      "const d = require('./d');",
+      "const e = await import('./e');",
+      "import express from 'express';"
+    ].join('\n');
+
+    expect(parseImports(source)).toEqual(['./a', '../b', './side-effect', 'express', './c', './d', './e']);
+  });
+
+  it('should read prefix aliases from tsconfig paths', () => {
+    const tsconfig = JSON.stringify({
+      compilerOptions: { baseUrl: './src', paths: { '@core/*': ['core/*'], 'exact': ['exact.ts'] } }
+    });
+
+    expect(parsePathAliases(tsconfig)).toEqual([{ prefix: '@core/', targets: ['src/core/'] }]);
+    expect(parsePathAliases('{ not json')).toEqual([]);
+  });
+
+  it('should link files to the repository files they import', () => {
+    const graph = new ImportGraph(
+      ['src/index.ts', 'src/core/config.ts', 'src/util/index.ts', 'src/esm.ts', 'tests/index.test.ts'],
+      [{ prefix: '@core/', targets: ['src/core/'] }]
+    );
+    graph.addFile('src/index.ts', "import { load } from '@core/config';\nimport * as util from './util';\nimport 'lodash';\nimport './esm.js';");
+    graph.addFile('tests/index.test.ts', "import '../src/index';");
+
+    expect(graph.getImports('src/index.ts')).toEqual(['src/core/config.ts', 'src/util/index.ts', 'src/esm.ts']);
+    expect(graph.getImporters('src/core/config.ts')).toEqual(['src/index.ts']);
+    expect(graph.getImporters('src/index.ts')).toEqual(['tests/index.test.ts']);
+  });
+
+  it('should recognise test files', () => {
+    expect(['a.test.ts', 'src/a.spec.tsx', 'tests/unit/a.ts', 'src/__tests__/a.js'].every(isTestFile)).toBe(true);
+    expect(['src/a.ts', 'src/testing.ts', 'src/latest/a.ts'].some(isTestFile)).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+import request from 'supertest';
+import express, { Express } from 'express';
+import { Socket } from 'socket.io';
+import {
+  ApiKeyAuthenticator,
+  authenticateRequest,
+  authenticateSocket,
+  generateApiKey,
+  hashApiKey,
+  requirePermission,
+  requireWritePermission
+} from '../../../src/api/auth';
+import { errorHandler } from '../../../src/api/errors';
+import { logHelpers } from '../../../src/core/logger';
+import { ApiKeyScope, SecurityConfig } from '../../../src/types/config.types';
+import { ConfigManager } from '../../../src/core/config';
+
+const keys: Record<ApiKeyScope, string> = {
+  'read-only': generateApiKey(),
+  'task-submitter': generateApiKey(),
+  'agent-operator': generateApiKey(),
+  admin: generateApiKey()
+};
+
+const securityConfig = (overrides: Partial<SecurityConfig> = {}): SecurityConfig => ({
+  ...new ConfigManager().createDefaultConfig().security,
+  authentication: true,
+  authorization: true,
+  apiKeys: (Object.keys(keys) as ApiKeyScope[]).map(scope => ({ id: `${scope}-key`, hash: hashApiKey(keys[scope]), scope })),
+  ...overrides
+});
+
+function createApp(authenticator: ApiKeyAuthenticator): Express {
+  const app = express();
+  const router = express.Router();
+
+  router.use(authenticateRequest(authenticator), requirePermission(authenticator, 'read'));
+  router.use('/tasks', requireWritePermission(authenticator, 'tasks:write'));
+  router.use('/agents', requireWritePermission(authenticator, 'agents:write'));
+  router.all('*', (_req, res) => {
+    res.json({ keyId: res.locals.principal.keyId });
+  });
+
+  app.use('/api', router);
+  app.use(errorHandler);
+  return app;
+}
+
+function fakeSocket(auth: Record<string, unknown>, headers: Record<string, string> = {}): Socket {
+  return { handshake: { auth, headers, address: '127.0.0.1' }, data: {} } as unknown as Socket;
+}
+
+describe('API key authentication', () => {
+  let audit: jest.SpyInstance;
+
+  beforeEach(() => {
+    audit = jest.spyOn(logHelpers, 'audit').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    audit.mockRestore();
+  });
+
+  it('should generate distinct keys and hash them deterministically', () => {
+    expect(generateApiKey()).toMatch(/^mado_[\w-]{43}$/);
+    expect(generateApiKey()).not.toBe(generateApiKey());
+    expect(hashApiKey('secret')).toBe(hashApiKey('secret'));
+    expect(hashApiKey('secret')).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+
+  it('should require a valid key and accept both header forms', async () => {
+    const app = createApp(new ApiKeyAuthenticator(securityConfig()));
+
+    const missing = await request(app).get('/api/agents').expect(401);
+    expect(missing.headers['www-authenticate']).toMatch(/^Bearer/);
+    await request(app).get('/api/agents').set('Authorization', 'Bearer mado_wrong').expect(401);
+
+    const bearer = await request(app).get('/api/agents').set('Authorization', `Bearer ${keys['read-only']}`).expect(200);
+    expect(bearer.body.keyId).toBe('read-only-key');
+    await request(app).get('/api/agents').set('X-API-Key', keys['read-only']).expect(200);
+
+    expect(audit).toHaveBeenCalledWith('api.authentication_failed', undefined, expect.objectContaining({ path: '/api/agents' }));
+  });
+
+  it.each([
+    ['read-only', 403, 403],
+    ['task-submitter', 200, 403],
+    ['agent-operator', 403, 200],
+    ['admin', 200, 200]
+  ] as [ApiKeyScope, number, number][])('should apply the %s scope', async (scope, taskStatus, agentStatus) => {
+    const app = createApp(new ApiKeyAuthenticator(securityConfig()));
+    const auth = `Bearer ${keys[scope]}`;
+
+    await request(app).get('/api/tasks').set('Authorization', auth).expect(200);
+    await request(app).post('/api/tasks').set('Authorization', auth).expect(taskStatus);
+    await request(app).post('/api/agents/a1/stop').set('Authorization', auth).expect(agentStatus);
+  });
+
+  it('should audit mutating requests with the key id', async () => {
+    const app = createApp(new ApiKeyAuthenticator(securityConfig()));
+
+    await request(app).post('/api/tasks').set('X-API-Key', keys['task-submitter']).expect(200);
+    await request(app).post('/api/agents/a1/stop').set('X-API-Key', keys['task-submitter']).expect(403);
+
+    expect(audit).toHaveBeenCalledWith('api.access_granted', 'task-submitter-key', expect.objectContaining({
+      permission: 'tasks:write',
+      method: 'POST'
+    }));
+    expect(audit).toHaveBeenCalledWith('api.access_denied', 'task-submitter-key', expect.objectContaining({
+      permission: 'agents:write'
+    }));
+  });
+
+  it('should allow everything when authentication is disabled', async () => {
+    const app = createApp(new ApiKeyAuthenticator(securityConfig({ authentication: false })));
+
+    const response = await request(app).post('/api/agents/a1/stop').expect(200);
+    expect(response.body.keyId).toBe('anonymous');
+  });
+
+  it('should grant every valid key full access when authorization is disabled', async () => {
+    const app = createApp(new ApiKeyAuthenticator(securityConfig({ authorization: false })));
+
+    await request(app).post('/api/agents/a1/stop').set('X-API-Key', keys['read-only']).expect(200);
+    await request(app).post('/api/agents/a1/stop').set('X-API-Key', 'mado_wrong').expect(401);
+  });
+
+  it('should authenticate socket handshakes', () => {
+    const middleware = authenticateSocket(new ApiKeyAuthenticator(securityConfig()), 'tasks:write');
+    const next = jest.fn();
+
+    const socket = fakeSocket({ apiKey: keys['task-submitter'] });
+    middleware(socket, next);
+    expect(next).toHaveBeenLastCalledWith();
+    expect(socket.data.principal.keyId).toBe('task-submitter-key');
+
+    middleware(fakeSocket({}, { authorization: `Bearer ${keys.admin}` }), next);
+    expect(next).toHaveBeenLastCalledWith();
+
+    middleware(fakeSocket({ apiKey: keys['read-only'] }), next);
+    expect(next.mock.lastCall[0].message).toBe('Forbidden');
+
+    middleware(fakeSocket({}), next);
+    expect(next.mock.lastCall[0].message).toBe('Unauthorized');
+  });
+});
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ControlServer, createControlCommands } from '../../../src/api/control';
+import { sendControlCommand } from '../../../src/cli/control-client';
+import { renderTable, renderCounts, formatDuration } from '../../../src/cli/format';
+import { ApiContext } from '../../../src/api/context';
+import { TaskManager } from '../../../src/tasks/task-manager';
+import { AgentRegistry } from '../../../src/agents/agent-registry';
+import { eventBus } from '../../../src/core/events';
+import { TaskType, Priority, TaskStatus } from '../../../src/types/task.types';
+
+describe('ControlServer', () => {
+  let dir: string;
+  let socketPath: string;
+  let registry: AgentRegistry;
+  let taskManager: TaskManager;
+  let context: ApiContext;
+  let server: ControlServer;
+  let stop: jest.Mock;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-control-'));
+    socketPath = path.join(dir, 'run', 'control.sock');
+    registry = new AgentRegistry({
+      maxAgents: 5,
+      healthCheckInterval: 30000,
+      autoRestart: false,
+      loadBalancing: 'capability-based'
+    });
+    taskManager = new TaskManager(registry, { autoDispatch: false });
+    context = {
+      agentRegistry: registry,
+      taskManager,
+      eventBus,
+      store: null,
+      repository: {
+        analyzeRepository: async () => ({} as any),
+        getCommitHistory: async () => [],
+        getBranches: async () => []
+      },
+      worktreeManager: {
+        discoverWorktrees: async () => [],
+        getWorktreeForAgent: () => undefined,
+        getUncommittedChanges: async () => [],
+        getWorktreeStats: async () => ({ total: 0, active: 0, inactive: 0, corrupted: 0 })
+      }
+    };
+    stop = jest.fn().mockResolvedValue(undefined);
+    server = new ControlServer(socketPath, createControlCommands(context, { stop }));
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await taskManager.cleanup();
+    await registry.cleanup();
+    eventBus.removeAllListeners();
+    eventBus.clearHistory();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should answer status, agents and tasks for the CLI', async () => {
+    taskManager.createTask({ title: 'Build login page', description: 'Sign-in form', type: TaskType.FEATURE, priority: Priority.HIGH });
+
+    const status = await sendControlCommand<any>(socketPath, 'status');
+    expect(status.pid).toBe(process.pid);
+    expect(status.systemHealth.totalAgents).toBe(0);
+    expect(status.taskStatistics.pending).toBe(1);
+
+    expect(await sendControlCommand(socketPath, 'agents')).toEqual([]);
+
+    const pending = await sendControlCommand<any[]>(socketPath, 'tasks', { status: [TaskStatus.PENDING] });
+    expect(pending.map(task => task.title)).toEqual(['Build login page']);
+    expect(await sendControlCommand(socketPath, 'tasks', { status: [TaskStatus.FAILED] })).toEqual([]);
+  });
+
+  it('should submit validated tasks and cancel or retry them', async () => {
+    const [design, build] = await sendControlCommand<any[]>(socketPath, 'task.submit', {
+      tasks: [
+        { id: 'build', title: 'Build it', description: '', type: TaskType.FEATURE, dependencies: ['design'] },
+        { id: 'design', title: 'Design it', description: '', type: TaskType.FEATURE, deadline: '2026-12-01T00:00:00.000Z' }
+      ]
+    });
+    expect([design.id, build.id]).toEqual(['design', 'build']);
+    expect(taskManager.getTask('design')!.deadline).toBeInstanceOf(Date);
+
+    await expect(sendControlCommand(socketPath, 'task.submit', { tasks: [{ title: 'No type', description: '' }] }))
+      .rejects.toThrow('Task 1: "type" is required');
+
+    const cancelled = await sendControlCommand<any>(socketPath, 'task.cancel', { taskId: 'design', reason: 'Scope changed' });
+    expect(cancelled.status).toBe(TaskStatus.CANCELLED);
+    await expect(sendControlCommand(socketPath, 'task.cancel', { taskId: 'design' })).rejects.toThrow('already cancelled');
+
+    const retry = await sendControlCommand<any>(socketPath, 'task.retry', { taskId: 'design' });
+    expect(retry.metadata.retryOf).toBe('design');
+    expect(retry.status).toBe(TaskStatus.PENDING);
+  });
+
+  it('should stream task events to a watcher until the task finishes', async () => {
+    const task = taskManager.createTask({ title: 'Watch me', description: '', type: TaskType.FEATURE });
+    const events: any[] = [];
+
+    const watching = sendControlCommand<any>(socketPath, 'task.watch', { taskId: task.id }, {
+      timeout: 0,
+      onEvent: event => {
+        events.push(event);
+        // Finish the task once the watcher has seen it progress
+        if (events.length === 1) {
+          taskManager.cancelTask(task.id, 'Done watching');
+        }
+      }
+    });
+
+    // Wait for the watch to be registered before the first event
+    await new Promise(resolve => setTimeout(resolve, 50));
+    taskManager.updateTaskProgress(task.id, 40, 'Halfway');
+
+    const final = await watching;
+    expect(final.task.status).toBe(TaskStatus.CANCELLED);
+    expect(events[0]).toEqual(expect.objectContaining({ taskId: task.id, data: expect.objectContaining({ progress: 40 }) }));
+    expect(events.some(event => event.data.status === TaskStatus.CANCELLED)).toBe(true);
+  });
+
+  it('should end open watches when it stops', async () => {
+    const task = taskManager.createTask({ title: 'Never finishes', description: '', type: TaskType.FEATURE });
+    const watching = sendControlCommand(socketPath, 'task.watch', { taskId: task.id }, { timeout: 0 });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const outcome = expect(watching).rejects.toThrow('closed the connection');
+    await server.stop();
+    await outcome;
+  });
+
+  it('should only be reachable by its owner', () => {
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('should reply to stop before stopping the orchestrator', async () => {
+    const result = await sendControlCommand<any>(socketPath, 'stop');
+    expect(result).toEqual({ stopping: true, pid: process.pid });
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report unknown commands', async () => {
+    await expect(sendControlCommand(socketPath, 'reboot')).rejects.toThrow("Unknown command 'reboot'");
+  });
+
+  it('should refuse to start next to a live orchestrator', async () => {
+    const second = new ControlServer(socketPath, {});
+    await expect(second.start()).rejects.toThrow('Another orchestrator is already listening');
+  });
+
+  it('should replace a socket left behind by a crashed orchestrator', async () => {
+    await server.stop();
+
+    // Nobody listens behind a path left over from a crash, so connecting is refused
+    fs.writeFileSync(socketPath, '');
+
+    server = new ControlServer(socketPath, { ping: () => 'pong' });
+    await server.start();
+    expect(await sendControlCommand(socketPath, 'ping')).toBe('pong');
+  });
+
+  it('should tell the CLI when no orchestrator is running', async () => {
+    await server.stop();
+    expect(fs.existsSync(socketPath)).toBe(false);
+
+    await expect(sendControlCommand(socketPath, 'status')).rejects.toThrow('No orchestrator is running');
+  });
+});
+
+describe('CLI formatting', () => {
+  it('should align table columns', () => {
+    const table = renderTable([{ id: 'qa-001', done: 3 }, { id: 'backend-001', done: 12 }], [
+      { header: 'ID', value: row => row.id },
+      { header: 'DONE', value: row => row.done, align: 'right' }
+    ]);
+
+    expect(table.split('\n')).toEqual([
+      'ID           DONE',
+      '-----------  ----',
+      'qa-001          3',
+      'backend-001    12'
+    ]);
+  });
+
+  it('should summarise counts and durations', () => {
+    expect(renderCounts({ active: 2, busy: 0, error: 1 })).toBe('active 2, error 1');
+    expect(renderCounts({ active: 0 })).toBe('none');
+    expect(formatDuration(59000)).toBe('59s');
+    expect(formatDuration(3 * 3600 * 1000 + 120000)).toBe('3h 2m');
+  });
+});
@@ -0,0 +1,131 @@
+import request from 'supertest';
+import { io as connect } from 'socket.io-client';
+import { DashboardServer } from '../../../src/api/dashboard';
+import { ApiServer } from '../../../src/api/server';
+import { ApiContext } from '../../../src/api/context';
+import { TaskManager } from '../../../src/tasks/task-manager';
+import { AgentRegistry } from '../../../src/agents/agent-registry';
+import { ConfigManager } from '../../../src/core/config';
+import { EventBus } from '../../../src/core/events';
+import { DashboardConfig } from '../../../src/types/config.types';
+
+const defaults = new ConfigManager().createDefaultConfig();
+
+describe('DashboardServer', () => {
+  let registry: AgentRegistry;
+  let taskManager: TaskManager;
+  let context: ApiContext;
+
+  const dashboard = (config: Partial<DashboardConfig> = {}) =>
+    new DashboardServer(context, { ...defaults.monitoring.dashboard, port: 0, ...config }, defaults.api, defaults.security);
+
+  beforeEach(() => {
+    registry = new AgentRegistry({
+      maxAgents: 5,
+      healthCheckInterval: 30000,
+      autoRestart: false,
+      loadBalancing: 'capability-based'
+    });
+    taskManager = new TaskManager(registry, { autoDispatch: false });
+    context = {
+      agentRegistry: registry,
+      taskManager,
+      eventBus: new EventBus(),
+      store: null,
+      repository: {
+        analyzeRepository: async () => ({} as any),
+        getCommitHistory: async () => [],
+        getBranches: async () => []
+      },
+      worktreeManager: {
+        discoverWorktrees: async () => [],
+        getWorktreeForAgent: () => undefined,
+        getUncommittedChanges: async () => [],
+        getWorktreeStats: async () => ({ total: 0, active: 0, inactive: 0, corrupted: 0 })
+      }
+    };
+  });
+
+  afterEach(async () => {
+    await taskManager.cleanup();
+    await registry.cleanup();
+  });
+
+  it('should serve the bundled page, its settings and the API on one origin', async () => {
+    const app = dashboard({ refreshInterval: 2000 }).getApp();
+
+    const page = await request(app).get('/').expect(200);
+    expect(page.headers['content-type']).toMatch(/html/);
+    expect(page.text).toContain('<script src="app.js"></script>');
+    await request(app).get('/app.js').expect(200);
+
+    const settings = await request(app).get('/settings.json').expect(200);
+    expect(settings.body).toEqual({ refreshInterval: 2000, authentication: false, streamPath: '/api/stream' });
+
+    const tasks = await request(app).get('/api/tasks').expect(200);
+    expect(tasks.body.total).toBe(0);
+  });
+
+  it('should ask for an API key when dashboard authentication is on', async () => {
+    const app = dashboard({ authentication: true }).getApp();
+
+    const settings = await request(app).get('/settings.json').expect(200);
+    expect(settings.body.authentication).toBe(true);
+
+    await request(app).get('/index.html').expect(200);
+    await request(app).get('/api/status').expect(401);
+  });
+
+  it('should share request limits and the event stream with the API server', async () => {
+    const security = {
+      ...defaults.security,
+      rateLimiting: { ...defaults.security.rateLimiting, enabled: true, requestsPerMinute: 60, burstLimit: 2 }
+    };
+    const api = new ApiServer(context, { ...defaults.api, port: 0 }, security);
+    const server = new DashboardServer(
+      context,
+      { ...defaults.monitoring.dashboard, port: 0 },
+      defaults.api,
+      security,
+      api.getSharedState()
+    );
+
+    await request(api.getApp()).get('/api/tasks').expect(200);
+    await request(server.getApp()).get('/api/tasks').expect(200);
+    await request(server.getApp()).get('/api/tasks').expect(429);
+
+    api.getRateLimiter().reset();
+    await api.start();
+    const address = await server.start();
+    const client = connect(`http://127.0.0.1:${address.port}`, {
+      path: defaults.api.stream.path,
+      transports: ['websocket'],
+      reconnection: false,
+      forceNew: true
+    });
+    try {
+      await new Promise(resolve => client.once('history', resolve));
+      expect(api.getEventStream().getClientCount()).toBe(1);
+
+      // The API going away leaves the dashboard's clients streaming
+      await api.stop();
+      expect(api.getEventStream().getClientCount()).toBe(1);
+    } finally {
+      client.disconnect();
+      await server.stop();
+      await api.stop();
+    }
+    expect(api.getEventStream().getClientCount()).toBe(0);
+  });
+
+  it('should listen on the dashboard port and stop cleanly', async () => {
+    const server = dashboard();
+    const address = await server.start();
+
+    await request(`http://127.0.0.1:${address.port}`).get('/api/health').expect(200);
+    await request(`http://127.0.0.1:${address.port}`).get(`${defaults.api.stream.path}/socket.io.js`).expect(200);
+
+    await server.stop();
+    expect(server.getAddress()).toBeNull();
+  });
+});
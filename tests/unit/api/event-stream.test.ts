@@ -0,0 +1,166 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { EventStream, EventBatch, matchesFilter } from '../../../src/api/event-stream';
+import { ApiKeyAuthenticator, generateApiKey, hashApiKey } from '../../../src/api/auth';
+import { RateLimiter } from '../../../src/utils/rate-limiter';
+import { ConfigManager } from '../../../src/core/config';
+import { EventBus, SystemEvent, createTaskEvent, createAgentEvent, createGitEvent } from '../../../src/core/events';
+import { EventStreamConfig, SecurityConfig } from '../../../src/types/config.types';
+
+const defaults = new ConfigManager().createDefaultConfig();
+
+describe('matchesFilter', () => {
+  it('should match events on every criterion that is set', () => {
+    const event = createTaskEvent(SystemEvent.TASK_COMPLETED, 't1', {}, 'backend-001');
+
+    expect(matchesFilter(event, {})).toBe(true);
+    expect(matchesFilter(event, { types: [SystemEvent.TASK_COMPLETED, SystemEvent.TASK_FAILED] })).toBe(true);
+    expect(matchesFilter(event, { agentIds: ['backend-001'], taskIds: ['t1'] })).toBe(true);
+    expect(matchesFilter(event, { agentIds: ['backend-001'], taskIds: ['t2'] })).toBe(false);
+    expect(matchesFilter(event, { repositories: ['web'] })).toBe(false);
+    expect(matchesFilter(createGitEvent(SystemEvent.GIT_COMMIT, 'web', {}), { repositories: ['web'] })).toBe(true);
+  });
+});
+
+describe('EventStream', () => {
+  let server: http.Server;
+  let events: EventBus;
+  let stream: EventStream;
+  let url: string;
+  const clients: ClientSocket[] = [];
+
+  const start = async (config: Partial<EventStreamConfig> = {}, security: Partial<SecurityConfig> = {}) => {
+    const streamConfig = { ...defaults.api.stream, ...config };
+    stream = new EventStream(
+      events,
+      streamConfig,
+      new ApiKeyAuthenticator({ ...defaults.security, ...security }),
+      new RateLimiter({ enabled: false, ratePerMinute: 60, burst: 10 })
+    );
+    stream.attach(server, []);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const open = (auth: Record<string, unknown> = {}): ClientSocket => {
+    const client = connect(url, {
+      path: defaults.api.stream.path,
+      auth,
+      transports: ['websocket'],
+      reconnection: false,
+      forceNew: true
+    });
+    clients.push(client);
+    return client;
+  };
+
+  const once = <T>(client: ClientSocket, name: string): Promise<T> =>
+    new Promise(resolve => client.once(name, (value: T) => resolve(value)));
+
+  // Collects batches and acknowledges them straight away
+  const collect = (client: ClientSocket): EventBatch[] => {
+    const batches: EventBatch[] = [];
+    client.on('events', (batch: EventBatch, ack: () => void) => {
+      batches.push(batch);
+      ack();
+    });
+    return batches;
+  };
+
+  const until = async (condition: () => boolean) => {
+    for (let i = 0; i < 200 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(condition()).toBe(true);
+  };
+
+  beforeEach(() => {
+    events = new EventBus();
+    server = http.createServer();
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach(client => client.disconnect());
+    await stream.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should replay filtered history and then stream matching events', async () => {
+    await start();
+    events.emit(createAgentEvent(SystemEvent.AGENT_STARTED, 'backend-001', {}));
+    events.emit(createAgentEvent(SystemEvent.AGENT_STARTED, 'frontend-001', {}));
+    events.emit(createTaskEvent(SystemEvent.TASK_ASSIGNED, 't1', {}, 'backend-001'));
+
+    const client = open({ filter: { agentIds: ['backend-001'] }, history: 1 });
+    const batches = collect(client);
+    const history = await once<any[]>(client, 'history');
+    expect(history.map(event => event.type)).toEqual([SystemEvent.TASK_ASSIGNED]);
+
+    events.emit(createTaskEvent(SystemEvent.TASK_COMPLETED, 't1', {}, 'frontend-001'));
+    events.emit(createTaskEvent(SystemEvent.TASK_COMPLETED, 't2', {}, 'backend-001'));
+
+    await until(() => batches.length === 1);
+    expect(batches[0].events.map(event => (event as any).taskId)).toEqual(['t2']);
+    expect(stream.getClientCount()).toBe(1);
+  });
+
+  it('should replace the filter on subscribe and reject invalid filters', async () => {
+    await start();
+    const client = open({ history: 0 });
+    const batches = collect(client);
+    await once(client, 'history');
+
+    const invalid = await client.emitWithAck('subscribe', { types: ['task:nope'] });
+    expect(invalid.error).toBe('Validation failed');
+
+    const updated = await client.emitWithAck('subscribe', { types: [SystemEvent.GIT_COMMIT] });
+    expect(updated.filter.types).toEqual([SystemEvent.GIT_COMMIT]);
+
+    events.emit(createTaskEvent(SystemEvent.TASK_CREATED, 't1', {}));
+    events.emit(createGitEvent(SystemEvent.GIT_COMMIT, 'web', {}));
+
+    await until(() => batches.length === 1);
+    expect(batches[0].events.map(event => event.type)).toEqual([SystemEvent.GIT_COMMIT]);
+  });
+
+  it('should queue events while a batch is unacknowledged and drop the oldest beyond the limit', async () => {
+    await start({ maxQueuedEvents: 2, ackTimeout: 500 });
+    const client = open();
+    const batches: EventBatch[] = [];
+    const acks: (() => void)[] = [];
+    client.on('events', (batch: EventBatch, ack: () => void) => {
+      batches.push(batch);
+      acks.push(ack);
+    });
+    await once(client, 'history');
+
+    ['t1', 't2', 't3', 't4', 't5'].forEach(id => events.emit(createTaskEvent(SystemEvent.TASK_CREATED, id, {})));
+    await until(() => batches.length === 1);
+    expect(batches[0].events.map(event => (event as any).taskId)).toEqual(['t1']);
+
+    acks[0]();
+    await until(() => batches.length === 2);
+    expect(batches[1].events.map(event => (event as any).taskId)).toEqual(['t4', 't5']);
+    expect(batches[1].dropped).toBe(2);
+    acks[1]();
+  });
+
+  it('should refuse connections without a valid key when authentication is on', async () => {
+    const key = generateApiKey();
+    await start({}, {
+      authentication: true,
+      apiKeys: [{ id: 'dashboard', hash: hashApiKey(key), scope: 'read-only' }]
+    });
+
+    const refused = await once<Error>(open(), 'connect_error');
+    expect(refused.message).toBe('Unauthorized');
+
+    const invalid = await once<Error>(open({ apiKey: key, history: -1 }), 'connect_error');
+    expect(invalid.message).toBe('Validation failed');
+
+    const accepted = open({ apiKey: key });
+    await once(accepted, 'history');
+    expect(accepted.connected).toBe(true);
+  });
+});
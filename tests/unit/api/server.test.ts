@@ -0,0 +1,366 @@
+import { EventEmitter } from 'events';
+import request from 'supertest';
+import { Express } from 'express';
+import { ApiServer } from '../../../src/api/server';
+import { generateApiKey, hashApiKey } from '../../../src/api/auth';
+import { ApiContext } from '../../../src/api/context';
+import { TaskManager } from '../../../src/tasks/task-manager';
+import { AgentRegistry } from '../../../src/agents/agent-registry';
+import { PersistentStore } from '../../../src/storage/store';
+import { ConfigManager } from '../../../src/core/config';
+import { EventBus, SystemEvent, createTaskEvent, createAgentEvent } from '../../../src/core/events';
+import { AgentRole, AgentStatus, AgentConfig, IAgent } from '../../../src/types/agent.types';
+import { CommitInfo, WorktreeInfo } from '../../../src/types/git.types';
+import { Task, TaskResult, TaskStatus, TaskType } from '../../../src/types/task.types';
+
+class FakeAgent extends EventEmitter implements IAgent {
+  public name: string;
+  public capabilities = [];
+  public status = AgentStatus.INACTIVE;
+  public workingDirectory = '/tmp';
+  public lastActivity = new Date();
+  public metadata = {};
+  public metrics = {
+    tasksCompleted: 0,
+    averageTaskDuration: 0,
+    successRate: 1,
+    codeQualityScore: 85,
+    collaborationScore: 0,
+    lastActivityTime: new Date()
+  };
+
+  constructor(public id: string, public role: AgentRole) {
+    super();
+    this.name = id;
+  }
+
+  async start(): Promise<void> {
+    this.status = AgentStatus.ACTIVE;
+  }
+  async stop(): Promise<void> {
+    this.status = AgentStatus.INACTIVE;
+  }
+  async restart(): Promise<void> {}
+  async sendMessage(): Promise<void> {}
+  async cancelTask(): Promise<void> {}
+  getAvailableTaskSlots(): number {
+    return this.status === AgentStatus.ACTIVE ? 1 : 0;
+  }
+  async updateStatus(status: AgentStatus): Promise<void> {
+    this.status = status;
+  }
+  async getHealth(): Promise<any> {
+    return { status: this.status, errorRate: 0 };
+  }
+  async executeTask(task: Task): Promise<TaskResult> {
+    return {
+      taskId: task.id,
+      success: true,
+      duration: 1,
+      metadata: {},
+      changedFiles: [],
+      completedAt: new Date()
+    };
+  }
+}
+
+const agentConfig = (agent: FakeAgent): AgentConfig => ({
+  id: agent.id,
+  name: agent.name,
+  role: agent.role,
+  workingDirectory: agent.workingDirectory,
+  capabilities: [],
+  maxConcurrentTasks: 1,
+  healthCheckInterval: 30000,
+  settings: {}
+});
+
+const commit: CommitInfo = {
+  hash: 'abc1234',
+  author: 'frontend-001',
+  date: new Date('2024-01-01T10:00:00Z'),
+  message: 'feat: add login form',
+  files: ['src/login.tsx'],
+  insertions: 40,
+  deletions: 2,
+  branch: 'current'
+};
+
+const worktree: WorktreeInfo = {
+  id: 'frontend-001',
+  agentId: 'frontend-001',
+  path: '/repo/worktrees/agent-frontend-001',
+  branch: 'agent-frontend-001-1',
+  status: 'active',
+  lastActivity: new Date()
+};
+
+const { api, security } = new ConfigManager().createDefaultConfig();
+const apiConfig = { ...api, port: 0 };
+
+describe('ApiServer', () => {
+  let registry: AgentRegistry;
+  let taskManager: TaskManager;
+  let events: EventBus;
+  let context: ApiContext;
+  let app: Express;
+
+  const taskInput = { title: 'Add login form', description: 'Create the form', type: TaskType.FEATURE };
+
+  beforeEach(async () => {
+    registry = new AgentRegistry({
+      maxAgents: 5,
+      healthCheckInterval: 30000,
+      autoRestart: false,
+      loadBalancing: 'capability-based'
+    });
+    const agent = new FakeAgent('frontend-001', AgentRole.FRONTEND);
+    await registry.registerAgent(agent, agentConfig(agent));
+
+    taskManager = new TaskManager(registry, { autoDispatch: false });
+    events = new EventBus();
+    context = {
+      agentRegistry: registry,
+      taskManager,
+      eventBus: events,
+      store: null,
+      repository: {
+        analyzeRepository: async () => ({
+          commits: [commit],
+          branches: [],
+          conflicts: [],
+          metrics: {} as any,
+          recommendations: [],
+          agentActivity: []
+        }),
+        getCommitHistory: async () => [commit],
+        getBranches: async () => []
+      },
+      worktreeManager: {
+        discoverWorktrees: async () => [worktree],
+        getWorktreeForAgent: agentId => (agentId === worktree.agentId ? worktree : undefined),
+        getUncommittedChanges: async () => ['src/login.tsx'],
+        getWorktreeStats: async () => ({ total: 1, active: 1, inactive: 0, corrupted: 0 })
+      }
+    };
+    app = new ApiServer(context, apiConfig, security).getApp();
+  });
+
+  afterEach(async () => {
+    await taskManager.cleanup();
+    await registry.cleanup();
+  });
+
+  describe('agents', () => {
+    it('should list, filter and get agents', async () => {
+      const list = await request(app).get('/api/agents').expect(200);
+      expect(list.body.agents).toHaveLength(1);
+      expect(list.body.agents[0]).toMatchObject({ id: 'frontend-001', role: 'frontend', availableTaskSlots: 0 });
+
+      const filtered = await request(app).get('/api/agents?role=backend').expect(200);
+      expect(filtered.body.agents).toHaveLength(0);
+
+      await request(app).get('/api/agents?role=pilot').expect(400);
+      await request(app).get('/api/agents/frontend-001').expect(200);
+      await request(app).get('/api/agents/ghost').expect(404);
+    });
+
+    it('should start and stop agents and refuse invalid transitions', async () => {
+      const started = await request(app).post('/api/agents/frontend-001/start').expect(200);
+      expect(started.body.agent.status).toBe(AgentStatus.ACTIVE);
+
+      const conflict = await request(app).post('/api/agents/frontend-001/start').expect(409);
+      expect(conflict.body.error).toMatch(/while it is active/);
+
+      const health = await request(app).get('/api/agents/frontend-001/health').expect(200);
+      expect(health.body.health.status).toBe(AgentStatus.ACTIVE);
+
+      await request(app).post('/api/agents/frontend-001/stop').expect(200);
+      expect(registry.getAgent('frontend-001')?.status).toBe(AgentStatus.INACTIVE);
+    });
+  });
+
+  describe('tasks', () => {
+    it('should create tasks and reject invalid bodies', async () => {
+      const created = await request(app).post('/api/tasks').send(taskInput).expect(201);
+      expect(created.body.task).toMatchObject({ title: 'Add login form', status: TaskStatus.PENDING });
+      expect(taskManager.getTask(created.body.task.id)).toBeDefined();
+
+      const invalid = await request(app).post('/api/tasks').send({ title: '', type: 'nap' }).expect(400);
+      expect(invalid.body.details.map((detail: any) => detail.path)).toEqual(
+        expect.arrayContaining(['title', 'description', 'type'])
+      );
+
+      const unknownDependency = await request(app)
+        .post('/api/tasks')
+        .send({ ...taskInput, dependencies: ['missing'] })
+        .expect(400);
+      expect(unknownDependency.body.error).toMatch(/unknown task missing/);
+    });
+
+    it('should drop the metadata the scheduler keeps for itself', async () => {
+      const created = await request(app)
+        .post('/api/tasks')
+        .send({
+          ...taskInput,
+          metadata: {
+            preferredAgent: 'backend-001',
+            excludedAgents: ['frontend-001'],
+            retryNotBefore: '2030-01-01T00:00:00Z',
+            retryHistory: [],
+            role: 'qa',
+            ticket: 'MADO-42'
+          }
+        })
+        .expect(201);
+
+      expect(taskManager.getTask(created.body.task.id)!.metadata).toEqual({ role: 'qa', ticket: 'MADO-42' });
+    });
+
+    it('should list tasks by status and get one with its result', async () => {
+      const first = taskManager.createTask(taskInput);
+      taskManager.createTask({ ...taskInput, title: 'Second' });
+      taskManager.cancelTask(first.id);
+
+      const cancelled = await request(app).get('/api/tasks?status=cancelled').expect(200);
+      expect(cancelled.body.tasks.map((task: Task) => task.id)).toEqual([first.id]);
+
+      const both = await request(app).get('/api/tasks?status=cancelled&status=pending').expect(200);
+      expect(both.body.total).toBe(2);
+
+      const one = await request(app).get(`/api/tasks/${first.id}`).expect(200);
+      expect(one.body.task.id).toBe(first.id);
+      expect(one.body.result).toBeNull();
+
+      await request(app).get('/api/tasks/missing').expect(404);
+    });
+
+    it('should cancel tasks once', async () => {
+      const task = taskManager.createTask(taskInput);
+
+      const cancelled = await request(app)
+        .post(`/api/tasks/${task.id}/cancel`)
+        .send({ reason: 'No longer needed' })
+        .expect(200);
+      expect(cancelled.body.task.status).toBe(TaskStatus.CANCELLED);
+
+      await request(app).post(`/api/tasks/${task.id}/cancel`).send({}).expect(409);
+    });
+
+    it('should return every stored result of a task', async () => {
+      const store = new PersistentStore(':memory:');
+      await store.initialize();
+      context.store = store;
+
+      const task = taskManager.createTask(taskInput);
+      const result = { taskId: task.id, success: false, duration: 5, metadata: {}, changedFiles: [], completedAt: new Date() };
+      await store.saveTaskResult(result, 'frontend-001');
+      await store.saveTaskResult({ ...result, success: true }, 'frontend-001');
+
+      const response = await request(app).get(`/api/tasks/${task.id}/results`).expect(200);
+      expect(response.body.results.map((stored: TaskResult) => stored.success)).toEqual([false, true]);
+
+      await store.close();
+    });
+  });
+
+  describe('worktrees and git', () => {
+    it('should list worktrees and show one with its changes', async () => {
+      const list = await request(app).get('/api/worktrees').expect(200);
+      expect(list.body.worktrees).toHaveLength(1);
+      expect(list.body.stats.total).toBe(1);
+
+      const one = await request(app).get('/api/worktrees/frontend-001').expect(200);
+      expect(one.body.uncommittedChanges).toEqual(['src/login.tsx']);
+
+      await request(app).get('/api/worktrees/ghost').expect(404);
+    });
+
+    it('should return commits with quality scores and the repository analysis', async () => {
+      const commits = await request(app).get('/api/git/commits?limit=5').expect(200);
+      expect(commits.body.commits[0].hash).toBe('abc1234');
+      expect(commits.body.commits[0].quality.score).toEqual(expect.any(Number));
+      expect(commits.body.commits[0].pattern.type).toBe('feature');
+
+      await request(app).get('/api/git/commits?limit=0').expect(400);
+
+      const analysis = await request(app).get('/api/git/analysis').expect(200);
+      expect(analysis.body.history.patterns).toEqual(expect.any(Object));
+    });
+  });
+
+  describe('events', () => {
+    it('should filter the in-memory history without a store', async () => {
+      events.emit(createTaskEvent(SystemEvent.TASK_CREATED, 't1', {}));
+      events.emit(createAgentEvent(SystemEvent.AGENT_STARTED, 'frontend-001', {}));
+      events.emit(createTaskEvent(SystemEvent.TASK_COMPLETED, 't1', {}, 'frontend-001'));
+
+      const byAgent = await request(app).get('/api/events?agentId=frontend-001').expect(200);
+      expect(byAgent.body.events.map((event: any) => event.type)).toEqual([
+        SystemEvent.AGENT_STARTED,
+        SystemEvent.TASK_COMPLETED
+      ]);
+
+      const limited = await request(app).get('/api/events?taskId=t1&limit=1').expect(200);
+      expect(limited.body.events.map((event: any) => event.type)).toEqual([SystemEvent.TASK_COMPLETED]);
+
+      await request(app).get('/api/events?type=task:nope').expect(400);
+    });
+  });
+
+  it('should answer unknown routes and malformed JSON with JSON errors', async () => {
+    const missing = await request(app).get('/api/nothing').expect(404);
+    expect(missing.body.error).toMatch(/No route/);
+
+    await request(app)
+      .post('/api/tasks')
+      .set('Content-Type', 'application/json')
+      .send('{"title":')
+      .expect(400);
+  });
+
+  it('should require an API key everywhere except the health check once authentication is on', async () => {
+    const key = generateApiKey();
+    const secured = new ApiServer(context, apiConfig, {
+      ...security,
+      authentication: true,
+      authorization: true,
+      apiKeys: [{ id: 'dashboard', hash: hashApiKey(key), scope: 'read-only' }]
+    }).getApp();
+
+    await request(secured).get('/api/health').expect(200);
+    await request(secured).get('/api/status').expect(401);
+    await request(secured).get('/api/status').set('X-API-Key', key).expect(200);
+    await request(secured).post('/api/tasks').set('X-API-Key', key).send(taskInput).expect(403);
+  });
+
+  it('should answer 429 with Retry-After once a client exceeds its rate', async () => {
+    const limited = new ApiServer(context, apiConfig, {
+      ...security,
+      rateLimiting: { ...security.rateLimiting, enabled: true, requestsPerMinute: 60, burstLimit: 2 }
+    }).getApp();
+
+    await request(limited).post('/api/tasks').send(taskInput).expect(201);
+    const last = await request(limited).get('/api/tasks').expect(200);
+    expect(last.headers['ratelimit-remaining']).toBe('0');
+
+    const rejected = await request(limited).get('/api/tasks').expect(429);
+    expect(rejected.headers['retry-after']).toBe('1');
+    expect(rejected.body.details.retryAfter).toBe(1);
+
+    // The health check stays reachable for load balancers
+    await request(limited).get('/api/health').expect(200);
+  });
+
+  it('should listen and stop cleanly', async () => {
+    const server = new ApiServer(context, apiConfig, security);
+    const address = await server.start();
+    expect(address.port).toBeGreaterThan(0);
+
+    const response = await request(`http://127.0.0.1:${address.port}`).get('/api/health').expect(200);
+    expect(response.body.status).toBe('ok');
+
+    await server.stop();
+    expect(server.getAddress()).toBeNull();
+  });
+});
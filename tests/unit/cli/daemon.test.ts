@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  findRunningDaemon,
+  isProcessAlive,
+  readPidFile,
+  removePidFile,
+  spawnDaemon,
+  stopDaemon,
+  writePidFile
+} from '../../../src/cli/daemon';
+
+// A stand-in orchestrator: writes its pidfile once "started", logs, and exits on SIGTERM
+const fakeDaemon = (pidFile: string, { ignoreTerm = false, failStart = false } = {}) => [
+  '-e',
+  `
+    const fs = require('fs');
+    console.log('daemon ' + process.env.MADO_DAEMON);
+    if (${failStart}) process.exit(3);
+    fs.mkdirSync(${JSON.stringify(path.dirname(pidFile))}, { recursive: true });
+    setTimeout(() => fs.writeFileSync(${JSON.stringify(pidFile)}, process.pid + '\\n'), 100);
+    process.on('SIGTERM', () => {
+      if (${ignoreTerm}) return;
+      console.log('draining');
+      setTimeout(() => process.exit(0), 100);
+    });
+    setInterval(() => undefined, 1000);
+  `
+];
+
+describe('daemon', () => {
+  let dir: string;
+  let pidFile: string;
+  let logFile: string;
+  const started: number[] = [];
+
+  const spawn = (options: { ignoreTerm?: boolean; failStart?: boolean } = {}) =>
+    spawnDaemon({ command: process.execPath, args: fakeDaemon(pidFile, options), pidFile, logFile, readyTimeout: 5000 })
+      .then(pid => {
+        started.push(pid);
+        return pid;
+      });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-daemon-'));
+    pidFile = path.join(dir, 'data', 'mado.pid');
+    logFile = path.join(dir, 'logs', 'daemon.log');
+  });
+
+  afterEach(() => {
+    started.filter(isProcessAlive).forEach(pid => process.kill(pid, 'SIGKILL'));
+    started.length = 0;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start a detached process, wait for its pidfile and stop it gracefully', async () => {
+    const pid = await spawn();
+
+    expect(readPidFile(pidFile)).toBe(pid);
+    expect(findRunningDaemon(pidFile)).toBe(pid);
+
+    expect(await stopDaemon(pidFile, 5000)).toBe('stopped');
+    expect(isProcessAlive(pid)).toBe(false);
+    expect(fs.existsSync(pidFile)).toBe(false);
+    expect(fs.readFileSync(logFile, 'utf8')).toBe('daemon 1\ndraining\n');
+  });
+
+  it('should report a process that dies during startup', async () => {
+    await expect(spawn({ failStart: true })).rejects.toThrow(`exited during startup with code 3; see ${logFile}`);
+  });
+
+  it('should kill an orchestrator that ignores the shutdown request only when forced', async () => {
+    const pid = await spawn({ ignoreTerm: true });
+
+    await expect(stopDaemon(pidFile, 300)).rejects.toThrow('use --force');
+    expect(isProcessAlive(pid)).toBe(true);
+
+    expect(await stopDaemon(pidFile, 500, true)).toBe('killed');
+    expect(isProcessAlive(pid)).toBe(false);
+  });
+
+  it('should clear a stale pidfile', async () => {
+    // The pid of a process that has already exited
+    const pid = await spawn();
+    process.kill(pid, 'SIGKILL');
+    while (isProcessAlive(pid)) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    expect(findRunningDaemon(pidFile)).toBeNull();
+    expect(fs.existsSync(pidFile)).toBe(false);
+    expect(await stopDaemon(pidFile, 1000)).toBe('not-running');
+  });
+
+  it('should only remove its own pidfile', () => {
+    writePidFile(pidFile, 12345);
+    removePidFile(pidFile);
+    expect(readPidFile(pidFile)).toBe(12345);
+
+    removePidFile(pidFile, 12345);
+    expect(fs.existsSync(pidFile)).toBe(false);
+  });
+});
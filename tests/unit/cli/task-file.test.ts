@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadTaskFile } from '../../../src/cli/task-file';
+import { TaskType, Priority } from '../../../src/types/task.types';
+
+describe('loadTaskFile', () => {
+  let dir: string;
+
+  const write = (name: string, content: string) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-tasks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read a list of tasks from YAML', () => {
+    const tasks = loadTaskFile(write('tasks.yaml', [
+      'tasks:',
+      '  - id: api',
+      '    title: Add login endpoint',
+      '    description: POST /login returning a session token',
+      '    type: feature',
+      '    priority: high',
+      '    files: [src/routes/login.ts]',
+      '    tags: [auth]',
+      '    requirements:',
+      '      - id: r1',
+      '        description: Rejects bad passwords',
+      '        type: functional',
+      '  - title: Login form',
+      '    description: ""',
+      '    type: feature',
+      '    dependencies: [api]'
+    ].join('\n')));
+
+    expect(tasks).toHaveLength(2);
+    expect(tasks[0]).toEqual(expect.objectContaining({
+      id: 'api',
+      type: TaskType.FEATURE,
+      priority: Priority.HIGH,
+      files: ['src/routes/login.ts'],
+      requirements: [{ id: 'r1', description: 'Rejects bad passwords', type: 'functional', satisfied: false }]
+    }));
+    expect(tasks[1].dependencies).toEqual(['api']);
+  });
+
+  it('should read a single task from JSON', () => {
+    const tasks = loadTaskFile(write('task.json', JSON.stringify({
+      title: 'Fix flaky test',
+      description: 'The queue test times out on CI',
+      type: 'bug_fix'
+    })));
+
+    expect(tasks).toEqual([expect.objectContaining({ title: 'Fix flaky test', type: TaskType.BUG_FIX })]);
+  });
+
+  it('should name the task and fields that do not match the task shape', () => {
+    const filePath = write('bad.yml', [
+      '- title: Fine',
+      '  description: ""',
+      '  type: feature',
+      '- title: Broken',
+      '  type: rewrite',
+      '  estimate: 3'
+    ].join('\n'));
+
+    expect(() => loadTaskFile(filePath)).toThrow(
+      new RegExp(`${filePath} task 2 is invalid:\\n  description: .*\\n  type: .*\\n  estimate: "estimate" is not allowed`)
+    );
+  });
+
+  it('should report files that do not parse', () => {
+    const filePath = write('broken.json', '{ "title": ');
+    expect(() => loadTaskFile(filePath)).toThrow(`${filePath} is not valid JSON`);
+  });
+});
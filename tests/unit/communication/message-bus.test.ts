@@ -0,0 +1,290 @@
+import { MessageBus, MessageTimeoutError, MessageDeliveryError } from '../../../src/communication/message-bus';
+import { eventBus, SystemEvent } from '../../../src/core/events';
+import { Message, MessageType } from '../../../src/types/message.types';
+import { Priority } from '../../../src/types/task.types';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const until = async (condition: () => boolean) => {
+  while (!condition()) {
+    await wait(2);
+  }
+};
+
+const gate = () => {
+  let open!: () => void;
+  const opened = new Promise<void>(resolve => { open = resolve; });
+  return { opened, open };
+};
+
+const note = (from: string, to: string | string[], content: any = {}, priority = Priority.MEDIUM) =>
+  MessageBus.createMessage(from, to, MessageType.NOTIFICATION, content, { priority });
+
+describe('MessageBus', () => {
+  let bus: MessageBus;
+
+  beforeEach(() => {
+    bus = new MessageBus({ queues: { default: { retryDelay: 5, retryAttempts: 2 } }, requestTimeout: 200 });
+  });
+
+  afterEach(async () => {
+    await bus.shutdown();
+    eventBus.removeAllListeners();
+    eventBus.clearHistory();
+  });
+
+  describe('routing', () => {
+    it('should deliver to a single recipient', async () => {
+      const received: Message[] = [];
+      await bus.subscribe('a', message => { received.push(message); });
+
+      await bus.publish(note('orchestrator', 'a', { hello: true }));
+      await bus.idle();
+
+      expect(received).toHaveLength(1);
+      expect(received[0].content).toEqual({ hello: true });
+      expect(bus.getMetrics('a')).toMatchObject({ received: 1, processed: 1, failed: 0 });
+      expect(eventBus.getEventHistory(SystemEvent.MESSAGE_RECEIVED)).toHaveLength(1);
+    });
+
+    it('should deliver to a list and dead-letter unknown recipients', async () => {
+      const received: string[] = [];
+      await bus.subscribe('a', () => { received.push('a'); });
+      await bus.subscribe('b', () => { received.push('b'); });
+
+      await bus.publish(note('orchestrator', ['a', 'b', 'ghost']));
+      await bus.idle();
+
+      expect(received.sort()).toEqual(['a', 'b']);
+      const deadLetters = bus.getDeadLetters();
+      expect(deadLetters).toHaveLength(1);
+      expect(deadLetters[0]).toMatchObject({ recipient: 'ghost', reason: 'no_route' });
+    });
+
+    it('should broadcast to everyone except the sender', async () => {
+      const received: string[] = [];
+      for (const id of ['a', 'b', 'c']) {
+        await bus.subscribe(id, () => { received.push(id); });
+      }
+
+      await bus.publish(note('a', '*'));
+      await bus.publish(MessageBus.createMessage('b', 'anything', MessageType.BROADCAST, {}));
+      await bus.idle();
+
+      expect(received.sort()).toEqual(['a', 'b', 'c', 'c']);
+    });
+
+    it('should route unknown addresses through pattern routes', async () => {
+      const received: string[] = [];
+      await bus.subscribe('frontend-001', message => { received.push(message.to as string); });
+      bus.addRoute({ pattern: 'frontend*', handler: 'frontend-001', priority: 1 });
+
+      await bus.publish(note('orchestrator', 'frontend'));
+      await bus.idle();
+
+      expect(received).toEqual(['frontend']);
+    });
+  });
+
+  describe('ordering and expiry', () => {
+    it('should deliver queued messages by priority', async () => {
+      const order: string[] = [];
+      const { opened, open } = gate();
+      await bus.subscribe('a', async message => {
+        order.push(message.content.name);
+        if (message.content.name === 'first') await opened;
+      });
+
+      // The inbox is busy with the first message while the rest queue up
+      await bus.publish(note('x', 'a', { name: 'first' }, Priority.LOW));
+      await until(() => order.length === 1);
+      await bus.publish(note('x', 'a', { name: 'low' }, Priority.LOW));
+      await bus.publish(note('x', 'a', { name: 'medium' }, Priority.MEDIUM));
+      await bus.publish(note('x', 'a', { name: 'critical' }, Priority.CRITICAL));
+      await bus.publish(note('x', 'a', { name: 'high' }, Priority.HIGH));
+      open();
+      await bus.idle();
+
+      expect(order).toEqual(['first', 'critical', 'high', 'medium', 'low']);
+    });
+
+    it('should dead-letter expired messages', async () => {
+      const received: Message[] = [];
+      await bus.subscribe('a', message => { received.push(message); });
+
+      const expired = MessageBus.createMessage('x', 'a', MessageType.NOTIFICATION, {}, {
+        expiresAt: new Date(Date.now() - 1000)
+      });
+      await bus.publish(expired);
+      await bus.idle();
+
+      expect(received).toHaveLength(0);
+      expect(bus.getDeadLetters()[0].reason).toBe('expired');
+      expect(eventBus.getEventHistory(SystemEvent.MESSAGE_FAILED)).toHaveLength(1);
+    });
+
+    it('should dead-letter messages beyond the inbox size', async () => {
+      bus.configure({ queues: { a: { maxSize: 1 } } });
+      let started = 0;
+      const { opened, open } = gate();
+      await bus.subscribe('a', async () => {
+        started++;
+        await opened;
+      });
+
+      await bus.publish(note('x', 'a'));
+      await until(() => started === 1);
+      await bus.publish(note('x', 'a'));
+      await bus.publish(note('x', 'a'));
+      open();
+      await bus.idle();
+
+      expect(bus.getDeadLetters('a')).toHaveLength(1);
+      expect(bus.getDeadLetters('a')[0].reason).toBe('queue_full');
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry failed deliveries and then dead-letter', async () => {
+      let attempts = 0;
+      await bus.subscribe('a', () => {
+        attempts++;
+        throw new Error('handler exploded');
+      });
+
+      await bus.publish(note('x', 'a'));
+      await wait(60);
+      await bus.idle();
+
+      expect(attempts).toBe(3);
+      const [deadLetter] = bus.getDeadLetters('a');
+      expect(deadLetter.reason).toBe('delivery_failed');
+      expect(deadLetter.error).toBe('handler exploded');
+      expect(deadLetter.message.retryCount).toBe(3);
+    });
+
+    it('should succeed on a later attempt', async () => {
+      let attempts = 0;
+      await bus.subscribe('a', () => {
+        attempts++;
+        if (attempts === 1) throw new Error('transient');
+      });
+
+      await bus.publish(note('x', 'a'));
+      await wait(30);
+      await bus.idle();
+
+      expect(attempts).toBe(2);
+      expect(bus.getDeadLetters()).toHaveLength(0);
+    });
+
+    it('should retry only the reply when it cannot be sent', async () => {
+      let handled = 0;
+      await bus.subscribe('a', () => {
+        handled++;
+        return 'done';
+      });
+      const replies: Message[] = [];
+      await bus.subscribe('b', incoming => { replies.push(incoming); });
+
+      const broker = bus.getBroker();
+      const enqueue = broker.enqueue.bind(broker);
+      let refused = 0;
+      jest.spyOn(broker, 'enqueue').mockImplementation(async (queue, message) => {
+        if (queue === 'b' && refused < 1) {
+          refused++;
+          throw new Error('broker unavailable');
+        }
+        return enqueue(queue, message);
+      });
+
+      const request = MessageBus.createMessage('b', 'a', MessageType.REQUEST, {});
+      await bus.publish(request);
+      await wait(30);
+      await bus.idle();
+
+      expect(handled).toBe(1);
+      expect(replies.map(reply => [reply.correlationId, reply.content])).toEqual([[request.id, 'done']]);
+      expect(bus.getDeadLetters()).toHaveLength(0);
+    });
+
+    it('should dead-letter a reply that cannot be sent without running the handler again', async () => {
+      let handled = 0;
+      await bus.subscribe('a', () => {
+        handled++;
+        return 'done';
+      });
+      await bus.subscribe('b', () => undefined);
+      const broker = bus.getBroker();
+      const enqueue = broker.enqueue.bind(broker);
+      jest.spyOn(broker, 'enqueue').mockImplementation(async (queue, message) => {
+        if (queue === 'b') throw new Error('broker unavailable');
+        return enqueue(queue, message);
+      });
+
+      await bus.publish(MessageBus.createMessage('b', 'a', MessageType.REQUEST, {}));
+      await wait(60);
+      await bus.idle();
+
+      expect(handled).toBe(1);
+      const [deadLetter] = bus.getDeadLetters();
+      expect(deadLetter).toMatchObject({ reason: 'delivery_failed', recipient: 'b', error: 'broker unavailable' });
+      expect(deadLetter.message).toMatchObject({ type: MessageType.RESPONSE, content: 'done', retryCount: 3 });
+    });
+
+    it('should redeliver a dead letter', async () => {
+      const message = note('x', 'late');
+      await bus.publish(message);
+      expect(bus.getDeadLetters()).toHaveLength(1);
+
+      const received: Message[] = [];
+      await bus.subscribe('late', incoming => { received.push(incoming); });
+
+      expect(await bus.redeliver(message.id)).toBe(true);
+      await bus.idle();
+
+      expect(received.map(incoming => incoming.id)).toEqual([message.id]);
+      expect(bus.getDeadLetters()).toHaveLength(0);
+    });
+  });
+
+  describe('request/response', () => {
+    it('should resolve with the response returned by the handler', async () => {
+      await bus.subscribe('a', message => ({ echo: message.content.value }));
+
+      const request = MessageBus.createMessage('b', 'a', MessageType.REQUEST, { value: 42 });
+      const response = await bus.request(request);
+
+      expect(response.type).toBe(MessageType.RESPONSE);
+      expect(response.correlationId).toBe(request.id);
+      expect(response.content).toEqual({ echo: 42 });
+    });
+
+    it('should match explicit responses by correlation id', async () => {
+      await bus.subscribe('a', async message => {
+        await bus.respond(message, 'a', 'done');
+      });
+
+      const response = await bus.request(
+        MessageBus.createMessage('b', 'a', MessageType.REQUEST, {}, { correlationId: 'corr-1' })
+      );
+
+      expect(response.correlationId).toBe('corr-1');
+      expect(response.content).toBe('done');
+    });
+
+    it('should time out without a response', async () => {
+      await bus.subscribe('a', () => undefined);
+
+      await expect(
+        bus.request(MessageBus.createMessage('b', 'a', MessageType.REQUEST, {}), 20)
+      ).rejects.toBeInstanceOf(MessageTimeoutError);
+    });
+
+    it('should fail fast when the request cannot be delivered', async () => {
+      await expect(
+        bus.request(MessageBus.createMessage('b', 'nobody', MessageType.REQUEST, {}))
+      ).rejects.toBeInstanceOf(MessageDeliveryError);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { MessageBus } from '../../../src/communication/message-bus';
+import { RedisBroker } from '../../../src/communication/redis-broker';
+import { MemoryBroker } from '../../../src/communication/memory-broker';
+import { createBroker } from '../../../src/communication/message-broker';
+import { ConfigManager } from '../../../src/core/config';
+import { eventBus } from '../../../src/core/events';
+import { Message, MessageType } from '../../../src/types/message.types';
+import { Priority } from '../../../src/types/task.types';
+import { EnvelopeCodec } from '../../../src/utils/codec';
+import { FakeRedisServer } from '../../helpers/fake-redis-server';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const until = async (condition: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await wait(5);
+  }
+};
+
+describe('RedisBroker', () => {
+  let server: FakeRedisServer;
+  let url: string;
+
+  beforeEach(async () => {
+    server = new FakeRedisServer();
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    eventBus.removeAllListeners();
+    eventBus.clearHistory();
+  });
+
+  const redisBroker = () => new RedisBroker({ url, keyPrefix: 'test', recipientTtl: 30000 });
+
+  it('should dequeue by priority and keep dates intact', async () => {
+    const broker = redisBroker();
+    await broker.connect();
+    const low = MessageBus.createMessage('x', 'a', MessageType.NOTIFICATION, { name: 'low' }, { priority: Priority.LOW });
+    const critical = MessageBus.createMessage('x', 'a', MessageType.NOTIFICATION, { name: 'critical' }, { priority: Priority.CRITICAL });
+
+    await broker.enqueue('a', low);
+    await broker.enqueue('a', critical);
+    expect(await broker.size('a')).toBe(2);
+
+    const first = await broker.dequeue('a') as Message;
+    expect(first.content.name).toBe('critical');
+    expect(first.timestamp).toBeInstanceOf(Date);
+    expect((await broker.purge('a')).map(message => message.content.name)).toEqual(['low']);
+    expect(await broker.dequeue('a')).toBeUndefined();
+    expect(server.keys()).toEqual([]);
+
+    await broker.disconnect();
+  });
+
+  it('should store messages through the codec', async () => {
+    const codec = new EnvelopeCodec({ serialization: 'msgpack', compression: 'zlib', encryptionKey: Buffer.alloc(32, 7) });
+    const writer = new RedisBroker({ url, keyPrefix: 'test', recipientTtl: 30000 }, codec);
+    const reader = new RedisBroker({ url, keyPrefix: 'test', recipientTtl: 30000 }, codec);
+    await writer.connect();
+    await reader.connect();
+
+    const sent = MessageBus.createMessage('x', 'a', MessageType.NOTIFICATION, { secret: 'hunter2', at: new Date(0) });
+    await writer.enqueue('a', sent);
+
+    const received = await reader.dequeue('a') as Message;
+    expect(received.content).toEqual({ secret: 'hunter2', at: new Date(0) });
+    expect(received.timestamp).toEqual(sent.timestamp);
+
+    await writer.disconnect();
+    await reader.disconnect();
+  });
+
+  it('should deliver between buses in separate processes', async () => {
+    const orchestrator = new MessageBus({ queues: {}, requestTimeout: 1000 });
+    const worker = new MessageBus({ queues: {}, requestTimeout: 1000 });
+    await orchestrator.useBroker(redisBroker());
+    await worker.useBroker(redisBroker());
+
+    const received: Message[] = [];
+    await worker.subscribe('agent-001', message => { received.push(message); });
+    expect(await orchestrator.getBroker().getRecipients()).toEqual(['agent-001']);
+
+    await orchestrator.publish(
+      MessageBus.createMessage('orchestrator', 'agent-001', MessageType.NOTIFICATION, { step: 1 })
+    );
+    await until(() => received.length === 1);
+
+    expect(received[0].content).toEqual({ step: 1 });
+    expect(received[0].timestamp).toBeInstanceOf(Date);
+
+    await orchestrator.shutdown();
+    await worker.shutdown();
+  });
+
+  it('should answer requests across buses', async () => {
+    const orchestrator = new MessageBus({ queues: {}, requestTimeout: 1000 });
+    const worker = new MessageBus({ queues: {}, requestTimeout: 1000 });
+    await orchestrator.useBroker(redisBroker());
+    await worker.useBroker(redisBroker());
+
+    await orchestrator.subscribe('orchestrator', () => undefined);
+    await worker.subscribe('agent-001', message => ({ doubled: message.content.value * 2 }));
+
+    const response = await orchestrator.request(
+      MessageBus.createMessage('orchestrator', 'agent-001', MessageType.REQUEST, { value: 21 })
+    );
+    expect(response.content).toEqual({ doubled: 42 });
+
+    await orchestrator.shutdown();
+    await worker.shutdown();
+  });
+
+  it('should keep messages for an inbox until it subscribes again', async () => {
+    const orchestrator = new MessageBus({ queues: {}, requestTimeout: 1000 });
+    await orchestrator.useBroker(redisBroker());
+    // Known recipient whose process is not running right now
+    await orchestrator.getBroker().registerRecipient('agent-002');
+
+    await orchestrator.publish(MessageBus.createMessage('orchestrator', 'agent-002', MessageType.NOTIFICATION, 'queued'));
+    expect(await orchestrator.getQueueSize('agent-002')).toBe(1);
+
+    const worker = new MessageBus({ queues: {}, requestTimeout: 1000 });
+    await worker.useBroker(redisBroker());
+    const received: Message[] = [];
+    await worker.subscribe('agent-002', message => { received.push(message); });
+    await until(() => received.length === 1);
+
+    expect(received[0].content).toBe('queued');
+
+    await orchestrator.shutdown();
+    await worker.shutdown();
+  });
+
+  it('should stop routing to inboxes whose process stopped renewing them', async () => {
+    const live = new RedisBroker({ url, keyPrefix: 'test', recipientTtl: 60 });
+    const crashed = new RedisBroker({ url, keyPrefix: 'test', recipientTtl: 60 });
+    await live.connect();
+    await crashed.connect();
+    await live.registerRecipient('agent-001');
+    await crashed.registerRecipient('agent-002');
+    // Gone without unregistering, as when the process is killed
+    await crashed.disconnect();
+
+    const orchestrator = new MessageBus({ queues: {}, requestTimeout: 1000 });
+    await orchestrator.useBroker(redisBroker());
+    expect((await orchestrator.getBroker().getRecipients()).sort()).toEqual(['agent-001', 'agent-002']);
+
+    await wait(150);
+    expect(await orchestrator.getBroker().getRecipients()).toEqual(['agent-001']);
+
+    await orchestrator.publish(MessageBus.createMessage('orchestrator', 'agent-002', MessageType.NOTIFICATION, 'lost'));
+    expect(orchestrator.getDeadLetters('agent-002').map(entry => entry.reason)).toEqual(['no_route']);
+    expect(await orchestrator.getQueueSize('agent-002')).toBe(0);
+
+    await live.unregisterRecipient('agent-001');
+    expect(await orchestrator.getBroker().getRecipients()).toEqual([]);
+
+    await orchestrator.shutdown();
+    await live.disconnect();
+  });
+
+  it('should be chosen by configuration alone', async () => {
+    const config = new ConfigManager().createDefaultConfig().messaging;
+
+    const memory = createBroker(config);
+    expect(memory).toBeInstanceOf(MemoryBroker);
+
+    const redis = createBroker({ ...config, broker: 'redis', redis: { url, keyPrefix: 'configured', recipientTtl: 30000 } });
+    expect(redis).toBeInstanceOf(RedisBroker);
+    await redis.connect();
+    await redis.disconnect();
+
+    expect(() => createBroker({ ...config, broker: 'rabbitmq' as any })).toThrow(/not supported/);
+  });
+});
@@ -1,4 +1,4 @@
-import { ConfigManager } from '../../../src/core/config';
+import { ConfigManager, resolveProjectPath } from '../../../src/core/config';
 import { AgentRole } from '../../../src/types/agent.types';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -115,6 +115,60 @@ describe('ConfigManager', () => {
       await expect(testConfigManager.load()).rejects.toThrow('Configuration validation failed');
     });
 
+    it('should reject API keys that are not stored as hashes', async () => {
+      const config = configManager.createDefaultConfig();
+      config.security.apiKeys = [{ id: 'ci', hash: 'mado_plaintext', scope: 'admin' }];
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(config));
+
+      const testConfigManager = new ConfigManager('/test/keys/config.json');
+
+      await expect(testConfigManager.load()).rejects.toThrow(/hash/);
+    });
+
+    it('should reject serialization formats the codec does not support', async () => {
+      const config: any = configManager.createDefaultConfig();
+      config.messaging.serialization = 'protobuf';
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(config));
+
+      await expect(new ConfigManager('/test/codec/config.json').load()).rejects.toThrow(/serialization/);
+    });
+
+    it('should reject message brokers that are not implemented', async () => {
+      const config: any = configManager.createDefaultConfig();
+      config.messaging.broker = 'rabbitmq';
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(config));
+
+      await expect(new ConfigManager('/test/broker/config.json').load()).rejects.toThrow(/broker/);
+    });
+
+    it('should fill in defaults for agent pool entries and reject invalid ones', async () => {
+      const config: any = configManager.createDefaultConfig();
+      config.agents.pool = [{ role: 'backend', capabilities: [{ name: 'typescript', level: 9 }] }];
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(config));
+
+      const loaded = await new ConfigManager('/test/pool/config.json').load();
+      expect(loaded.agents.pool).toEqual([{
+        id: '{role}-{n}',
+        role: AgentRole.BACKEND,
+        count: 1,
+        capabilities: [{ name: 'typescript', level: 9, description: '' }],
+        maxConcurrentTasks: 2
+      }]);
+
+      config.agents.pool = [{ role: 'backend', id: 'agents/{n}', capabilities: [{ name: 'typescript', level: 11 }] }];
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(config));
+
+      await expect(new ConfigManager('/test/pool/config.json').load()).rejects.toThrow(/pool\[0\]\.id/);
+    });
+
     it('should throw error when config file is not found', async () => {
       // Mock fs to simulate file not found
       mockFs.existsSync.mockReturnValue(false);
@@ -168,6 +222,21 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('resolveProjectPath', () => {
+    it('should resolve the project directory against the config file', async () => {
+      const config = configManager.createDefaultConfig();
+      config.project.workingDirectory = '..';
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(config));
+
+      const loaded = await new ConfigManager('/test/project/config/default.json').load();
+      expect(loaded.project.workingDirectory).toBe(path.resolve('/test/project'));
+      expect(resolveProjectPath(loaded, './data/mado.db')).toBe(path.resolve('/test/project/data/mado.db'));
+      expect(resolveProjectPath(loaded, '/var/lib/mado.db')).toBe(path.resolve('/var/lib/mado.db'));
+    });
+  });
+
   describe('getSection', () => {
     it('should return specific configuration section', async () => {
       const mockConfig = configManager.createDefaultConfig();
@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MADOOrchestrator } from '../../../src/index';
+import { ConfigManager } from '../../../src/core/config';
+import { DevelopmentAgent } from '../../../src/agents/dev-agent';
+import { TaskExecutor } from '../../../src/types/executor.types';
+import { AgentRole } from '../../../src/types/agent.types';
+import { MADOConfig } from '../../../src/types/config.types';
+import { TaskType } from '../../../src/types/task.types';
+import { createTask } from '../../helpers/tasks';
+
+describe('MADOOrchestrator', () => {
+  let dir: string;
+  let orchestrator: MADOOrchestrator | null;
+
+  const writeConfig = (changes: (config: MADOConfig) => void): string => {
+    const config = new ConfigManager().createDefaultConfig();
+    config.project.workingDirectory = dir;
+    config.storage.enabled = false;
+    config.api.enabled = false;
+    config.control.enabled = false;
+    config.monitoring.dashboard.enabled = false;
+    changes(config);
+
+    const configPath = path.join(dir, 'custom.json');
+    fs.writeFileSync(configPath, JSON.stringify(config));
+    return configPath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-orchestrator-'));
+    orchestrator = null;
+  });
+
+  afterEach(async () => {
+    if (orchestrator) {
+      await orchestrator.getTaskManager().cleanup();
+      await orchestrator.getAgentRegistry().cleanup();
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should build the registry and agents from the injected configuration', async () => {
+    const configPath = writeConfig(config => {
+      config.agents.maxConcurrentAgents = 4;
+      config.agents.defaultRoles = [AgentRole.BACKEND, AgentRole.BACKEND, AgentRole.DEVOPS];
+      config.agents.taskTimeout = 120000;
+    });
+
+    orchestrator = new MADOOrchestrator(new ConfigManager(configPath));
+    await orchestrator.initialize();
+
+    const agents = orchestrator.getAgentRegistry().getAllAgents();
+    expect(agents.map(agent => [agent.id, agent.name, agent.role])).toEqual([
+      ['backend-001', 'Backend Developer', AgentRole.BACKEND],
+      ['backend-002', 'Backend Developer 2', AgentRole.BACKEND],
+      ['devops-001', 'DevOps Engineer', AgentRole.DEVOPS]
+    ]);
+    expect(agents.every(agent => agent.workingDirectory === dir)).toBe(true);
+    expect(agents.every(agent => agent instanceof DevelopmentAgent)).toBe(true);
+    expect(orchestrator.getExecutorRegistry().resolve(createTask({ type: TaskType.FEATURE }), AgentRole.BACKEND).name).toBe('claude-code');
+  });
+
+  it('should fall back to the template executor when the Claude Code integration is disabled', async () => {
+    const configPath = writeConfig(config => {
+      config.integrations.claudeCode.enabled = false;
+    });
+
+    orchestrator = new MADOOrchestrator(new ConfigManager(configPath));
+    await orchestrator.initialize();
+
+    const agents = orchestrator.getAgentRegistry().getAllAgents();
+    expect(agents).toHaveLength(3);
+    const executors = orchestrator.getExecutorRegistry();
+    expect(executors.get('claude-code')).toBeUndefined();
+    expect(executors.resolve(createTask({ type: TaskType.FEATURE }), AgentRole.BACKEND).name).toBe('template');
+  });
+
+  it('should choose executors from agents.executors, including ones registered before initialize', async () => {
+    const generator: TaskExecutor = { execute: async () => ({ output: 'generated', metadata: {} }) };
+    const configPath = writeConfig(config => {
+      config.agents.executors.default = 'template';
+      config.agents.executors.byRole = { [AgentRole.QA]: 'generator' };
+      config.agents.executors.byTaskType = { [TaskType.DOCUMENTATION]: 'dry-run' };
+    });
+
+    orchestrator = new MADOOrchestrator(new ConfigManager(configPath));
+    orchestrator.registerExecutor('generator', generator);
+    await orchestrator.initialize();
+
+    const executors = orchestrator.getExecutorRegistry();
+    expect(executors.resolve(createTask({ type: TaskType.FEATURE }), AgentRole.BACKEND).name).toBe('template');
+    expect(executors.resolve(createTask({ type: TaskType.FEATURE }), AgentRole.QA).executor).toBe(generator);
+    expect(executors.resolve(createTask({ type: TaskType.DOCUMENTATION }), AgentRole.QA).name).toBe('dry-run');
+  });
+
+  it('should refuse an executor that is not registered', async () => {
+    const configPath = writeConfig(config => {
+      config.agents.executors.byTaskType = { [TaskType.TEST]: 'generator' };
+    });
+
+    orchestrator = new MADOOrchestrator(new ConfigManager(configPath));
+    await expect(orchestrator.initialize()).rejects.toThrow(
+      'agents.executors.byTaskType.test names executor "generator", which is not registered (available: template, dry-run, claude-code)'
+    );
+  });
+
+  it('should not create more agents than agents.maxConcurrentAgents allows', async () => {
+    const configPath = writeConfig(config => {
+      config.agents.maxConcurrentAgents = 2;
+      config.agents.defaultRoles = [AgentRole.FRONTEND, AgentRole.BACKEND, AgentRole.QA];
+    });
+
+    orchestrator = new MADOOrchestrator(new ConfigManager(configPath));
+    await orchestrator.initialize();
+
+    const registry = orchestrator.getAgentRegistry();
+    expect(registry.getAllAgents().map(agent => agent.id)).toEqual(['frontend-001', 'backend-001']);
+  });
+
+  it('should create the agents defined in agents.pool instead of agents.defaultRoles', async () => {
+    const configPath = writeConfig(config => {
+      config.integrations.claudeCode.defaultModel = 'default-model';
+      config.agents.pool = [
+        {
+          id: 'api-{n}',
+          role: AgentRole.BACKEND,
+          count: 2,
+          capabilities: [{ name: 'coding', level: 10, description: 'Go services' }],
+          maxConcurrentTasks: 3,
+          model: 'large-model'
+        },
+        { id: '{role}-{n}', role: AgentRole.QA, count: 1, capabilities: [], maxConcurrentTasks: 1 }
+      ];
+    });
+
+    orchestrator = new MADOOrchestrator(new ConfigManager(configPath));
+    await orchestrator.initialize();
+
+    const agents = orchestrator.getAgentRegistry().getAllAgents();
+    expect(agents.map(agent => [agent.id, agent.name, agent.metadata.model])).toEqual([
+      ['api-001', 'Backend Developer', 'large-model'],
+      ['api-002', 'Backend Developer 2', 'large-model'],
+      ['qa-001', 'Quality Assurance', 'default-model']
+    ]);
+    // Configured levels win over the agent's built-in capabilities
+    expect(agents[0].capabilities.find(capability => capability.name === 'coding')).toEqual(
+      { name: 'coding', level: 10, description: 'Go services' }
+    );
+    expect(agents[1].capabilities.filter(capability => capability.name === 'coding')).toHaveLength(1);
+  });
+
+  it('should refuse a pool larger than agents.maxConcurrentAgents', async () => {
+    const configPath = writeConfig(config => {
+      config.agents.maxConcurrentAgents = 2;
+      config.agents.pool = [
+        { id: '{role}-{n}', role: AgentRole.BACKEND, count: 3, capabilities: [], maxConcurrentTasks: 2 }
+      ];
+    });
+
+    orchestrator = new MADOOrchestrator(new ConfigManager(configPath));
+    await expect(orchestrator.initialize()).rejects.toThrow(
+      'agents.pool defines 3 agents but agents.maxConcurrentAgents is 2'
+    );
+  });
+});
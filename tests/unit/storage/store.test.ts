@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { PersistentStore } from '../../../src/storage/store';
+import { SqliteDatabase } from '../../../src/storage/database';
+import { EnvelopeCodec, CodecError } from '../../../src/utils/codec';
+import {
+  EventBus,
+  SystemEvent,
+  createTaskEvent,
+  createAgentEvent,
+  createSystemEvent
+} from '../../../src/core/events';
+import { Task, TaskStatus } from '../../../src/types/task.types';
+import { createTask } from '../../helpers/tasks';
+
+const makeTask = (id: string, overrides: Partial<Task> = {}): Task => createTask({
+  id,
+  title: `Task ${id}`,
+  status: TaskStatus.PENDING,
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  tags: ['api'],
+  ...overrides
+});
+
+const metrics = (tasksCompleted: number) => ({
+  tasksCompleted,
+  averageTaskDuration: 1000,
+  successRate: 1,
+  codeQualityScore: 85,
+  collaborationScore: 0,
+  lastActivityTime: new Date('2024-01-01T10:00:00Z')
+});
+
+describe('PersistentStore', () => {
+  let store: PersistentStore;
+
+  beforeEach(async () => {
+    store = new PersistentStore(':memory:');
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('upserts tasks and restores dates', async () => {
+    const task = makeTask('t1');
+    await store.saveTask(task);
+    await store.saveTask({
+      ...task,
+      status: TaskStatus.IN_PROGRESS,
+      assignedAgent: 'agent-1',
+      startedAt: new Date('2024-01-01T10:05:00Z'),
+      updatedAt: new Date('2024-01-01T10:05:00Z')
+    });
+
+    const stored = await store.getTask('t1');
+    expect(stored?.status).toBe(TaskStatus.IN_PROGRESS);
+    expect(stored?.startedAt).toEqual(new Date('2024-01-01T10:05:00Z'));
+    expect(stored?.createdAt).toBeInstanceOf(Date);
+    expect(await store.queryTasks()).toHaveLength(1);
+    expect(await store.getTask('missing')).toBeUndefined();
+  });
+
+  it('queries tasks by status, agent and time range', async () => {
+    await store.saveTask(makeTask('t1', { status: TaskStatus.COMPLETED, assignedAgent: 'a' }));
+    await store.saveTask(makeTask('t2', {
+      status: TaskStatus.FAILED,
+      assignedAgent: 'b',
+      updatedAt: new Date('2024-01-02T10:00:00Z')
+    }));
+    await store.saveTask(makeTask('t3'));
+
+    const byStatus = await store.queryTasks({ status: [TaskStatus.COMPLETED, TaskStatus.FAILED] });
+    expect(byStatus.map(task => task.id)).toEqual(['t1', 't2']);
+
+    expect(await store.queryTasks({ status: [] })).toEqual([]);
+    expect(await store.queryEvents({ type: [] })).toEqual([]);
+
+    const byAgent = await store.queryTasks({ agentId: 'b' });
+    expect(byAgent.map(task => task.id)).toEqual(['t2']);
+
+    const recent = await store.queryTasks({ since: new Date('2024-01-02T00:00:00Z') });
+    expect(recent.map(task => task.id)).toEqual(['t2']);
+  });
+
+  it('keeps every result and assignment for a task', async () => {
+    const failedAt = new Date('2024-01-01T10:01:00Z');
+    const completedAt = new Date('2024-01-01T10:10:00Z');
+
+    await store.saveTaskResult(
+      { taskId: 't1', success: false, error: 'boom', duration: 5, metadata: {}, changedFiles: [], completedAt: failedAt },
+      'agent-1'
+    );
+    await store.saveTaskResult(
+      { taskId: 't1', success: true, duration: 7, metadata: {}, changedFiles: ['a.ts'], completedAt },
+      'agent-2'
+    );
+    await store.saveAssignment({
+      taskId: 't1',
+      agentId: 'agent-1',
+      assignedAt: new Date('2024-01-01T10:00:00Z'),
+      estimatedCompletion: new Date('2024-01-01T10:30:00Z'),
+      confidence: 0.8
+    });
+    await store.saveAssignment({
+      taskId: 't1',
+      agentId: 'agent-2',
+      assignedAt: new Date('2024-01-01T10:02:00Z'),
+      estimatedCompletion: new Date('2024-01-01T10:32:00Z'),
+      confidence: 0.6
+    });
+
+    const results = await store.queryTaskResults({ taskId: 't1' });
+    expect(results.map(result => result.success)).toEqual([false, true]);
+    expect(results[1].agentId).toBe('agent-2');
+    expect(results[1].completedAt).toEqual(completedAt);
+
+    const agentResults = await store.queryTaskResults({ agentId: 'agent-1' });
+    expect(agentResults).toHaveLength(1);
+
+    const assignments = await store.queryAssignments({ agentId: 'agent-2' });
+    expect(assignments).toHaveLength(1);
+    expect(assignments[0].estimatedCompletion).toEqual(new Date('2024-01-01T10:32:00Z'));
+
+    await store.deleteAssignment(assignments[0]);
+    expect((await store.queryAssignments({ taskId: 't1' })).map(a => a.agentId)).toEqual(['agent-1']);
+  });
+
+  it('records agent metrics over time', async () => {
+    await store.saveAgentMetrics('agent-1', metrics(1), new Date('2024-01-01T10:00:00Z'));
+    await store.saveAgentMetrics('agent-1', metrics(2), new Date('2024-01-01T11:00:00Z'));
+    await store.saveAgentMetrics('agent-2', metrics(5), new Date('2024-01-01T11:00:00Z'));
+
+    const history = await store.queryAgentMetrics({
+      agentId: 'agent-1',
+      until: new Date('2024-01-01T10:30:00Z')
+    });
+    expect(history).toHaveLength(1);
+    expect(history[0].metrics.tasksCompleted).toBe(1);
+
+    const latest = await store.getLatestAgentMetrics('agent-1');
+    expect(latest?.metrics.tasksCompleted).toBe(2);
+    expect(latest?.metrics.lastActivityTime).toBeInstanceOf(Date);
+  });
+
+  it('persists events from the event bus and filters them', async () => {
+    const bus = new EventBus();
+    const detach = store.attachEventBus(bus);
+
+    bus.emit(createTaskEvent(SystemEvent.TASK_CREATED, 't1', {}, undefined, 'task-manager'));
+    bus.emit(createAgentEvent(SystemEvent.AGENT_STARTED, 'agent-1', {}));
+    bus.emit(createSystemEvent(SystemEvent.TASK_ASSIGNED, { taskId: 't1', agentId: 'agent-1' }));
+
+    detach();
+    bus.emit(createTaskEvent(SystemEvent.TASK_COMPLETED, 't1', {}));
+    await store.flush();
+
+    const all = await store.queryEvents();
+    expect(all.map(event => event.type)).toEqual([
+      SystemEvent.TASK_CREATED,
+      SystemEvent.AGENT_STARTED,
+      SystemEvent.TASK_ASSIGNED
+    ]);
+    expect(all[0].timestamp).toBeInstanceOf(Date);
+
+    const forTask = await store.queryEvents({ taskId: 't1' });
+    expect(forTask.map(event => event.type)).toEqual([SystemEvent.TASK_CREATED, SystemEvent.TASK_ASSIGNED]);
+
+    const forAgent = await store.queryEvents({ agentId: 'agent-1' });
+    expect(forAgent).toHaveLength(2);
+
+    const latest = await store.queryEvents({ limit: 1 });
+    expect(latest.map(event => event.type)).toEqual([SystemEvent.TASK_ASSIGNED]);
+  });
+
+  it('prunes events older than a cutoff', async () => {
+    const old = { ...createTaskEvent(SystemEvent.TASK_CREATED, 't1', {}), timestamp: new Date('2020-01-01') };
+    await store.saveEvent(old);
+    await store.saveEvent(createTaskEvent(SystemEvent.TASK_CREATED, 't2', {}));
+
+    expect(await store.pruneEvents(new Date('2021-01-01'))).toBe(1);
+    expect(await store.queryEvents()).toHaveLength(1);
+  });
+
+  it('writes rows through the codec', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-store-'));
+    const file = path.join(dir, 'mado.db');
+    const codec = new EnvelopeCodec({ serialization: 'msgpack', compression: 'brotli', encryptionKey: crypto.randomBytes(32) });
+
+    try {
+      const encrypted = new PersistentStore(file, codec);
+      await encrypted.initialize();
+      await encrypted.saveTask(makeTask('secret', { title: 'Rotate the signing keys' }));
+
+      const raw = new SqliteDatabase(file);
+      await raw.open();
+      const row = await raw.get<{ data: Buffer }>('SELECT data FROM tasks WHERE id = ?', ['secret']);
+      expect(Buffer.isBuffer(row?.data)).toBe(true);
+      expect(row?.data.toString('latin1')).not.toContain('signing');
+      await raw.close();
+
+      expect((await encrypted.getTask('secret'))?.title).toBe('Rotate the signing keys');
+      await encrypted.close();
+
+      const withoutKey = new PersistentStore(file);
+      await withoutKey.initialize();
+      await expect(withoutKey.getTask('secret')).rejects.toBeInstanceOf(CodecError);
+      await withoutKey.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,43 @@
+import { DependencyGraph } from '../../../src/tasks/dependency-graph';
+
+describe('DependencyGraph', () => {
+  let graph: DependencyGraph;
+
+  beforeEach(() => {
+    graph = new DependencyGraph();
+    ['a', 'b', 'c', 'd'].forEach(id => graph.addTask(id));
+  });
+
+  it('should group independent tasks into parallel execution levels', () => {
+    graph.addDependency({ taskId: 'c', dependsOn: 'a', type: 'blocks' });
+    graph.addDependency({ taskId: 'c', dependsOn: 'b', type: 'blocks' });
+    graph.addDependency({ taskId: 'd', dependsOn: 'c', type: 'waits_for' });
+
+    expect(graph.getExecutionLevels()).toEqual([['a', 'b'], ['c'], ['d']]);
+    expect(graph.getDepth('d')).toBe(2);
+  });
+
+  it('should reject a dependency that closes a cycle and name the cycle', () => {
+    graph.addDependency({ taskId: 'b', dependsOn: 'a', type: 'blocks' });
+    graph.addDependency({ taskId: 'c', dependsOn: 'b', type: 'blocks' });
+
+    expect(() => graph.addDependency({ taskId: 'a', dependsOn: 'c', type: 'enhances' })).toThrow(
+      'Dependency cycle detected: a -> c -> b -> a'
+    );
+    expect(graph.getPrerequisites('a')).toEqual([]);
+  });
+
+  it('should reject self dependencies', () => {
+    expect(() => graph.addDependency({ taskId: 'a', dependsOn: 'a', type: 'blocks' })).toThrow(
+      'Dependency cycle detected: a -> a'
+    );
+  });
+
+  it('should drop edges when a task is removed', () => {
+    graph.addDependency({ taskId: 'b', dependsOn: 'a', type: 'blocks' });
+    graph.removeTask('a');
+
+    expect(graph.getPrerequisites('b')).toEqual([]);
+    expect(graph.getExecutionLevels()).toEqual([['b', 'c', 'd']]);
+  });
+});
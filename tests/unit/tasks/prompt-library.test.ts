@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptLibrary, hashPrompt } from '../../../src/tasks/prompt-library';
+import { AgentRole } from '../../../src/types/agent.types';
+import { ContextBundle } from '../../../src/types/executor.types';
+import { TaskType } from '../../../src/types/task.types';
+import { createTask } from '../../helpers/tasks';
+
+describe('PromptLibrary', () => {
+  let dir: string;
+
+  const writeTemplate = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), content);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mado-prompts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should describe the task, its requirements and files with the built-in template', async () => {
+    const prompt = await new PromptLibrary().render(createTask());
+
+    expect(prompt.text).toBe(
+      '# Add greeting\n\nWrite a greeting to feature.txt\n\nTask type: feature\nPriority: high\n\n' +
+      '## Requirements\n- (functional) Say hello\n\n## Files\n- feature.txt\n\n' +
+      'Make the changes directly in this working tree. Do not commit them; they are committed for you once you are done.\n'
+    );
+    expect(prompt).toMatchObject({ template: 'built-in', version: '2', hash: hashPrompt(prompt.text) });
+  });
+
+  it('should include the repository context given for the task', async () => {
+    const context: ContextBundle = {
+      commit: 'abc123',
+      budget: 1000,
+      size: 20,
+      items: [
+        { kind: 'file', label: 'feature.txt', path: 'feature.txt', reason: 'listed in the task', score: 100, content: 'hi', truncated: true }
+      ],
+      omitted: []
+    };
+
+    const prompt = await new PromptLibrary().render(createTask(), { context });
+
+    expect(prompt.text).toContain('## Repository context\n\n### feature.txt (listed in the task, truncated)\n```\nhi\n```\n');
+  });
+
+  it('should use the most specific template for the task type and role', async () => {
+    writeTemplate('default.md', 'default');
+    writeTemplate('roles/qa.md', 'qa');
+    writeTemplate('types/feature.md', 'feature');
+    writeTemplate('roles/qa/feature.md', 'qa feature');
+    const library = new PromptLibrary({ directory: dir });
+
+    expect((await library.render(createTask(), { role: AgentRole.QA })).template).toBe('roles/qa/feature.md');
+    expect((await library.render(createTask(), { role: AgentRole.BACKEND })).template).toBe('types/feature.md');
+    expect((await library.render(createTask({ type: TaskType.TEST }), { role: AgentRole.QA })).template).toBe('roles/qa.md');
+    expect((await library.render(createTask({ type: TaskType.TEST }))).text).toBe('default');
+  });
+
+  it('should read the version from front matter and pass in the role, project and conventions', async () => {
+    writeTemplate('types/feature.md', '---\nversion: 3\n---\n{{project.name}}/{{agent.name}} as {{role}}: {{task.title}}\n{{conventions}}\n');
+    writeTemplate('conventions.md', 'Use two spaces.\n');
+    const library = new PromptLibrary({
+      directory: dir,
+      project: { name: 'shop', description: 'Web shop', repository: 'git@example.com:shop.git' }
+    });
+
+    const prompt = await library.render(createTask(), { role: AgentRole.FRONTEND, agentName: 'Frontend Developer' });
+
+    expect(prompt.text).toBe('shop/Frontend Developer as frontend: Add greeting\nUse two spaces.\n');
+    expect(prompt.version).toBe('3');
+    expect(prompt.hash).toBe(hashPrompt(prompt.text));
+    expect(prompt.hash).not.toBe((await library.render(createTask({ title: 'Other' }), { role: AgentRole.FRONTEND })).hash);
+  });
+
+  it('should report broken templates when checked', async () => {
+    writeTemplate('default.md', 'fine');
+    const library = new PromptLibrary({ directory: dir });
+    expect(await library.check()).toEqual(['default.md']);
+
+    writeTemplate('roles/backend/bug_fix.md', '{{#if task.files}}\n');
+    await expect(library.check()).rejects.toThrow(
+      `${path.join(dir, 'roles/backend/bug_fix.md')} line 1: {{#if}} is never closed`
+    );
+  });
+});
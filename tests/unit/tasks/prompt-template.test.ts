@@ -0,0 +1,43 @@
+import { PromptTemplate } from '../../../src/tasks/prompt-template';
+
+describe('PromptTemplate', () => {
+  const render = (source: string, variables: Record<string, any> = {}) =>
+    new PromptTemplate(source, 'test.md').render(variables);
+
+  it('should fill in values by dotted path', () => {
+    expect(render('{{task.title}} for {{ role }}{{missing.value}}', { task: { title: 'Add login' }, role: 'frontend' }))
+      .toBe('Add login for frontend');
+    expect(render('{{files}} {{count}} {{flag}}', { files: ['a.ts', 'b.ts'], count: 0, flag: false }))
+      .toBe('a.ts, b.ts 0 false');
+  });
+
+  it('should treat empty lists as false in if and unless', () => {
+    const source = '{{#if files}}some{{else}}none{{/if}}/{{#unless files}}empty{{/unless}}';
+
+    expect(render(source, { files: [] })).toBe('none/empty');
+    expect(render(source, { files: ['a.ts'] })).toBe('some/');
+  });
+
+  it('should repeat each block per item, falling back to enclosing scopes', () => {
+    const source = '{{#each requirements}}{{@index}}:{{description}}@{{role}}{{#unless @last}},{{/unless}}{{else}}none{{/each}}';
+    const requirements = [{ description: 'Validate email' }, { description: 'Hash passwords', role: 'security' }];
+
+    expect(render(source, { requirements, role: 'backend' })).toBe('0:Validate email@backend,1:Hash passwords@security');
+    expect(render(source, { requirements: [] })).toBe('none');
+    expect(render('{{#each files}}[{{this}}]{{/each}}', { files: ['a.ts', 'b.ts'] })).toBe('[a.ts][b.ts]');
+  });
+
+  it('should drop lines that hold only a block tag or comment', () => {
+    const source = 'Files:\n{{! listed one per line }}\n{{#each files}}\n- {{this}}\n{{/each}}\nDone\n';
+
+    expect(render(source, { files: ['a.ts', 'b.ts'] })).toBe('Files:\n- a.ts\n- b.ts\nDone\n');
+  });
+
+  it('should report malformed templates with their line', () => {
+    expect(() => render('one\n{{#each files}}\n')).toThrow('test.md line 2: {{#each}} is never closed');
+    expect(() => render('{{#if a}}\n{{/each}}')).toThrow('test.md line 2: {{/each}} closes {{#if}} from line 1');
+    expect(() => render('{{#with task}}{{/with}}')).toThrow('test.md line 1: unknown block {{#with}}');
+    expect(() => render('{{else}}')).toThrow('test.md line 1: {{else}} outside of a block');
+    expect(() => render('{{task title}}')).toThrow('test.md line 1: "task title" is not a valid name');
+  });
+});
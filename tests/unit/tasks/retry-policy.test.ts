@@ -0,0 +1,110 @@
+import { RetryManager, DEFAULT_RETRY_POLICY } from '../../../src/tasks/retry-policy';
+import { TaskResult, TaskType, Priority } from '../../../src/types/task.types';
+import { createTask } from '../../helpers/tasks';
+
+const failure = (error: string, metadata: Record<string, any> = {}): TaskResult => ({
+  taskId: 'task-1',
+  success: false,
+  error,
+  duration: 10,
+  metadata,
+  changedFiles: [],
+  completedAt: new Date()
+});
+
+describe('RetryManager', () => {
+  describe('classifyFailure', () => {
+    it('should classify git lock errors as transient', () => {
+      expect(
+        RetryManager.classifyFailure(
+          failure("fatal: Unable to create '/repo/.git/index.lock': File exists.")
+        )
+      ).toBe('transient');
+    });
+
+    it('should classify capability errors', () => {
+      expect(
+        RetryManager.classifyFailure(failure('Agent qa-001 cannot handle task of type deployment'))
+      ).toBe('capability');
+    });
+
+    it('should classify timeouts and cancellations from result metadata', () => {
+      expect(RetryManager.classifyFailure(failure('x', { timedOut: true }))).toBe('timeout');
+      expect(RetryManager.classifyFailure(failure('x', { cancelled: true }))).toBe('cancelled');
+      expect(RetryManager.classifyFailure(failure('Something odd'))).toBe('unknown');
+    });
+  });
+
+  describe('getPolicy', () => {
+    it('should layer priority and task type overrides over the default', () => {
+      const manager = new RetryManager({
+        default: DEFAULT_RETRY_POLICY,
+        byPriority: { [Priority.CRITICAL]: { maxAttempts: 5, jitter: 0 } },
+        byTaskType: { [TaskType.FEATURE]: { maxAttempts: 4 } }
+      });
+
+      const policy = manager.getPolicy(createTask({ priority: Priority.CRITICAL }));
+
+      expect(policy.maxAttempts).toBe(4);
+      expect(policy.jitter).toBe(0);
+      expect(policy.initialDelay).toBe(DEFAULT_RETRY_POLICY.initialDelay);
+    });
+  });
+
+  describe('computeDelay', () => {
+    it('should back off exponentially up to the cap', () => {
+      const manager = new RetryManager();
+      const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 100, maxDelay: 500, jitter: 0 };
+
+      expect([1, 2, 3, 4].map(attempt => manager.computeDelay(policy, attempt))).toEqual([
+        100, 200, 400, 500
+      ]);
+    });
+
+    it('should keep jittered delays within the jitter range', () => {
+      const manager = new RetryManager();
+      const policy = { ...DEFAULT_RETRY_POLICY, initialDelay: 1000, jitter: 0.5 };
+
+      for (let i = 0; i < 20; i++) {
+        const delay = manager.computeDelay(policy, 1);
+        expect(delay).toBeGreaterThanOrEqual(500);
+        expect(delay).toBeLessThanOrEqual(1500);
+      }
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should exclude an agent after reassignAfter failures on it', () => {
+      const manager = new RetryManager({
+        default: { ...DEFAULT_RETRY_POLICY, maxAttempts: 5, reassignAfter: 2 }
+      });
+      const task = createTask();
+
+      const first = manager.recordFailure(task, failure('boom'), 'agent-a');
+      const second = manager.recordFailure(task, failure('boom'), 'agent-a');
+
+      expect(first.retry).toBe(true);
+      expect(first.excludeAgents).toEqual([]);
+      expect(second.excludeAgents).toEqual(['agent-a']);
+      expect(RetryManager.getHistory(task).map(entry => entry.attempt)).toEqual([1, 2]);
+    });
+
+    it('should move capability failures to another agent without delay', () => {
+      const manager = new RetryManager();
+      const decision = manager.recordFailure(
+        createTask(),
+        failure('Agent a cannot handle task of type test'),
+        'agent-a'
+      );
+
+      expect(decision).toMatchObject({ retry: true, delay: 0, excludeAgents: ['agent-a'] });
+    });
+
+    it('should not retry cancelled tasks', () => {
+      const manager = new RetryManager();
+      const decision = manager.recordFailure(createTask(), failure('x', { cancelled: true }));
+
+      expect(decision.retry).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,502 @@
+import { EventEmitter } from 'events';
+import { TaskManager } from '../../../src/tasks/task-manager';
+import { DEFAULT_RETRY_POLICY } from '../../../src/tasks/retry-policy';
+import { AgentRegistry } from '../../../src/agents/agent-registry';
+import { eventBus, SystemEvent } from '../../../src/core/events';
+import { agentActionLimiter } from '../../../src/utils/rate-limiter';
+import { AgentRole, AgentStatus, AgentConfig, IAgent } from '../../../src/types/agent.types';
+import { Task, TaskResult, TaskStatus, TaskType, Priority } from '../../../src/types/task.types';
+
+class FakeAgent extends EventEmitter implements IAgent {
+  public name: string;
+  public capabilities = [];
+  public status = AgentStatus.ACTIVE;
+  public workingDirectory = '/tmp';
+  public lastActivity = new Date();
+  public metadata = {};
+  public metrics = {
+    tasksCompleted: 0,
+    averageTaskDuration: 0,
+    successRate: 1,
+    codeQualityScore: 85,
+    collaborationScore: 0,
+    lastActivityTime: new Date()
+  };
+  public executed: Task[] = [];
+
+  constructor(public id: string, public role: AgentRole, private succeed = true) {
+    super();
+    this.name = id;
+  }
+
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+  async restart(): Promise<void> {}
+  async sendMessage(): Promise<void> {}
+  async cancelTask(): Promise<void> {}
+  getAvailableTaskSlots(): number {
+    return this.status === AgentStatus.ACTIVE ? 1 : 0;
+  }
+  async updateStatus(status: AgentStatus): Promise<void> {
+    this.status = status;
+  }
+  async getHealth(): Promise<any> {
+    return { status: this.status };
+  }
+
+  async executeTask(task: Task): Promise<TaskResult> {
+    this.executed.push(task);
+    return {
+      taskId: task.id,
+      success: this.succeed,
+      error: this.succeed ? undefined : 'boom',
+      duration: 1,
+      metadata: {},
+      changedFiles: [],
+      completedAt: new Date()
+    };
+  }
+}
+
+const agentConfig = (agent: FakeAgent): AgentConfig => ({
+  id: agent.id,
+  name: agent.name,
+  role: agent.role,
+  workingDirectory: agent.workingDirectory,
+  capabilities: [],
+  maxConcurrentTasks: 1,
+  healthCheckInterval: 30000,
+  settings: {}
+});
+
+describe('TaskManager', () => {
+  let registry: AgentRegistry;
+  let taskManager: TaskManager;
+
+  const taskInput = {
+    title: 'Add login form',
+    description: 'Create the login form component',
+    type: TaskType.FEATURE
+  };
+
+  beforeEach(() => {
+    registry = new AgentRegistry({
+      maxAgents: 5,
+      healthCheckInterval: 30000,
+      autoRestart: false,
+      loadBalancing: 'capability-based'
+    });
+    taskManager = new TaskManager(registry, { autoDispatch: false });
+  });
+
+  afterEach(() => {
+    eventBus.removeAllListeners();
+    eventBus.clearHistory();
+  });
+
+  describe('createTask', () => {
+    it('should create a pending task with defaults and emit TASK_CREATED', () => {
+      const task = taskManager.createTask(taskInput);
+
+      expect(task.status).toBe(TaskStatus.PENDING);
+      expect(task.priority).toBe(Priority.MEDIUM);
+      expect(task.progress).toBe(0);
+      expect(taskManager.getTask(task.id)).toBe(task);
+      expect(eventBus.getEventHistory(SystemEvent.TASK_CREATED)).toHaveLength(1);
+    });
+
+    it('should order pending tasks by priority then creation time', () => {
+      const low = taskManager.createTask({ ...taskInput, priority: Priority.LOW });
+      const critical = taskManager.createTask({ ...taskInput, priority: Priority.CRITICAL });
+
+      expect(taskManager.getPendingTasks().map(t => t.id)).toEqual([critical.id, low.id]);
+    });
+  });
+
+  describe('updateTaskStatus', () => {
+    it('should reject invalid transitions', () => {
+      const task = taskManager.createTask(taskInput);
+
+      expect(() => taskManager.updateTaskStatus(task.id, TaskStatus.COMPLETED)).toThrow(
+        /Invalid task status transition/
+      );
+    });
+
+    it('should emit TASK_BLOCKED when a task is blocked', () => {
+      const task = taskManager.createTask(taskInput);
+
+      taskManager.blockTask(task.id, 'Waiting on API');
+
+      expect(task.status).toBe(TaskStatus.BLOCKED);
+      expect(eventBus.getEventHistory(SystemEvent.TASK_BLOCKED)).toHaveLength(1);
+    });
+
+    it('should not allow leaving a terminal state', () => {
+      const task = taskManager.createTask(taskInput);
+      taskManager.cancelTask(task.id);
+
+      expect(() => taskManager.updateTaskStatus(task.id, TaskStatus.PENDING)).toThrow();
+    });
+  });
+
+  describe('dispatchTask', () => {
+    it('should execute the task on the assigned agent and complete it', async () => {
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const task = taskManager.createTask(taskInput);
+
+      const result = await taskManager.dispatchTask(task.id);
+
+      expect(result.success).toBe(true);
+      expect(agent.executed).toEqual([task]);
+      expect(task.assignedAgent).toBe('backend-001');
+      expect(task.status).toBe(TaskStatus.COMPLETED);
+      expect(task.progress).toBe(100);
+      expect(taskManager.getTaskResult(task.id)).toBe(result);
+    });
+
+    it('should leave the task in REVIEW when auto-approve is disabled', async () => {
+      taskManager = new TaskManager(registry, { autoDispatch: false, autoApprove: false });
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const task = taskManager.createTask(taskInput);
+
+      await taskManager.dispatchTask(task.id);
+      expect(task.status).toBe(TaskStatus.REVIEW);
+
+      taskManager.approveTask(task.id);
+      expect(task.status).toBe(TaskStatus.COMPLETED);
+    });
+
+    it('should mark the task failed when the agent reports failure', async () => {
+      taskManager = new TaskManager(registry, {
+        autoDispatch: false,
+        retry: { default: { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 } }
+      });
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND, false);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const task = taskManager.createTask(taskInput);
+
+      await taskManager.dispatchTask(task.id);
+
+      expect(task.status).toBe(TaskStatus.FAILED);
+    });
+  });
+
+  describe('retries', () => {
+    const retryConfig = {
+      default: { ...DEFAULT_RETRY_POLICY, initialDelay: 0, jitter: 0, reassignAfter: 1 }
+    };
+
+    it('should re-queue a failed task on another agent and record the history', async () => {
+      taskManager = new TaskManager(registry, { autoDispatch: false, retry: retryConfig });
+      const flaky = new FakeAgent('backend-001', AgentRole.BACKEND, false);
+      const steady = new FakeAgent('backend-002', AgentRole.BACKEND);
+      await registry.registerAgent(flaky, agentConfig(flaky));
+      const task = taskManager.createTask(taskInput);
+
+      await taskManager.dispatchTask(task.id, 'backend-001');
+
+      expect(task.status).toBe(TaskStatus.PENDING);
+      expect(task.assignedAgent).toBeUndefined();
+      expect(task.metadata.excludedAgents).toEqual(['backend-001']);
+      expect(task.metadata.retryHistory).toEqual([
+        expect.objectContaining({ attempt: 1, agentId: 'backend-001', failureClass: 'unknown' })
+      ]);
+      expect(eventBus.getEventHistory(SystemEvent.TASK_RETRY_SCHEDULED)).toHaveLength(1);
+
+      await registry.registerAgent(steady, agentConfig(steady));
+      await taskManager.processQueue();
+
+      expect(task.status).toBe(TaskStatus.COMPLETED);
+      expect(steady.executed).toEqual([task]);
+    });
+
+    it('should fail the task once the attempts are exhausted', async () => {
+      taskManager = new TaskManager(registry, {
+        autoDispatch: false,
+        retry: { default: { ...retryConfig.default, maxAttempts: 2 } }
+      });
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND, false);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const task = taskManager.createTask(taskInput);
+
+      await taskManager.dispatchTask(task.id);
+      await taskManager.dispatchTask(task.id);
+
+      expect(task.status).toBe(TaskStatus.FAILED);
+      expect(task.metadata.retryHistory).toHaveLength(2);
+    });
+
+    it('should retry a failed task manually as a fresh copy', async () => {
+      taskManager = new TaskManager(registry, {
+        autoDispatch: false,
+        retry: { default: { ...retryConfig.default, maxAttempts: 1 } }
+      });
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND, false);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const task = taskManager.createTask({ ...taskInput, tags: ['auth'], metadata: { ticket: 'MADO-7' } });
+      expect(() => taskManager.retryTask(task.id)).toThrow(/only failed or cancelled/);
+
+      await taskManager.dispatchTask(task.id);
+      const retry = taskManager.retryTask(task.id);
+
+      expect(retry.id).not.toBe(task.id);
+      expect(retry.status).toBe(TaskStatus.PENDING);
+      expect(retry.title).toBe(task.title);
+      expect(retry.tags).toEqual(['auth']);
+      expect(retry.metadata).toEqual({ ticket: 'MADO-7', retryOf: task.id });
+      expect(task.status).toBe(TaskStatus.FAILED);
+    });
+  });
+
+  describe('processQueue', () => {
+    it('should dispatch pending tasks to available agents', async () => {
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const task = taskManager.createTask(taskInput);
+
+      await taskManager.processQueue();
+
+      expect(task.status).toBe(TaskStatus.COMPLETED);
+    });
+
+    it('should leave tasks pending when no agent is available', async () => {
+      const task = taskManager.createTask(taskInput);
+
+      await taskManager.processQueue();
+
+      expect(task.status).toBe(TaskStatus.PENDING);
+    });
+
+    it('should not dispatch a task again while its assignment is pending', async () => {
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const assign = registry.assignTaskToAgent.bind(registry);
+      jest.spyOn(registry, 'assignTaskToAgent').mockImplementation(async (task, agentId) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return assign(task, agentId);
+      });
+      const task = taskManager.createTask(taskInput);
+
+      const first = taskManager.processQueue();
+      await new Promise(resolve => setImmediate(resolve));
+      await taskManager.processQueue();
+      await expect(taskManager.dispatchTask(task.id)).rejects.toThrow(`Task ${task.id} is already being dispatched`);
+      await first;
+
+      expect(agent.executed).toHaveLength(1);
+      expect(task.status).toBe(TaskStatus.COMPLETED);
+    });
+
+    it('should not start a task cancelled while its agent was being assigned', async () => {
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const task = taskManager.createTask(taskInput);
+      const assign = registry.assignTaskToAgent.bind(registry);
+      jest.spyOn(registry, 'assignTaskToAgent').mockImplementation(async (assigned, agentId) => {
+        const assignment = await assign(assigned, agentId);
+        taskManager.cancelTask(task.id);
+        return assignment;
+      });
+      const unassigned = jest.fn();
+      registry.on('task:unassigned', unassigned);
+
+      const result = await taskManager.dispatchTask(task.id);
+
+      expect(result).toMatchObject({ success: false, error: `Task ${task.id} is cancelled; it was not started` });
+      expect(task.status).toBe(TaskStatus.CANCELLED);
+      expect(task.assignedAgent).toBeUndefined();
+      expect(agent.executed).toHaveLength(0);
+      expect(unassigned).toHaveBeenCalledWith(expect.objectContaining({ taskId: task.id, agentId: agent.id }));
+      expect(registry.getAgentStatistics().totalTaskAssignments).toBe(0);
+      expect(taskManager.getDispatchableTasks()).toEqual([]);
+    });
+
+    it('should hold tasks back while an agent is over its claim rate', async () => {
+      agentActionLimiter.configure({ enabled: true, ratePerMinute: 60, burst: 1 });
+      try {
+        const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+        await registry.registerAgent(agent, agentConfig(agent));
+        const first = taskManager.createTask(taskInput);
+        const second = taskManager.createTask({ ...taskInput, title: 'Second' });
+
+        await taskManager.processQueue();
+        await taskManager.processQueue();
+
+        expect(first.status).toBe(TaskStatus.COMPLETED);
+        expect(second.status).toBe(TaskStatus.PENDING);
+      } finally {
+        await taskManager.cleanup();
+        agentActionLimiter.configure({ enabled: false, ratePerMinute: 30, burst: 10 });
+      }
+    });
+  });
+
+  describe('drain', () => {
+    it('should stop dispatching and wait for running tasks to finish', async () => {
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      let finish: () => void = () => undefined;
+      const execute = agent.executeTask.bind(agent);
+      agent.executeTask = task => new Promise(resolve => {
+        finish = () => resolve(execute(task));
+      });
+      await registry.registerAgent(agent, agentConfig(agent));
+      const running = taskManager.createTask(taskInput);
+      const dispatched = taskManager.dispatchTask(running.id);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(running.status).toBe(TaskStatus.IN_PROGRESS);
+
+      const draining = taskManager.drain(5000);
+      const queued = taskManager.createTask({ ...taskInput, title: 'Queued' });
+      await taskManager.processQueue();
+      finish();
+
+      expect(await draining).toEqual([]);
+      await dispatched;
+      expect(running.status).toBe(TaskStatus.COMPLETED);
+      expect(queued.status).toBe(TaskStatus.PENDING);
+    });
+
+    it('should give up after the grace period and report what is still running', async () => {
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      agent.executeTask = () => new Promise(() => undefined);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const stuck = taskManager.createTask(taskInput);
+      void taskManager.dispatchTask(stuck.id);
+      await new Promise(resolve => setImmediate(resolve));
+
+      const unfinished = await taskManager.drain(20);
+
+      expect(unfinished).toEqual([stuck]);
+    });
+
+    it('should queue tasks the shutdown cancels again rather than fail them', async () => {
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      let cancel: () => void = () => undefined;
+      agent.executeTask = task => new Promise(resolve => {
+        cancel = () => resolve({
+          taskId: task.id,
+          success: false,
+          error: `Task ${task.id} cancelled: Agent shutdown`,
+          duration: 1,
+          metadata: { cancelled: true },
+          changedFiles: [],
+          completedAt: new Date()
+        });
+      });
+      await registry.registerAgent(agent, agentConfig(agent));
+      const interrupted = taskManager.createTask(taskInput);
+      const dispatched = taskManager.dispatchTask(interrupted.id);
+      await new Promise(resolve => setImmediate(resolve));
+
+      await taskManager.drain(20);
+      cancel();
+      await dispatched;
+
+      expect(interrupted.status).toBe(TaskStatus.PENDING);
+      expect(interrupted.assignedAgent).toBeUndefined();
+      expect(interrupted.metadata.retryHistory).toBeUndefined();
+    });
+  });
+
+  describe('dependencies', () => {
+    const input = (id: string, dependencies: string[] = [], dependencyTypes = {}) => ({
+      ...taskInput,
+      id,
+      dependencies,
+      metadata: { dependencyTypes }
+    });
+
+    it('should hold dependents in BLOCKED until prerequisites complete', async () => {
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const [api, ui] = taskManager.createTasks([input('api'), input('ui', ['api'])]);
+
+      expect(ui.status).toBe(TaskStatus.BLOCKED);
+      expect(taskManager.getPendingTasks()).toEqual([api]);
+
+      await taskManager.dispatchTask('api');
+
+      expect(api.status).toBe(TaskStatus.COMPLETED);
+      expect(ui.status).toBe(TaskStatus.PENDING);
+    });
+
+    it('should not unblock a task before its prerequisites finish', async () => {
+      const agent = new FakeAgent('backend-001', AgentRole.BACKEND);
+      await registry.registerAgent(agent, agentConfig(agent));
+      const [, ui] = taskManager.createTasks([input('api'), input('ui', ['api'])]);
+
+      expect(() => taskManager.unblockTask('ui')).toThrow('Task ui is still waiting on prerequisites: api');
+      expect(ui.status).toBe(TaskStatus.BLOCKED);
+
+      await taskManager.dispatchTask('api');
+      taskManager.blockTask('ui', 'Needs a design review');
+      expect(taskManager.unblockTask('ui').status).toBe(TaskStatus.PENDING);
+    });
+
+    it('should create batches in topological order and reject cycles', () => {
+      const created = taskManager.createTasks([input('b', ['a']), input('a')]);
+      expect(created.map(t => t.id)).toEqual(['a', 'b']);
+
+      expect(() => taskManager.createTasks([input('x', ['y']), input('y', ['x'])])).toThrow(
+        /Dependency cycle detected: (x -> y -> x|y -> x -> y)/
+      );
+      expect(taskManager.getTask('x')).toBeUndefined();
+    });
+
+    it('should reject unknown prerequisites', () => {
+      expect(() => taskManager.createTask(input('a', ['missing']))).toThrow(/unknown task missing/);
+      expect(() => taskManager.createTasks([input('b'), input('c', ['b', 'typo'])])).toThrow(/unknown task typo/);
+      expect(taskManager.getAllTasks()).toEqual([]);
+    });
+
+    it('should reject a batch that repeats an id', () => {
+      expect(() => taskManager.createTasks([input('a'), input('b', ['a']), input('a')])).toThrow(
+        'Task a appears more than once in the batch'
+      );
+      expect(taskManager.getAllTasks()).toEqual([]);
+    });
+
+    it('should cancel a new task whose blocking prerequisite already failed or was cancelled', () => {
+      taskManager.createTasks([input('base'), input('child', ['base'])]);
+      taskManager.cancelTask('base');
+
+      taskManager.createTasks([
+        input('late', ['base']),
+        input('after', ['late']),
+        input('optional', ['base'], { base: 'waits_for' })
+      ]);
+      expect(taskManager.getTask('late')!.status).toBe(TaskStatus.CANCELLED);
+      expect(taskManager.getTask('after')!.status).toBe(TaskStatus.CANCELLED);
+      expect(taskManager.getTask('optional')!.status).toBe(TaskStatus.PENDING);
+
+      const retry = taskManager.retryTask('child');
+      expect(retry.status).toBe(TaskStatus.CANCELLED);
+      expect(taskManager.getTasksByStatus(TaskStatus.BLOCKED)).toEqual([]);
+    });
+
+    it('should cascade-cancel blocks dependents but release enhances dependents', () => {
+      taskManager.createTasks([
+        input('base'),
+        input('blocked', ['base']),
+        input('grandchild', ['blocked']),
+        input('enhanced', ['base'], { base: 'enhances' })
+      ]);
+
+      taskManager.cancelTask('base');
+
+      expect(taskManager.getTask('blocked')!.status).toBe(TaskStatus.CANCELLED);
+      expect(taskManager.getTask('grandchild')!.status).toBe(TaskStatus.CANCELLED);
+      expect(taskManager.getTask('enhanced')!.status).toBe(TaskStatus.PENDING);
+    });
+
+    it('should reject addDependency calls that would create a cycle', () => {
+      taskManager.createTasks([input('a'), input('b', ['a'])]);
+
+      expect(() =>
+        taskManager.addDependency({ taskId: 'a', dependsOn: 'b', type: 'waits_for' })
+      ).toThrow('Dependency cycle detected: a -> b -> a');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { TaskRecovery } from '../../../src/tasks/task-recovery';
+import { TaskManager } from '../../../src/tasks/task-manager';
+import { PersistentStore } from '../../../src/storage/store';
+import { AgentRegistry } from '../../../src/agents/agent-registry';
+import { eventBus, SystemEvent } from '../../../src/core/events';
+import { worktreeOwner } from '../../../src/git/worktree';
+import { WorktreeInfo } from '../../../src/types/git.types';
+import { Task, TaskStatus } from '../../../src/types/task.types';
+import { createTask } from '../../helpers/tasks';
+
+const makeTask = (id: string, overrides: Partial<Task> = {}): Task => createTask({
+  id,
+  title: `Task ${id}`,
+  status: TaskStatus.PENDING,
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+});
+
+class FakeWorktrees {
+  public checkpoints: Array<{ agentId: string; message: string }> = [];
+  public failCheckpoint = false;
+
+  constructor(
+    private worktrees: WorktreeInfo[],
+    private changes: Record<string, string[]> = {}
+  ) {}
+
+  async discoverWorktrees(): Promise<WorktreeInfo[]> {
+    return this.worktrees;
+  }
+
+  getWorktreeForAgent(agentId: string): WorktreeInfo | undefined {
+    return this.worktrees.find(worktree => worktree.id === agentId);
+  }
+
+  async getUncommittedChanges(agentId: string): Promise<string[]> {
+    return this.changes[agentId] || [];
+  }
+
+  async checkpointWorktree(agentId: string, message: string) {
+    this.checkpoints.push({ agentId, message });
+    return this.failCheckpoint
+      ? { success: false, error: 'index.lock exists', duration: 0 }
+      : { success: true, output: 'abc1234', duration: 0 };
+  }
+}
+
+const worktree = (id: string): WorktreeInfo => ({
+  id,
+  agentId: worktreeOwner(id),
+  path: `/repo/worktrees/agent-${id}`,
+  branch: `refs/heads/agent-${id}-1`,
+  status: 'active',
+  lastActivity: new Date()
+});
+
+describe('TaskRecovery', () => {
+  let store: PersistentStore;
+  let taskManager: TaskManager;
+
+  beforeEach(async () => {
+    store = new PersistentStore(':memory:');
+    await store.initialize();
+    const registry = new AgentRegistry({
+      maxAgents: 5,
+      healthCheckInterval: 30000,
+      autoRestart: false,
+      loadBalancing: 'capability-based'
+    });
+    taskManager = new TaskManager(registry, { autoDispatch: false });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    eventBus.removeAllListeners();
+    eventBus.clearHistory();
+  });
+
+  it('resumes a task whose worktree is clean on the same agent', async () => {
+    await store.saveTask(makeTask('t1', { status: TaskStatus.IN_PROGRESS, assignedAgent: 'a1' }));
+    const worktrees = new FakeWorktrees([worktree('a1')]);
+
+    const report = await new TaskRecovery(taskManager, store, worktrees).recover();
+
+    expect(report.tasks).toHaveLength(1);
+    expect(report.tasks[0].action).toBe('resumed');
+    expect(worktrees.checkpoints).toHaveLength(0);
+
+    const task = taskManager.getTask('t1')!;
+    expect(task.status).toBe(TaskStatus.PENDING);
+    expect(task.assignedAgent).toBeUndefined();
+    expect(task.metadata.preferredAgent).toBe('a1');
+    expect(task.metadata.recovery.action).toBe('resumed');
+  });
+
+  it('checkpoints uncommitted work before resuming', async () => {
+    await store.saveTask(makeTask('t1', { status: TaskStatus.IN_PROGRESS, assignedAgent: 'a1' }));
+    const worktrees = new FakeWorktrees([worktree('a1')], { a1: ['src/login.ts', 'src/new.ts'] });
+
+    const report = await new TaskRecovery(taskManager, store, worktrees).recover();
+
+    expect(report.tasks[0]).toMatchObject({
+      action: 'checkpointed',
+      checkpointCommit: 'abc1234',
+      changedFiles: ['src/login.ts', 'src/new.ts']
+    });
+    expect(worktrees.checkpoints[0].agentId).toBe('a1');
+    expect(worktrees.checkpoints[0].message).toContain('Task t1');
+    expect(report.worktrees[0].uncommittedChanges).toHaveLength(2);
+    expect(taskManager.getTask('t1')!.metadata.preferredAgent).toBe('a1');
+  });
+
+  it('checkpoints changes left in a task slot worktree under its agent', async () => {
+    await store.saveTask(makeTask('t1', { status: TaskStatus.IN_PROGRESS, assignedAgent: 'a1' }));
+    const worktrees = new FakeWorktrees([worktree('a1'), worktree('a1-slot-2')], { 'a1-slot-2': ['src/half-done.ts'] });
+
+    const report = await new TaskRecovery(taskManager, store, worktrees).recover();
+
+    expect(report.tasks[0]).toMatchObject({ action: 'resumed', worktree: '/repo/worktrees/agent-a1' });
+    expect(worktrees.checkpoints).toHaveLength(1);
+    expect(worktrees.checkpoints[0].agentId).toBe('a1-slot-2');
+    expect(report.worktrees[1]).toMatchObject({
+      id: 'a1-slot-2',
+      agentId: 'a1',
+      uncommittedChanges: ['src/half-done.ts'],
+      checkpointCommit: 'abc1234'
+    });
+  });
+
+  it('leaves changes in place when the checkpoint fails', async () => {
+    await store.saveTask(makeTask('t1', { status: TaskStatus.ASSIGNED, assignedAgent: 'a1' }));
+    const worktrees = new FakeWorktrees([worktree('a1')], { a1: ['src/login.ts'] });
+    worktrees.failCheckpoint = true;
+
+    const report = await new TaskRecovery(taskManager, store, worktrees).recover();
+
+    expect(report.tasks[0].action).toBe('resumed');
+    expect(report.tasks[0].reason).toContain('index.lock exists');
+    expect(taskManager.getTask('t1')!.metadata.preferredAgent).toBe('a1');
+  });
+
+  it('requeues a task whose worktree is gone for any agent', async () => {
+    await store.saveTask(makeTask('t1', { status: TaskStatus.IN_PROGRESS, assignedAgent: 'gone' }));
+
+    const report = await new TaskRecovery(taskManager, store, new FakeWorktrees([])).recover();
+
+    expect(report.tasks[0].action).toBe('requeued');
+    const task = taskManager.getTask('t1')!;
+    expect(task.status).toBe(TaskStatus.PENDING);
+    expect(task.metadata.preferredAgent).toBeUndefined();
+  });
+
+  it('restores queued tasks with their finished prerequisites', async () => {
+    await store.saveTask(makeTask('done', { status: TaskStatus.COMPLETED }));
+    await store.saveTask(makeTask('running', { status: TaskStatus.IN_PROGRESS, assignedAgent: 'a1' }));
+    await store.saveTask(makeTask('next', { dependencies: ['done'] }));
+    await store.saveTask(makeTask('waiting', { status: TaskStatus.BLOCKED, dependencies: ['running'] }));
+
+    const report = await new TaskRecovery(taskManager, store, new FakeWorktrees([worktree('a1')])).recover();
+
+    expect(report.restoredTasks).toBe(3);
+    expect(taskManager.getTask('done')!.status).toBe(TaskStatus.COMPLETED);
+    expect(taskManager.getPendingTasks().map(task => task.id)).toEqual(['running', 'next']);
+
+    // The blocked dependent is released once its prerequisite completes
+    taskManager.updateTaskStatus('running', TaskStatus.ASSIGNED);
+    taskManager.updateTaskStatus('running', TaskStatus.IN_PROGRESS);
+    taskManager.updateTaskStatus('running', TaskStatus.REVIEW);
+    taskManager.approveTask('running');
+    expect(taskManager.getTask('waiting')!.status).toBe(TaskStatus.PENDING);
+  });
+
+  it('emits a recovery report', async () => {
+    await store.saveTask(makeTask('t1', { status: TaskStatus.IN_PROGRESS, assignedAgent: 'a1' }));
+
+    await new TaskRecovery(taskManager, store, new FakeWorktrees([worktree('a1')])).recover();
+
+    const events = eventBus.getEventHistory(SystemEvent.SYSTEM_RECOVERED);
+    expect(events).toHaveLength(1);
+    expect(events[0].metadata.data.tasks[0].taskId).toBe('t1');
+  });
+});
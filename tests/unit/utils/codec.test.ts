@@ -0,0 +1,109 @@
+import * as crypto from 'crypto';
+import { EnvelopeCodec, CodecError, CodecOptions, parseEncryptionKey } from '../../../src/utils/codec';
+import { ConfigManager } from '../../../src/core/config';
+import { MessageBus } from '../../../src/communication/message-bus';
+import { MessageType } from '../../../src/types/message.types';
+import { Priority } from '../../../src/types/task.types';
+
+const key = crypto.randomBytes(32);
+
+const message = () => MessageBus.createMessage('orchestrator', ['agent-001', 'agent-002'], MessageType.TASK_ASSIGNMENT, {
+  task: { id: 'task-1', createdAt: new Date('2024-01-01T10:00:00Z'), tags: ['api'], progress: 0.5 },
+  notes: 'ü'.repeat(200)
+}, {
+  priority: Priority.HIGH,
+  expiresAt: new Date('2024-01-02T10:00:00Z'),
+  metadata: { attempt: 1 }
+});
+
+const combinations: Array<[string, Partial<CodecOptions>]> = [];
+for (const serialization of ['json', 'msgpack'] as const) {
+  for (const compression of [false, 'zlib', 'brotli'] as const) {
+    for (const encrypted of [false, true]) {
+      combinations.push([
+        `${serialization}, ${compression || 'uncompressed'}, ${encrypted ? 'encrypted' : 'plain'}`,
+        { serialization, compression, encryptionKey: encrypted ? key : undefined }
+      ]);
+    }
+  }
+}
+
+describe('EnvelopeCodec', () => {
+  it.each(combinations)('should round-trip a message (%s)', (_name, options) => {
+    const codec = new EnvelopeCodec(options);
+    const original = message();
+
+    const decoded = codec.decode(codec.encode(original));
+
+    expect(decoded).toEqual(original);
+    expect(decoded.timestamp).toBeInstanceOf(Date);
+    expect(decoded.expiresAt).toBeInstanceOf(Date);
+    expect(decoded.content.task.createdAt).toBeInstanceOf(Date);
+    expect('correlationId' in decoded).toBe(false);
+  });
+
+  it('should decode envelopes written with other settings', () => {
+    const writer = new EnvelopeCodec({ serialization: 'msgpack', compression: 'brotli', encryptionKey: key });
+    const reader = new EnvelopeCodec({ encryptionKey: key });
+
+    expect(reader.decode(writer.encode({ ok: true }))).toEqual({ ok: true });
+  });
+
+  it('should compress repetitive payloads', () => {
+    const plain = new EnvelopeCodec().encode(message());
+    expect(new EnvelopeCodec({ compression: 'zlib' }).encode(message()).length).toBeLessThan(plain.length);
+    expect(new EnvelopeCodec({ compression: 'brotli' }).encode(message()).length).toBeLessThan(plain.length);
+  });
+
+  it('should reject a wrong key, tampering and missing keys', () => {
+    const encoded = new EnvelopeCodec({ encryptionKey: key }).encode(message());
+
+    expect(() => new EnvelopeCodec({ encryptionKey: crypto.randomBytes(32) }).decode(encoded)).toThrow(CodecError);
+    expect(() => new EnvelopeCodec().decode(encoded)).toThrow(/no encryption key/);
+
+    const tampered = Buffer.from(encoded);
+    tampered[tampered.length - 1] ^= 0xff;
+    expect(() => new EnvelopeCodec({ encryptionKey: key }).decode(tampered)).toThrow(CodecError);
+
+    // The header is authenticated, so flags cannot be flipped either
+    const reflagged = Buffer.from(encoded);
+    reflagged[2] |= 0x04;
+    expect(() => new EnvelopeCodec({ encryptionKey: key }).decode(reflagged)).toThrow(CodecError);
+  });
+
+  it('should reject data that is not an envelope', () => {
+    expect(() => new EnvelopeCodec().decode(Buffer.from('{"id":1}'))).toThrow(/Not an encoded envelope/);
+  });
+
+  describe('fromConfig', () => {
+    const messaging = () => new ConfigManager().createDefaultConfig().messaging;
+
+    it('should build the pipeline from messaging settings', () => {
+      const codec = EnvelopeCodec.fromConfig({
+        ...messaging(),
+        serialization: 'msgpack',
+        compression: true,
+        compressionAlgorithm: 'brotli',
+        encryption: true,
+        encryptionKey: key.toString('hex')
+      });
+
+      const encoded = codec.encode({ ok: true });
+      expect(encoded[2]).toBe(0x01 | (0x02 << 2) | 0x10);
+      expect(codec.decode(encoded)).toEqual({ ok: true });
+    });
+
+    it('should refuse encryption without a key and unsupported formats', () => {
+      expect(() => EnvelopeCodec.fromConfig({ ...messaging(), encryption: true })).toThrow(CodecError);
+      expect(() => EnvelopeCodec.fromConfig({ ...messaging(), serialization: 'protobuf' as any })).toThrow(/not supported/);
+    });
+  });
+
+  describe('parseEncryptionKey', () => {
+    it('should accept hex and base64 keys of 32 bytes', () => {
+      expect(parseEncryptionKey(key.toString('hex'))).toEqual(key);
+      expect(parseEncryptionKey(key.toString('base64'))).toEqual(key);
+      expect(() => parseEncryptionKey('too-short')).toThrow(CodecError);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { RateLimiter } from '../../../src/utils/rate-limiter';
+
+describe('RateLimiter', () => {
+  let now: number;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    now = 0;
+    // One token per second, three in the bucket
+    limiter = new RateLimiter({ enabled: true, ratePerMinute: 60, burst: 3 }, () => now);
+  });
+
+  it('should allow a burst and then report when the next token arrives', () => {
+    expect([1, 2, 3].map(() => limiter.consume('a').allowed)).toEqual([true, true, true]);
+
+    const denied = limiter.consume('a');
+    expect(denied).toEqual({ allowed: false, limit: 3, remaining: 0, retryAfter: 1000 });
+
+    now = 400;
+    expect(limiter.consume('a').retryAfter).toBe(600);
+
+    now = 1000;
+    expect(limiter.consume('a')).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('should keep separate buckets per key and never refill past the burst', () => {
+    limiter.consume('a', 3);
+    expect(limiter.consume('b').allowed).toBe(true);
+
+    now = 60000;
+    expect(limiter.check('a').remaining).toBe(2);
+    expect(limiter.consume('a', 4).allowed).toBe(false);
+  });
+
+  it('should not take tokens when only checking', () => {
+    expect(limiter.check('a', 3).allowed).toBe(true);
+    expect(limiter.consume('a', 3).allowed).toBe(true);
+    expect(limiter.check('a').allowed).toBe(false);
+  });
+
+  it('should allow everything when disabled', () => {
+    limiter.configure({ enabled: false, ratePerMinute: 60, burst: 3 });
+    expect([1, 2, 3, 4, 5].every(() => limiter.consume('a').allowed)).toBe(true);
+  });
+
+  it('should wait for a token in acquire', async () => {
+    jest.useFakeTimers();
+    try {
+      limiter.consume('a', 3);
+      let acquired = false;
+      const pending = limiter.acquire('a').then(() => {
+        acquired = true;
+      });
+
+      await Promise.resolve();
+      expect(acquired).toBe(false);
+
+      now = 1000;
+      await jest.advanceTimersByTimeAsync(1000);
+      await pending;
+      expect(acquired).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should stop waiting in acquire when the signal aborts', async () => {
+    jest.useFakeTimers();
+    try {
+      limiter.consume('a', 3);
+      const controller = new AbortController();
+      const pending = limiter.acquire('a', 1, controller.signal);
+
+      controller.abort(new Error('Task cancelled'));
+      await expect(pending).rejects.toThrow('Task cancelled');
+      expect(jest.getTimerCount()).toBe(0);
+
+      now = 1000;
+      await expect(limiter.acquire('a', 1, controller.signal)).rejects.toThrow('Task cancelled');
+      expect(limiter.check('a').allowed).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject an acquire that costs more than the burst', async () => {
+    await expect(limiter.acquire('a', 4)).rejects.toThrow('Cannot acquire 4 tokens for a; the burst is 3');
+    expect(limiter.check('a', 3).allowed).toBe(true);
+  });
+});